@@ -0,0 +1,538 @@
+import { promises as fs } from 'fs';
+import { homedir, hostname } from 'os';
+import { join } from 'path';
+import { CacheMode } from './cache.js';
+import {
+  BATCH_CHUNK_SIZES,
+  BatchOperation,
+  BatchOperationType,
+  BatchProcessingResult,
+  mergeBatchResults,
+  processBatchChunk,
+  setBatchOperationItem
+} from './pubmed-api.js';
+import { ItemResult, errorItem } from './item-results.js';
+import { runWorkerPool } from './worker-pool.js';
+
+// Background batch jobs: batch operations run outside the tool call that started
+// them, with per-PMID progress, cancellation and paged results. Every job is
+// checkpointed to disk after each chunk, so a restarted server resumes
+// unfinished jobs where they stopped.
+//
+// Files per job in the jobs directory:
+//   <id>.json           task state, rewritten after each chunk
+//   <id>.results.jsonl  chunk results, appended once per chunk
+//   <id>.lock           owning server process (pid, host, heartbeat) while the job runs
+//   <id>.cancel         cancellation request for a job owned by another process
+//
+// Several server processes (one per MCP client) may share the directory; a job
+// is only run by the process holding its lock.
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchJobOptions {
+  maxConcurrency?: number; // Chunks processed at once (default: 3)
+  cacheMode?: CacheMode;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  pmids: string[];
+  operations: BatchOperationType[];
+  maxConcurrency: number;
+  cacheMode: CacheMode;
+  tasks: BatchOperation[]; // One per PMID and operation
+  // Kept in the results log, not in the state file. Only filled in for jobs
+  // running in this process and by getBatchJobResults.
+  results: BatchProcessingResult['results'];
+  resultChunks: number[]; // Chunks in the results log that belong to the job
+  chunkCount: number;
+  error?: string;
+}
+
+interface BatchJobLock {
+  pid: number;
+  hostname: string;
+  heartbeatAt: string;
+}
+
+interface ResultsLogEntry {
+  chunk: number;
+  results: BatchProcessingResult['results'];
+}
+
+export interface BatchJobProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  processing: number;
+  pending: number;
+  cancelled: number;
+}
+
+export interface BatchJobResultsPage {
+  jobId: string;
+  status: BatchJobStatus;
+  operation: BatchOperationType;
+  offset: number;
+  limit: number;
+  total: number;
+  items: unknown[];
+  failed: ItemResult[]; // Result items of the PMIDs that failed
+}
+
+export type BatchJobListener = (job: BatchJob, progress: BatchJobProgress) => void;
+
+const DEFAULT_MAX_CONCURRENCY = 3;
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// A lock without a heartbeat for this long belongs to a process that is gone
+const LOCK_STALE_MS = 60 * 1000;
+
+// Outside the cache directory, so clearing the cache does not drop jobs
+const DEFAULT_JOBS_DIRECTORY = join(homedir(), '.local', 'state', 'pubmed-mcp-server', 'jobs');
+
+const FINISHED_STATUSES: BatchJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const jobs = new Map<string, BatchJob>();
+const running = new Set<string>();
+const cancelRequests = new Set<string>();
+const listeners = new Map<string, Set<BatchJobListener>>();
+
+// File writes are chained per job so they land in order
+const writes = new Map<string, Promise<void>>();
+
+function jobsDirectory(): string {
+  return process.env.PUBMED_JOBS_DIR || DEFAULT_JOBS_DIRECTORY;
+}
+
+function jobFile(id: string): string {
+  return join(jobsDirectory(), `${id}.json`);
+}
+
+function resultsFile(id: string): string {
+  return join(jobsDirectory(), `${id}.results.jsonl`);
+}
+
+function lockFile(id: string): string {
+  return join(jobsDirectory(), `${id}.lock`);
+}
+
+function cancelFile(id: string): string {
+  return join(jobsDirectory(), `${id}.cancel`);
+}
+
+function enqueueWrite(id: string, description: string, write: () => Promise<void>): Promise<void> {
+  const next = (writes.get(id) || Promise.resolve()).then(async () => {
+    try {
+      await fs.mkdir(jobsDirectory(), { recursive: true });
+      await write();
+    } catch (error) {
+      console.error(`${description} failed for batch job ${id}:`, error);
+    }
+  });
+  writes.set(id, next);
+  return next;
+}
+
+// Write the task state; results go to the results log
+function checkpoint(job: BatchJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  const { results, ...state } = job;
+  const data = JSON.stringify(state);
+  return enqueueWrite(job.id, 'Checkpoint', async () => {
+    const tmpFile = `${jobFile(job.id)}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFile, data, 'utf8');
+    await fs.rename(tmpFile, jobFile(job.id));
+  });
+}
+
+function appendResults(job: BatchJob, entry: ResultsLogEntry): Promise<void> {
+  const line = `${JSON.stringify(entry)}\n`;
+  return enqueueWrite(job.id, 'Writing results', () => fs.appendFile(resultsFile(job.id), line, 'utf8'));
+}
+
+// Rebuild a job's results from its log. A chunk that was logged but not
+// checkpointed is run again after a restart, so the last entry of a chunk wins
+// and entries of chunks missing from the state are skipped.
+async function loadResults(job: BatchJob): Promise<BatchProcessingResult['results']> {
+  let log: string;
+  try {
+    log = await fs.readFile(resultsFile(job.id), 'utf8');
+  } catch {
+    return {};
+  }
+
+  const entries = new Map<number, ResultsLogEntry>();
+  for (const line of log.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as ResultsLogEntry;
+      entries.delete(entry.chunk);
+      entries.set(entry.chunk, entry);
+    } catch {
+      // Line cut short by a crash
+    }
+  }
+
+  const committed = new Set(job.resultChunks);
+  const results: BatchProcessingResult['results'] = {};
+  entries.forEach(entry => {
+    if (committed.has(entry.chunk)) mergeBatchResults(results, entry.results);
+  });
+  return results;
+}
+
+async function loadJob(id: string, withResults: boolean = false): Promise<BatchJob | undefined> {
+  if (!/^[\w-]+$/.test(id)) return undefined;
+  let job: BatchJob;
+  try {
+    job = JSON.parse(await fs.readFile(jobFile(id), 'utf8')) as BatchJob;
+  } catch {
+    return undefined;
+  }
+  // Jobs checkpointed before the results log kept their results in the state file
+  job.results = job.results || {};
+  job.resultChunks = job.resultChunks || [];
+  job.chunkCount = job.chunkCount || 0;
+  // Only the state-file view is kept in memory; results are read from the log when asked for
+  jobs.set(job.id, job);
+  if (!withResults) return job;
+
+  const results = { ...job.results };
+  mergeBatchResults(results, await loadResults(job));
+  return { ...job, results };
+}
+
+function ownLock(): BatchJobLock {
+  return { pid: process.pid, hostname: hostname(), heartbeatAt: new Date().toISOString() };
+}
+
+async function readLock(id: string): Promise<BatchJobLock | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(lockFile(id), 'utf8')) as BatchJobLock;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    // Being written by its owner: judge it by its age
+    const stat = await fs.stat(lockFile(id)).catch(() => undefined);
+    return stat ? { pid: 0, hostname: '', heartbeatAt: stat.mtime.toISOString() } : undefined;
+  }
+}
+
+function isLockHeld(id: string, lock: BatchJobLock): boolean {
+  if (Date.now() - Date.parse(lock.heartbeatAt) > LOCK_STALE_MS) return false;
+  // Processes on other hosts sharing the directory can only be judged by their heartbeat
+  if (lock.hostname !== hostname()) return true;
+  if (lock.pid === process.pid) return running.has(id);
+  try {
+    process.kill(lock.pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Take the job's lock unless a live process holds it
+async function acquireLock(id: string): Promise<boolean> {
+  await fs.mkdir(jobsDirectory(), { recursive: true });
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await fs.writeFile(lockFile(id), JSON.stringify(ownLock()), { encoding: 'utf8', flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const lock = await readLock(id);
+      if (lock && isLockHeld(id, lock)) return false;
+      // Left behind by a process that stopped without releasing it
+      await fs.rm(lockFile(id), { force: true });
+    }
+  }
+  return false;
+}
+
+function releaseLock(id: string): Promise<void> {
+  return enqueueWrite(id, 'Releasing lock', async () => {
+    await fs.rm(lockFile(id), { force: true });
+    await fs.rm(cancelFile(id), { force: true });
+  });
+}
+
+function heartbeat(id: string): Promise<void> {
+  return enqueueWrite(id, 'Heartbeat', async () => {
+    const tmpFile = `${lockFile(id)}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(ownLock()), 'utf8');
+    await fs.rename(tmpFile, lockFile(id));
+  });
+}
+
+// Pick up cancellation requested by another server process
+async function checkCancelRequest(id: string): Promise<void> {
+  try {
+    await fs.access(cancelFile(id));
+    cancelRequests.add(id);
+  } catch {
+    // No request
+  }
+}
+
+// Reserve a job for this process. Fails when it already runs here or a live
+// process elsewhere holds its lock.
+async function claimJob(id: string): Promise<boolean> {
+  if (running.has(id)) return false;
+  running.add(id);
+  try {
+    if (await acquireLock(id)) return true;
+  } catch (error) {
+    console.error(`Cannot lock batch job ${id}:`, error);
+  }
+  running.delete(id);
+  return false;
+}
+
+export function isBatchJobFinished(job: BatchJob): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+export function batchJobProgress(job: BatchJob, operation?: BatchOperationType): BatchJobProgress {
+  const tasks = operation ? job.tasks.filter(task => task.operation === operation) : job.tasks;
+  const count = (status: BatchOperation['status']) => tasks.filter(task => task.status === status).length;
+  return {
+    total: tasks.length,
+    completed: count('completed'),
+    failed: count('error'),
+    processing: count('processing'),
+    pending: count('pending'),
+    cancelled: count('cancelled')
+  };
+}
+
+function notify(job: BatchJob): void {
+  const progress = batchJobProgress(job);
+  listeners.get(job.id)?.forEach(listener => {
+    try {
+      listener(job, progress);
+    } catch (error) {
+      console.error(`Batch job listener failed for ${job.id}:`, error);
+    }
+  });
+}
+
+// Subscribe to progress updates of a job; returns the unsubscribe function
+export function onBatchJobProgress(id: string, listener: BatchJobListener): () => void {
+  const jobListeners = listeners.get(id) || new Set<BatchJobListener>();
+  jobListeners.add(listener);
+  listeners.set(id, jobListeners);
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) listeners.delete(id);
+  };
+}
+
+// Work through the job's pending tasks chunk by chunk. The job must be claimed.
+async function runJob(job: BatchJob): Promise<void> {
+  const heartbeatTimer = setInterval(() => {
+    void heartbeat(job.id);
+    void checkCancelRequest(job.id);
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref();
+
+  try {
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    await checkpoint(job);
+    notify(job);
+
+    const units: { operation: BatchOperationType; tasks: BatchOperation[] }[] = [];
+    for (const operation of job.operations) {
+      const pending = job.tasks.filter(task => task.operation === operation && task.status === 'pending');
+      for (let i = 0; i < pending.length; i += BATCH_CHUNK_SIZES[operation]) {
+        units.push({ operation, tasks: pending.slice(i, i + BATCH_CHUNK_SIZES[operation]) });
+      }
+    }
+
+    await runWorkerPool(units, job.maxConcurrency, async ({ operation, tasks }) => {
+      tasks.forEach(task => { task.status = 'processing'; });
+      notify(job);
+
+      try {
+        const { results, items } = await processBatchChunk(operation, tasks.map(task => task.pmid), job.cacheMode);
+        const chunk = job.chunkCount++;
+        await appendResults(job, { chunk, results });
+        mergeBatchResults(job.results, results);
+        job.resultChunks.push(chunk);
+        tasks.forEach(task => setBatchOperationItem(task, items.find(item => item.id === task.pmid)));
+      } catch (error) {
+        tasks.forEach(task => setBatchOperationItem(task, errorItem(task.pmid, error)));
+      }
+
+      await checkpoint(job);
+      await checkCancelRequest(job.id);
+      notify(job);
+    }, () => cancelRequests.has(job.id));
+
+    if (cancelRequests.has(job.id)) {
+      job.tasks.filter(task => task.status === 'pending').forEach(task => { task.status = 'cancelled'; });
+      job.status = 'cancelled';
+    } else {
+      job.status = 'completed';
+    }
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    clearInterval(heartbeatTimer);
+    job.finishedAt = new Date().toISOString();
+    await checkpoint(job);
+    await releaseLock(job.id);
+    running.delete(job.id);
+    cancelRequests.delete(job.id);
+    notify(job);
+  }
+}
+
+// Create a job and start it in the background
+export async function startBatchJob(
+  pmids: string[],
+  operations: BatchOperationType[],
+  options: BatchJobOptions = {}
+): Promise<BatchJob> {
+  const now = new Date().toISOString();
+  const uniqueOperations = [...new Set(operations)];
+  const job: BatchJob = {
+    id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    pmids,
+    operations: uniqueOperations,
+    maxConcurrency: Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY),
+    cacheMode: options.cacheMode ?? 'default',
+    tasks: uniqueOperations.flatMap(operation => pmids.map(pmid => ({ pmid, operation, status: 'pending' as const }))),
+    results: {},
+    resultChunks: [],
+    chunkCount: 0
+  };
+
+  jobs.set(job.id, job);
+  if (!(await claimJob(job.id))) {
+    throw new Error(`Cannot lock new batch job ${job.id} in ${jobsDirectory()}`);
+  }
+  await checkpoint(job);
+  void runJob(job);
+  return job;
+}
+
+// Jobs run by another server process are read from disk again to pick up their progress
+export async function getBatchJob(id: string): Promise<BatchJob | undefined> {
+  if (running.has(id)) return jobs.get(id);
+  return await loadJob(id) || jobs.get(id);
+}
+
+// Jobs in the jobs directory, newest first
+export async function listBatchJobs(): Promise<BatchJob[]> {
+  try {
+    const files = await fs.readdir(jobsDirectory());
+    for (const file of files) {
+      const id = file.match(/^(.+)\.json$/)?.[1];
+      if (id && !running.has(id)) await loadJob(id);
+    }
+  } catch {
+    // No jobs directory yet
+  }
+  return [...jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Request cancellation. Chunks already in flight finish; pending tasks are dropped.
+export async function cancelBatchJob(id: string): Promise<BatchJob | undefined> {
+  const job = await getBatchJob(id);
+  if (!job || isBatchJobFinished(job)) return job;
+
+  if (running.has(id)) {
+    cancelRequests.add(id);
+    return job;
+  }
+
+  if (await claimJob(id)) {
+    // Checkpointed but not running anywhere (e.g. not yet resumed)
+    const latest = await loadJob(id, true) || job;
+    latest.tasks.filter(task => task.status === 'pending' || task.status === 'processing').forEach(task => { task.status = 'cancelled'; });
+    latest.status = 'cancelled';
+    latest.finishedAt = new Date().toISOString();
+    await checkpoint(latest);
+    await releaseLock(id);
+    running.delete(id);
+    notify(latest);
+    return latest;
+  }
+
+  // Running in another server process, which stops after its chunks in flight
+  await enqueueWrite(id, 'Cancellation request', () => fs.writeFile(cancelFile(id), new Date().toISOString(), 'utf8'));
+  return job;
+}
+
+// Split accumulated RIS output into one entry per record
+function risRecords(ris: string): string[] {
+  return ris.split(/\r?\n(?=TY  - )/).map(record => record.trim()).filter(Boolean);
+}
+
+// Page through the outputs of one operation
+export async function getBatchJobResults(
+  id: string,
+  operation: BatchOperationType,
+  offset: number = 0,
+  limit: number = 20
+): Promise<BatchJobResultsPage | undefined> {
+  const job = running.has(id) ? jobs.get(id) : await loadJob(id, true);
+  if (!job) return undefined;
+
+  const { results } = job;
+  const items: unknown[] = {
+    abstract: () => results.abstracts || [],
+    citations: () => results.citations || [],
+    similar: () => Object.entries(results.similar || {}).map(([pmid, articles]) => ({ pmid, articles })),
+    ris_export: () => risRecords(results.risExports || ''),
+    full_text: () => results.fullTexts || []
+  }[operation]();
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    operation,
+    offset,
+    limit,
+    total: items.length,
+    items: items.slice(offset, offset + limit),
+    failed: job.tasks
+      .filter(task => task.operation === operation && task.status === 'error')
+      .map(task => task.item || errorItem(task.pmid, task.error || 'Unknown error'))
+  };
+}
+
+// Resume jobs that were queued or running when their server stopped. Jobs
+// locked by a live server process are left to it.
+export async function resumeBatchJobs(): Promise<BatchJob[]> {
+  const resumed: BatchJob[] = [];
+  for (const listed of await listBatchJobs()) {
+    if (isBatchJobFinished(listed) || !(await claimJob(listed.id))) continue;
+
+    // Re-read the state left by the previous owner
+    const job = await loadJob(listed.id, true);
+    if (!job || isBatchJobFinished(job)) {
+      await releaseLock(listed.id);
+      running.delete(listed.id);
+      continue;
+    }
+    // Chunks that were in flight when the server stopped are run again
+    job.tasks.filter(task => task.status === 'processing').forEach(task => { task.status = 'pending'; });
+    jobs.set(job.id, job);
+    void runJob(job);
+    resumed.push(job);
+  }
+  return resumed;
+}
@@ -0,0 +1,598 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { CacheMode } from './cache.js';
+import { expandPageRange } from './citation-export.js';
+import { ArticleAuthor, PubMedArticle, getArticleItems } from './pubmed-api.js';
+import { ItemResult, withoutData } from './item-results.js';
+
+// Formatted reference lists. Citation styles are plain data: author-list rules,
+// in-text marker rules and a template per record type. Teams can add journal
+// styles as JSON files in CITATION_STYLES_DIR without code changes.
+//
+// Template syntax:
+//   {field}      value of a field (see TemplateField)
+//   [ ... ]      optional group, dropped when any field directly inside it is empty
+//   *text*       italics
+//   \x           literal character x (for \[ \] \{ \} \*)
+
+export type BibliographyOutput = 'text' | 'markdown' | 'html';
+
+export type CitationMode = 'numeric' | 'author-date';
+
+export type TemplateField =
+  | 'authors' | 'editors' | 'title' | 'journal' | 'journalAbbrev'
+  | 'year' | 'date' | 'volume' | 'issue' | 'pages'
+  | 'doi' | 'doiUrl' | 'pmid' | 'pmcid' | 'url'
+  | 'editorsLabel' | 'bookTitle' | 'publisher' | 'place' | 'edition';
+
+export interface AuthorListFormat {
+  initials: 'compact' | 'dotted' | 'dotted-compact'; // "SD", "S. D." or "S.D."
+  nameOrder?: 'family-first' | 'initials-first'; // "Adam, M. P." (default) or "M. P. Adam"
+  nameSeparator: string; // Between family name and initials, e.g. " " or ", "
+  delimiter: string;
+  lastDelimiter: string; // Before the final name, e.g. ", & " (APA) or " and " (Harvard)
+  pairDelimiter?: string; // Between the names of a two-name list, if not lastDelimiter
+  maxAuthors: number; // 0 lists all authors
+  truncateTo: number; // Names kept when maxAuthors is exceeded
+  etAl: string; // Appended after truncated lists, e.g. ", et al"
+  ellipsisLast?: boolean; // APA 7: first truncateTo names, "...", then the last author
+}
+
+export interface InTextFormat {
+  numeric: string; // e.g. "[{n}]"
+  superscript?: boolean; // Numeric markers rendered as superscript (text output keeps the template)
+  lastDelimiter: string; // Before the last name in markers, e.g. " & " or " and "
+  etAlMin: number; // Author count from which "et al." is used
+  etAl: string; // e.g. " et al."
+  yearDelimiter: string; // Between names and year, e.g. ", " or " "
+}
+
+// Book editors are listed with the author-list rules plus these overrides
+export interface EditorListFormat extends Partial<AuthorListFormat> {
+  label: string; // {editorsLabel} for one editor, e.g. "Ed." or "editor"
+  pluralLabel: string; // {editorsLabel} for several editors, e.g. "Eds." or "editors"
+}
+
+export interface CitationStyle {
+  id: string;
+  name: string;
+  description?: string;
+  citationMode: CitationMode; // Default in-text marker style
+  authors: AuthorListFormat;
+  editors: EditorListFormat;
+  inText: InTextFormat;
+  pages: { expand: boolean; rangeDelimiter: string };
+  template: string; // Journal articles
+  bookTemplate: string; // Bookshelf books and chapters
+}
+
+// Custom style files may extend a built-in style and override parts of it
+export type CustomStyleDefinition = Partial<Omit<CitationStyle, 'authors' | 'editors' | 'inText' | 'pages'>> & {
+  id: string;
+  extends?: string;
+  authors?: Partial<AuthorListFormat>;
+  editors?: Partial<EditorListFormat>;
+  inText?: Partial<InTextFormat>;
+  pages?: Partial<CitationStyle['pages']>;
+};
+
+export interface BibliographyOptions {
+  style?: string;
+  output?: BibliographyOutput;
+  citationMode?: CitationMode;
+  cacheMode?: CacheMode;
+}
+
+export interface BibliographyEntry {
+  pmid: string;
+  marker: string; // In-text marker, e.g. "[1]" or "(Smith et al., 2020)"
+  reference: string; // Formatted reference in the requested output format
+}
+
+export interface BibliographyResult {
+  style: string;
+  styleName: string;
+  citationMode: CitationMode;
+  output: BibliographyOutput;
+  entries: BibliographyEntry[]; // In bibliography order
+  bibliography: string; // Complete reference list
+  missingPmids: string[]; // PMIDs left out of the list
+  items: ItemResult[]; // One per PMID
+}
+
+const VANCOUVER_AUTHORS: AuthorListFormat = {
+  initials: 'compact',
+  nameSeparator: ' ',
+  delimiter: ', ',
+  lastDelimiter: ', ',
+  maxAuthors: 6,
+  truncateTo: 6,
+  etAl: ', et al'
+};
+
+const VANCOUVER_EDITORS: EditorListFormat = {
+  label: 'editor',
+  pluralLabel: 'editors'
+};
+
+const NUMERIC_IN_TEXT: InTextFormat = {
+  numeric: '[{n}]',
+  lastDelimiter: ' and ',
+  etAlMin: 3,
+  etAl: ' et al.',
+  yearDelimiter: ' '
+};
+
+const BUILT_IN_STYLES: CitationStyle[] = [
+  {
+    id: 'vancouver',
+    name: 'Vancouver (ICMJE)',
+    description: 'ICMJE recommendations; up to 6 authors, then "et al."',
+    citationMode: 'numeric',
+    authors: VANCOUVER_AUTHORS,
+    editors: VANCOUVER_EDITORS,
+    inText: NUMERIC_IN_TEXT,
+    pages: { expand: false, rangeDelimiter: '-' },
+    template: '[{authors}. ]{title}. {journalAbbrev}. {date}[;{volume}][({issue})][:{pages}].[ doi:{doi}]',
+    bookTemplate: '[{authors}. ]{title}. [In: {editors}, {editorsLabel}. ][{bookTitle}. ][[{place}: ]{publisher}; ]{year}.'
+  },
+  {
+    id: 'nlm',
+    name: 'NLM (Citing Medicine)',
+    description: 'National Library of Medicine style; all authors, with PMID and PMCID',
+    citationMode: 'numeric',
+    authors: { ...VANCOUVER_AUTHORS, maxAuthors: 0 },
+    editors: VANCOUVER_EDITORS,
+    inText: NUMERIC_IN_TEXT,
+    pages: { expand: false, rangeDelimiter: '-' },
+    template: '[{authors}. ]{title}. {journalAbbrev}. {date}[;{volume}][({issue})][:{pages}].[ doi: {doi}.] PMID: {pmid}[; PMCID: {pmcid}].',
+    bookTemplate: '[{authors}. ]{title}. [In: {editors}, {editorsLabel}. ][{bookTitle} \\[Internet\\]. ][[{place}: ]{publisher}; ]{year}. PMID: {pmid}.'
+  },
+  {
+    id: 'ama',
+    name: 'AMA (11th edition)',
+    description: 'American Medical Association; up to 6 authors, otherwise the first 3 and "et al"',
+    citationMode: 'numeric',
+    authors: { ...VANCOUVER_AUTHORS, truncateTo: 3 },
+    editors: { label: 'ed', pluralLabel: 'eds' },
+    inText: { ...NUMERIC_IN_TEXT, numeric: '{n}', superscript: true },
+    pages: { expand: true, rangeDelimiter: '-' },
+    template: '[{authors}. ]{title}. *{journalAbbrev}*. {year}[;{volume}][({issue})][:{pages}].[ doi:{doi}]',
+    bookTemplate: '[{authors}. ]{title}. [In: {editors}, {editorsLabel}. ][*{bookTitle}*. ][{publisher}; ]{year}.'
+  },
+  {
+    id: 'apa',
+    name: 'APA (7th edition)',
+    description: 'American Psychological Association; up to 20 authors, author-date citations',
+    citationMode: 'author-date',
+    authors: {
+      initials: 'dotted',
+      nameSeparator: ', ',
+      delimiter: ', ',
+      lastDelimiter: ', & ',
+      maxAuthors: 20,
+      truncateTo: 19,
+      etAl: '',
+      ellipsisLast: true
+    },
+    // "In M. P. Adam & J. Feldman (Eds.),"
+    editors: {
+      nameOrder: 'initials-first',
+      nameSeparator: ' ',
+      pairDelimiter: ' & ',
+      label: 'Ed.',
+      pluralLabel: 'Eds.'
+    },
+    inText: {
+      numeric: '[{n}]',
+      lastDelimiter: ' & ',
+      etAlMin: 3,
+      etAl: ' et al.',
+      yearDelimiter: ', '
+    },
+    pages: { expand: true, rangeDelimiter: '–' },
+    template: '[{authors} ]({year}). {title}. *{journal}*[, *{volume}*][({issue})][, {pages}].[ {doiUrl}]',
+    bookTemplate: '[{authors} ]({year}). {title}. [In {editors} ({editorsLabel}), ][*{bookTitle}*. ][{publisher}.][ {url}]'
+  },
+  {
+    id: 'harvard',
+    name: 'Harvard',
+    description: 'Harvard author-date style (Cite Them Right)',
+    citationMode: 'author-date',
+    authors: {
+      initials: 'dotted-compact',
+      nameSeparator: ', ',
+      delimiter: ', ',
+      lastDelimiter: ' and ',
+      maxAuthors: 0,
+      truncateTo: 0,
+      etAl: ''
+    },
+    editors: { label: 'ed.', pluralLabel: 'eds.' },
+    inText: {
+      numeric: '[{n}]',
+      lastDelimiter: ' and ',
+      etAlMin: 4,
+      etAl: ' et al.',
+      yearDelimiter: ', '
+    },
+    pages: { expand: true, rangeDelimiter: '-' },
+    template: "[{authors} ]({year}) '{title}', *{journal}*[, {volume}][({issue})][, pp. {pages}].[ doi:{doi}.]",
+    bookTemplate: "[{authors} ]({year}) '{title}', [in {editors} ({editorsLabel}) ][*{bookTitle}*. ][[{place}: ]{publisher}.]"
+  }
+];
+
+let customStyles: Map<string, CitationStyle> | null = null;
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'field'; name: string }
+  | { type: 'italic' }
+  | { type: 'group'; children: TemplateNode[] };
+
+interface Segment {
+  text: string;
+  italic: boolean;
+}
+
+// Parse a style template into literal text, fields, italics toggles and optional groups
+function parseTemplate(template: string): TemplateNode[] {
+  let position = 0;
+
+  const parseNodes = (inGroup: boolean): TemplateNode[] => {
+    const nodes: TemplateNode[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) nodes.push({ type: 'text', text });
+      text = '';
+    };
+
+    while (position < template.length) {
+      const char = template[position++];
+      if (char === '\\' && position < template.length) {
+        text += template[position++];
+      } else if (char === '{') {
+        const end = template.indexOf('}', position);
+        if (end < 0) throw new Error(`Unclosed field in template: ${template}`);
+        flushText();
+        nodes.push({ type: 'field', name: template.slice(position, end).trim() });
+        position = end + 1;
+      } else if (char === '[') {
+        flushText();
+        nodes.push({ type: 'group', children: parseNodes(true) });
+      } else if (char === ']') {
+        if (!inGroup) throw new Error(`Unbalanced ']' in template: ${template}`);
+        flushText();
+        return nodes;
+      } else if (char === '*') {
+        flushText();
+        nodes.push({ type: 'italic' });
+      } else {
+        text += char;
+      }
+    }
+
+    if (inGroup) throw new Error(`Unclosed '[' in template: ${template}`);
+    flushText();
+    return nodes;
+  };
+
+  return parseNodes(false);
+}
+
+// Render template nodes to styled segments. Literal punctuation that would double up
+// after a field ending in . ? or ! (e.g. "et al." + ".") is dropped.
+function renderTemplate(template: string, fields: Partial<Record<TemplateField, string>>): Segment[] {
+  const segments: Segment[] = [];
+  let italic = false;
+
+  const lastChar = () => {
+    for (let i = segments.length - 1; i >= 0; i--) {
+      if (segments[i].text) return segments[i].text[segments[i].text.length - 1];
+    }
+    return '';
+  };
+
+  const emit = (text: string) => {
+    if (/^[.]/.test(text) && /[.?!]/.test(lastChar())) {
+      text = text.slice(1);
+    }
+    if (text) segments.push({ text, italic });
+  };
+
+  const groupComplete = (nodes: TemplateNode[]) =>
+    nodes.every(node => node.type !== 'field' || !!fields[node.name as TemplateField]);
+
+  const renderNodes = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        emit(node.text);
+      } else if (node.type === 'field') {
+        emit(fields[node.name as TemplateField] || '');
+      } else if (node.type === 'italic') {
+        italic = !italic;
+      } else if (groupComplete(node.children)) {
+        renderNodes(node.children);
+      } else {
+        // Keep italics balanced when a group is dropped
+        italic = node.children.filter(child => child.type === 'italic').length % 2 === 1 ? !italic : italic;
+      }
+    }
+  };
+
+  renderNodes(parseTemplate(template));
+  return segments;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([*_`\\])/g, '\\$1');
+}
+
+function segmentsToString(segments: Segment[], output: BibliographyOutput): string {
+  return segments.map(segment => {
+    if (output === 'html') {
+      return segment.italic ? `<i>${escapeHtml(segment.text)}</i>` : escapeHtml(segment.text);
+    }
+    if (output === 'markdown') {
+      // Keep surrounding spaces outside the emphasis markers
+      const match = segment.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      return segment.italic && match[2] ? `${match[1]}*${escapeMarkdown(match[2])}*${match[3]}` : escapeMarkdown(segment.text);
+    }
+    return segment.text;
+  }).join('').replace(/\s+/g, ' ').trim();
+}
+
+function initialsOf(author: ArticleAuthor, format: AuthorListFormat['initials']): string {
+  const letters = author.initials
+    ? [...author.initials]
+    : (author.foreName || '').split(/[\s-]+/).filter(Boolean).map(name => name[0]);
+  if (format === 'compact') return letters.join('');
+  return letters.map(letter => `${letter}.`).join(format === 'dotted' ? ' ' : '');
+}
+
+function formatName(author: ArticleAuthor, format: AuthorListFormat): string {
+  if (!author.lastName) return author.collectiveName || 'Anonymous';
+  const initials = initialsOf(author, format.initials);
+  if (format.nameOrder === 'initials-first') {
+    const name = initials ? `${initials}${format.nameSeparator}${author.lastName}` : author.lastName;
+    return author.suffix ? `${name} ${author.suffix}` : name;
+  }
+  const name = initials ? `${author.lastName}${format.nameSeparator}${initials}` : author.lastName;
+  return author.suffix ? `${name}${format.initials === 'compact' ? ' ' : ', '}${author.suffix}` : name;
+}
+
+function formatAuthorList(authors: ArticleAuthor[], format: AuthorListFormat): string {
+  const names = authors.map(author => formatName(author, format));
+  if (names.length === 0) return '';
+  if (names.length === 1) return names[0];
+  if (names.length === 2 && format.pairDelimiter !== undefined) return names.join(format.pairDelimiter);
+
+  if (format.maxAuthors > 0 && names.length > format.maxAuthors) {
+    if (format.ellipsisLast) {
+      return `${names.slice(0, format.truncateTo).join(format.delimiter)}, ... ${names[names.length - 1]}`;
+    }
+    return `${names.slice(0, format.truncateTo).join(format.delimiter)}${format.etAl}`;
+  }
+
+  return `${names.slice(0, -1).join(format.delimiter)}${format.lastDelimiter}${names[names.length - 1]}`;
+}
+
+function familyName(author: ArticleAuthor): string {
+  return author.lastName || author.collectiveName || 'Anonymous';
+}
+
+function firstAuthorName(article: PubMedArticle): string {
+  return article.authorList[0] ? familyName(article.authorList[0]) : article.title;
+}
+
+// Author part of an author-date marker: "Smith", "Smith & Jones" or "Smith et al."
+function inTextAuthors(article: PubMedArticle, format: InTextFormat): string {
+  const authors = article.authorList;
+  if (authors.length === 0) return article.title.split(/\s+/).slice(0, 3).join(' ');
+  if (authors.length >= format.etAlMin) return `${familyName(authors[0])}${format.etAl}`;
+  const names = authors.map(familyName);
+  if (names.length === 1) return names[0];
+  return `${names.slice(0, -1).join(', ')}${format.lastDelimiter}${names[names.length - 1]}`;
+}
+
+function templateFields(article: PubMedArticle, style: CitationStyle, yearSuffix: string): Partial<Record<TemplateField, string>> {
+  const isSection = !!article.book && article.title !== article.book.title;
+  const editors = article.book?.editors || [];
+  const { label, pluralLabel, ...editorFormat } = style.editors;
+  let pages = article.pages;
+  if (pages) {
+    pages = (style.pages.expand ? expandPageRange(pages) : pages).replace(/-/g, style.pages.rangeDelimiter);
+  }
+
+  return {
+    authors: formatAuthorList(article.authorList, style.authors),
+    editors: formatAuthorList(editors, { ...style.authors, ...editorFormat }),
+    editorsLabel: editors.length > 1 ? pluralLabel : editors.length === 1 ? label : undefined,
+    title: article.title.replace(/\.$/, ''), // PubMed titles end with a period; styles add their own punctuation
+    journal: article.book ? undefined : article.journal,
+    journalAbbrev: article.book ? undefined : (article.journalAbbreviation || article.journal),
+    year: `${article.pubDate?.iso.slice(0, 4) || 'n.d.'}${yearSuffix}`,
+    date: article.publicationDate !== 'Unknown date' ? article.publicationDate : undefined,
+    volume: article.volume,
+    issue: article.issue,
+    pages,
+    doi: article.doi || undefined,
+    doiUrl: article.doi ? `https://doi.org/${article.doi}` : undefined,
+    pmid: article.pmid,
+    pmcid: article.pmcId || undefined,
+    url: article.url,
+    bookTitle: isSection ? article.book!.title : undefined,
+    publisher: article.book?.publisher,
+    place: article.book?.publisherLocation,
+    edition: article.book?.edition
+  };
+}
+
+// Merge a custom style definition onto the style it extends
+function resolveCustomStyle(definition: CustomStyleDefinition, base: CitationStyle | undefined): CitationStyle {
+  const parent = base ?? BUILT_IN_STYLES[0];
+  const style: CitationStyle = {
+    ...parent,
+    ...definition,
+    name: definition.name || definition.id,
+    authors: { ...parent.authors, ...definition.authors },
+    editors: { ...parent.editors, ...definition.editors },
+    inText: { ...parent.inText, ...definition.inText },
+    pages: { ...parent.pages, ...definition.pages },
+    // Standalone styles without a bookTemplate format books with their article template
+    bookTemplate: definition.bookTemplate ?? (base ? base.bookTemplate : definition.template!)
+  };
+  // Fail early on template syntax errors
+  parseTemplate(style.template);
+  parseTemplate(style.bookTemplate);
+  return style;
+}
+
+// Load custom styles from CITATION_STYLES_DIR (*.json, one style per file) on first use
+async function getCustomStyles(): Promise<Map<string, CitationStyle>> {
+  if (customStyles) return customStyles;
+
+  const styles = new Map<string, CitationStyle>();
+  const directory = process.env.CITATION_STYLES_DIR;
+  if (directory) {
+    let files: string[];
+    try {
+      files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      // Built-in styles keep working; the directory is not read again until restart
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Cannot read CITATION_STYLES_DIR ${directory}: ${errorMessage}`);
+      customStyles = styles;
+      return styles;
+    }
+    for (const file of files) {
+      try {
+        const definition = JSON.parse(await fs.readFile(join(directory, file), 'utf8')) as CustomStyleDefinition;
+        if (!definition.id || (!definition.template && !definition.extends)) {
+          throw new Error('a style needs an "id" and either a "template" or "extends"');
+        }
+        const base = definition.extends
+          ? BUILT_IN_STYLES.find(style => style.id === definition.extends) ?? styles.get(definition.extends)
+          : undefined;
+        if (definition.extends && !base) {
+          throw new Error(`unknown base style "${definition.extends}"`);
+        }
+        styles.set(definition.id, resolveCustomStyle(definition, base));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Skipping citation style ${file}: ${errorMessage}`);
+      }
+    }
+    console.error(`Loaded ${styles.size} custom citation styles from ${directory}`);
+  }
+
+  customStyles = styles;
+  return styles;
+}
+
+export async function listCitationStyles(): Promise<CitationStyle[]> {
+  return [...BUILT_IN_STYLES, ...(await getCustomStyles()).values()];
+}
+
+export async function getCitationStyle(id: string): Promise<CitationStyle> {
+  const style = (await listCitationStyles()).find(candidate => candidate.id === id.toLowerCase() || candidate.id === id);
+  if (!style) {
+    const available = (await listCitationStyles()).map(candidate => candidate.id).join(', ');
+    throw new Error(`Unknown citation style "${id}". Available styles: ${available}`);
+  }
+  return style;
+}
+
+// Render parsed article records as a reference list. Numeric lists keep the given order;
+// author-date lists are sorted by first author and year, with a/b suffixes for ties.
+export function renderBibliography(
+  articles: PubMedArticle[],
+  style: CitationStyle,
+  output: BibliographyOutput = 'text',
+  citationMode: CitationMode = style.citationMode
+): { entries: BibliographyEntry[]; bibliography: string } {
+  const ordered = citationMode === 'numeric'
+    ? [...articles]
+    : [...articles].sort((a, b) =>
+      firstAuthorName(a).localeCompare(firstAuthorName(b)) ||
+      (a.pubDate?.iso || '').localeCompare(b.pubDate?.iso || '') ||
+      a.title.localeCompare(b.title));
+
+  // Year suffixes for identical author-date markers (Smith 2020a, Smith 2020b)
+  const suffixes = new Map<string, string>();
+  if (citationMode === 'author-date') {
+    const groups = new Map<string, string[]>();
+    for (const article of ordered) {
+      const key = `${inTextAuthors(article, style.inText)}|${article.pubDate?.iso.slice(0, 4) || 'n.d.'}`;
+      groups.set(key, [...(groups.get(key) || []), article.pmid]);
+    }
+    for (const pmids of groups.values()) {
+      if (pmids.length > 1) {
+        pmids.forEach((pmid, index) => suffixes.set(pmid, String.fromCharCode(97 + (index % 26))));
+      }
+    }
+  }
+
+  const entries = ordered.map((article, index) => {
+    const suffix = suffixes.get(article.pmid) || '';
+    const template = article.book ? style.bookTemplate : style.template;
+    const reference = segmentsToString(renderTemplate(template, templateFields(article, style, suffix)), output);
+
+    let marker: string;
+    if (citationMode === 'numeric') {
+      const number = style.inText.numeric.replace('{n}', String(index + 1));
+      marker = style.inText.superscript && output !== 'text' ? `<sup>${index + 1}</sup>` : number;
+    } else {
+      const year = `${article.pubDate?.iso.slice(0, 4) || 'n.d.'}${suffix}`;
+      marker = `(${inTextAuthors(article, style.inText)}${style.inText.yearDelimiter}${year})`;
+    }
+
+    return { pmid: article.pmid, marker, reference };
+  });
+
+  let bibliography: string;
+  if (output === 'html') {
+    const items = entries.map(entry => `  <li>${entry.reference}</li>`).join('\n');
+    bibliography = citationMode === 'numeric'
+      ? `<ol class="references">\n${items}\n</ol>`
+      : `<ul class="references">\n${items}\n</ul>`;
+  } else if (citationMode === 'numeric') {
+    bibliography = entries.map((entry, index) => `${index + 1}. ${entry.reference}`).join('\n');
+  } else {
+    bibliography = entries.map(entry => entry.reference).join('\n\n');
+  }
+
+  return { entries, bibliography };
+}
+
+// Fetch PMIDs and format them as a reference list
+export async function formatBibliography(pmids: string[], options: BibliographyOptions = {}): Promise<BibliographyResult> {
+  const style = await getCitationStyle(options.style ?? 'vancouver');
+  const output = options.output ?? 'text';
+  const citationMode = options.citationMode ?? style.citationMode;
+  const uniquePmids = [...new Set(pmids.map(pmid => pmid.trim()).filter(Boolean))];
+
+  try {
+    const articleItems = await getArticleItems(uniquePmids, options.cacheMode);
+    const articles = articleItems.filter(item => item.data).map(item => item.data!);
+    const { entries, bibliography } = renderBibliography(articles, style, output, citationMode);
+
+    return {
+      style: style.id,
+      styleName: style.name,
+      citationMode,
+      output,
+      entries,
+      bibliography,
+      missingPmids: articleItems.filter(item => item.status !== 'ok').map(item => item.id),
+      items: articleItems.map(withoutData)
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Bibliography formatting failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,261 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+// Cache layer for PubMed records, citation links, full text and search results.
+// An in-memory LRU always sits in front; a JSON-file backend can be enabled
+// for persistence across sessions.
+
+export type CacheMode = 'default' | 'refresh' | 'offline';
+
+export type CacheRecordType = 'article' | 'fulltext' | 'links' | 'search' | 'mesh' | 'ids';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheConfig {
+  backend: 'memory' | 'file' | 'none';
+  directory: string;
+  maxEntries: number;
+  ttlSeconds: Record<CacheRecordType, number>;
+}
+
+// Default TTLs: article XML, full text and MeSH records are effectively immutable,
+// citation links and search counts change as PubMed is updated, and ID mappings
+// gain PMCIDs when embargoed articles are released
+const DEFAULT_TTL_SECONDS: Record<CacheRecordType, number> = {
+  article: 30 * 24 * 60 * 60,
+  fulltext: 30 * 24 * 60 * 60,
+  links: 24 * 60 * 60,
+  search: 15 * 60,
+  mesh: 30 * 24 * 60 * 60,
+  ids: 7 * 24 * 60 * 60
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+// In-memory LRU backend (Map preserves insertion order)
+export function createMemoryBackend(maxEntries: number = DEFAULT_MAX_ENTRIES): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Move to most recently used position
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    }
+  };
+}
+
+// JSON-file backend: one file per key, named by a hash of the key
+export function createFileBackend(directory: string): CacheBackend {
+  const fileFor = (key: string) => join(directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  let ready: Promise<void> | null = null;
+  const ensureDirectory = () => {
+    if (!ready) {
+      ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+    }
+    return ready;
+  };
+
+  return {
+    async get(key) {
+      try {
+        const data = await fs.readFile(fileFor(key), 'utf8');
+        const stored = JSON.parse(data);
+        return stored.key === key ? stored.entry : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      await ensureDirectory();
+      const file = fileFor(key);
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify({ key, entry }), 'utf8');
+      await fs.rename(tmpFile, file);
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    async clear() {
+      await fs.rm(directory, { recursive: true, force: true });
+      ready = null;
+    }
+  };
+}
+
+// Memory LRU in front of a slower persistent backend
+function createLayeredBackend(front: CacheBackend, back: CacheBackend): CacheBackend {
+  return {
+    async get(key) {
+      const entry = await front.get(key);
+      if (entry) return entry;
+      const stored = await back.get(key);
+      if (stored) {
+        await front.set(key, stored);
+      }
+      return stored;
+    },
+    async set(key, entry) {
+      await front.set(key, entry);
+      await back.set(key, entry);
+    },
+    async delete(key) {
+      await front.delete(key);
+      await back.delete(key);
+    },
+    async clear() {
+      await front.clear();
+      await back.clear();
+    }
+  };
+}
+
+function readTtl(type: CacheRecordType): number {
+  const value = parseInt(process.env[`PUBMED_CACHE_TTL_${type.toUpperCase()}`] || '', 10);
+  return Number.isNaN(value) ? DEFAULT_TTL_SECONDS[type] : Math.max(0, value);
+}
+
+// Read cache configuration from the environment
+export function getCacheConfig(): CacheConfig {
+  const backend = (process.env.PUBMED_CACHE || 'memory').toLowerCase();
+  const maxEntries = parseInt(process.env.PUBMED_CACHE_MAX_ENTRIES || '', 10);
+
+  return {
+    backend: backend === 'file' || backend === 'none' ? backend : 'memory',
+    directory: process.env.PUBMED_CACHE_DIR || join(homedir(), '.cache', 'pubmed-mcp-server'),
+    maxEntries: Number.isNaN(maxEntries) ? DEFAULT_MAX_ENTRIES : Math.max(1, maxEntries),
+    ttlSeconds: {
+      article: readTtl('article'),
+      fulltext: readTtl('fulltext'),
+      links: readTtl('links'),
+      search: readTtl('search'),
+      mesh: readTtl('mesh'),
+      ids: readTtl('ids')
+    }
+  };
+}
+
+let cacheConfig: CacheConfig | null = null;
+let cacheBackend: CacheBackend | null = null;
+
+function getBackend(): { config: CacheConfig; backend: CacheBackend | null } {
+  if (!cacheConfig) {
+    cacheConfig = getCacheConfig();
+    if (cacheConfig.backend === 'memory') {
+      cacheBackend = createMemoryBackend(cacheConfig.maxEntries);
+    } else if (cacheConfig.backend === 'file') {
+      cacheBackend = createLayeredBackend(
+        createMemoryBackend(cacheConfig.maxEntries),
+        createFileBackend(cacheConfig.directory)
+      );
+    }
+  }
+  return { config: cacheConfig, backend: cacheBackend };
+}
+
+// Replace the active backend (e.g. to plug in a custom store)
+export function setCacheBackend(backend: CacheBackend | null): void {
+  getBackend();
+  cacheBackend = backend;
+}
+
+export class OfflineCacheMissError extends Error {
+  constructor(type: CacheRecordType, key: string) {
+    super(`Offline mode: no cached ${type} record for "${key}"`);
+    this.name = 'OfflineCacheMissError';
+  }
+}
+
+// Read a single cached value. In offline mode expired entries are still
+// returned so that a previous session can be replayed without network access.
+export async function getCached<T>(
+  type: CacheRecordType,
+  key: string,
+  mode: CacheMode = 'default'
+): Promise<T | undefined> {
+  const { backend } = getBackend();
+  if (!backend || mode === 'refresh') return undefined;
+
+  try {
+    const entry = await backend.get(`${type}:${key}`);
+    if (!entry) return undefined;
+    if (mode === 'offline' || entry.expiresAt > Date.now()) {
+      return entry.value as T;
+    }
+  } catch (error) {
+    console.error(`Cache read failed for ${type}:${key}:`, error);
+  }
+  return undefined;
+}
+
+export async function setCached<T>(type: CacheRecordType, key: string, value: T): Promise<void> {
+  const { config, backend } = getBackend();
+  if (!backend) return;
+
+  const now = Date.now();
+  try {
+    await backend.set(`${type}:${key}`, {
+      value,
+      storedAt: now,
+      expiresAt: now + config.ttlSeconds[type] * 1000
+    });
+  } catch (error) {
+    console.error(`Cache write failed for ${type}:${key}:`, error);
+  }
+}
+
+// Return a cached value or load and store it, according to the cache mode
+export async function withCache<T>(
+  type: CacheRecordType,
+  key: string,
+  mode: CacheMode,
+  loader: () => Promise<T>
+): Promise<T> {
+  const cached = await getCached<T>(type, key, mode);
+  if (cached !== undefined) return cached;
+
+  if (mode === 'offline') {
+    throw new OfflineCacheMissError(type, key);
+  }
+
+  const value = await loader();
+  await setCached(type, key, value);
+  return value;
+}
+
+export async function clearCache(): Promise<void> {
+  const { backend } = getBackend();
+  await backend?.clear();
+}
@@ -0,0 +1,674 @@
+import { CacheMode } from './cache.js';
+import { LIT_CITATION_URL, ncbiFetch } from './eutils-client.js';
+import { ArticleAuthor, PubMedArticle, getArticleItems, risRecordPmids } from './pubmed-api.js';
+import { ItemResult, failedItem, withoutData } from './item-results.js';
+
+// Citation export in reference manager formats. Records are generated locally
+// from parsed efetch records; the NCBI Literature Citation Exporter (LitCiter)
+// can be used instead for the formats it supports.
+
+export type CitationFormat = 'ris' | 'bibtex' | 'csl-json' | 'medline' | 'endnote-xml' | 'csv';
+
+export type CitationSource = 'local' | 'litciter';
+
+export interface CitationExportOptions {
+  format?: CitationFormat;
+  source?: CitationSource;
+  cacheMode?: CacheMode;
+}
+
+export interface CitationExportResult {
+  format: CitationFormat;
+  source: CitationSource; // Source actually used (LitCiter failures fall back to local)
+  pmids: string[];
+  data: string;
+  exportedCount: number;
+  missingPmids: string[]; // PMIDs without an exported record
+  items: ItemResult[]; // One per PMID
+  warnings: string[];
+  fileExtension: string;
+  mimeType: string;
+}
+
+export const CITATION_FORMATS: Record<CitationFormat, { label: string; extension: string; mimeType: string }> = {
+  ris: { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+  medline: { label: 'MEDLINE (.nbib)', extension: 'nbib', mimeType: 'application/nbib' },
+  'endnote-xml': { label: 'EndNote XML', extension: 'xml', mimeType: 'application/xml' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+};
+
+// LitCiter format names for the formats it can produce
+const LITCITER_FORMATS: Partial<Record<CitationFormat, string>> = {
+  ris: 'ris',
+  medline: 'medline',
+  'csl-json': 'csl'
+};
+
+const LITCITER_BATCH_SIZE = 10;
+
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// MEDLINE tags for CommentsCorrections reference types
+const MEDLINE_COMMENT_TAGS: Record<string, string> = {
+  CommentOn: 'CON',
+  CommentIn: 'CIN',
+  ErratumIn: 'EIN',
+  ErratumFor: 'EFR',
+  RetractionIn: 'RIN',
+  RetractionOf: 'ROF',
+  PartialRetractionIn: 'PRIN',
+  PartialRetractionOf: 'PROF',
+  RetractedandRepublishedIn: 'RRI',
+  RetractedandRepublishedFrom: 'RRF',
+  CorrectedandRepublishedIn: 'CRI',
+  CorrectedandRepublishedFrom: 'CRF',
+  ExpressionOfConcernIn: 'ECI',
+  ExpressionOfConcernFor: 'ECF',
+  RepublishedIn: 'RPI',
+  RepublishedFrom: 'RPF',
+  UpdateIn: 'UIN',
+  UpdateOf: 'UOF'
+};
+
+// Combining diacritics to LaTeX accent commands (applied after NFD normalization)
+const LATEX_ACCENTS: Record<string, string> = {
+  '\u0300': '`',
+  '\u0301': "'",
+  '\u0302': '^',
+  '\u0303': '~',
+  '\u0304': '=',
+  '\u0306': 'u',
+  '\u0307': '.',
+  '\u0308': '"',
+  '\u030A': 'r',
+  '\u030B': 'H',
+  '\u030C': 'v',
+  '\u0327': 'c',
+  '\u0328': 'k'
+};
+
+const LATEX_LETTERS: Record<string, string> = {
+  'ß': '{\\ss}',
+  'ø': '{\\o}',
+  'Ø': '{\\O}',
+  'æ': '{\\ae}',
+  'Æ': '{\\AE}',
+  'œ': '{\\oe}',
+  'Œ': '{\\OE}',
+  'ł': '{\\l}',
+  'Ł': '{\\L}',
+  'ı': '{\\i}'
+};
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+function yearOf(article: PubMedArticle): string | undefined {
+  return article.pubDate?.iso.slice(0, 4);
+}
+
+function dateParts(article: PubMedArticle): number[] | undefined {
+  return article.pubDate?.iso.split('-').map(part => parseInt(part, 10));
+}
+
+// Letters that do not decompose into an ASCII base letter
+const ASCII_LETTERS: Record<string, string> = {
+  'ß': 'ss',
+  'ø': 'o',
+  'Ø': 'O',
+  'æ': 'ae',
+  'Æ': 'AE',
+  'œ': 'oe',
+  'Œ': 'OE',
+  'ł': 'l',
+  'Ł': 'L',
+  'đ': 'd',
+  'Đ': 'D',
+  'þ': 'th',
+  'Þ': 'Th',
+  'ı': 'i'
+};
+
+// ASCII-only form of a name for citation keys
+function asciiWord(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x00-\x7f]/g, char => ASCII_LETTERS[char] ?? '')
+    .replace(/[^A-Za-z0-9]/g, '');
+}
+
+// Stable citation key: first author's last name, year and PMID, e.g. Smith2020_36038128
+export function citationKey(article: PubMedArticle): string {
+  const first = article.authorList[0];
+  const name = asciiWord(first?.lastName || first?.collectiveName?.split(/\s+/)[0] || '') || 'Anonymous';
+  return `${name}${yearOf(article) || 'nd'}_${article.pmid}`;
+}
+
+// MEDLINE abbreviates page ranges ("123-9"); expand them for other formats ("123-129")
+export function expandPageRange(pages: string): string {
+  return pages.replace(/^([A-Za-z]*)(\d+)-([A-Za-z]*)(\d+)$/, (match, prefix, start, endPrefix, end) => {
+    if ((endPrefix && endPrefix !== prefix) || end.length >= start.length) return match;
+    return `${prefix}${start}-${prefix}${start.slice(0, start.length - end.length)}${end}`;
+  });
+}
+
+// "Last, First" with suffix, or the group name
+function invertedName(author: ArticleAuthor): string {
+  if (!author.lastName) return author.collectiveName || 'Anonymous';
+  return [author.lastName, author.suffix, author.foreName || author.initials].filter(Boolean).join(', ');
+}
+
+// Authors and editors of a record (book editors are only listed for Bookshelf records)
+function contributors(article: PubMedArticle) {
+  return { authors: article.authorList, editors: article.book?.editors || [] };
+}
+
+// Book sections have their own title; whole books only carry the book title
+function isBookSection(article: PubMedArticle): boolean {
+  return article.recordType === 'book' && !!article.book && article.title !== article.book.title;
+}
+
+function subjectTerms(article: PubMedArticle): string[] {
+  return [...new Set([...article.meshHeadings.map(heading => heading.descriptor), ...article.keywords])];
+}
+
+function risLine(tag: string, value: string | undefined): string {
+  return value ? `${tag}  - ${value.replace(/\s*\n\s*/g, ' ')}\n` : '';
+}
+
+function toRIS(article: PubMedArticle): string {
+  const { authors, editors } = contributors(article);
+  const parts = dateParts(article);
+  const pages = article.pages ? expandPageRange(article.pages).split('-') : [];
+  const type = article.recordType === 'book' ? (isBookSection(article) ? 'CHAP' : 'BOOK') : 'JOUR';
+
+  let ris = risLine('TY', type);
+  ris += risLine('TI', article.title);
+  authors.forEach(author => { ris += risLine('AU', invertedName(author)); });
+  editors.forEach(editor => { ris += risLine('A2', invertedName(editor)); });
+  if (article.book) {
+    ris += isBookSection(article) ? risLine('T2', article.book.title) : '';
+    ris += risLine('PB', article.book.publisher);
+    ris += risLine('CY', article.book.publisherLocation);
+    ris += risLine('SN', article.book.isbn[0]);
+  } else {
+    ris += risLine('T2', article.journal);
+    ris += risLine('JO', article.journal);
+    ris += risLine('J2', article.journalAbbreviation);
+    ris += risLine('SN', article.issn);
+  }
+  ris += risLine('PY', yearOf(article));
+  if (parts) {
+    ris += risLine('DA', `${parts[0]}/${parts[1] ? String(parts[1]).padStart(2, '0') : ''}/${parts[2] ? String(parts[2]).padStart(2, '0') : ''}/`);
+  }
+  ris += risLine('VL', article.volume);
+  ris += risLine('IS', article.issue);
+  ris += risLine('SP', pages[0]);
+  ris += risLine('EP', pages[1]);
+  ris += risLine('AB', article.abstract);
+  subjectTerms(article).forEach(term => { ris += risLine('KW', term); });
+  article.languages.forEach(language => { ris += risLine('LA', language); });
+  ris += risLine('DO', article.doi);
+  ris += risLine('AN', article.pmid);
+  ris += risLine('C2', article.pmcId);
+  ris += risLine('UR', article.url);
+  ris += risLine('DB', 'PubMed');
+  if (article.editorialStatus !== 'none') {
+    ris += risLine('N1', `Editorial status: ${article.editorialStatus.replace(/_/g, ' ')}`);
+  }
+  ris += 'ER  - \n';
+  return ris;
+}
+
+// Escape LaTeX special characters and accented letters
+export function escapeBibTeX(text: string): string {
+  return [...text.normalize('NFD')].reduce((output, char) => {
+    const accent = LATEX_ACCENTS[char];
+    if (accent) {
+      // Wrap the preceding letter: e + ́ -> {\'e}
+      const match = output.match(/(\{\\[a-zA-Z]+\}|[A-Za-z])$/);
+      if (match) {
+        const base = match[1] === 'i' ? '\\i' : match[1];
+        return `${output.slice(0, -match[1].length)}{\\${accent}{${base}}}`;
+      }
+      return output;
+    }
+    return output + (LATEX_SPECIALS[char] ?? LATEX_LETTERS[char] ?? char);
+  }, '').normalize('NFC');
+}
+
+// Escape a title and protect words with internal capitals (acronyms, gene names) from case changes
+function bibtexTitle(title: string): string {
+  return title.split(/(\s+)/).map(word =>
+    /[A-Z]/.test(word.slice(1)) ? `{${escapeBibTeX(word)}}` : escapeBibTeX(word)
+  ).join('');
+}
+
+function bibtexNames(authors: ArticleAuthor[]): string {
+  return authors.map(author =>
+    author.lastName ? escapeBibTeX(invertedName(author)) : `{${escapeBibTeX(author.collectiveName || 'Anonymous')}}`
+  ).join(' and ');
+}
+
+function toBibTeX(article: PubMedArticle): string {
+  const { authors, editors } = contributors(article);
+  const parts = dateParts(article);
+  const fields: [string, string | undefined][] = [];
+  let type = 'article';
+
+  fields.push(['author', authors.length > 0 ? `{${bibtexNames(authors)}}` : undefined]);
+  fields.push(['title', `{${bibtexTitle(article.title)}}`]);
+
+  if (article.book) {
+    type = isBookSection(article) ? 'incollection' : 'book';
+    if (type === 'incollection') {
+      fields.push(['booktitle', `{${bibtexTitle(article.book.title)}}`]);
+    }
+    fields.push(['editor', editors.length > 0 ? `{${bibtexNames(editors)}}` : undefined]);
+    fields.push(['publisher', article.book.publisher && `{${escapeBibTeX(article.book.publisher)}}`]);
+    fields.push(['address', article.book.publisherLocation && `{${escapeBibTeX(article.book.publisherLocation)}}`]);
+    fields.push(['edition', article.book.edition && `{${escapeBibTeX(article.book.edition)}}`]);
+    fields.push(['isbn', article.book.isbn[0] && `{${article.book.isbn[0]}}`]);
+  } else {
+    fields.push(['journal', `{${escapeBibTeX(article.journal)}}`]);
+    fields.push(['shortjournal', article.journalAbbreviation && `{${escapeBibTeX(article.journalAbbreviation)}}`]);
+    fields.push(['issn', article.issn && `{${article.issn}}`]);
+  }
+
+  fields.push(['year', parts ? String(parts[0]) : undefined]);
+  fields.push(['month', parts && parts[1] ? MONTH_ABBREVIATIONS[parts[1] - 1] : undefined]); // Month macros are unbraced
+  fields.push(['volume', article.volume && `{${escapeBibTeX(article.volume)}}`]);
+  fields.push(['number', article.issue && `{${escapeBibTeX(article.issue)}}`]);
+  fields.push(['pages', article.pages && `{${escapeBibTeX(expandPageRange(article.pages)).replace(/-/g, '--')}}`]);
+  fields.push(['doi', article.doi && `{${article.doi}}`]); // doi and url are verbatim fields
+  fields.push(['pmid', `{${article.pmid}}`]);
+  fields.push(['pmcid', article.pmcId && `{${article.pmcId}}`]);
+  fields.push(['url', `{${article.url}}`]);
+  fields.push(['language', article.languages[0] && `{${article.languages[0]}}`]);
+  fields.push(['keywords', subjectTerms(article).length > 0 ? `{${escapeBibTeX(subjectTerms(article).join(', '))}}` : undefined]);
+  fields.push(['abstract', article.abstract && `{${escapeBibTeX(article.abstract.replace(/\s*\n\s*/g, ' '))}}`]);
+  if (article.editorialStatus !== 'none') {
+    fields.push(['note', `{Editorial status: ${article.editorialStatus.replace(/_/g, ' ')}}`]);
+  }
+
+  const body = fields
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([name, value]) => `  ${name} = ${value}`)
+    .join(',\n');
+  return `@${type}{${citationKey(article)},\n${body}\n}\n`;
+}
+
+function cslName(author: ArticleAuthor) {
+  if (!author.lastName) return { literal: author.collectiveName || 'Anonymous' };
+  return {
+    family: author.lastName,
+    given: author.foreName || author.initials,
+    suffix: author.suffix
+  };
+}
+
+export function toCSL(article: PubMedArticle): Record<string, unknown> {
+  const { authors, editors } = contributors(article);
+  const parts = dateParts(article);
+  const csl: Record<string, unknown> = {
+    id: citationKey(article),
+    type: article.book ? (isBookSection(article) ? 'chapter' : 'book') : 'article-journal',
+    title: article.title,
+    author: authors.map(cslName),
+    editor: editors.length > 0 ? editors.map(cslName) : undefined,
+    'container-title': isBookSection(article) ? article.book!.title : (article.book ? undefined : article.journal),
+    'container-title-short': article.journalAbbreviation,
+    issued: parts ? { 'date-parts': [parts] } : undefined,
+    volume: article.volume,
+    issue: article.issue,
+    page: article.pages ? expandPageRange(article.pages) : undefined,
+    publisher: article.book?.publisher,
+    'publisher-place': article.book?.publisherLocation,
+    edition: article.book?.edition,
+    ISBN: article.book?.isbn[0],
+    ISSN: article.issn,
+    DOI: article.doi || undefined,
+    PMID: article.pmid,
+    PMCID: article.pmcId || undefined,
+    URL: article.url,
+    language: article.languages[0],
+    keyword: subjectTerms(article).join(', ') || undefined,
+    abstract: article.abstract || undefined
+  };
+  return Object.fromEntries(Object.entries(csl).filter(([, value]) => value !== undefined));
+}
+
+const MEDLINE_LINE_WIDTH = 80;
+
+// "TAG - value", wrapped with 6-space continuation lines like PubMed's MEDLINE display
+function medlineLine(tag: string, value: string | undefined): string {
+  if (!value) return '';
+  const words = value.replace(/\s+/g, ' ').trim().split(' ');
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    if (current && current.length + 1 + word.length > MEDLINE_LINE_WIDTH - 6) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  lines.push(current);
+  return `${tag.padEnd(4)}- ${lines.join('\n      ')}\n`;
+}
+
+// Source citation, e.g. "Lancet. 2020 Jan 4;395(10217):e1. doi: 10.1016/..."
+function medlineSource(article: PubMedArticle): string {
+  let source = `${article.journalAbbreviation || article.journal}. ${article.publicationDate}`;
+  if (article.volume) source += `;${article.volume}`;
+  if (article.issue) source += `(${article.issue})`;
+  if (article.pages) source += `:${article.pages}`;
+  source += '.';
+  if (article.doi) source += ` doi: ${article.doi}.`;
+  return source;
+}
+
+function toMEDLINE(article: PubMedArticle): string {
+  const { authors, editors } = contributors(article);
+  let medline = medlineLine('PMID', article.pmid);
+  if (article.issn) medline += medlineLine('IS', article.issn);
+  medline += medlineLine('VI', article.volume);
+  medline += medlineLine('IP', article.issue);
+  medline += medlineLine('DP', article.publicationDate);
+  medline += medlineLine('TI', article.title);
+  if (article.book) {
+    medline += medlineLine('BTI', article.book.title);
+  }
+  medline += medlineLine('PG', article.pages);
+  if (article.doi) medline += medlineLine('LID', `${article.doi} [doi]`);
+  medline += medlineLine('AB', article.abstract?.replace(/\n\n/g, ' '));
+
+  authors.forEach(author => {
+    if (author.lastName) {
+      medline += medlineLine('FAU', invertedName(author));
+      medline += medlineLine('AU', [author.lastName, author.initials].filter(Boolean).join(' '));
+      if (author.orcid) medline += medlineLine('AUID', `ORCID: ${author.orcid}`);
+      author.affiliations.forEach(affiliation => { medline += medlineLine('AD', affiliation); });
+    } else {
+      medline += medlineLine('CN', author.collectiveName);
+    }
+  });
+  editors.forEach(editor => {
+    medline += medlineLine('FED', invertedName(editor));
+    medline += medlineLine('ED', [editor.lastName, editor.initials].filter(Boolean).join(' '));
+  });
+
+  article.languages.forEach(language => { medline += medlineLine('LA', language); });
+  article.grants.forEach(grant => {
+    medline += medlineLine('GR', [grant.grantId, grant.acronym, grant.agency, grant.country].filter(Boolean).join('/'));
+  });
+  article.publicationTypes.forEach(type => { medline += medlineLine('PT', type); });
+  if (article.electronicPubDate) {
+    medline += medlineLine('DEP', article.electronicPubDate.iso.replace(/-/g, ''));
+  }
+  if (article.book) {
+    medline += medlineLine('PL', article.book.publisherLocation);
+    medline += medlineLine('PB', article.book.publisher);
+    article.book.isbn.forEach(isbn => { medline += medlineLine('ISBN', isbn); });
+  } else {
+    medline += medlineLine('TA', article.journalAbbreviation);
+    medline += medlineLine('JT', article.journal);
+  }
+  article.chemicals.forEach(chemical => {
+    medline += medlineLine('RN', `${chemical.registryNumber || '0'} (${chemical.name})`);
+  });
+  article.commentsCorrections.forEach(item => {
+    const tag = MEDLINE_COMMENT_TAGS[item.refType];
+    if (tag && item.source) {
+      medline += medlineLine(tag, `${item.source}${item.pmid ? ` PMID: ${item.pmid}` : ''}`);
+    }
+  });
+  article.meshHeadings.forEach(heading => {
+    const qualifiers = heading.qualifiers.map(qualifier => `/${qualifier.majorTopic ? '*' : ''}${qualifier.name}`).join('');
+    medline += medlineLine('MH', `${heading.majorTopic ? '*' : ''}${heading.descriptor}${qualifiers}`);
+  });
+  article.keywords.forEach(keyword => { medline += medlineLine('OT', keyword); });
+  if (article.pmcId) medline += medlineLine('PMC', article.pmcId);
+  if (article.doi) medline += medlineLine('AID', `${article.doi} [doi]`);
+  medline += medlineLine('SO', article.book ? `${article.book.title}. ${article.publicationDate}.` : medlineSource(article));
+  return medline;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xmlElement(name: string, value: string | undefined): string {
+  return value ? `<${name}>${escapeXml(value)}</${name}>` : '';
+}
+
+function toEndNoteRecord(article: PubMedArticle, index: number): string {
+  const { authors, editors } = contributors(article);
+  const [typeNumber, typeName] = article.book
+    ? (isBookSection(article) ? ['5', 'Book Section'] : ['6', 'Book'])
+    : ['17', 'Journal Article'];
+  const secondaryTitle = article.book ? (isBookSection(article) ? article.book.title : undefined) : article.journal;
+
+  let record = '<record>';
+  record += `<rec-number>${index + 1}</rec-number>`;
+  record += `<ref-type name="${typeName}">${typeNumber}</ref-type>`;
+  record += '<contributors>';
+  record += `<authors>${authors.map(author => xmlElement('author', invertedName(author))).join('')}</authors>`;
+  if (editors.length > 0) {
+    record += `<secondary-authors>${editors.map(editor => xmlElement('author', invertedName(editor))).join('')}</secondary-authors>`;
+  }
+  record += '</contributors>';
+  record += `<titles>${xmlElement('title', article.title)}${xmlElement('secondary-title', secondaryTitle)}${xmlElement('alt-title', article.journalAbbreviation)}</titles>`;
+  if (!article.book) {
+    record += `<periodical>${xmlElement('full-title', article.journal)}${xmlElement('abbr-1', article.journalAbbreviation)}</periodical>`;
+  }
+  record += xmlElement('pages', article.pages ? expandPageRange(article.pages) : undefined);
+  record += xmlElement('volume', article.volume);
+  record += xmlElement('number', article.issue);
+  record += xmlElement('edition', article.book?.edition);
+  const terms = subjectTerms(article);
+  if (terms.length > 0) {
+    record += `<keywords>${terms.map(term => xmlElement('keyword', term)).join('')}</keywords>`;
+  }
+  record += `<dates>${xmlElement('year', yearOf(article))}${article.publicationDate !== 'Unknown date' ? `<pub-dates>${xmlElement('date', article.publicationDate)}</pub-dates>` : ''}</dates>`;
+  record += xmlElement('pub-location', article.book?.publisherLocation);
+  record += xmlElement('publisher', article.book?.publisher);
+  record += xmlElement('isbn', article.book ? article.book.isbn[0] : article.issn);
+  record += xmlElement('accession-num', article.pmid);
+  record += xmlElement('abstract', article.abstract);
+  record += xmlElement('notes', article.editorialStatus !== 'none' ? `Editorial status: ${article.editorialStatus.replace(/_/g, ' ')}` : undefined);
+  record += xmlElement('electronic-resource-num', article.doi || undefined);
+  record += xmlElement('custom2', article.pmcId || undefined); // EndNote's PMCID field
+  record += xmlElement('remote-database-name', 'PubMed');
+  record += xmlElement('language', article.languages[0]);
+  record += `<urls><related-urls>${xmlElement('url', article.url)}</related-urls></urls>`;
+  record += '</record>';
+  return record;
+}
+
+function toEndNoteXML(articles: PubMedArticle[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<xml><records>\n${articles.map(toEndNoteRecord).join('\n')}\n</records></xml>\n`;
+}
+
+const CSV_COLUMNS: [string, (article: PubMedArticle) => string | undefined][] = [
+  ['pmid', article => article.pmid],
+  ['citation_key', citationKey],
+  ['title', article => article.title],
+  ['authors', article => article.authorList.map(invertedName).join('; ')],
+  ['journal', article => article.journal],
+  ['journal_abbreviation', article => article.journalAbbreviation],
+  ['year', yearOf],
+  ['publication_date', article => article.pubDate?.iso],
+  ['volume', article => article.volume],
+  ['issue', article => article.issue],
+  ['pages', article => article.pages && expandPageRange(article.pages)],
+  ['doi', article => article.doi],
+  ['pmcid', article => article.pmcId],
+  ['issn', article => article.issn],
+  ['publication_types', article => article.publicationTypes.join('; ')],
+  ['mesh_terms', article => article.meshHeadings.map(heading => heading.descriptor).join('; ')],
+  ['keywords', article => article.keywords.join('; ')],
+  ['language', article => article.languages.join('; ')],
+  ['editorial_status', article => article.editorialStatus],
+  ['url', article => article.url],
+  ['abstract', article => article.abstract]
+];
+
+// RFC 4180 field quoting
+function csvField(value: string | undefined): string {
+  if (!value) return '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCSV(articles: PubMedArticle[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = articles.map(article => CSV_COLUMNS.map(([, value]) => csvField(value(article))).join(','));
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
+
+// Render parsed article records in a citation format
+export function formatCitations(articles: PubMedArticle[], format: CitationFormat): string {
+  switch (format) {
+    case 'ris':
+      return articles.map(toRIS).join('\n');
+    case 'bibtex':
+      return articles.map(toBibTeX).join('\n');
+    case 'csl-json':
+      return JSON.stringify(articles.map(toCSL), null, 2);
+    case 'medline':
+      return articles.map(toMEDLINE).join('\n');
+    case 'endnote-xml':
+      return toEndNoteXML(articles);
+    case 'csv':
+      return toCSV(articles);
+  }
+}
+
+// PMIDs of the RIS or MEDLINE records in a LitCiter response
+function litCiterRecordPmids(text: string, format: string): string[] {
+  if (format === 'medline') {
+    return [...text.matchAll(/^PMID- *(\d+)/gm)].map(match => match[1]);
+  }
+  return risRecordPmids(text);
+}
+
+// CSL-JSON items carry the PMID in PMID, or as "pmid:<PMID>" in id
+function cslRecordPmid(record: any): string | undefined {
+  const pmid = String(record?.PMID ?? record?.id ?? '').replace(/^pmid:/i, '');
+  return /^\d+$/.test(pmid) ? pmid : undefined;
+}
+
+// Fetch records from the Literature Citation Exporter in batches, with the PMIDs
+// it actually returned records for
+async function fetchFromLitCiter(pmids: string[], format: string): Promise<{ data: string; returnedPmids: string[] }> {
+  const chunks: string[] = [];
+  const cslRecords: unknown[] = [];
+  const returnedPmids: string[] = [];
+
+  for (let i = 0; i < pmids.length; i += LITCITER_BATCH_SIZE) {
+    const batch = pmids.slice(i, i + LITCITER_BATCH_SIZE);
+    const response = await ncbiFetch(`${LIT_CITATION_URL}/pubmed/?format=${format}&id=${batch.join(',')}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const text = await response.text();
+    if (format === 'csl') {
+      const parsed = JSON.parse(text);
+      const records = Array.isArray(parsed) ? parsed : [parsed];
+      cslRecords.push(...records);
+      returnedPmids.push(...records.map(cslRecordPmid).filter((pmid): pmid is string => !!pmid));
+    } else {
+      chunks.push(text.trim());
+      returnedPmids.push(...litCiterRecordPmids(text, format));
+    }
+  }
+
+  return {
+    data: format === 'csl' ? JSON.stringify(cslRecords, null, 2) : chunks.join('\n\n') + '\n',
+    returnedPmids
+  };
+}
+
+// Export PMIDs as citations. LitCiter is only used for the formats it supports
+// and falls back to local generation when the service fails.
+export async function exportCitations(pmids: string[], options: CitationExportOptions = {}): Promise<CitationExportResult> {
+  const format = options.format ?? 'ris';
+  const requestedSource = options.source ?? 'local';
+  const uniquePmids = [...new Set(pmids.map(pmid => pmid.trim()).filter(Boolean))];
+  const warnings: string[] = [];
+
+  const result: CitationExportResult = {
+    format,
+    source: 'local',
+    pmids: uniquePmids,
+    data: '',
+    exportedCount: 0,
+    missingPmids: [],
+    items: [],
+    warnings,
+    fileExtension: CITATION_FORMATS[format].extension,
+    mimeType: CITATION_FORMATS[format].mimeType
+  };
+
+  if (uniquePmids.length === 0) return result;
+
+  if (requestedSource === 'litciter') {
+    const litciterFormat = LITCITER_FORMATS[format];
+    if (!litciterFormat) {
+      warnings.push(`The Literature Citation Exporter does not provide ${CITATION_FORMATS[format].label}; records were generated locally`);
+    } else if (options.cacheMode === 'offline') {
+      warnings.push('The Literature Citation Exporter is not available in offline mode; records were generated locally');
+    } else {
+      try {
+        const { data, returnedPmids } = await fetchFromLitCiter(uniquePmids, litciterFormat);
+        const returned = new Set(returnedPmids);
+        result.data = data;
+        result.source = 'litciter';
+        result.items = uniquePmids.map(pmid => returned.has(pmid)
+          ? { id: pmid, status: 'ok', retryable: false }
+          : failedItem(pmid, 'not_found', 'No record returned by the Literature Citation Exporter'));
+        result.exportedCount = result.items.filter(item => item.status === 'ok').length;
+        result.missingPmids = result.items.filter(item => item.status !== 'ok').map(item => item.id);
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        warnings.push(`Literature Citation Exporter failed (${errorMessage}); records were generated locally`);
+      }
+    }
+  }
+
+  try {
+    const articleItems = await getArticleItems(uniquePmids, options.cacheMode);
+    const articles = articleItems.filter(item => item.data).map(item => item.data!);
+
+    result.data = formatCitations(articles, format);
+    result.exportedCount = articles.length;
+    result.missingPmids = articleItems.filter(item => item.status !== 'ok').map(item => item.id);
+    result.items = articleItems.map(withoutData);
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Citation export failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,533 @@
+import { CacheMode, OfflineCacheMissError, getCached, setCached } from './cache.js';
+import { ECITMATCH_URL, eutilsFetch } from './eutils-client.js';
+import { convertIds } from './id-converter.js';
+import { PubMedArticle, getArticleDetails, searchPubMed } from './pubmed-api.js';
+
+// Citation matching: resolves free-text references ("Smith J, et al. Lancet
+// 2020;395:1054-62") to PMIDs. References are parsed into fields, sent to
+// ECitMatch, and looked up with fielded searches when ECitMatch has no unique
+// answer. Every candidate is then scored against the parsed fields.
+
+export interface ReferenceAuthor {
+  lastName: string;
+  initials?: string;
+}
+
+export interface ParsedReference {
+  text: string;
+  authors: ReferenceAuthor[];
+  etAl: boolean;
+  title?: string;
+  journal?: string;
+  year?: string;
+  volume?: string;
+  issue?: string;
+  firstPage?: string;
+  lastPage?: string;
+  doi?: string;
+  pmid?: string;
+}
+
+export type CitationMatchSource = 'pmid' | 'doi' | 'ecitmatch' | 'search';
+
+export type CitationMatchField = 'title' | 'author' | 'year' | 'journal' | 'volume' | 'page' | 'doi' | 'pmid';
+
+export interface CitationCandidate {
+  pmid: string;
+  title: string;
+  authors: string[];
+  journal: string;
+  year?: string;
+  volume?: string;
+  pages?: string;
+  doi?: string;
+  score: number; // 0-1
+  matchedFields: CitationMatchField[];
+  sources: CitationMatchSource[];
+}
+
+export type CitationMatchStatus = 'matched' | 'low_confidence' | 'not_found';
+
+export interface CitationMatch {
+  reference: string;
+  parsed: ParsedReference;
+  status: CitationMatchStatus;
+  pmid?: string; // Set when the best candidate reaches the confidence threshold
+  confidence: number;
+  best?: CitationCandidate;
+  alternatives: CitationCandidate[];
+  queries: string[]; // Fielded searches that were run
+}
+
+export interface CitationMatchResult {
+  matches: CitationMatch[];
+  matchedCount: number;
+  pmids: string[]; // PMIDs of matched references, in reference order
+}
+
+export interface CitationMatchOptions {
+  cacheMode?: CacheMode;
+  minConfidence?: number; // Score needed to accept the best candidate (default: 0.6)
+  maxAlternatives?: number; // Runner-up candidates reported per reference (default: 3)
+}
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+const DEFAULT_MAX_ALTERNATIVES = 3;
+
+// Searches returning more hits than this are too broad to take candidates from
+const MAX_SEARCH_HITS = 5;
+const MAX_TITLE_WORDS = 8;
+
+// Relative weight of each field when scoring a candidate; only fields present
+// in the parsed reference count towards the total
+const FIELD_WEIGHTS: Record<'title' | 'author' | 'year' | 'journal' | 'volume' | 'page', number> = {
+  title: 0.35,
+  author: 0.2,
+  year: 0.15,
+  journal: 0.1,
+  volume: 0.1,
+  page: 0.1
+};
+
+// An ECitMatch hit has already been checked against journal, volume, page and author
+const ECITMATCH_BONUS = 0.1;
+
+const REFERENCE_NUMBER = /^\s*(?:\[\d+\]|\(\d+\)|\d+[.)])\s+/;
+
+const TITLE_STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'not', 'of', 'in', 'on', 'for', 'with', 'to', 'at', 'by',
+  'from', 'as', 'is', 'are', 'was', 'were', 'be', 'its', 'their', 'this', 'that', 'vs', 'versus', 'into'
+]);
+
+const JOURNAL_STOPWORDS = new Set(['the', 'of', 'and', 'for', 'de', 'la']);
+
+// Split a pasted reference list into single references. Numbered lists may wrap
+// references over several lines; unnumbered lists are split on blank lines when
+// there are any, otherwise one reference per line.
+export function splitReferences(input: string | string[]): string[] {
+  if (Array.isArray(input)) {
+    return input.flatMap(item => splitReferences(item));
+  }
+
+  const lines = input.split(/\r?\n/);
+  let groups: string[][];
+
+  if (lines.some(line => REFERENCE_NUMBER.test(line))) {
+    groups = [];
+    for (const line of lines) {
+      if (REFERENCE_NUMBER.test(line) || groups.length === 0) {
+        groups.push([line]);
+      } else {
+        groups[groups.length - 1].push(line);
+      }
+    }
+  } else if (/\n\s*\n/.test(input)) {
+    groups = input.split(/\n\s*\n/).map(block => block.split(/\r?\n/));
+  } else {
+    groups = lines.map(line => [line]);
+  }
+
+  return groups
+    .map(group => group.map(line => line.trim()).filter(Boolean).join(' '))
+    .filter(reference => reference.length > 0);
+}
+
+function stripDiacritics(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function normalizeName(value: string): string {
+  return stripDiacritics(value).toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function words(value: string, stopwords: Set<string>): string[] {
+  return (stripDiacritics(value).toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(word => !stopwords.has(word));
+}
+
+// Parse an author list in Vancouver ("Smith JA, Doe B") or APA/Harvard
+// ("Smith, J. A., & Doe, B.") form
+function parseAuthors(value: string): { authors: ReferenceAuthor[]; etAl: boolean } {
+  const etAl = /\bet\.?\s*al\b/i.test(value);
+  const cleaned = value.replace(/,?\s*\bet\.?\s*al\b\.?/i, '').replace(/\s*\.\s*$/, '');
+  const tokens = cleaned
+    .split(/\s*[,;]\s*|\s+&\s+|\s+and\s+/)
+    .map(token => token.replace(/^&\s*/, '').trim())
+    .filter(Boolean);
+
+  const authors: ReferenceAuthor[] = [];
+  for (const token of tokens) {
+    const initialsOnly = /^(?:[A-Z]\.?\s*-?\s*)+$/.test(token);
+    const previous = authors[authors.length - 1];
+
+    if (initialsOnly && previous && !previous.initials) {
+      previous.initials = token.replace(/[.\s-]/g, '');
+      continue;
+    }
+
+    const vancouver = token.match(/^(.+?)\s+([A-Z]{1,4})$/);
+    if (vancouver && !/\.$/.test(token)) {
+      authors.push({ lastName: vancouver[1], initials: vancouver[2] });
+    } else if (/\p{L}{2,}/u.test(token)) {
+      authors.push({ lastName: token.replace(/\.$/, '') });
+    }
+  }
+  return { authors, etAl };
+}
+
+// Split the text between the author list and the volume/pages into title and journal
+function splitTitleAndJournal(value: string): { title?: string; journal?: string } {
+  const parts = value
+    .split(/(?<=[.?!])\s+/)
+    .map(part => part.replace(/[.,;:\s]+$/, '').trim())
+    .filter(Boolean);
+
+  if (parts.length === 0) return {};
+  if (parts.length === 1) {
+    // A lone segment with many words is more likely a title than a journal
+    return parts[0].split(/\s+/).length > 6 ? { title: parts[0] } : { journal: parts[0] };
+  }
+  return { title: parts.slice(0, -1).join('. '), journal: parts[parts.length - 1] };
+}
+
+// Expand abbreviated last pages ("1054-62" -> "1062")
+function expandLastPage(firstPage: string, lastPage: string): string {
+  const first = firstPage.replace(/^\D+/, '');
+  const last = lastPage.replace(/^\D+/, '');
+  if (last.length >= first.length) return last;
+  return first.slice(0, first.length - last.length) + last;
+}
+
+// Parse a free-text reference into fields. Handles Vancouver/NLM
+// ("Journal 2020;395(10229):1054-62") and APA/Harvard ("(2020). Title. Journal,
+// 395(10229), 1054-1062.") layouts; anything unrecognized is left undefined.
+export function parseReference(reference: string): ParsedReference {
+  let text = reference.replace(REFERENCE_NUMBER, '').replace(/\s+/g, ' ').trim();
+  const parsed: ParsedReference = { text, authors: [], etAl: false };
+
+  const doi = text.match(/(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)?(10\.\d{4,9}\/\S+)/i);
+  if (doi) {
+    parsed.doi = doi[1].replace(/[.,;)\]]+$/, '');
+    text = text.replace(doi[0], ' ');
+  }
+  const pmid = text.match(/\bPMID:?\s*(\d{1,9})\b/i);
+  if (pmid) {
+    parsed.pmid = pmid[1];
+  }
+  text = text
+    .replace(/\b(?:PMID|PMCID):?\s*(?:PMC)?\d+/gi, ' ')
+    .replace(/\b(?:Epub|Published)\b.*$/i, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // A bracketed year straight after a volume ("395(2020)") is an issue number
+  const apaYear = text.match(/(?<![\d;:])\(((?:19|20)\d{2})[a-z]?(?:,[^)]*)?\)\.?/);
+  if (apaYear && apaYear.index !== undefined) {
+    // APA/Harvard: authors (year). Title. Journal, volume(issue), pages.
+    parsed.year = apaYear[1];
+    Object.assign(parsed, parseAuthors(text.slice(0, apaYear.index)));
+
+    const rest = text.slice(apaYear.index + apaYear[0].length).trim();
+    const location = [...rest.matchAll(/,\s*(\d+)\s*(?:\(([^)]+)\))?\s*,\s*(?:pp?\.\s*)?([A-Za-z]?\d+)(?:\s*[-–]\s*([A-Za-z]?\d+))?/g)].pop();
+    if (location && location.index !== undefined) {
+      parsed.volume = location[1];
+      parsed.issue = location[2];
+      parsed.firstPage = location[3];
+      parsed.lastPage = location[4] ? expandLastPage(location[3], location[4]) : undefined;
+      Object.assign(parsed, splitTitleAndJournal(rest.slice(0, location.index)));
+    } else {
+      Object.assign(parsed, splitTitleAndJournal(rest));
+    }
+    return parsed;
+  }
+
+  // Vancouver/NLM: authors. Title. Journal year;volume(issue):pages.
+  const authorEnd = text.search(/\.\s/);
+  const authorPart = authorEnd >= 0 ? text.slice(0, authorEnd) : '';
+  Object.assign(parsed, parseAuthors(authorPart));
+  const rest = authorEnd >= 0 ? text.slice(authorEnd + 1) : text;
+
+  const location = rest.match(/\b((?:19|20)\d{2})(?:\s+[A-Z][a-z]{2,8}(?:[-\s]\w+)*)?\s*;\s*(\d+)?\s*(?:\(([^)]+)\))?\s*(?::\s*([A-Za-z]?\d+)(?:\s*[-–]\s*([A-Za-z]?\d+))?)?/);
+  if (location && location.index !== undefined) {
+    parsed.year = location[1];
+    parsed.volume = location[2];
+    parsed.issue = location[3];
+    parsed.firstPage = location[4];
+    parsed.lastPage = location[4] && location[5] ? expandLastPage(location[4], location[5]) : undefined;
+    Object.assign(parsed, splitTitleAndJournal(rest.slice(0, location.index)));
+  } else {
+    const year = rest.match(/\b((?:19|20)\d{2})\b/);
+    parsed.year = year?.[1];
+    Object.assign(parsed, splitTitleAndJournal(year?.index !== undefined ? rest.slice(0, year.index) : rest));
+  }
+  return parsed;
+}
+
+function authorTerm(author: ReferenceAuthor): string {
+  return [author.lastName, author.initials].filter(Boolean).join(' ');
+}
+
+// ECitMatch fields are pipe-delimited, so pipes cannot appear inside values
+function citMatchLine(parsed: ParsedReference): string | undefined {
+  if (!parsed.journal || !(parsed.volume || parsed.firstPage)) return undefined;
+  const clean = (value?: string) => (value || '').replace(/[|\r\n]/g, ' ').trim();
+  const author = parsed.authors[0] ? authorTerm(parsed.authors[0]) : '';
+  return [parsed.journal, parsed.year, parsed.volume, parsed.firstPage, author].map(clean).join('|');
+}
+
+// Look up references with ECitMatch. Returns the PMID per line, or '' when
+// ECitMatch found no unique match.
+async function ecitMatch(lines: string[], cacheMode: CacheMode): Promise<Map<string, string>> {
+  const results = new Map<string, string>();
+  const pending: string[] = [];
+
+  for (const line of [...new Set(lines)]) {
+    const cached = await getCached<string>('search', `ecitmatch:${line}`, cacheMode);
+    if (cached !== undefined) {
+      results.set(line, cached);
+    } else {
+      pending.push(line);
+    }
+  }
+
+  if (pending.length === 0) return results;
+  if (cacheMode === 'offline') {
+    throw new OfflineCacheMissError('search', `ecitmatch:${pending[0]}`);
+  }
+
+  // The key field echoes the line's position so responses can be matched back
+  const bdata = pending.map((line, index) => `${line}|${index}|`).join('\r');
+  const response = await eutilsFetch(ECITMATCH_URL, { db: 'pubmed', retmode: 'xml', bdata });
+  if (!response.ok) {
+    throw new Error(`ECitMatch HTTP error! status: ${response.status}`);
+  }
+
+  const body = await response.text();
+  for (const row of body.split(/\r?\n/)) {
+    const fields = row.split('|');
+    if (fields.length < 7) continue;
+    const line = pending[parseInt(fields[5], 10)];
+    if (line === undefined) continue;
+    const pmid = /^\d+$/.test(fields[6].trim()) ? fields[6].trim() : '';
+    results.set(line, pmid);
+    await setCached('search', `ecitmatch:${line}`, pmid);
+  }
+  return results;
+}
+
+function titleTerms(title: string): string[] {
+  return [...new Set(words(title, TITLE_STOPWORDS).filter(word => word.length > 2))].slice(0, MAX_TITLE_WORDS);
+}
+
+function quoted(value: string): string {
+  return `"${value.replace(/"/g, '')}"`;
+}
+
+// Fielded searches from most to least specific
+function fallbackQueries(parsed: ParsedReference): string[] {
+  const author = parsed.authors[0] ? `${quoted(authorTerm(parsed.authors[0]))}[au]` : undefined;
+  const journal = parsed.journal ? `${quoted(parsed.journal)}[ta]` : undefined;
+  const year = parsed.year ? `${parsed.year}[dp]` : undefined;
+  const volume = parsed.volume ? `${parsed.volume}[vi]` : undefined;
+  const page = parsed.firstPage ? `${parsed.firstPage}[pg]` : undefined;
+  const title = parsed.title ? titleTerms(parsed.title).map(word => `${word}[ti]`) : [];
+
+  const queries = [
+    [author, journal, year, volume, page],
+    [author, year, ...title],
+    title.length >= 3 ? title : [],
+    [author, journal, year]
+  ]
+    .map(clauses => clauses.filter((clause): clause is string => Boolean(clause)))
+    .filter(clauses => clauses.length >= 3)
+    .map(clauses => clauses.join(' AND '));
+
+  return [...new Set(queries)];
+}
+
+function overlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = [...new Set(a)].filter(word => setB.has(word)).length;
+  return (shared / new Set(a).size + shared / setB.size) / 2;
+}
+
+// Journal titles match when equal, or when one is the abbreviation of the other
+// word by word ("J Am Chem Soc" / "Journal of the American Chemical Society")
+function journalSimilarity(reference: string, article: PubMedArticle): number {
+  const ref = words(reference, JOURNAL_STOPWORDS);
+  let best = 0;
+  for (const name of [article.journal, article.journalAbbreviation]) {
+    if (!name) continue;
+    const candidate = words(name, JOURNAL_STOPWORDS);
+    if (ref.join(' ') === candidate.join(' ')) return 1;
+    if (ref.length === candidate.length &&
+        ref.every((word, index) => word.startsWith(candidate[index]) || candidate[index].startsWith(word))) {
+      best = Math.max(best, 0.9);
+    }
+  }
+  return best;
+}
+
+function articleYear(article: PubMedArticle): string | undefined {
+  return (article.pubDate?.iso || article.publicationDate).match(/\d{4}/)?.[0];
+}
+
+// Score a PubMed record against the parsed reference
+function scoreCandidate(
+  parsed: ParsedReference,
+  article: PubMedArticle,
+  sources: CitationMatchSource[]
+): CitationCandidate {
+  const similarities: Partial<Record<keyof typeof FIELD_WEIGHTS, number>> = {};
+
+  if (parsed.title) {
+    similarities.title = overlap(words(parsed.title, TITLE_STOPWORDS), words(article.title, TITLE_STOPWORDS));
+  }
+  if (parsed.authors.length > 0) {
+    const surname = normalizeName(parsed.authors[0].lastName);
+    const lastNames = article.authorList.map(author => normalizeName(author.lastName || author.collectiveName || ''));
+    similarities.author = lastNames[0] === surname ? 1 : lastNames.includes(surname) ? 0.5 : 0;
+  }
+  if (parsed.year) {
+    const year = articleYear(article);
+    // Print and electronic publication often fall in neighbouring years
+    similarities.year = year === parsed.year ? 1 : year && Math.abs(parseInt(year, 10) - parseInt(parsed.year, 10)) === 1 ? 0.5 : 0;
+  }
+  if (parsed.journal) {
+    similarities.journal = journalSimilarity(parsed.journal, article);
+  }
+  if (parsed.volume) {
+    similarities.volume = article.volume === parsed.volume ? 1 : 0;
+  }
+  if (parsed.firstPage) {
+    const firstPage = (article.pages || '').split(/[-–]/)[0].trim().toLowerCase();
+    similarities.page = firstPage === parsed.firstPage.toLowerCase() ? 1 : 0;
+  }
+
+  const fields = Object.keys(similarities) as (keyof typeof FIELD_WEIGHTS)[];
+  const totalWeight = fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field], 0);
+  let score = totalWeight > 0
+    ? fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field] * similarities[field]!, 0) / totalWeight
+    : 0;
+  const matchedFields: CitationMatchField[] = fields.filter(field => similarities[field]! >= (field === 'title' ? 0.6 : 0.5));
+
+  if (sources.includes('ecitmatch')) {
+    score = Math.min(1, score + ECITMATCH_BONUS);
+  }
+  // An identifier printed in the reference settles the match
+  if (sources.includes('pmid') || sources.includes('doi')) {
+    score = 1;
+    matchedFields.unshift(sources.includes('pmid') ? 'pmid' : 'doi');
+  }
+
+  return {
+    pmid: article.pmid,
+    title: article.title,
+    authors: article.authors,
+    journal: article.journal,
+    year: articleYear(article),
+    volume: article.volume,
+    pages: article.pages,
+    doi: article.doi || undefined,
+    score: Math.round(score * 100) / 100,
+    matchedFields,
+    sources
+  };
+}
+
+// Match free-text references to PubMed records
+export async function matchCitations(
+  references: string[],
+  options: CitationMatchOptions = {}
+): Promise<CitationMatchResult> {
+  const cacheMode = options.cacheMode ?? 'default';
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const maxAlternatives = options.maxAlternatives ?? DEFAULT_MAX_ALTERNATIVES;
+
+  try {
+    const parsed = references.map(reference => parseReference(reference));
+
+    // Candidate PMIDs per reference, with where each came from
+    const candidates = parsed.map(() => new Map<string, CitationMatchSource[]>());
+    const addCandidate = (index: number, pmid: string, source: CitationMatchSource) => {
+      const sources = candidates[index].get(pmid) || [];
+      if (!sources.includes(source)) sources.push(source);
+      candidates[index].set(pmid, sources);
+    };
+    const queries: string[][] = parsed.map(() => []);
+
+    // Identifiers printed in the reference; DOIs are looked up in one batch, and
+    // references whose DOI could not be looked up go on to ECitMatch and search
+    const dois = [...new Set(parsed.map(reference => reference.doi).filter((doi): doi is string => Boolean(doi)))];
+    const pmidByDoi = new Map<string, string>();
+    if (dois.length > 0) {
+      try {
+        for (const record of (await convertIds(dois, { cacheMode })).records) {
+          if (record.pmid) pmidByDoi.set(record.input, record.pmid);
+        }
+      } catch (error) {
+        console.error(`DOI lookup failed, matching by citation instead: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    for (const [index, reference] of parsed.entries()) {
+      if (reference.pmid) addCandidate(index, reference.pmid, 'pmid');
+      const doiPmid = reference.doi ? pmidByDoi.get(reference.doi) : undefined;
+      if (doiPmid) addCandidate(index, doiPmid, 'doi');
+    }
+
+    // ECitMatch in one batch for every reference with a journal and volume or page
+    const lines = parsed.map(reference => citMatchLine(reference));
+    const citMatches = await ecitMatch(lines.filter((line): line is string => Boolean(line)), cacheMode);
+    lines.forEach((line, index) => {
+      const pmid = line ? citMatches.get(line) : undefined;
+      if (pmid) addCandidate(index, pmid, 'ecitmatch');
+    });
+
+    // Fielded searches for references still without a candidate
+    for (const [index, reference] of parsed.entries()) {
+      if (candidates[index].size > 0) continue;
+      for (const query of fallbackQueries(reference)) {
+        queries[index].push(query);
+        const result = await searchPubMed(query, MAX_SEARCH_HITS, 0, { cacheMode });
+        if (result.count > 0 && result.count <= MAX_SEARCH_HITS) {
+          result.idList.forEach(pmid => addCandidate(index, pmid, 'search'));
+          break;
+        }
+      }
+    }
+
+    const allPmids = [...new Set(candidates.flatMap(map => [...map.keys()]))];
+    const articles = new Map((await getArticleDetails(allPmids, cacheMode)).map(article => [article.pmid, article]));
+
+    const matches: CitationMatch[] = parsed.map((reference, index) => {
+      const scored = [...candidates[index].entries()]
+        .filter(([pmid]) => articles.has(pmid))
+        .map(([pmid, sources]) => scoreCandidate(reference, articles.get(pmid)!, sources))
+        .sort((a, b) => b.score - a.score);
+      const best = scored[0];
+      const status: CitationMatchStatus = !best ? 'not_found' : best.score >= minConfidence ? 'matched' : 'low_confidence';
+
+      return {
+        reference: references[index],
+        parsed: reference,
+        status,
+        pmid: status === 'matched' ? best.pmid : undefined,
+        confidence: best?.score ?? 0,
+        best,
+        alternatives: scored.slice(1, 1 + maxAlternatives),
+        queries: queries[index]
+      };
+    });
+
+    const pmids = [...new Set(matches.map(match => match.pmid).filter((pmid): pmid is string => Boolean(pmid)))];
+    return {
+      matches,
+      matchedCount: matches.filter(match => match.status === 'matched').length,
+      pmids
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Citation matching failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,396 @@
+import { CacheMode, OfflineCacheMissError, getCached, setCached } from './cache.js';
+import { escapeXml } from './citation-export.js';
+import { ELINK_URL, eutilsFetch } from './eutils-client.js';
+import { getArticleDetails } from './pubmed-api.js';
+
+// Citation graphs: expands from seed PMIDs along PubMed's reference
+// (pubmed_pubmed_refs) and cited-by (pubmed_pubmed_citedin) links for a number
+// of hops, then scores nodes by in-degree, co-citation and bibliographic
+// coupling. Graphs export as JSON, GraphML or GEXF for network tools such as Gephi.
+
+export type CitationDirection = 'references' | 'cited_by' | 'both';
+
+export type CitationNetworkFormat = 'json' | 'graphml' | 'gexf';
+
+export interface CitationNetworkOptions {
+  hops?: number; // Link steps away from the seeds (default: 1)
+  direction?: CitationDirection; // default: 'both'
+  maxNodes?: number; // default: 200
+  maxEdges?: number; // default: 1000
+  includeDetails?: boolean; // Fetch title, journal and year for every node (default: true)
+  cacheMode?: CacheMode;
+}
+
+export interface CitationNode {
+  pmid: string;
+  hop: number; // 0 for seeds
+  seed: boolean;
+  title?: string;
+  journal?: string;
+  year?: string;
+  inDegree: number; // Citations from other nodes in the network
+  outDegree: number; // References to other nodes in the network
+  citedByCount?: number; // Total PubMed cited-by count, for expanded nodes
+  referenceCount?: number; // Total references in PubMed, for expanded nodes
+  coCitation: number; // Times this node is cited together with a seed
+  bibliographicCoupling: number; // References this node shares with the seeds
+}
+
+// `source` cites `target`
+export interface CitationEdge {
+  source: string;
+  target: string;
+}
+
+export interface CitationPairScore {
+  a: string;
+  b: string;
+  score: number;
+}
+
+export interface CitationNetwork {
+  seeds: string[];
+  hops: number;
+  direction: CitationDirection;
+  nodes: CitationNode[];
+  edges: CitationEdge[];
+  coCitation: CitationPairScore[]; // Node pairs most often cited together
+  bibliographicCoupling: CitationPairScore[]; // Node pairs sharing the most references
+  truncated: boolean; // The node or edge limit was reached during expansion
+  limits: { maxNodes: number; maxEdges: number };
+}
+
+const DEFAULT_HOPS = 1;
+const DEFAULT_MAX_NODES = 200;
+const DEFAULT_MAX_EDGES = 1000;
+
+// IDs per elink request (sent as a POST body) and per efetch for node details
+const ELINK_BATCH_SIZE = 100;
+const DETAILS_BATCH_SIZE = 200;
+
+// Pairs reported in the co-citation and coupling rankings
+const TOP_PAIRS = 20;
+
+const LINK_NAMES: Record<Exclude<CitationDirection, 'both'>, string> = {
+  references: 'pubmed_pubmed_refs',
+  cited_by: 'pubmed_pubmed_citedin'
+};
+
+// "citedin" keys are shared with getCitationCounts
+const LINK_CACHE_PREFIXES: Record<Exclude<CitationDirection, 'both'>, string> = {
+  references: 'refs',
+  cited_by: 'citedin'
+};
+
+// Fetch reference or cited-by links for each PMID. IDs are posted as repeated
+// `id` parameters so that elink returns one link set per PMID.
+async function fetchLinks(
+  pmids: string[],
+  kind: Exclude<CitationDirection, 'both'>,
+  cacheMode: CacheMode
+): Promise<Map<string, string[]>> {
+  const links = new Map<string, string[]>();
+  const missing: string[] = [];
+  const prefix = LINK_CACHE_PREFIXES[kind];
+
+  for (const pmid of pmids) {
+    const cached = await getCached<string[]>('links', `${prefix}:${pmid}`, cacheMode);
+    if (cached) {
+      links.set(pmid, cached);
+    } else {
+      missing.push(pmid);
+    }
+  }
+
+  if (missing.length > 0 && cacheMode === 'offline') {
+    throw new OfflineCacheMissError('links', missing.map(pmid => `${prefix}:${pmid}`).join(','));
+  }
+
+  for (let i = 0; i < missing.length; i += ELINK_BATCH_SIZE) {
+    const batch = missing.slice(i, i + ELINK_BATCH_SIZE);
+    const response = await eutilsFetch(
+      ELINK_URL,
+      { dbfrom: 'pubmed', db: 'pubmed', linkname: LINK_NAMES[kind], retmode: 'json' },
+      { method: 'POST', body: new URLSearchParams(batch.map((pmid): [string, string] => ['id', pmid])) }
+    );
+    if (!response.ok) {
+      throw new Error(`elink returned ${response.status}`);
+    }
+    const data: any = await response.json();
+
+    const found = new Map<string, string[]>();
+    for (const linkSet of Array.isArray(data?.linksets) ? data.linksets : []) {
+      const pmid = linkSet.ids?.[0] !== undefined ? String(linkSet.ids[0]) : undefined;
+      if (!pmid) continue;
+      const linkSetDbs: any[] = Array.isArray(linkSet.linksetdbs) ? linkSet.linksetdbs : [];
+      const ids = linkSetDbs.find(linkSetDb => linkSetDb.linkname === LINK_NAMES[kind])?.links || [];
+      found.set(pmid, ids.map((id: unknown) => String(id)));
+    }
+
+    for (const pmid of batch) {
+      const ids = found.get(pmid) || [];
+      links.set(pmid, ids);
+      await setCached('links', `${prefix}:${pmid}`, ids);
+    }
+  }
+
+  return links;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a} ${b}` : `${b} ${a}`;
+}
+
+// Count how often each pair of PMIDs appears together in the given groups
+function countPairs(groups: Iterable<Set<string>>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const group of groups) {
+    const members = [...group];
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = pairKey(members[i], members[j]);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+  }
+  return counts;
+}
+
+function topPairs(counts: Map<string, number>): CitationPairScore[] {
+  return [...counts.entries()]
+    .sort((x, y) => y[1] - x[1] || x[0].localeCompare(y[0]))
+    .slice(0, TOP_PAIRS)
+    .map(([key, score]) => {
+      const [a, b] = key.split(' ');
+      return { a, b, score };
+    });
+}
+
+// Expand a citation network from seed PMIDs
+export async function buildCitationNetwork(
+  seeds: string[],
+  options: CitationNetworkOptions = {}
+): Promise<CitationNetwork> {
+  const hops = options.hops ?? DEFAULT_HOPS;
+  const direction = options.direction ?? 'both';
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const maxEdges = options.maxEdges ?? DEFAULT_MAX_EDGES;
+  const cacheMode = options.cacheMode ?? 'default';
+  const uniqueSeeds = [...new Set(seeds)];
+
+  try {
+    const nodes = new Map<string, CitationNode>();
+    const edges: CitationEdge[] = [];
+    const edgeKeys = new Set<string>();
+    let truncated = false;
+
+    const createNode = (pmid: string, hop: number): CitationNode => ({
+      pmid,
+      hop,
+      seed: hop === 0,
+      inDegree: 0,
+      outDegree: 0,
+      coCitation: 0,
+      bibliographicCoupling: 0
+    });
+
+    // Returns whether the node is (now) part of the network and whether it was just added
+    const addNode = (pmid: string, hop: number): { present: boolean; added: boolean } => {
+      if (nodes.has(pmid)) return { present: true, added: false };
+      // Once the edge limit is reached new nodes could not be connected
+      if (nodes.size >= maxNodes || edges.length >= maxEdges) {
+        truncated = true;
+        return { present: false, added: false };
+      }
+      nodes.set(pmid, createNode(pmid, hop));
+      return { present: true, added: true };
+    };
+
+    const addEdge = (source: string, target: string) => {
+      const key = `${source}>${target}`;
+      if (source === target || edgeKeys.has(key)) return;
+      if (edges.length >= maxEdges) {
+        truncated = true;
+        return;
+      }
+      edgeKeys.add(key);
+      edges.push({ source, target });
+    };
+
+    // Seeds are always included, even beyond the node limit
+    uniqueSeeds.forEach(seed => nodes.set(seed, createNode(seed, 0)));
+
+    const kinds: Exclude<CitationDirection, 'both'>[] = direction === 'both' ? ['references', 'cited_by'] : [direction];
+    let frontier = uniqueSeeds;
+
+    for (let hop = 1; hop <= hops && frontier.length > 0; hop++) {
+      const next: string[] = [];
+
+      for (const kind of kinds) {
+        const links = await fetchLinks(frontier, kind, cacheMode);
+        for (const pmid of frontier) {
+          const linked = links.get(pmid) || [];
+          const node = nodes.get(pmid)!;
+          if (kind === 'references') {
+            node.referenceCount = linked.length;
+          } else {
+            node.citedByCount = linked.length;
+          }
+
+          for (const other of linked) {
+            const { present, added } = addNode(other, hop);
+            if (!present) continue;
+            if (added) next.push(other);
+            if (kind === 'references') {
+              addEdge(pmid, other);
+            } else {
+              addEdge(other, pmid);
+            }
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    // Degrees and neighbour sets within the network
+    const references = new Map<string, Set<string>>();
+    const citers = new Map<string, Set<string>>();
+    for (const { source, target } of edges) {
+      nodes.get(source)!.outDegree++;
+      nodes.get(target)!.inDegree++;
+      references.set(source, (references.get(source) || new Set<string>()).add(target));
+      citers.set(target, (citers.get(target) || new Set<string>()).add(source));
+    }
+
+    // Co-citation: both nodes in one reference list. Coupling: both nodes cite one paper.
+    const coCitation = countPairs(references.values());
+    const coupling = countPairs(citers.values());
+
+    for (const node of nodes.values()) {
+      for (const seed of uniqueSeeds) {
+        if (seed === node.pmid) continue;
+        node.coCitation += coCitation.get(pairKey(node.pmid, seed)) || 0;
+        node.bibliographicCoupling += coupling.get(pairKey(node.pmid, seed)) || 0;
+      }
+    }
+
+    if (options.includeDetails ?? true) {
+      const pmids = [...nodes.keys()];
+      for (let i = 0; i < pmids.length; i += DETAILS_BATCH_SIZE) {
+        const articles = await getArticleDetails(pmids.slice(i, i + DETAILS_BATCH_SIZE), cacheMode);
+        for (const article of articles) {
+          const node = nodes.get(article.pmid);
+          if (!node) continue;
+          node.title = article.title;
+          node.journal = article.journalAbbreviation || article.journal;
+          node.year = (article.pubDate?.iso || article.publicationDate).match(/\d{4}/)?.[0];
+        }
+      }
+    }
+
+    return {
+      seeds: uniqueSeeds,
+      hops,
+      direction,
+      nodes: [...nodes.values()],
+      edges,
+      coCitation: topPairs(coCitation),
+      bibliographicCoupling: topPairs(coupling),
+      truncated,
+      limits: { maxNodes, maxEdges }
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Citation network failed: ${errorMessage}`);
+  }
+}
+
+// Node attributes written to GraphML and GEXF
+const NODE_ATTRIBUTES: { key: keyof CitationNode; type: 'string' | 'int' | 'boolean' }[] = [
+  { key: 'title', type: 'string' },
+  { key: 'journal', type: 'string' },
+  { key: 'year', type: 'string' },
+  { key: 'hop', type: 'int' },
+  { key: 'seed', type: 'boolean' },
+  { key: 'inDegree', type: 'int' },
+  { key: 'outDegree', type: 'int' },
+  { key: 'citedByCount', type: 'int' },
+  { key: 'referenceCount', type: 'int' },
+  { key: 'coCitation', type: 'int' },
+  { key: 'bibliographicCoupling', type: 'int' }
+];
+
+function toGraphML(network: CitationNetwork): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...NODE_ATTRIBUTES.map(({ key, type }) => `  <key id="${key}" for="node" attr.name="${key}" attr.type="${type}"/>`),
+    '  <graph id="citations" edgedefault="directed">'
+  ];
+
+  for (const node of network.nodes) {
+    lines.push(`    <node id="${node.pmid}">`);
+    for (const { key } of NODE_ATTRIBUTES) {
+      const value = node[key];
+      if (value !== undefined) {
+        lines.push(`      <data key="${key}">${escapeXml(String(value))}</data>`);
+      }
+    }
+    lines.push('    </node>');
+  }
+  network.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${edge.source}" target="${edge.target}"/>`);
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function toGEXF(network: CitationNetwork): string {
+  const gexfType = (type: string) => type === 'int' ? 'integer' : type;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <meta>',
+    '    <creator>mcp-pubmed-server</creator>',
+    `    <description>${escapeXml(`PubMed citation network from ${network.seeds.join(', ')}`)}</description>`,
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="directed">',
+    '    <attributes class="node">',
+    ...NODE_ATTRIBUTES.map(({ key, type }, index) => `      <attribute id="${index}" title="${key}" type="${gexfType(type)}"/>`),
+    '    </attributes>',
+    '    <nodes>'
+  ];
+
+  for (const node of network.nodes) {
+    lines.push(`      <node id="${node.pmid}" label="${escapeXml(node.title || node.pmid)}">`);
+    lines.push('        <attvalues>');
+    NODE_ATTRIBUTES.forEach(({ key }, index) => {
+      const value = node[key];
+      if (value !== undefined) {
+        lines.push(`          <attvalue for="${index}" value="${escapeXml(String(value))}"/>`);
+      }
+    });
+    lines.push('        </attvalues>');
+    lines.push('      </node>');
+  }
+  lines.push('    </nodes>', '    <edges>');
+  network.edges.forEach((edge, index) => {
+    lines.push(`      <edge id="${index}" source="${edge.source}" target="${edge.target}"/>`);
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n') + '\n';
+}
+
+// Serialize a citation network for graph tools
+export function exportCitationNetwork(network: CitationNetwork, format: CitationNetworkFormat): string {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(network);
+    case 'gexf':
+      return toGEXF(network);
+    default:
+      return JSON.stringify(network, null, 2);
+  }
+}
@@ -0,0 +1,172 @@
+// Shared HTTP client for NCBI E-utilities and related NCBI services.
+// All outbound NCBI requests go through here so that identification
+// parameters, the global rate limit and retry behaviour live in one place.
+
+// E-utilities endpoints
+export const ESEARCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi';
+export const EFETCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi';
+export const ESUMMARY_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi';
+export const ELINK_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/elink.fcgi';
+export const ECITMATCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/ecitmatch.cgi';
+
+// Literature Citation Exporter API
+export const LIT_CITATION_URL = 'https://api.ncbi.nlm.nih.gov/lit/ctxp/v1';
+
+// PMC ID Converter API
+export const PMC_IDCONV_URL = 'https://pmc.ncbi.nlm.nih.gov/tools/idconv/api/v1/articles/';
+
+export interface EUtilsConfig {
+  apiKey?: string;
+  email?: string;
+  tool: string;
+  requestsPerSecond: number;
+  maxRetries: number;
+}
+
+// NCBI limits: 3 requests/second without an API key, 10 with one
+const RATE_LIMIT_WITHOUT_KEY = 3;
+const RATE_LIMIT_WITH_KEY = 10;
+
+const DEFAULT_TOOL = 'mcp-pubmed-server';
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+
+let config: EUtilsConfig | null = null;
+
+// Read configuration from the environment (lazily, on first request)
+export function getEUtilsConfig(): EUtilsConfig {
+  if (!config) {
+    const apiKey = process.env.NCBI_API_KEY?.trim() || undefined;
+    const maxRetries = parseInt(process.env.NCBI_MAX_RETRIES || '', 10);
+    config = {
+      apiKey,
+      email: process.env.NCBI_EMAIL?.trim() || undefined,
+      tool: process.env.NCBI_TOOL?.trim() || DEFAULT_TOOL,
+      requestsPerSecond: apiKey ? RATE_LIMIT_WITH_KEY : RATE_LIMIT_WITHOUT_KEY,
+      maxRetries: Number.isNaN(maxRetries) ? DEFAULT_MAX_RETRIES : Math.max(0, maxRetries)
+    };
+  }
+  return config;
+}
+
+// Build query URL with parameters
+export function buildUrl(baseUrl: string, params: Record<string, string | number>): string {
+  const url = new URL(baseUrl);
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.set(key, value.toString());
+  });
+  return url.toString();
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Global token bucket shared by every caller in this process.
+// Acquisitions are chained so concurrent tools queue up instead of bursting.
+let tokens: number | null = null;
+let lastRefill = Date.now();
+let tokenQueue: Promise<void> = Promise.resolve();
+
+function refillTokens(rate: number): void {
+  const now = Date.now();
+  const elapsed = (now - lastRefill) / 1000;
+  lastRefill = now;
+  tokens = Math.min(rate, (tokens ?? rate) + elapsed * rate);
+}
+
+function acquireToken(): Promise<void> {
+  const { requestsPerSecond: rate } = getEUtilsConfig();
+
+  const next = tokenQueue.then(async () => {
+    refillTokens(rate);
+    if (tokens! < 1) {
+      await delay(((1 - tokens!) / rate) * 1000);
+      refillTokens(rate);
+    }
+    tokens! -= 1;
+  });
+
+  tokenQueue = next.catch(() => undefined);
+  return next;
+}
+
+// Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = BASE_BACKOFF_MS * Math.pow(2, attempt);
+  const jitter = Math.random() * BASE_BACKOFF_MS;
+  return Math.min(MAX_BACKOFF_MS, exponential + jitter);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Rate-limited fetch with retries for 429/5xx responses and network errors.
+// Returns the final Response; callers still check `response.ok`.
+export async function ncbiFetch(url: string, init?: RequestInit): Promise<Response> {
+  const { maxRetries } = getEUtilsConfig();
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken();
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= maxRetries) {
+        throw error;
+      }
+      await delay(backoffDelay(attempt));
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    const wait = retryAfter !== undefined ? Math.min(retryAfter, MAX_BACKOFF_MS) : backoffDelay(attempt);
+    console.error(`NCBI request returned ${response.status}, retrying in ${Math.round(wait)}ms (attempt ${attempt + 1}/${maxRetries})`);
+
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+    await delay(wait);
+  }
+}
+
+// Fetch an E-utilities endpoint, adding tool/email/api_key identification
+export function eutilsFetch(
+  baseUrl: string,
+  params: Record<string, string | number>,
+  init?: RequestInit
+): Promise<Response> {
+  const { apiKey, email, tool } = getEUtilsConfig();
+
+  const fullParams: Record<string, string | number> = { ...params, tool };
+  if (email) {
+    fullParams.email = email;
+  }
+  if (apiKey) {
+    fullParams.api_key = apiKey;
+  }
+
+  return ncbiFetch(buildUrl(baseUrl, fullParams), init);
+}
@@ -0,0 +1,501 @@
+import { FullTextResult, FullTextSection, FullTextTable, ImradType, flattenSections } from './jats-parser.js';
+
+// Section selection, outlines and size-limited rendering for PMC full texts, so
+// clients can pull the parts of an article they need within a context budget.
+
+export type FullTextSectionFilter = ImradType | 'abstract';
+
+export type FullTextOutputFormat = 'markdown' | 'plain';
+
+export interface FullTextSelection {
+  sections?: FullTextSectionFilter[]; // Keep sections of these types (empty or omitted: everything)
+  sectionIds?: string[]; // Keep these sections (ids from the outline), with their subsections
+}
+
+export interface FullTextRenderOptions extends FullTextSelection {
+  format?: FullTextOutputFormat;
+  maxChars?: number; // Character budget per article
+  maxTokens?: number; // Token budget per article, estimated at CHARS_PER_TOKEN characters per token
+}
+
+export interface RenderedFullText {
+  pmid: string;
+  pmcId: string;
+  title: string;
+  text: string;
+  chars: number;
+  estimatedTokens: number;
+  truncated: boolean;
+  omittedSections: string[]; // Titles of selected sections left out entirely to fit the budget
+  matchedSections: number; // Selected sections (0 when a filter matched nothing)
+}
+
+export interface FullTextOutlineEntry {
+  id: string;
+  label?: string;
+  title: string;
+  level: number;
+  imradTypes: ImradType[];
+  paragraphs: number;
+  chars: number; // Plain-text size of the section including its subsections
+  estimatedTokens: number;
+  figures: number;
+  tables: number;
+  subsections: FullTextOutlineEntry[];
+}
+
+export interface FullTextOutline {
+  pmid: string;
+  pmcId: string;
+  doi?: string;
+  title: string;
+  journal?: string;
+  abstract?: FullTextOutlineEntry;
+  sections: FullTextOutlineEntry[];
+  figures: number;
+  tables: number;
+  footnotes: number;
+  supplementaryMaterials: number;
+  references: number;
+  totalChars: number;
+  estimatedTokens: number;
+}
+
+// Rough average for English scientific text with common LLM tokenizers
+export const CHARS_PER_TOKEN = 4;
+
+// Smallest remainder worth cutting a paragraph down to instead of dropping it
+const MIN_TRUNCATED_PARAGRAPH = 200;
+
+// Room kept for the truncation notice when sizing first paragraphs
+const NOTICE_RESERVE = 200;
+
+// A unit of rendered output. Blocks are admitted by rank: every section's heading,
+// then the first paragraph of every section, then the second, and so on, followed by
+// figures, tables, supplementary material, footnotes and references.
+interface TextBlock {
+  text: string;
+  rank: number;
+  group: string; // Section id, or the name of a back-matter list
+  heading: boolean;
+  name?: string; // Heading text without formatting
+  path: string[]; // Ids of the enclosing sections (including its own group)
+}
+
+const EXTRA_GROUP_RANKS: Record<string, number> = {
+  figures: 100000,
+  tables: 200000,
+  supplementary: 300000,
+  footnotes: 400000,
+  references: 500000
+};
+
+const EXTRA_GROUP_TITLES: Record<string, { markdown: string; plain: string }> = {
+  figures: { markdown: '### 🖼️ Figures', plain: 'FIGURES' },
+  tables: { markdown: '### 📊 Tables', plain: 'TABLES' },
+  supplementary: { markdown: '### 📎 Supplementary Material', plain: 'SUPPLEMENTARY MATERIAL' },
+  footnotes: { markdown: '### 📝 Footnotes', plain: 'FOOTNOTES' },
+  references: { markdown: '### 📚 References', plain: 'REFERENCES' }
+};
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function budgetOf(options: FullTextRenderOptions): number | undefined {
+  const budgets = [
+    options.maxChars,
+    options.maxTokens !== undefined ? options.maxTokens * CHARS_PER_TOKEN : undefined
+  ].filter((value): value is number => value !== undefined && value > 0);
+  return budgets.length > 0 ? Math.min(...budgets) : undefined;
+}
+
+function sectionHeading(section: FullTextSection): string {
+  return [section.label, section.title].filter(Boolean).join(' ');
+}
+
+function hasSelection(selection: FullTextSelection): boolean {
+  return (selection.sections?.length ?? 0) > 0 || (selection.sectionIds?.length ?? 0) > 0;
+}
+
+function pruneSection(section: FullTextSection, matches: (section: FullTextSection) => boolean): FullTextSection | undefined {
+  if (matches(section)) return section;
+  const subsections = section.subsections
+    .map(subsection => pruneSection(subsection, matches))
+    .filter((subsection): subsection is FullTextSection => subsection !== undefined);
+  // Ancestors of matching sections are kept as headings only
+  return subsections.length > 0 ? { ...section, paragraphs: [], subsections } : undefined;
+}
+
+function walkSections(sections: FullTextSection[], visit: (section: FullTextSection) => void): void {
+  sections.forEach(section => {
+    visit(section);
+    walkSections(section.subsections, visit);
+  });
+}
+
+// Restrict an article to the selected sections. Figures and tables are kept when they
+// appear in, or are cited from, the selected text; footnotes, supplementary material and
+// references when they are cited from it.
+export function selectFullText(article: FullTextResult, selection: FullTextSelection): FullTextResult {
+  if (!hasSelection(selection)) return article;
+
+  const types = selection.sections ?? [];
+  const ids = selection.sectionIds ?? [];
+  const abstract = article.abstract
+    ? pruneSection(article.abstract, section => types.includes('abstract') || ids.includes(section.id))
+    : undefined;
+  const body = article.body
+    .map(section => pruneSection(section, candidate =>
+      candidate.imradTypes.some(type => types.includes(type)) || ids.includes(candidate.id)
+    ))
+    .filter((section): section is FullTextSection => section !== undefined);
+
+  const kept = [...(abstract ? [abstract] : []), ...body];
+  const sectionIds = new Set<string>();
+  const cited = new Set<string>();
+  walkSections(kept, section => {
+    if (section.paragraphs.length > 0) sectionIds.add(section.id);
+    section.paragraphs.forEach(paragraph =>
+      paragraph.anchors.forEach(anchor => anchor.rids.forEach(rid => cited.add(rid)))
+    );
+  });
+  const isCited = (item: { id?: string }) => item.id !== undefined && cited.has(item.id);
+  const inSelection = (item: { id?: string; sectionId?: string }) =>
+    (item.sectionId !== undefined && sectionIds.has(item.sectionId)) || isCited(item);
+
+  const flat = flattenSections(kept);
+  return {
+    ...article,
+    abstract,
+    body,
+    figures: article.figures.filter(inSelection),
+    tables: article.tables.filter(inSelection),
+    footnotes: article.footnotes.filter(isCited),
+    supplementaryMaterials: article.supplementaryMaterials.filter(isCited),
+    references: article.references.filter(isCited),
+    fullText: flat.map(section => `${section.title}\n${section.content}`).join('\n\n'),
+    sections: flat
+  };
+}
+
+function countSections(sections: FullTextSection[]): number {
+  let count = 0;
+  walkSections(sections, section => {
+    if (section.paragraphs.length > 0) count++;
+  });
+  return count;
+}
+
+// Markdown table from a full-text cell grid; header rows are merged into one heading row
+export function markdownTable(table: FullTextTable): string {
+  if (table.rows.length === 0) return '';
+  const cell = (text: string) => text.replace(/\|/g, '\\|') || ' ';
+  const headerCount = Math.max(1, table.headerRows);
+  const header = table.rows[0].map((_, column) =>
+    [...new Set(table.rows.slice(0, headerCount).map(row => row[column]).filter(Boolean))].join(' / ')
+  );
+  const body = table.rows.slice(headerCount);
+  return [
+    `| ${header.map(cell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ].join('\n');
+}
+
+function plainTable(table: FullTextTable): string {
+  return table.rows.map(row => row.join('\t')).join('\n');
+}
+
+function sectionBlocks(
+  section: FullTextSection,
+  format: FullTextOutputFormat,
+  parents: string[],
+  blocks: TextBlock[]
+): void {
+  const path = [...parents, section.id];
+  const heading = sectionHeading(section);
+  if (heading) {
+    blocks.push({
+      text: format === 'markdown' ? `${'#'.repeat(Math.min(section.level + 2, 6))} ${heading}` : heading.toUpperCase(),
+      rank: 0,
+      group: section.id,
+      heading: true,
+      name: heading,
+      path
+    });
+  }
+  section.paragraphs.forEach((paragraph, index) => {
+    blocks.push({ text: paragraph.text, rank: index + 1, group: section.id, heading: false, path });
+  });
+  section.subsections.forEach(subsection => sectionBlocks(subsection, format, path, blocks));
+}
+
+function extraBlocks(group: string, items: string[], format: FullTextOutputFormat, blocks: TextBlock[]): void {
+  if (items.length === 0) return;
+  const rank = EXTRA_GROUP_RANKS[group];
+  blocks.push({ text: EXTRA_GROUP_TITLES[group][format], rank, group, heading: true, path: [group] });
+  items.forEach((text, index) => {
+    blocks.push({ text, rank: rank + index + 1, group, heading: false, path: [group] });
+  });
+}
+
+function articleBlocks(article: FullTextResult, format: FullTextOutputFormat): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  if (article.abstract) {
+    sectionBlocks(article.abstract, format, [], blocks);
+  }
+  article.body.forEach(section => sectionBlocks(section, format, [], blocks));
+
+  const bold = (text: string) => format === 'markdown' ? `**${text}**` : text;
+  extraBlocks('figures', article.figures.map(figure =>
+    `${format === 'markdown' ? '- ' : ''}${bold(figure.label || figure.id || 'Figure')}: ${figure.caption || '(no caption)'}`
+  ), format, blocks);
+  extraBlocks('tables', article.tables.map(table => {
+    const title = `${bold(table.label || table.id || 'Table')}${table.caption ? `: ${table.caption}` : ''}`;
+    const grid = format === 'markdown' ? markdownTable(table) : plainTable(table);
+    const footnotes = table.footnotes.map(footnote => format === 'markdown' ? `> ${footnote}` : footnote).join('\n');
+    return [title, grid, footnotes].filter(Boolean).join('\n\n');
+  }), format, blocks);
+  extraBlocks('supplementary', article.supplementaryMaterials.map(material => {
+    const name = material.label || material.href || material.id || 'Supplement';
+    return `${format === 'markdown' ? '- ' : ''}${bold(name)}${material.caption ? `: ${material.caption}` : ''}${material.url ? ` ${material.url}` : ''}`;
+  }), format, blocks);
+  extraBlocks('footnotes', article.footnotes.map(footnote =>
+    `${format === 'markdown' ? '- ' : ''}${footnote.label ? `${footnote.label} ` : ''}${footnote.text}`
+  ), format, blocks);
+  extraBlocks('references', article.references.map((reference, index) => {
+    const ids = [
+      reference.pmid ? `PMID: ${reference.pmid}` : '',
+      reference.doi ? `DOI: ${reference.doi}` : '',
+      reference.pmcId ? `PMC: ${reference.pmcId}` : ''
+    ].filter(Boolean).join(', ');
+    return `${(reference.label || String(index + 1)).replace(/\.$/, '')}. ${reference.citation}${ids ? ` [${ids}]` : ''}`;
+  }), format, blocks);
+  return blocks;
+}
+
+function articleHeader(article: FullTextResult, format: FullTextOutputFormat): string {
+  const lines = [
+    format === 'markdown' ? `**${article.title}**` : article.title,
+    `PMID: ${article.pmid}`,
+    `PMC ID: ${article.pmcId}`,
+    article.doi ? `DOI: ${article.doi}` : '',
+    article.journal ? `Journal: ${article.journal}` : ''
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+// Cut a paragraph at the last sentence (or word) boundary within the limit
+function truncateParagraph(text: string, limit: number): string {
+  const room = limit - 2; // ' …'
+  const head = text.slice(0, room);
+  const sentenceEnd = Math.max(head.lastIndexOf('. '), head.lastIndexOf('? '), head.lastIndexOf('! '));
+  const cut = sentenceEnd >= room / 2 ? head.slice(0, sentenceEnd + 1) : head.replace(/\s+\S*$/, '');
+  return `${cut} …`;
+}
+
+function omittedNote(count: number, noun: string, format: FullTextOutputFormat): string {
+  const note = `[… ${count} more ${noun}${count === 1 ? '' : 's'} omitted]`;
+  return format === 'markdown' ? `*${note}*` : note;
+}
+
+// Assemble the included blocks in document order, with a note wherever a group was cut short
+function assemble(
+  header: string,
+  blocks: TextBlock[],
+  included: Map<number, string>,
+  format: FullTextOutputFormat,
+  notice: string
+): string {
+  const usedGroups = new Set<string>();
+  const omitted = new Map<string, number>();
+  const lastBlock = new Map<string, number>();
+  blocks.forEach((block, index) => {
+    if (block.heading) return;
+    if (included.has(index)) {
+      block.path.forEach(id => usedGroups.add(id));
+    } else {
+      omitted.set(block.group, (omitted.get(block.group) ?? 0) + 1);
+    }
+    lastBlock.set(block.group, index);
+  });
+
+  const parts = [header];
+  blocks.forEach((block, index) => {
+    if (block.heading) {
+      if (usedGroups.has(block.group)) parts.push(block.text);
+      return;
+    }
+    if (included.has(index)) {
+      parts.push(included.get(index)!);
+    }
+    const omittedCount = omitted.get(block.group) ?? 0;
+    if (lastBlock.get(block.group) === index && omittedCount > 0 && usedGroups.has(block.group)) {
+      parts.push(omittedNote(omittedCount, block.group in EXTRA_GROUP_RANKS ? 'item' : 'paragraph', format));
+    }
+  });
+  if (notice) {
+    parts.push(format === 'markdown' ? `*${notice}*` : notice);
+  }
+  return parts.join('\n\n');
+}
+
+// Render a (selected) article as Markdown or plain text within an optional budget.
+// Over budget, every section keeps its opening paragraphs before any section gets
+// more, so the output covers the whole selection rather than just its first part.
+export function renderFullText(article: FullTextResult, options: FullTextRenderOptions = {}): RenderedFullText {
+  const format = options.format ?? 'markdown';
+  const selected = selectFullText(article, options);
+  const matchedSections = countSections([...(selected.abstract ? [selected.abstract] : []), ...selected.body]);
+  const header = articleHeader(selected, format);
+  const blocks = articleBlocks(selected, format);
+  const budget = budgetOf(options);
+
+  const all = new Map<number, string>();
+  blocks.forEach((block, index) => {
+    if (!block.heading) all.set(index, block.text);
+  });
+  const fullRender = assemble(header, blocks, all, format, '');
+  const result = (text: string, truncated: boolean, omittedSections: string[]): RenderedFullText => ({
+    pmid: selected.pmid,
+    pmcId: selected.pmcId,
+    title: selected.title,
+    text,
+    chars: text.length,
+    estimatedTokens: estimateTokens(text.length),
+    truncated,
+    omittedSections,
+    matchedSections
+  });
+  if (budget === undefined || fullRender.length <= budget) {
+    return result(fullRender, false, []);
+  }
+
+  const order = blocks
+    .map((block, index) => ({ block, index }))
+    .filter(({ block }) => !block.heading)
+    .sort((a, b) => a.block.rank - b.block.rank || a.index - b.index);
+  const headingCost = new Map<string, number>();
+  blocks.forEach(block => {
+    if (block.heading) headingCost.set(block.group, block.text.length + 2);
+  });
+
+  // When not even every section's first paragraph fits, cap them all at the same length
+  // (the largest that fits), so each selected section is still represented
+  const firstParagraphs = order.filter(({ block }) => block.rank === 1).map(({ block }) => block);
+  const firstHeadings = new Set(firstParagraphs.flatMap(block => block.path));
+  const fixedCost = header.length + NOTICE_RESERVE
+    + [...firstHeadings].reduce((sum, id) => sum + (headingCost.get(id) ?? 0), 0);
+  const costAtCap = (cap: number) =>
+    firstParagraphs.reduce((sum, block) => sum + Math.min(block.text.length, cap) + 2, fixedCost);
+  let cap = Infinity;
+  if (costAtCap(Infinity) > budget && costAtCap(MIN_TRUNCATED_PARAGRAPH) <= budget) {
+    let low = MIN_TRUNCATED_PARAGRAPH;
+    let high = Math.max(...firstParagraphs.map(block => block.text.length));
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (costAtCap(middle) <= budget) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    cap = low;
+  }
+
+  // Greedy admission by rank; a group stops at its first block that does not fit
+  const included = new Map<number, string>();
+  const closedGroups = new Set<string>();
+  const countedHeadings = new Set<string>();
+  let used = header.length;
+  let truncatedParagraph = false;
+  for (const { block, index } of order) {
+    if (closedGroups.has(block.group)) continue;
+    const headings = block.path.filter(id => !countedHeadings.has(id));
+    const headingsCost = headings.reduce((sum, id) => sum + (headingCost.get(id) ?? 0), 0);
+    let text: string | undefined = block.rank === 1 && block.text.length > cap
+      ? truncateParagraph(block.text, cap)
+      : block.text;
+    if (text !== block.text) {
+      closedGroups.add(block.group);
+    }
+    if (used + headingsCost + text.length + 2 > budget) {
+      closedGroups.add(block.group);
+      // Cut the first paragraph that overflows rather than dropping it
+      const room = budget - used - headingsCost - 2;
+      text = !truncatedParagraph && room >= MIN_TRUNCATED_PARAGRAPH && block.rank < EXTRA_GROUP_RANKS.figures
+        ? truncateParagraph(block.text, room)
+        : undefined;
+      if (!text) continue;
+      truncatedParagraph = true;
+    }
+    included.set(index, text);
+    headings.forEach(id => countedHeadings.add(id));
+    used += headingsCost + text.length + 2;
+  }
+
+  // Notes added by assemble may push the text over; drop the lowest-priority blocks until it fits
+  const render = () => {
+    const usedGroups = new Set<string>();
+    included.forEach((_, index) => blocks[index].path.forEach(id => usedGroups.add(id)));
+    const omittedSections = blocks
+      .filter(block => block.heading && !usedGroups.has(block.group) && !(block.group in EXTRA_GROUP_RANKS))
+      .map(block => block.name!);
+    const budgetNote = `Truncated to about ${budget.toLocaleString('en-US')} characters (${estimateTokens(budget).toLocaleString('en-US')} tokens).`;
+    const sectionNote = omittedSections.length > 0 ? ` Sections omitted: ${omittedSections.join(', ')}.` : '';
+    return { text: assemble(header, blocks, included, format, budgetNote + sectionNote), omittedSections };
+  };
+  let rendered = render();
+  const removable = [...order].reverse();
+  while (rendered.text.length > budget && included.size > 0) {
+    const next = removable.find(({ index }) => included.has(index));
+    if (!next) break;
+    included.delete(next.index);
+    rendered = render();
+  }
+  return result(rendered.text, true, rendered.omittedSections);
+}
+
+function outlineEntry(section: FullTextSection, article: FullTextResult): FullTextOutlineEntry {
+  const subsections = section.subsections.map(subsection => outlineEntry(subsection, article));
+  const heading = sectionHeading(section);
+  const ownChars = section.paragraphs.reduce((sum, paragraph) => sum + paragraph.text.length + 2, heading ? heading.length + 2 : 0);
+  const chars = subsections.reduce((sum, subsection) => sum + subsection.chars, ownChars);
+  return {
+    id: section.id,
+    label: section.label,
+    title: section.title,
+    level: section.level,
+    imradTypes: section.imradTypes,
+    paragraphs: section.paragraphs.length,
+    chars,
+    estimatedTokens: estimateTokens(chars),
+    figures: article.figures.filter(figure => figure.sectionId === section.id).length,
+    tables: article.tables.filter(table => table.sectionId === section.id).length,
+    subsections
+  };
+}
+
+// Section tree with sizes, for choosing what to retrieve with renderFullText
+export function outlineFullText(article: FullTextResult): FullTextOutline {
+  const abstract = article.abstract ? outlineEntry(article.abstract, article) : undefined;
+  const sections = article.body.map(section => outlineEntry(section, article));
+  const totalChars = renderFullText(article, { format: 'plain' }).chars;
+  return {
+    pmid: article.pmid,
+    pmcId: article.pmcId,
+    doi: article.doi,
+    title: article.title,
+    journal: article.journal,
+    abstract,
+    sections,
+    figures: article.figures.length,
+    tables: article.tables.length,
+    footnotes: article.footnotes.length,
+    supplementaryMaterials: article.supplementaryMaterials.length,
+    references: article.references.length,
+    totalChars,
+    estimatedTokens: estimateTokens(totalChars)
+  };
+}
@@ -0,0 +1,401 @@
+import { ESEARCH_URL, ESUMMARY_URL, PMC_IDCONV_URL, buildUrl, eutilsFetch, getEUtilsConfig, ncbiFetch } from './eutils-client.js';
+import { CacheMode, OfflineCacheMissError, getCached, setCached } from './cache.js';
+import { ItemStatus, errorItem } from './item-results.js';
+
+// Identifier parsing and conversion between PMIDs, PMCIDs, DOIs and NIH manuscript
+// IDs (MIDs). Lookups go to the PMC ID Converter, which only knows articles in PMC;
+// PubMed records outside PMC are resolved through esearch/esummary.
+
+export type IdType = 'pmid' | 'pmcid' | 'doi' | 'mid';
+
+export interface ParsedIdentifier {
+  input: string;
+  type: IdType;
+  value: string; // Digits for PMIDs, "PMC" + digits for PMCIDs; DOIs as given (compared case-insensitively)
+}
+
+export interface ArticleIds {
+  pmid?: string;
+  pmcid?: string;
+  doi?: string;
+  mid?: string;
+}
+
+export type IdConversionSource = 'input' | 'idconv' | 'esearch' | 'esummary';
+
+export interface IdConversionRecord extends ArticleIds {
+  input: string;
+  type?: IdType; // Undefined when the input is not a recognizable identifier
+  status: Exclude<ItemStatus, 'no_full_text'> | 'invalid';
+  source?: IdConversionSource;
+  error?: string;
+  retryable?: boolean; // Set on lookups that failed at NCBI rather than found nothing
+  retryAfterSeconds?: number;
+}
+
+export interface IdConversionResult {
+  records: IdConversionRecord[];
+  resolvedCount: number;
+  unresolved: string[];
+}
+
+export interface IdConversionOptions {
+  cacheMode?: CacheMode;
+  fallback?: boolean; // Resolve IDs missing from PMC through PubMed (default: true)
+}
+
+interface CachedIds extends ArticleIds {
+  source: IdConversionSource;
+}
+
+// The ID Converter accepts up to 200 IDs per request
+const IDCONV_BATCH_SIZE = 200;
+const ESUMMARY_BATCH_SIZE = 200;
+
+const MANUSCRIPT_ID_PATTERN = /^(NIHMS|EMS|CAMS|PMCAMS|HHMIMS)\d+$/i;
+
+function cacheKey(type: IdType, value: string): string {
+  return `${type}:${type === 'doi' ? value.toLowerCase() : value}`;
+}
+
+function cleanDoi(value: string): string {
+  return decodeURIComponent(value).replace(/[.,;]+$/, '').trim();
+}
+
+// Recognize a PMID, PMCID, DOI or MID, bare or prefixed ("PMID: 123", "doi:10.…"),
+// or as a PubMed, PMC or doi.org URL
+export function parseIdentifier(raw: string): ParsedIdentifier | undefined {
+  const input = raw.trim();
+  const value = input.replace(/^[<"']+|[>"']+$/g, '').trim();
+  if (!value) return undefined;
+
+  const pubmedUrl = value.match(/(?:pubmed\.ncbi\.nlm\.nih\.gov|ncbi\.nlm\.nih\.gov\/pubmed)\/(\d+)/i);
+  if (pubmedUrl) return { input, type: 'pmid', value: pubmedUrl[1] };
+
+  const pmcUrl = value.match(/(?:pmc\.ncbi\.nlm\.nih\.gov|ncbi\.nlm\.nih\.gov\/pmc)\/articles\/PMC(\d+)/i);
+  if (pmcUrl) return { input, type: 'pmcid', value: `PMC${pmcUrl[1]}` };
+
+  const doiUrl = value.match(/^https?:\/\/(?:dx\.)?doi\.org\/(10\.\S+)$/i);
+  if (doiUrl) return { input, type: 'doi', value: cleanDoi(doiUrl[1]) };
+
+  const pmid = value.match(/^(?:pmid:?\s*)?(\d{1,9})$/i);
+  if (pmid) return { input, type: 'pmid', value: pmid[1] };
+
+  const pmcid = value.match(/^(?:pmcid:?\s*)?PMC(\d+)$/i);
+  if (pmcid) return { input, type: 'pmcid', value: `PMC${pmcid[1]}` };
+
+  const doi = value.match(/^(?:doi:?\s*)?(10\.\d{4,9}\/\S+)$/i);
+  if (doi) return { input, type: 'doi', value: cleanDoi(doi[1]) };
+
+  if (MANUSCRIPT_ID_PATTERN.test(value)) return { input, type: 'mid', value: value.toUpperCase() };
+
+  return undefined;
+}
+
+// Split a comma-, semicolon- or whitespace-separated identifier list. Semicolons
+// also occur inside DOIs (SICI DOIs such as "…3.0.CO;2-I"), so a DOI only ends at
+// one when the text after it is an identifier of its own.
+export function splitIdentifiers(input: string | string[]): string[] {
+  const parts = Array.isArray(input) ? input : [input];
+  return parts
+    .flatMap(part => part.split(/[\s,]+/))
+    .flatMap(part => part.split(';').reduce<string[]>((pieces, piece) => {
+      const previous = pieces[pieces.length - 1];
+      if (piece && previous && parseIdentifier(previous)?.type === 'doi' && !parseIdentifier(piece)) {
+        pieces[pieces.length - 1] = `${previous};${piece}`;
+      } else {
+        pieces.push(piece);
+      }
+      return pieces;
+    }, []))
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+}
+
+function idsFromRecord(record: any): ArticleIds {
+  const pmid = record.pmid !== undefined && record.pmid !== null ? String(record.pmid) : undefined;
+  return {
+    pmid: pmid && /^\d+$/.test(pmid) ? pmid : undefined,
+    pmcid: record.pmcid || undefined,
+    doi: record.doi || undefined,
+    mid: record.mid || undefined
+  };
+}
+
+// Look up one batch of same-type IDs with the PMC ID Converter
+async function idconvBatch(type: IdType, values: string[]): Promise<Map<string, ArticleIds>> {
+  const { email, tool } = getEUtilsConfig();
+  const params: Record<string, string> = { ids: values.join(','), idtype: type, format: 'json', tool };
+  if (email) {
+    params.email = email;
+  }
+
+  const response = await ncbiFetch(buildUrl(PMC_IDCONV_URL, params));
+  if (!response.ok) {
+    throw new Error(`ID Converter returned ${response.status}`);
+  }
+  const data: any = await response.json();
+
+  const found = new Map<string, ArticleIds>();
+  for (const record of Array.isArray(data?.records) ? data.records : []) {
+    if (record.status === 'error') continue;
+    const ids = idsFromRecord(record);
+    const requested = record['requested-id'] !== undefined ? String(record['requested-id']) : ids[type];
+    const match = values.find(value => cacheKey(type, value) === cacheKey(type, requested || ''));
+    if (match) {
+      found.set(match, ids);
+    }
+  }
+  return found;
+}
+
+// PubMed fallbacks: DOIs and PMCIDs by field search, then DOI/PMCID for PMIDs from esummary
+async function esearchPmid(type: 'doi' | 'pmcid', value: string): Promise<string | undefined> {
+  const term = type === 'doi' ? `"${value}"[doi]` : `${value}[pmcid]`;
+  const response = await eutilsFetch(ESEARCH_URL, { db: 'pubmed', term, retmode: 'json', retmax: 2 });
+  if (!response.ok) {
+    throw new Error(`esearch returned ${response.status}`);
+  }
+  const data: any = await response.json();
+  const idList: string[] = data?.esearchresult?.idlist || [];
+  // Ambiguous matches are left unresolved rather than guessed
+  return idList.length === 1 ? idList[0] : undefined;
+}
+
+async function esummaryBatch(pmids: string[]): Promise<Map<string, ArticleIds>> {
+  const response = await eutilsFetch(ESUMMARY_URL, { db: 'pubmed', id: pmids.join(','), retmode: 'json' });
+  if (!response.ok) {
+    throw new Error(`esummary returned ${response.status}`);
+  }
+  const data: any = await response.json();
+  const result = data?.result || {};
+  const found = new Map<string, ArticleIds>();
+  for (const pmid of pmids) {
+    const summary = result[pmid];
+    if (!summary || summary.error) continue;
+    const articleIds: { idtype: string; value: string }[] = summary.articleids || [];
+    const idOf = (idtype: string) => articleIds.find(id => id.idtype === idtype)?.value;
+    const pmcid = idOf('pmc') || idOf('pmcid')?.match(/PMC\d+/)?.[0];
+    found.set(pmid, {
+      pmid,
+      pmcid: pmcid || undefined,
+      doi: idOf('doi') || undefined,
+      mid: idOf('mid') || undefined
+    });
+  }
+  return found;
+}
+
+// Convert identifiers of any supported type to the full set of article IDs, in input order
+export async function convertIds(inputs: string[], options: IdConversionOptions = {}): Promise<IdConversionResult> {
+  const cacheMode = options.cacheMode ?? 'default';
+  const fallback = options.fallback ?? true;
+
+  try {
+    const parsed = inputs.map(input => ({ input, identifier: parseIdentifier(input) }));
+    const resolved = new Map<string, CachedIds>(); // cacheKey -> ids
+    const failed = new Map<string, { error: unknown; ids?: ArticleIds }>(); // cacheKey -> last lookup error
+    const pending = new Map<IdType, string[]>();
+
+    for (const { identifier } of parsed) {
+      if (!identifier) continue;
+      const key = cacheKey(identifier.type, identifier.value);
+      if (resolved.has(key) || pending.get(identifier.type)?.includes(identifier.value)) continue;
+      const cached = await getCached<CachedIds>('ids', key, cacheMode);
+      if (cached) {
+        resolved.set(key, cached);
+      } else {
+        pending.set(identifier.type, [...(pending.get(identifier.type) ?? []), identifier.value]);
+      }
+    }
+
+    const missing = [...pending.entries()].flatMap(([type, values]) => values.map(value => cacheKey(type, value)));
+    if (missing.length > 0 && cacheMode === 'offline') {
+      throw new OfflineCacheMissError('ids', missing.join(','));
+    }
+
+    const store = async (type: IdType, value: string, ids: ArticleIds, source: IdConversionSource) => {
+      const record: CachedIds = { ...ids, [type]: ids[type] ?? value, source };
+      resolved.set(cacheKey(type, value), record);
+      failed.delete(cacheKey(type, value));
+      await setCached('ids', cacheKey(type, value), record);
+    };
+
+    // PMC ID Converter, one request per ID type and batch
+    for (const [type, values] of pending) {
+      for (let i = 0; i < values.length; i += IDCONV_BATCH_SIZE) {
+        const batch = values.slice(i, i + IDCONV_BATCH_SIZE);
+        try {
+          const found = await idconvBatch(type, batch);
+          for (const [value, ids] of found) {
+            await store(type, value, ids, 'idconv');
+          }
+        } catch (error) {
+          // Kept as the item's error unless the PubMed fallback finds it
+          batch.forEach(value => failed.set(cacheKey(type, value), { error }));
+          if (fallback) {
+            console.error(`ID Converter lookup failed, falling back to PubMed: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+      }
+    }
+
+    if (fallback) {
+      const unresolvedOf = (type: IdType) =>
+        (pending.get(type) ?? []).filter(value => !resolved.has(cacheKey(type, value)));
+
+      const pmidsFor = new Map<string, { type: IdType; value: string }[]>();
+      for (const type of ['doi', 'pmcid'] as const) {
+        for (const value of unresolvedOf(type)) {
+          try {
+            const pmid = await esearchPmid(type, value);
+            if (pmid) {
+              pmidsFor.set(pmid, [...(pmidsFor.get(pmid) ?? []), { type, value }]);
+            }
+          } catch (error) {
+            failed.set(cacheKey(type, value), { error });
+          }
+        }
+      }
+
+      // A failed esummary batch fails the PMIDs in it; DOIs and PMCIDs found
+      // through esearch keep their PMID but are not cached without the other IDs
+      const summaryPmids = [...new Set([...unresolvedOf('pmid'), ...pmidsFor.keys()])];
+      const summaries = new Map<string, ArticleIds>();
+      const summaryErrors = new Map<string, unknown>();
+      for (let i = 0; i < summaryPmids.length; i += ESUMMARY_BATCH_SIZE) {
+        const batch = summaryPmids.slice(i, i + ESUMMARY_BATCH_SIZE);
+        try {
+          for (const [pmid, ids] of await esummaryBatch(batch)) {
+            summaries.set(pmid, ids);
+          }
+        } catch (error) {
+          batch.forEach(pmid => summaryErrors.set(pmid, error));
+        }
+      }
+
+      for (const pmid of unresolvedOf('pmid')) {
+        const ids = summaries.get(pmid);
+        if (ids) {
+          await store('pmid', pmid, ids, 'esummary');
+        } else if (summaryErrors.has(pmid)) {
+          failed.set(cacheKey('pmid', pmid), { error: summaryErrors.get(pmid) });
+        }
+      }
+      for (const [pmid, sources] of pmidsFor) {
+        for (const { type, value } of sources) {
+          if (summaryErrors.has(pmid)) {
+            failed.set(cacheKey(type, value), { error: summaryErrors.get(pmid), ids: { pmid } });
+          } else {
+            await store(type, value, { ...summaries.get(pmid), pmid }, 'esearch');
+          }
+        }
+      }
+    }
+
+    const records: IdConversionRecord[] = parsed.map(({ input, identifier }) => {
+      if (!identifier) {
+        return { input, status: 'invalid', error: 'Not a PMID, PMCID, DOI, manuscript ID or PubMed/PMC/doi.org URL' };
+      }
+      const ids = resolved.get(cacheKey(identifier.type, identifier.value));
+      const failure = failed.get(cacheKey(identifier.type, identifier.value));
+      if (!ids && failure) {
+        const item = errorItem(input, failure.error);
+        return {
+          input,
+          type: identifier.type,
+          ...failure.ids,
+          [identifier.type]: identifier.value,
+          status: item.status as IdConversionRecord['status'],
+          error: item.message,
+          retryable: item.retryable,
+          retryAfterSeconds: item.retryAfterSeconds
+        };
+      }
+      if (!ids) {
+        return {
+          input,
+          type: identifier.type,
+          [identifier.type]: identifier.value,
+          status: 'not_found',
+          error: fallback ? 'Not found in PMC or PubMed' : 'Not found in PMC'
+        };
+      }
+      const { source, ...articleIds } = ids;
+      return { input, type: identifier.type, ...articleIds, status: 'ok', source };
+    });
+
+    return {
+      records,
+      resolvedCount: records.filter(record => record.status === 'ok').length,
+      unresolved: records.filter(record => record.status !== 'ok').map(record => record.input)
+    };
+  } catch (error) {
+    if (error instanceof OfflineCacheMissError) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`ID conversion failed: ${errorMessage}`);
+  }
+}
+
+// Resolve mixed identifiers to PMIDs (input order, duplicates removed). Plain PMIDs
+// and PubMed URLs are taken as they are, without a lookup.
+export async function resolvePmids(
+  inputs: string[],
+  cacheMode: CacheMode = 'default'
+): Promise<{ pmids: string[]; unresolved: string[] }> {
+  const parsed = inputs.map(input => parseIdentifier(input));
+  const lookups = inputs.filter((_, index) => parsed[index] && parsed[index]!.type !== 'pmid');
+  const converted = lookups.length > 0 ? (await convertIds(lookups, { cacheMode })).records : [];
+
+  const pmids: string[] = [];
+  const unresolved: string[] = [];
+  inputs.forEach((input, index) => {
+    const identifier = parsed[index];
+    const pmid = identifier?.type === 'pmid'
+      ? identifier.value
+      : converted.find(record => record.input === input)?.pmid;
+    if (pmid) {
+      if (!pmids.includes(pmid)) pmids.push(pmid);
+    } else {
+      unresolved.push(input);
+    }
+  });
+  return { pmids, unresolved };
+}
+
+// Resolve mixed identifiers to PMCIDs (duplicates removed, with the PMCID of each
+// input in pmcIdByInput); articles without a PMC copy end up in unresolved. Bare
+// numbers are read as PMIDs unless `bareNumbers` is 'pmcid', as for parameters
+// that have always taken PMC numbers without the prefix.
+export async function resolvePmcIds(
+  inputs: string[],
+  cacheMode: CacheMode = 'default',
+  bareNumbers: 'pmid' | 'pmcid' = 'pmid'
+): Promise<{ pmcIds: string[]; unresolved: string[]; pmcIdByInput: Map<string, string> }> {
+  const parsed = inputs.map((input): ParsedIdentifier | undefined => {
+    const bareNumber = input.trim().match(/^(\d+)$/);
+    if (bareNumber && bareNumbers === 'pmcid') {
+      return { input, type: 'pmcid', value: `PMC${bareNumber[1]}` };
+    }
+    return parseIdentifier(input);
+  });
+  const lookups = inputs.filter((_, index) => parsed[index] && parsed[index]!.type !== 'pmcid');
+  const converted = lookups.length > 0 ? (await convertIds(lookups, { cacheMode })).records : [];
+
+  const pmcIds: string[] = [];
+  const unresolved: string[] = [];
+  const pmcIdByInput = new Map<string, string>();
+  inputs.forEach((input, index) => {
+    const identifier = parsed[index];
+    const pmcId = identifier?.type === 'pmcid'
+      ? identifier.value
+      : converted.find(record => record.input === input)?.pmcid;
+    if (pmcId) {
+      if (!pmcIds.includes(pmcId)) pmcIds.push(pmcId);
+      pmcIdByInput.set(input, pmcId);
+    } else {
+      unresolved.push(input);
+    }
+  });
+  return { pmcIds, unresolved, pmcIdByInput };
+}
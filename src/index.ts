@@ -2,8 +2,25 @@
 
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { searchAndFetchArticles, getFullAbstract, getFullText, searchPubMed, getArticleDetails, exportRIS, getCitationCounts, optimizeSearchQuery, findSimilarArticles, batchProcess } from "./pubmed-api.js";
+import { browseMeshTree, lookupMesh, MeshTreeNode } from "./mesh.js";
+import { validateQuery } from "./query-parser.js";
+import { analyzeSearchStrategy } from "./search-strategy.js";
+import { clearSearchHistory, expandHistoryReferences, exportSearchHistory, getSearchHistory, recordSearch } from "./search-history.js";
+import { CITATION_FORMATS, exportCitations } from "./citation-export.js";
+import { formatBibliography } from "./bibliography.js";
+import { FullTextOutlineEntry, outlineFullText, renderFullText, selectFullText } from "./full-text.js";
+import { convertIds, IdConversionRecord, resolvePmcIds, resolvePmids, splitIdentifiers } from "./id-converter.js";
+import { checkRetractions, EDITORIAL_STATUS_LABELS, RetractionCheckItem } from "./retractions.js";
+import { CitationCandidate, matchCitations, splitReferences } from "./citation-matcher.js";
+import { buildCitationNetwork, CitationNode, exportCitationNetwork } from "./citation-network.js";
+import { findSimilarToSet } from "./similar-set.js";
+import { ItemResult, failedItem, retryableIds, summarizeItems, withoutData } from "./item-results.js";
+import { batchProcessOutput, citationCountsOutput, fullAbstractOutput, fullTextOutput, queryOptimizationOutput, searchPubMedOutput, similarArticlesOutput } from "./output-schemas.js";
+import { BatchJob, batchJobProgress, cancelBatchJob, getBatchJob, getBatchJobResults, isBatchJobFinished, listBatchJobs, onBatchJobProgress, resumeBatchJobs, startBatchJob } from "./batch-jobs.js";
+import { searchAndFetchArticles, getFullAbstractItems, getFullTextItems, searchPubMed, getArticleDetails, exportRIS, getCitationCountItems, optimizeSearchQuery, findSimilarArticles, batchProcess, fetchSearchPage, BatchOperationType, CitationCountResult, EditorialNotice, EditorialStatus, FullAbstractResult, FullTextResult, SearchSort, SimilarArticleResult, SEARCH_SORT_LABELS } from "./pubmed-api.js";
 
 // Create MCP server
 const server = new McpServer({
@@ -11,6 +28,174 @@ const server = new McpServer({
   version: "1.0.2"
 });
 
+// Shared cache mode argument for tools that read PubMed data
+const cacheModeSchema = z.enum(["default", "refresh", "offline"]).optional().default("default")
+  .describe("Cache behaviour: 'default' uses cached records when fresh, 'refresh' bypasses the cache and re-fetches, 'offline' only uses cached records (no network)");
+
+// Shared output format argument for tools that return article records
+const formatSchema = z.enum(["markdown", "json"]).optional().default("markdown")
+  .describe("Output format: 'markdown' (readable summary, default) or 'json' (structured records with author names, ORCIDs, affiliations, MeSH headings, keywords, publication types, chemicals, grants, journal details and comments/corrections)");
+
+const structuredFormatSchema = z.enum(["markdown", "json", "both"]).optional().default("markdown")
+  .describe("Output format: 'markdown' (readable summary, default), 'json' (the structured result as JSON text) or 'both' (the summary followed by the JSON). The structured result is always returned as structuredContent as well");
+
+// Tool result with structuredContent. The text blocks follow `format`: the
+// readable text, the JSON, or both
+function structuredResult<T extends object>(data: T, format: string, text: string = "") {
+  const json = JSON.stringify(data, null, 2);
+  const blocks = format === "json" ? [json] : format === "both" ? [text, json] : [text];
+  return {
+    content: blocks.map(block => ({ type: "text" as const, text: block })),
+    structuredContent: data as Record<string, unknown>
+  };
+}
+
+// Return structured data as pretty-printed JSON text
+function jsonResult(data: unknown) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(data, null, 2)
+    }]
+  };
+}
+
+// Warning shown above tool output for identifiers that could not be resolved (empty when none)
+function unresolvedNote(unresolved: string[], label = "Could not resolve to a PMID"): string {
+  return unresolved.length > 0 ? `⚠️ ${label}: ${unresolved.join(", ")}\n\n` : "";
+}
+
+// Result items for identifiers that could not be resolved
+function unresolvedItems(unresolved: string[], status: "not_found" | "no_full_text" = "not_found", message = "Could not resolve to a PMID"): ItemResult[] {
+  return unresolved.map(id => failedItem(id, status, message));
+}
+
+// Per-identifier envelopes for JSON output: status, message and retry hint of every requested identifier
+function itemReport(items: ItemResult<unknown>[]) {
+  return {
+    items: items.map(withoutData),
+    summary: summarizeItems(items),
+    retryIds: retryableIds(items)
+  };
+}
+
+// Identifiers that were not retrieved, with their status and the ones worth retrying (empty when none)
+function itemFailuresNote(items: ItemResult<unknown>[]): string {
+  const failed = items.filter(item => item.status !== "ok");
+  if (failed.length === 0) return "";
+
+  let text = `⚠️ **Not retrieved** (${failed.length}${failed.length < items.length ? ` of ${items.length}` : ""}):\n`;
+  failed.forEach(item => {
+    text += `• ${item.id}: ${item.status}${item.message ? ` (${item.message})` : ""}\n`;
+  });
+  const retryIds = retryableIds(failed);
+  if (retryIds.length > 0) {
+    const wait = Math.max(0, ...failed.map(item => item.retryAfterSeconds || 0));
+    text += `🔁 Retry${wait > 0 ? ` after ${wait}s` : ""}: ${retryIds.join(", ")}\n`;
+  }
+  return text + "\n";
+}
+
+const NOTICE_KIND_LABELS: Record<EditorialNotice["kind"], string> = {
+  retraction: "Retraction",
+  partial_retraction: "Partial retraction",
+  expression_of_concern: "Expression of concern",
+  erratum: "Erratum"
+};
+
+// Notice link, e.g. "Retraction: PMID 12345 (Lancet. 2010;375:445) https://pubmed.ncbi.nlm.nih.gov/12345/"
+function formatNotice(notice: EditorialNotice): string {
+  const label = notice.direction === "in" ? NOTICE_KIND_LABELS[notice.kind] : `${NOTICE_KIND_LABELS[notice.kind]} notice for`;
+  const target = [notice.pmid ? `PMID ${notice.pmid}` : "", notice.source ? `(${notice.source})` : ""].filter(Boolean).join(" ");
+  return `${label}: ${target || "unlinked record"}${notice.url ? ` ${notice.url}` : ""}`;
+}
+
+// Prominent status line for retracted, corrected or concern-flagged articles (empty when none)
+function editorialStatusLine(article: { editorialStatus: EditorialStatus; editorialNotices: EditorialNotice[] }): string {
+  if (article.editorialStatus === "none") return "";
+  const notices = article.editorialNotices.map(formatNotice);
+  return `**${EDITORIAL_STATUS_LABELS[article.editorialStatus]}**${notices.length > 0 ? ` — ${notices.join("; ")}` : ""}\n`;
+}
+
+const BATCH_OPERATIONS = ["abstract", "citations", "similar", "ris_export", "full_text"] as const;
+
+// Wait until a batch job finishes or the timeout passes. While waiting, progress is
+// sent as MCP progress notifications if the request carries a progress token.
+function waitForBatchJob(
+  jobId: string,
+  timeoutMs: number,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<BatchJob | undefined> {
+  const progressToken = extra._meta?.progressToken;
+
+  return new Promise(resolve => {
+    let done = false;
+    let unsubscribe = () => {};
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      unsubscribe();
+      extra.signal.removeEventListener("abort", finish);
+      getBatchJob(jobId).then(resolve, () => resolve(undefined));
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    extra.signal.addEventListener("abort", finish);
+
+    unsubscribe = onBatchJobProgress(jobId, (job, progress) => {
+      if (progressToken !== undefined) {
+        extra.sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: progress.completed + progress.failed + progress.cancelled,
+            total: progress.total,
+            message: `${job.status}: ${progress.completed} completed, ${progress.failed} failed, ${progress.pending} pending`
+          }
+        }).catch(() => undefined);
+      }
+      if (isBatchJobFinished(job)) finish();
+    });
+
+    getBatchJob(jobId).then(job => {
+      if (!job || isBatchJobFinished(job)) finish();
+    }, finish);
+  });
+}
+
+// Markdown status report for a batch job
+function formatBatchJobStatus(job: BatchJob): string {
+  const progress = batchJobProgress(job);
+  const statusIcons: Record<BatchJob["status"], string> = {
+    queued: "⏳",
+    running: "🔄",
+    completed: "✅",
+    failed: "❌",
+    cancelled: "🚫"
+  };
+  
+  let text = `📦 **Batch Job ${job.id}**\n\n`;
+  text += `**Status**: ${statusIcons[job.status]} ${job.status}\n`;
+  text += `**Created**: ${job.createdAt}\n`;
+  if (job.startedAt) text += `**Started**: ${job.startedAt}\n`;
+  if (job.finishedAt) text += `**Finished**: ${job.finishedAt}\n`;
+  text += `**PMIDs**: ${job.pmids.length}\n`;
+  text += `**Operations**: ${job.operations.join(", ")}\n`;
+  text += `**Concurrency**: ${job.maxConcurrency}\n`;
+  if (job.error) text += `**Error**: ${job.error}\n`;
+  
+  const done = progress.completed + progress.failed + progress.cancelled;
+  text += `\n📊 **Progress**: ${done}/${progress.total} (${progress.total > 0 ? ((done / progress.total) * 100).toFixed(1) : "0.0"}%)\n\n`;
+  text += `| Operation | Completed | Failed | Processing | Pending | Cancelled |\n`;
+  text += `|---|---|---|---|---|---|\n`;
+  for (const operation of job.operations) {
+    const counts = batchJobProgress(job, operation);
+    text += `| ${operation} | ${counts.completed} | ${counts.failed} | ${counts.processing} | ${counts.pending} | ${counts.cancelled} |\n`;
+  }
+  
+  return text;
+}
+
 // Tool: Search PubMed articles
 server.registerTool(
   "search_pubmed",
@@ -18,29 +203,73 @@ server.registerTool(
     title: "Search PubMed",
     description: "Search PubMed database for biomedical literature. Returns detailed article information including abstracts and PMIDs.",
     inputSchema: {
-      query: z.string().describe("Search query for PubMed database"),
-      maxResults: z.number().optional().default(10).describe("Maximum number of results to return (default: 10, max: 100)")
-    }
+      query: z.string().describe("Search query for PubMed database. Earlier searches can be combined by number, e.g. '#1 AND #3' (see search_history)"),
+      maxResults: z.number().optional().default(10).describe("Maximum number of results to return (default: 10, max: 100)"),
+      sort: z.enum(["relevance", "pub_date", "first_author", "journal", "title"]).optional().default("relevance").describe("Result ordering: 'relevance' (Best Match, default), 'pub_date' (most recent first), 'first_author', 'journal' or 'title'"),
+      useHistory: z.boolean().optional().default(false).describe("Store the full result set on the NCBI history server and return a WebEnv/query_key pair for paging with fetch_search_page"),
+      dateFrom: z.string().optional().describe("Start of date range (YYYY, YYYY/MM or YYYY/MM/DD)"),
+      dateTo: z.string().optional().describe("End of date range (YYYY, YYYY/MM or YYYY/MM/DD)"),
+      dateType: z.enum(["publication", "entrez", "modification"]).optional().default("publication").describe("Date field the range applies to (default: publication)"),
+      publicationTypes: z.array(z.string()).optional().describe("Publication types to include (e.g., 'Randomized Controlled Trial', 'Meta-Analysis', 'Systematic Review', 'Review')"),
+      languages: z.array(z.string()).optional().describe("Languages to include (e.g., 'english', 'en', 'german')"),
+      humansOnly: z.boolean().optional().describe("Restrict to studies in humans"),
+      freeFullTextOnly: z.boolean().optional().describe("Restrict to articles with free full text"),
+      hasAbstract: z.boolean().optional().describe("Restrict to articles with an abstract"),
+      ageGroups: z.array(z.enum(["newborn", "infant", "preschool_child", "child", "adolescent", "young_adult", "adult", "middle_aged", "aged", "aged_80_and_over"])).optional().describe("Age groups to include (MeSH age check tags)"),
+      cacheMode: cacheModeSchema,
+      format: structuredFormatSchema
+    },
+    outputSchema: searchPubMedOutput
   },
-  async ({ query, maxResults = 10 }) => {
+  async ({ query, maxResults = 10, sort = "relevance", useHistory = false, dateFrom, dateTo, dateType = "publication", publicationTypes, languages, humansOnly, freeFullTextOnly, hasAbstract, ageGroups, cacheMode = "default", format = "markdown" }) => {
     try {
       // Limit maxResults to prevent abuse
       const limitedMax = Math.min(maxResults, 100);
       
+      const filters = { dateFrom, dateTo, dateType, publicationTypes, languages, humansOnly, freeFullTextOnly, hasAbstract, ageGroups };
+      
+      // Expand references to earlier searches, e.g. "#1 AND #3"
+      const expandedQuery = expandHistoryReferences(query);
+      
       // First get search results to show total hit count
-      const searchResult = await searchPubMed(query, limitedMax);
+      const searchResult = await searchPubMed(expandedQuery, limitedMax, 0, { cacheMode, useHistory, filters, sort });
+      const historyEntry = recordSearch({ query, expandedQuery, result: searchResult, source: "search_pubmed" });
       
-      if (searchResult.idList.length === 0) {
-        return {
-          content: [{
-            type: "text",
-            text: `No articles found for query: "${query}"\n\nTotal search hits: ${searchResult.count}`
-          }]
-        };
+      // Echo the generated query and filters so the search can be reproduced
+      let filterText = `Search history: #${historyEntry.number}\n`;
+      if (expandedQuery !== query) {
+        filterText += `Expanded query: ${expandedQuery}\n`;
+      }
+      if (searchResult.generatedQuery) {
+        filterText += `Generated query: ${searchResult.generatedQuery}\n`;
+      }
+      if (searchResult.appliedFilters && searchResult.appliedFilters.length > 0) {
+        filterText += `Filters applied:\n${searchResult.appliedFilters.map(filter => `• ${filter}`).join("\n")}\n`;
       }
       
       // Then get detailed article information
-      const articles = await getArticleDetails(searchResult.idList);
+      const articles = searchResult.idList.length > 0 ? await getArticleDetails(searchResult.idList, cacheMode) : [];
+      const data = {
+        query,
+        expandedQuery,
+        searchNumber: historyEntry.number,
+        count: searchResult.count,
+        sort: searchResult.sort,
+        queryTranslation: searchResult.queryTranslation,
+        generatedQuery: searchResult.generatedQuery,
+        appliedFilters: searchResult.appliedFilters,
+        webEnv: searchResult.webEnv,
+        queryKey: searchResult.queryKey,
+        articles
+      };
+      
+      if (format === "json") {
+        return structuredResult(data, format);
+      }
+      
+      if (articles.length === 0) {
+        return structuredResult(data, format, `No articles found for query: "${query}"\n${filterText}\nTotal search hits: ${searchResult.count}`);
+      }
       
       // Format articles for display
       const formattedResults = articles.map((article, index) => {
@@ -49,6 +278,7 @@ server.registerTool(
           : "Unknown authors";
         
         let result = `**${index + 1}. ${article.title}**\n`;
+        result += editorialStatusLine(article);
         result += `Authors: ${authorsText}\n`;
         result += `Journal: ${article.journal}\n`;
         result += `Publication Date: ${article.publicationDate}\n`;
@@ -80,19 +310,132 @@ server.registerTool(
       // Create comprehensive search summary
       let searchSummary = `📊 **Search Results Summary**\n`;
       searchSummary += `Query: "${query}"\n`;
+      searchSummary += filterText;
       searchSummary += `Total articles found: **${searchResult.count.toLocaleString()}**\n`;
       searchSummary += `Showing: **${articles.length}** articles (requested: ${limitedMax})\n`;
+      searchSummary += `Sort order: ${SEARCH_SORT_LABELS[searchResult.sort]}\n`;
       
       if (searchResult.queryTranslation) {
         searchSummary += `Query translation: ${searchResult.queryTranslation}\n`;
       }
       
+      if (searchResult.webEnv && searchResult.queryKey) {
+        searchSummary += `\nHistory server: WebEnv=${searchResult.webEnv}, query_key=${searchResult.queryKey}\n`;
+        searchSummary += `Use fetch_search_page with these values to page through all ${searchResult.count.toLocaleString()} results\n`;
+      }
+      
+      const retracted = articles.filter(article => article.editorialStatus === "retracted" || article.editorialStatus === "partially_retracted");
+      if (retracted.length > 0) {
+        searchSummary += `\n🚫 **Retracted articles in these results: ${retracted.map(article => article.pmid).join(", ")}**\n`;
+      }
+      
       searchSummary += `\nPMIDs: ${pmids.join(", ")}\n`;
       
+      return structuredResult(data, format, `${searchSummary}\n${"=".repeat(100)}\n\n${formattedResults}\n\n💡 Use get_full_abstract with PMIDs for complete abstracts\n💡 Use get_full_text with PMC IDs for full article text`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error searching PubMed: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Page through a stored search on the history server
+server.registerTool(
+  "fetch_search_page",
+  {
+    title: "Fetch Search Page",
+    description: "Page through a large PubMed result set stored on the NCBI history server (WebEnv/query_key from search_pubmed with useHistory). Retrieves PMIDs, summaries or full records in chunks, suitable for systematic reviews with thousands of hits.",
+    inputSchema: {
+      webEnv: z.string().describe("WebEnv value returned by search_pubmed with useHistory enabled"),
+      queryKey: z.string().describe("query_key value returned by search_pubmed with useHistory enabled"),
+      start: z.number().optional().default(0).describe("Zero-based index of the first record to return (default: 0)"),
+      pageSize: z.number().optional().default(100).describe("Number of records to return (max: 10000 for pmids, 500 for summary, 100 for full)"),
+      detail: z.enum(["pmids", "summary", "full"]).optional().default("summary").describe("Level of detail: 'pmids' (IDs only), 'summary' (esummary records) or 'full' (efetch records with abstracts)"),
+      format: formatSchema
+    }
+  },
+  async ({ webEnv, queryKey, start = 0, pageSize = 100, detail = "summary", format = "markdown" }) => {
+    try {
+      const maxPageSize = { pmids: 10000, summary: 500, full: 100 }[detail];
+      const limitedPageSize = Math.max(1, Math.min(pageSize, maxPageSize));
+      const limitedStart = Math.max(0, start);
+      
+      const page = await fetchSearchPage(webEnv, queryKey, limitedStart, limitedPageSize, { detail });
+      
+      if (format === "json") {
+        return jsonResult(page);
+      }
+      
+      if (page.pmids.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `No records returned for WebEnv=${webEnv}, query_key=${queryKey} starting at ${limitedStart}\n\nNote: history server sessions expire after a few hours of inactivity. Re-run search_pubmed with useHistory if needed.`
+          }]
+        };
+      }
+      
+      let responseText = `📑 **Search Page**\n\n`;
+      responseText += `Records: ${limitedStart + 1}–${limitedStart + page.pmids.length}`;
+      if (page.count !== undefined) {
+        responseText += ` of ${page.count.toLocaleString()}`;
+      }
+      responseText += `\n`;
+      responseText += `Detail: ${detail}\n`;
+      
+      responseText += `\n${"=".repeat(80)}\n\n`;
+      
+      if (page.summaries) {
+        responseText += page.summaries.map((summary, index) => {
+          const authorsText = summary.authors.length > 0
+            ? summary.authors.slice(0, 3).join(", ") + (summary.authors.length > 3 ? ", et al." : "")
+            : "Unknown authors";
+          return `${limitedStart + index + 1}. ${summary.title}\n   ${authorsText}. ${summary.journal}, ${summary.publicationDate}. PMID: ${summary.pmid}`;
+        }).join("\n") + "\n";
+      } else if (page.articles) {
+        responseText += page.articles.map((article, index) => {
+          const authorsText = article.authors.length > 0
+            ? article.authors.slice(0, 3).join(", ") + (article.authors.length > 3 ? ", et al." : "")
+            : "Unknown authors";
+          
+          let result = `**${limitedStart + index + 1}. ${article.title}**\n`;
+          result += editorialStatusLine(article);
+          result += `Authors: ${authorsText}\n`;
+          result += `Journal: ${article.journal}\n`;
+          result += `Publication Date: ${article.publicationDate}\n`;
+          result += `PMID: ${article.pmid}\n`;
+          
+          if (article.doi) {
+            result += `DOI: ${article.doi}\n`;
+          }
+          
+          if (article.abstract) {
+            result += `\nAbstract: ${article.abstract}\n`;
+          }
+          
+          return result;
+        }).join("\n" + "=".repeat(80) + "\n\n");
+      } else {
+        responseText += `PMIDs:\n${page.pmids.join(", ")}\n`;
+      }
+      
+      responseText += `\n${"=".repeat(80)}\n`;
+      if (page.nextStart !== undefined) {
+        responseText += `💡 Next page: call fetch_search_page with start=${page.nextStart}\n`;
+      } else {
+        responseText += `✅ End of result set reached\n`;
+      }
+      
       return {
         content: [{
           type: "text",
-          text: `${searchSummary}\n${"=".repeat(100)}\n\n${formattedResults}\n\n💡 Use get_full_abstract with PMIDs for complete abstracts\n💡 Use get_full_text with PMC IDs for full article text`
+          text: responseText
         }]
       };
     } catch (error) {
@@ -100,7 +443,96 @@ server.registerTool(
       return {
         content: [{
           type: "text",
-          text: `Error searching PubMed: ${errorMessage}`
+          text: `Error fetching search page: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Session search history
+server.registerTool(
+  "search_history",
+  {
+    title: "Search History",
+    description: "List, export or clear the numbered history of searches run with search_pubmed in this session (query, translation, filters, count, timestamp). Earlier searches can be combined in search_pubmed by number, e.g. '#1 AND #3'. Export produces a PRISMA-S search appendix in Markdown or JSON.",
+    inputSchema: {
+      action: z.enum(["list", "export", "clear"]).optional().default("list").describe("'list' shows the history, 'export' produces a PRISMA-S appendix, 'clear' empties the history"),
+      format: z.enum(["markdown", "json"]).optional().default("markdown").describe("Export format (default: markdown)"),
+      searches: z.array(z.number()).optional().describe("Search numbers to export (default: all)")
+    }
+  },
+  async ({ action = "list", format = "markdown", searches }) => {
+    try {
+      if (action === "clear") {
+        const cleared = getSearchHistory().length;
+        clearSearchHistory();
+        return {
+          content: [{
+            type: "text",
+            text: `Cleared ${cleared} search${cleared === 1 ? "" : "es"} from the session history`
+          }]
+        };
+      }
+      
+      if (action === "export") {
+        return {
+          content: [{
+            type: "text",
+            text: exportSearchHistory(format, searches)
+          }]
+        };
+      }
+      
+      const entries = getSearchHistory();
+      if (entries.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No searches recorded in this session yet. Searches run with search_pubmed are numbered here and can be combined as #1 AND #2."
+          }]
+        };
+      }
+      
+      let responseText = `🗂️ **Search History** (${entries.length} search${entries.length === 1 ? "" : "es"})\n\n`;
+      responseText += `| # | Query | Results | Time |\n|---|-------|---------|------|\n`;
+      entries.forEach(entry => {
+        responseText += `| ${entry.number} | ${entry.query.replace(/\|/g, "\\|")} | ${entry.count.toLocaleString()} | ${entry.timestamp.slice(11, 19)} UTC |\n`;
+      });
+      responseText += `\n${"=".repeat(80)}\n\n`;
+      
+      const formattedEntries = entries.map(entry => {
+        let text = `**#${entry.number}** (${entry.timestamp})\n`;
+        text += `Query: ${entry.query}\n`;
+        if (entry.expandedQuery !== entry.query) {
+          text += `Expanded: ${entry.expandedQuery}\n`;
+        }
+        if (entry.filters.length > 0) {
+          text += `Filters: ${entry.filters.join("; ")}\n`;
+        }
+        if (entry.queryTranslation) {
+          text += `Translation: ${entry.queryTranslation}\n`;
+        }
+        text += `Results: ${entry.count.toLocaleString()}\n`;
+        return text;
+      }).join("\n");
+      
+      responseText += formattedEntries;
+      responseText += `\n💡 Combine searches in search_pubmed with e.g. "#1 AND #3"; use action "export" for a PRISMA-S appendix\n`;
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error with search history: ${errorMessage}`
         }],
         isError: true
       };
@@ -115,10 +547,13 @@ server.registerTool(
     title: "Get Full Abstract",
     description: "Get complete, untruncated abstracts for specific PubMed articles by their PMID(s). Useful when search results show truncated abstracts.",
     inputSchema: {
-      pmids: z.array(z.string()).describe("Array of PubMed IDs (PMIDs) to get full abstracts for")
-    }
+      pmids: z.array(z.string()).describe("Array of article identifiers to get full abstracts for: PMIDs, PMCIDs, DOIs or PubMed URLs"),
+      cacheMode: cacheModeSchema,
+      format: structuredFormatSchema
+    },
+    outputSchema: fullAbstractOutput
   },
-  async ({ pmids }) => {
+  async ({ pmids, cacheMode = "default", format = "markdown" }) => {
     try {
       if (pmids.length === 0) {
         return {
@@ -130,20 +565,33 @@ server.registerTool(
         };
       }
       
-      // Limit to prevent abuse
-      const limitedPmids = pmids.slice(0, 20);
-      
-      const abstracts = await getFullAbstract(limitedPmids);
-      
-      if (abstracts.length === 0) {
+      const { pmids: resolvedPmids, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
+      if (resolvedPmids.length === 0) {
         return {
           content: [{
             type: "text",
-            text: `No abstracts found for PMIDs: ${limitedPmids.join(", ")}`
-          }]
+            text: `Could not resolve any of the identifiers to a PMID: ${pmids.join(", ")}`
+          }],
+          isError: true
         };
       }
       
+      // Limit to prevent abuse
+      const limitedPmids = resolvedPmids.slice(0, 20);
+      
+      const abstractItems = await getFullAbstractItems(limitedPmids, cacheMode);
+      const abstracts = abstractItems.filter(item => item.data).map(item => item.data!);
+      const items = [...unresolvedItems(unresolved), ...abstractItems];
+      const data = { abstracts, ...itemReport(items) };
+      
+      if (format === "json") {
+        return structuredResult(data, format);
+      }
+      
+      if (abstracts.length === 0) {
+        return structuredResult(data, format, `${itemFailuresNote(items)}No abstracts found for PMIDs: ${limitedPmids.join(", ")}`);
+      }
+      
       // Format abstracts for display
       const formattedResults = abstracts.map((article, index) => {
         const authorsText = article.authors.length > 0 
@@ -151,8 +599,24 @@ server.registerTool(
           : "Unknown authors";
         
         let result = `**${index + 1}. ${article.title}**\n`;
+        result += editorialStatusLine(article);
         result += `Authors: ${authorsText}\n`;
-        result += `Journal: ${article.journal}\n`;
+        if (article.book) {
+          const publisher = [article.book.publisherLocation, article.book.publisher].filter(Boolean).join(": ");
+          result += `Book: ${article.book.title}${publisher ? ` (${publisher})` : ""}\n`;
+        } else {
+          result += `Journal: ${article.journal}\n`;
+        }
+        
+        const citation = [
+          article.volume,
+          article.issue ? `(${article.issue})` : "",
+          article.pages ? `:${article.pages}` : ""
+        ].join("");
+        if (citation) {
+          result += `Volume/Issue/Pages: ${citation}\n`;
+        }
+        
         result += `Publication Date: ${article.publicationDate}\n`;
         result += `PMID: ${article.pmid}\n`;
         
@@ -164,6 +628,19 @@ server.registerTool(
           result += `PMC ID: ${article.pmcId}\n`;
         }
         
+        if (article.publicationTypes.length > 0) {
+          result += `Publication Types: ${article.publicationTypes.join(", ")}\n`;
+        }
+        
+        if (article.meshHeadings.length > 0) {
+          // Major topics are marked with an asterisk, as on PubMed
+          result += `MeSH Terms: ${article.meshHeadings.map(heading => `${heading.descriptor}${heading.majorTopic || heading.qualifiers.some(q => q.majorTopic) ? "*" : ""}`).join("; ")}\n`;
+        }
+        
+        if (article.keywords.length > 0) {
+          result += `Keywords: ${article.keywords.join("; ")}\n`;
+        }
+        
         if (article.fullAbstract) {
           result += `\n**Full Abstract:**\n${article.fullAbstract}\n`;
         } else {
@@ -173,12 +650,7 @@ server.registerTool(
         return result;
       }).join("\n" + "=".repeat(80) + "\n\n");
       
-      return {
-        content: [{
-          type: "text",
-          text: `Full abstracts for PMIDs: ${limitedPmids.join(", ")}\n\n${formattedResults}`
-        }]
-      };
+      return structuredResult(data, format, `${itemFailuresNote(items)}Full abstracts for PMIDs: ${limitedPmids.join(", ")}\n\n${formattedResults}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
@@ -197,12 +669,21 @@ server.registerTool(
   "get_full_text",
   {
     title: "Get Full Text",
-    description: "Get complete full text of articles from PubMed Central (PMC) by PMC ID. Uses E-utilities API for improved compatibility with PMC articles.",
+    description: "Get full text of articles from PubMed Central (PMC) by PMC ID, with the section hierarchy, figure and table captions, tables, footnotes, supplementary material links and the reference list (with PMIDs/DOIs). To keep responses small, pick sections by IMRaD type or by id (see get_full_text_outline) and set a maxChars/maxTokens budget. Use format 'json' for the structured document including inline citation anchors and table cell grids.",
     inputSchema: {
-      pmcIds: z.array(z.string()).describe("Array of PMC IDs (e.g., 'PMC1234567' or '1234567') to get full text for")
-    }
+      pmcIds: z.array(z.string()).describe("Array of article identifiers to get full text for: PMC IDs (e.g., 'PMC1234567' or '1234567'), PMIDs (e.g., 'PMID:12345678'), DOIs or PubMed/PMC URLs. Bare numbers are read as PMC IDs."),
+      sections: z.array(z.enum(["abstract", "introduction", "methods", "results", "discussion", "conclusions"])).optional()
+        .describe("Only return these section types (normalized from section types and titles, e.g. 'Materials and Methods' -> methods). Figures, tables and references cited in the selected sections are kept."),
+      sectionIds: z.array(z.string()).optional().describe("Only return these sections, by id from get_full_text_outline (subsections included)"),
+      maxChars: z.number().int().min(500).optional().describe("Character budget per article. Longer articles are truncated so every selected section keeps its opening paragraphs, and omitted parts are noted."),
+      maxTokens: z.number().int().min(125).optional().describe("Token budget per article (estimated at 4 characters per token); the smaller of maxChars and maxTokens applies"),
+      format: z.enum(["markdown", "plain", "json", "both"]).optional().default("markdown")
+        .describe("Output format: 'markdown' (default), 'plain' text, 'json' (structured document: section tree, paragraphs with citation anchors, figures, tables as cell arrays, footnotes, supplementary material, references; budgets do not apply) or 'both' (Markdown followed by the JSON). structuredContent always lists the articles and per-identifier results; it includes the structured document for 'json' and 'both'"),
+      cacheMode: cacheModeSchema
+    },
+    outputSchema: fullTextOutput
   },
-  async ({ pmcIds }) => {
+  async ({ pmcIds, sections, sectionIds, maxChars, maxTokens, format = "markdown", cacheMode = "default" }) => {
     try {
       if (pmcIds.length === 0) {
         return {
@@ -214,44 +695,146 @@ server.registerTool(
         };
       }
       
+      // Other identifiers are mapped to PMC IDs; articles without a PMC copy are reported
+      const { pmcIds: resolvedPmcIds, unresolved } = await resolvePmcIds(splitIdentifiers(pmcIds), cacheMode, "pmcid");
+      
       // Limit to prevent abuse
-      const limitedPmcIds = pmcIds.slice(0, 10);
+      const limitedPmcIds = resolvedPmcIds.slice(0, 10);
       
-      const fullTexts = await getFullText(limitedPmcIds);
+      const fullTextItems = await getFullTextItems(limitedPmcIds, cacheMode);
+      const fullTexts = fullTextItems.filter(item => item.data).map(item => item.data!);
+      const items = [...unresolvedItems(unresolved, "no_full_text", "No PMC copy found"), ...fullTextItems];
+
+      // Budgets apply to the rendered text only; the structured document is sent for json and both
+      const rendered = format === "json"
+        ? []
+        : fullTexts.map(article => renderFullText(article, { sections, sectionIds, maxChars, maxTokens, format: format === "plain" ? "plain" : "markdown" }));
+      const data = {
+        articles: fullTexts.map((article, index) => ({
+          pmid: article.pmid,
+          pmcId: article.pmcId,
+          title: article.title,
+          doi: article.doi,
+          rendered: rendered[index] ? {
+            chars: rendered[index].chars,
+            estimatedTokens: rendered[index].estimatedTokens,
+            truncated: rendered[index].truncated,
+            omittedSections: rendered[index].omittedSections,
+            matchedSections: rendered[index].matchedSections
+          } : undefined,
+          document: format === "json" || format === "both" ? selectFullText(article, { sections, sectionIds }) : undefined
+        })),
+        ...itemReport(items)
+      };
+
+      if (format === "json") {
+        return structuredResult(data, format);
+      }
       
       if (fullTexts.length === 0) {
+        return structuredResult(data, format, `${itemFailuresNote(items)}No full texts found for PMC IDs: ${limitedPmcIds.join(", ") || "(none)"}\n\nNote: Full text is only available for articles available in PMC. The server now uses E-utilities API for better compatibility.`);
+      }
+
+      const formattedResults = rendered.map(article => {
+        if (article.matchedSections === 0 && ((sections?.length ?? 0) > 0 || (sectionIds?.length ?? 0) > 0)) {
+          return `${article.text}\n\nNo sections matched the selection. Use get_full_text_outline to list the sections of ${article.pmcId}.\n`;
+        }
+        return `${article.text}\n`;
+      }).join("\n" + "=".repeat(100) + "\n\n");
+
+      const selection = [
+        sections && sections.length > 0 ? `Sections: ${sections.join(", ")}` : "",
+        sectionIds && sectionIds.length > 0 ? `Section IDs: ${sectionIds.join(", ")}` : "",
+        rendered.some(article => article.truncated) ? `Truncated: ${rendered.filter(article => article.truncated).map(article => article.pmcId).join(", ")}` : ""
+      ].filter(Boolean).join("\n");
+      
+      return structuredResult(data, format, `${itemFailuresNote(items)}Full text for PMC IDs: ${limitedPmcIds.join(", ")}\n${selection ? `${selection}\n` : ""}\n${formattedResults}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error fetching full texts: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Outline PMC full texts
+server.registerTool(
+  "get_full_text_outline",
+  {
+    title: "Get Full Text Outline",
+    description: "List the section tree of PMC full-text articles with section ids, IMRaD types and sizes (characters and estimated tokens), plus figure, table and reference counts. Use it to decide which sections to retrieve with get_full_text (sections or sectionIds).",
+    inputSchema: {
+      pmcIds: z.array(z.string()).describe("Array of article identifiers: PMC IDs (e.g., 'PMC1234567' or '1234567'), PMIDs (e.g., 'PMID:12345678'), DOIs or PubMed/PMC URLs. Bare numbers are read as PMC IDs."),
+      format: formatSchema,
+      cacheMode: cacheModeSchema
+    }
+  },
+  async ({ pmcIds, format = "markdown", cacheMode = "default" }) => {
+    try {
+      if (pmcIds.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No PMC IDs provided"
+          }],
+          isError: true
+        };
+      }
+
+      const { pmcIds: resolvedPmcIds, unresolved } = await resolvePmcIds(splitIdentifiers(pmcIds), cacheMode, "pmcid");
+      const limitedPmcIds = resolvedPmcIds.slice(0, 20);
+      const fullTextItems = await getFullTextItems(limitedPmcIds, cacheMode);
+      const outlines = fullTextItems.filter(item => item.data).map(item => outlineFullText(item.data!));
+      const items = [...unresolvedItems(unresolved, "no_full_text", "No PMC copy found"), ...fullTextItems];
+
+      if (format === "json") {
+        return jsonResult({ outlines, ...itemReport(items) });
+      }
+
+      if (outlines.length === 0) {
         return {
           content: [{
             type: "text",
-            text: `No full texts found for PMC IDs: ${limitedPmcIds.join(", ")}\n\nNote: Full text is only available for articles available in PMC. The server now uses E-utilities API for better compatibility.`
+            text: `${itemFailuresNote(items)}No full texts found for PMC IDs: ${limitedPmcIds.join(", ") || "(none)"}\n\nNote: Full text is only available for articles available in PMC.`
           }]
         };
       }
-      
-      // Format full texts for display
-      const formattedResults = fullTexts.map((article, index) => {
-        let result = `**${index + 1}. ${article.title}**\n`;
-        result += `PMID: ${article.pmid}\n`;
-        result += `PMC ID: ${article.pmcId}\n\n`;
-        
-        // Show sections if available
-        if (article.sections.length > 0) {
-          result += `**Sections:**\n`;
-          article.sections.forEach((section, sectionIndex) => {
-            result += `\n**${section.title}**\n${section.content}\n`;
-          });
-        } else {
-          // Fallback to full text if sections are not properly parsed
-          result += `**Full Text:**\n${article.fullText}\n`;
+
+      const outlineLine = (entry: FullTextOutlineEntry): string => {
+        const heading = [entry.label, entry.title].filter(Boolean).join(" ") || "(untitled)";
+        const details = [
+          entry.imradTypes.length > 0 ? entry.imradTypes.join("/") : "",
+          `${entry.paragraphs} paragraphs`,
+          `${entry.chars.toLocaleString()} chars`,
+          `~${entry.estimatedTokens.toLocaleString()} tokens`,
+          entry.figures > 0 ? `${entry.figures} figures` : "",
+          entry.tables > 0 ? `${entry.tables} tables` : ""
+        ].filter(Boolean).join(", ");
+        const line = `${"  ".repeat(Math.max(0, entry.level - 1))}- ${heading} \`${entry.id}\` (${details})\n`;
+        return line + entry.subsections.map(outlineLine).join("");
+      };
+
+      const formattedResults = outlines.map((outline, index) => {
+        let result = `**${index + 1}. ${outline.title}**\n`;
+        result += `PMID: ${outline.pmid} | PMC ID: ${outline.pmcId}${outline.doi ? ` | DOI: ${outline.doi}` : ""}\n`;
+        result += `📏 Total: ${outline.totalChars.toLocaleString()} chars (~${outline.estimatedTokens.toLocaleString()} tokens)\n`;
+        result += `🖼️ ${outline.figures} figures | 📊 ${outline.tables} tables | 📎 ${outline.supplementaryMaterials} supplementary files | 📚 ${outline.references} references\n\n`;
+        if (outline.abstract) {
+          result += outlineLine(outline.abstract);
         }
-        
+        result += outline.sections.map(outlineLine).join("");
         return result;
-      }).join("\n" + "=".repeat(100) + "\n\n");
-      
+      }).join("\n" + "=".repeat(80) + "\n\n");
+
       return {
         content: [{
           type: "text",
-          text: `Full text for PMC IDs: ${limitedPmcIds.join(", ")}\n\n${formattedResults}`
+          text: `${itemFailuresNote(items)}📑 Full text outline for PMC IDs: ${limitedPmcIds.join(", ")}\n\n${formattedResults}\n💡 Use get_full_text with sections (e.g. [\"methods\"]) or sectionIds, and maxTokens to limit the response size`
         }]
       };
     } catch (error) {
@@ -259,7 +842,7 @@ server.registerTool(
       return {
         content: [{
           type: "text",
-          text: `Error fetching full texts: ${errorMessage}`
+          text: `Error building full text outline: ${errorMessage}`
         }],
         isError: true
       };
@@ -274,7 +857,7 @@ server.registerTool(
     title: "Export RIS Format",
     description: "Export PubMed citations in RIS format for use with reference management software (Zotero, Mendeley, EndNote, etc.). Uses NCBI Literature Citation Exporter API.",
     inputSchema: {
-      pmids: z.string().describe("Comma-separated list of PubMed IDs (PMIDs) to export in RIS format (e.g., '36038128, 30105375')")
+      pmids: z.string().describe("Comma-separated list of article identifiers to export in RIS format: PMIDs, PMCIDs, DOIs or PubMed URLs (e.g., '36038128, 10.1056/NEJMoa2034577')")
     }
   },
   async ({ pmids }) => {
@@ -289,14 +872,14 @@ server.registerTool(
         };
       }
       
-      // Parse comma-separated PMIDs
-      const pmidArray = pmids.split(',').map(id => id.trim()).filter(id => id.length > 0);
+      // Resolve PMIDs, PMCIDs, DOIs and PubMed URLs to PMIDs
+      const { pmids: pmidArray, unresolved } = await resolvePmids(splitIdentifiers(pmids));
       
       if (pmidArray.length === 0) {
         return {
           content: [{
             type: "text",
-            text: "No valid PMIDs found in input"
+            text: `${unresolvedNote(unresolved)}No valid PMIDs found in input`
           }],
           isError: true
         };
@@ -310,12 +893,13 @@ server.registerTool(
       }
       
       const result = await exportRIS(limitedPmids);
+      const items = [...unresolvedItems(unresolved), ...result.items];
       
       if (result.successCount === 0) {
         return {
           content: [{
             type: "text",
-            text: `Failed to export any citations in RIS format for PMIDs: ${limitedPmids.join(", ")}\n\nErrors:\n${result.errors.join("\n")}`
+            text: `Failed to export any citations in RIS format for PMIDs: ${limitedPmids.join(", ")}\n\n${itemFailuresNote(items)}`
           }],
           isError: true
         };
@@ -328,8 +912,8 @@ server.registerTool(
       
       if (result.errorCount > 0) {
         responseText += `Failed: ${result.errorCount}\n`;
-        responseText += `\nErrors:\n${result.errors.join("\n")}\n`;
       }
+      responseText += `\n${itemFailuresNote(items)}`;
       
       responseText += `\n${"=".repeat(80)}\n`;
       responseText += `**RIS FORMAT DATA**\n`;
@@ -366,36 +950,180 @@ server.registerTool(
   }
 );
 
-// Tool: Get citation counts
+// Tool: Export citations in reference manager formats
 server.registerTool(
-  "get_citation_counts",
+  "export_citations",
   {
-    title: "Get Citation Counts",
-    description: "Get citation counts for specific PubMed articles using NCBI elink API. Shows how many times each article has been cited by other PubMed articles.",
+    title: "Export Citations",
+    description: "Export PubMed citations as RIS, BibTeX, CSL-JSON, MEDLINE (.nbib), EndNote XML or CSV. Records are generated locally from PubMed records (stable citation keys such as Smith2020_36038128); the NCBI Literature Citation Exporter can optionally be used for RIS, MEDLINE and CSL-JSON.",
     inputSchema: {
-      pmids: z.string().describe("Comma-separated list of PubMed IDs (PMIDs) to get citation counts for (e.g., '36038128, 30105375')")
+      pmids: z.string().describe("Comma-separated list of article identifiers to export: PMIDs, PMCIDs, DOIs or PubMed URLs (e.g., '36038128, 30105375')"),
+      format: z.enum(["ris", "bibtex", "csl-json", "medline", "endnote-xml", "csv"]).optional().default("ris").describe("Citation format"),
+      source: z.enum(["local", "litciter"]).optional().default("local").describe("'local' (default) builds records from PubMed XML; 'litciter' uses the NCBI Literature Citation Exporter where it supports the format, falling back to local generation"),
+      cacheMode: cacheModeSchema
     }
   },
-  async ({ pmids }) => {
+  async ({ pmids, format, source, cacheMode }) => {
     try {
-      if (!pmids || pmids.trim().length === 0) {
+      const { pmids: pmidArray, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
+      
+      if (pmidArray.length === 0) {
         return {
           content: [{
             type: "text",
-            text: "No PMIDs provided for citation count analysis"
+            text: `${unresolvedNote(unresolved)}No valid PMIDs found in input`
           }],
           isError: true
         };
       }
       
-      // Parse comma-separated PMIDs
-      const pmidArray = pmids.split(',').map(id => id.trim()).filter(id => id.length > 0);
+      // Limit to keep responses and efetch requests reasonable
+      const limitedPmids = pmidArray.slice(0, 200);
       
-      if (pmidArray.length === 0) {
+      const result = await exportCitations(limitedPmids, { format, source, cacheMode });
+      
+      if (result.exportedCount === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `${itemFailuresNote([...unresolvedItems(unresolved), ...result.items])}No citations could be exported for PMIDs: ${limitedPmids.join(", ")}${result.warnings.length > 0 ? `\n\nWarnings:\n${result.warnings.join("\n")}` : ""}`
+          }],
+          isError: true
+        };
+      }
+      
+      const formatInfo = CITATION_FORMATS[result.format];
+      let responseText = `📄 **Citation Export (${formatInfo.label})**\n\n`;
+      responseText += itemFailuresNote([...unresolvedItems(unresolved), ...result.items]);
+      responseText += `Total PMIDs requested: ${limitedPmids.length}${pmidArray.length > limitedPmids.length ? ` (limited from ${pmidArray.length})` : ""}\n`;
+      responseText += `Exported: ${result.exportedCount}\n`;
+      responseText += `Source: ${result.source === "litciter" ? "NCBI Literature Citation Exporter" : "Generated from PubMed records"}\n`;
+      responseText += `Suggested file: citations.${result.fileExtension} (${result.mimeType})\n`;
+      
+      if (result.warnings.length > 0) {
+        responseText += `\n⚠️ ${result.warnings.join("\n⚠️ ")}\n`;
+      }
+      
+      responseText += `\n${"=".repeat(80)}\n`;
+      responseText += `**${formatInfo.label.toUpperCase()} DATA**\n`;
+      responseText += `${"=".repeat(80)}\n\n`;
+      responseText += result.data;
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error exporting citations: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Format a bibliography in a citation style
+server.registerTool(
+  "format_bibliography",
+  {
+    title: "Format Bibliography",
+    description: "Format PMIDs as a reference list in Vancouver (ICMJE), AMA, APA 7, Harvard or NLM style, or a custom style from CITATION_STYLES_DIR. Returns plain text, Markdown or HTML with numbered or author-date in-text markers.",
+    inputSchema: {
+      pmids: z.string().describe("Comma-separated list of article identifiers in citation order: PMIDs, PMCIDs, DOIs or PubMed URLs (e.g., '36038128, 30105375')"),
+      style: z.string().optional().default("vancouver").describe("Citation style: 'vancouver', 'ama', 'apa', 'harvard', 'nlm' or the id of a custom style"),
+      output: z.enum(["text", "markdown", "html"]).optional().default("text").describe("Output format for the reference list"),
+      citationMode: z.enum(["numeric", "author-date"]).optional().describe("In-text markers: 'numeric' ([1], [2], ... in the given order) or 'author-date' ((Smith et al., 2020), sorted by author). Defaults to the style's own convention"),
+      cacheMode: cacheModeSchema
+    }
+  },
+  async ({ pmids, style, output, citationMode, cacheMode }) => {
+    try {
+      const { pmids: pmidArray, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
+      
+      if (pmidArray.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `${unresolvedNote(unresolved)}No valid PMIDs found in input`
+          }],
+          isError: true
+        };
+      }
+      
+      const result = await formatBibliography(pmidArray.slice(0, 200), { style, output, citationMode, cacheMode });
+      
+      let responseText = `📚 **Bibliography: ${result.styleName}**\n\n`;
+      responseText += itemFailuresNote([...unresolvedItems(unresolved), ...result.items]);
+      responseText += `References: ${result.entries.length}\n`;
+      responseText += `In-text markers: ${result.citationMode === "numeric" ? "numbered (citation order)" : "author-date (sorted by author)"}\n`;
+      
+      responseText += `\n${"=".repeat(80)}\n`;
+      responseText += `**REFERENCE LIST (${result.output.toUpperCase()})**\n`;
+      responseText += `${"=".repeat(80)}\n\n`;
+      responseText += `${result.bibliography}\n`;
+      
+      responseText += `\n${"=".repeat(80)}\n`;
+      responseText += `**In-text markers**\n`;
+      responseText += result.entries.map(entry => `- PMID ${entry.pmid}: ${entry.marker}`).join("\n") + "\n";
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error formatting bibliography: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Get citation counts
+server.registerTool(
+  "get_citation_counts",
+  {
+    title: "Get Citation Counts",
+    description: "Get citation counts for specific PubMed articles using NCBI elink API. Shows how many times each article has been cited by other PubMed articles.",
+    inputSchema: {
+      pmids: z.string().describe("Comma-separated list of article identifiers to get citation counts for: PMIDs, PMCIDs, DOIs or PubMed URLs (e.g., '36038128, 30105375')"),
+      cacheMode: cacheModeSchema,
+      format: structuredFormatSchema
+    },
+    outputSchema: citationCountsOutput
+  },
+  async ({ pmids, cacheMode = "default", format = "markdown" }) => {
+    try {
+      if (!pmids || pmids.trim().length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No PMIDs provided for citation count analysis"
+          }],
+          isError: true
+        };
+      }
+      
+      // Resolve PMIDs, PMCIDs, DOIs and PubMed URLs to PMIDs
+      const { pmids: pmidArray, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
+      
+      if (pmidArray.length === 0) {
         return {
           content: [{
             type: "text",
-            text: "No valid PMIDs found in input"
+            text: `${unresolvedNote(unresolved)}No valid PMIDs found in input`
           }],
           isError: true
         };
@@ -408,23 +1136,24 @@ server.registerTool(
         console.warn(`Requested ${pmidArray.length} PMIDs, limiting to 20 for citation count analysis`);
       }
       
-      const results = await getCitationCounts(limitedPmids);
+      const citationItems = await getCitationCountItems(limitedPmids, cacheMode);
+      const results = citationItems.filter(item => item.data).map(item => item.data!);
+      const items = [...unresolvedItems(unresolved), ...citationItems];
+      const totalCitations = results.reduce((sum, result) => sum + result.citationCount, 0);
+      const data = { totalCitations, citations: results, ...itemReport(items) };
+      
+      if (format === "json") {
+        return structuredResult(data, format);
+      }
       
       if (results.length === 0) {
-        return {
-          content: [{
-            type: "text",
-            text: `No citation data found for PMIDs: ${limitedPmids.join(", ")}`
-          }]
-        };
+        return structuredResult(data, format, `${itemFailuresNote(items)}No citation data found for PMIDs: ${limitedPmids.join(", ")}`);
       }
       
       // Format the response
       let responseText = `📊 **Citation Count Analysis**\n\n`;
+      responseText += itemFailuresNote(items);
       responseText += `Analyzed PMIDs: ${limitedPmids.length}\n`;
-      
-      // Calculate total citations
-      const totalCitations = results.reduce((sum, result) => sum + result.citationCount, 0);
       responseText += `Total citations found: ${totalCitations}\n`;
       
       responseText += `\n${"=".repeat(80)}\n\n`;
@@ -464,6 +1193,117 @@ server.registerTool(
       responseText += `• Analysis limited to 20 PMIDs per request\n`;
       responseText += `\n💡 **Input format**: Use comma-separated PMIDs (e.g., "36038128, 30105375")\n`;
       
+      return structuredResult(data, format, responseText);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error getting citation counts: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Build a citation network
+server.registerTool(
+  "build_citation_network",
+  {
+    title: "Build Citation Network",
+    description: "Build a citation graph from seed articles by following PubMed reference lists and cited-by links for one or more hops. Reports in-degree, co-citation and bibliographic coupling scores, and exports GraphML or GEXF (for Gephi, Cytoscape) or JSON.",
+    inputSchema: {
+      pmids: z.string().describe("Comma-separated list of seed article identifiers: PMIDs, PMCIDs, DOIs or PubMed URLs"),
+      hops: z.number().int().min(1).max(3).optional().default(1).describe("Link steps to expand from the seeds (1-3, default: 1)"),
+      direction: z.enum(["references", "cited_by", "both"]).optional().default("both")
+        .describe("Follow reference lists, cited-by links, or both (default)"),
+      maxNodes: z.number().int().min(1).max(2000).optional().default(200).describe("Maximum nodes in the network (default: 200)"),
+      maxEdges: z.number().int().min(1).max(10000).optional().default(1000).describe("Maximum edges in the network (default: 1000)"),
+      format: z.enum(["markdown", "json", "graphml", "gexf"]).optional().default("markdown")
+        .describe("Output format: 'markdown' (summary with rankings, default), 'json' (full graph), 'graphml' or 'gexf' (for graph tools)"),
+      cacheMode: cacheModeSchema
+    }
+  },
+  async ({ pmids, hops = 1, direction = "both", maxNodes = 200, maxEdges = 1000, format = "markdown", cacheMode = "default" }) => {
+    try {
+      const { pmids: seeds, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
+      
+      if (seeds.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `${unresolvedNote(unresolved)}No valid PMIDs found in input`
+          }],
+          isError: true
+        };
+      }
+      
+      // Limit to prevent abuse and respect API rate limits
+      const limitedSeeds = seeds.slice(0, 50);
+      
+      if (seeds.length > 50) {
+        console.warn(`Requested ${seeds.length} seed PMIDs, limiting to 50 for citation network`);
+      }
+      
+      const network = await buildCitationNetwork(limitedSeeds, { hops, direction, maxNodes, maxEdges, cacheMode });
+      
+      if (format !== "markdown") {
+        return {
+          content: [{
+            type: "text",
+            text: exportCitationNetwork(network, format)
+          }]
+        };
+      }
+      
+      const nodesByPmid = new Map(network.nodes.map(node => [node.pmid, node]));
+      const label = (pmid: string) => {
+        const node = nodesByPmid.get(pmid);
+        const title = node?.title ? (node.title.length > 90 ? `${node.title.substring(0, 90)}...` : node.title) : "Unknown title";
+        return `PMID ${pmid}${node?.year ? ` (${node.year})` : ""}: ${title}`;
+      };
+      const ranking = (key: "inDegree" | "coCitation" | "bibliographicCoupling") => network.nodes
+        .filter((node: CitationNode) => !node.seed && node[key] > 0)
+        .sort((a, b) => b[key] - a[key])
+        .slice(0, 10);
+      
+      let responseText = `🕸️ **Citation Network**\n\n`;
+      responseText += unresolvedNote(unresolved);
+      responseText += `Seeds: ${network.seeds.join(", ")}\n`;
+      responseText += `Hops: ${network.hops} (${direction === "both" ? "references and cited-by" : direction === "references" ? "references" : "cited-by"})\n`;
+      responseText += `Nodes: ${network.nodes.length}, edges: ${network.edges.length}\n`;
+      if (network.truncated) {
+        responseText += `⚠️ Expansion stopped at the limit of ${network.limits.maxNodes} nodes / ${network.limits.maxEdges} edges\n`;
+      }
+      responseText += "\n";
+      
+      network.nodes.filter(node => node.seed).forEach(node => {
+        responseText += `🌱 ${label(node.pmid)}\n`;
+        responseText += `   References in PubMed: ${node.referenceCount ?? "—"}, cited by: ${node.citedByCount ?? "—"}\n`;
+      });
+      
+      const sections: { title: string; key: "inDegree" | "coCitation" | "bibliographicCoupling"; unit: string }[] = [
+        { title: "📈 Most Cited Within the Network", key: "inDegree", unit: "citation" },
+        { title: "🔗 Most Co-cited With the Seeds", key: "coCitation", unit: "co-citation" },
+        { title: "📚 Strongest Bibliographic Coupling With the Seeds", key: "bibliographicCoupling", unit: "shared reference" }
+      ];
+      for (const section of sections) {
+        const nodes = ranking(section.key);
+        if (nodes.length === 0) continue;
+        responseText += `\n${"=".repeat(80)}\n\n**${section.title}**\n\n`;
+        responseText += nodes.map((node, index) => `${index + 1}. ${label(node.pmid)} — ${node[section.key]} ${section.unit}${node[section.key] === 1 ? "" : "s"}`).join("\n") + "\n";
+      }
+      
+      if (network.coCitation.length > 0) {
+        responseText += `\n**Top co-cited pairs:** ${network.coCitation.slice(0, 5).map(pair => `${pair.a} + ${pair.b} (${pair.score})`).join(", ")}\n`;
+      }
+      if (network.bibliographicCoupling.length > 0) {
+        responseText += `**Top coupled pairs:** ${network.bibliographicCoupling.slice(0, 5).map(pair => `${pair.a} + ${pair.b} (${pair.score})`).join(", ")}\n`;
+      }
+      
+      responseText += `\n💡 Use format "graphml" or "gexf" to open the network in Gephi or Cytoscape.\n`;
+      
       return {
         content: [{
           type: "text",
@@ -475,7 +1315,7 @@ server.registerTool(
       return {
         content: [{
           type: "text",
-          text: `Error getting citation counts: ${errorMessage}`
+          text: `Error building citation network: ${errorMessage}`
         }],
         isError: true
       };
@@ -483,95 +1323,92 @@ server.registerTool(
   }
 );
 
-// Tool: Optimize search query
+// Tool: Check PMIDs or an RIS file for retractions and corrections
 server.registerTool(
-  "optimize_search_query",
+  "check_retractions",
   {
-    title: "Optimize Search Query",
-    description: "Transform natural language queries into optimized PubMed search queries using MeSH terms, field tags, and boolean operators for more effective and precise searches.",
+    title: "Check Retractions",
+    description: "Check a reference list for retracted, partially retracted, corrected (erratum) or expression-of-concern articles. Accepts PMIDs and/or RIS file contents (records matched by PMID, falling back to DOI) and links to the notices in PubMed.",
     inputSchema: {
-      query: z.string().describe("Natural language search query to optimize (e.g., 'covid vaccine effectiveness in elderly')")
+      pmids: z.string().optional().describe("Comma-separated list of article identifiers to check: PMIDs, PMCIDs, DOIs or PubMed URLs"),
+      ris: z.string().optional().describe("RIS file contents to check (e.g., an export from a reference manager)"),
+      showClean: z.boolean().optional().default(false).describe("Also list articles with no retraction or correction"),
+      cacheMode: z.enum(["default", "refresh", "offline"]).optional().default("refresh")
+        .describe("Cache behaviour: 'refresh' (default) re-fetches records so newly published notices are seen, 'default' uses cached records when fresh, 'offline' only uses cached records"),
+      format: formatSchema
     }
   },
-  async ({ query }) => {
+  async ({ pmids, ris, showClean, cacheMode, format }) => {
     try {
-      if (!query || query.trim().length === 0) {
+      const identifiers = splitIdentifiers(pmids || "");
+      
+      if (identifiers.length === 0 && !ris?.trim()) {
         return {
           content: [{
             type: "text",
-            text: "No search query provided for optimization"
+            text: "Provide PMIDs and/or RIS file contents to check"
           }],
           isError: true
         };
       }
       
-      const result = await optimizeSearchQuery(query.trim());
-      
-      // Format the response
-      let responseText = `🔍 **Search Query Optimization**\n\n`;
+      const { pmids: pmidArray, unresolved } = await resolvePmids(identifiers, cacheMode);
+      const result = await checkRetractions({ pmids: pmidArray, ris }, { cacheMode });
       
-      responseText += `**Original Query:**\n\`${result.originalQuery}\`\n\n`;
+      if (format === "json") {
+        return jsonResult({ ...result, unresolved });
+      }
       
-      responseText += `**Optimized Query:**\n\`${result.optimizedQuery}\`\n\n`;
+      const formatItem = (item: RetractionCheckItem) => {
+        let text = `**PMID ${item.pmid}**: ${item.title}\n`;
+        text += `   ${item.journal}, ${item.publicationDate}${item.doi ? `. DOI: ${item.doi}` : ""}\n`;
+        text += `   Status: ${EDITORIAL_STATUS_LABELS[item.status]}\n`;
+        item.notices.forEach(notice => {
+          text += `   - ${formatNotice(notice)}\n`;
+        });
+        return text;
+      };
       
-      responseText += `${"=".repeat(80)}\n\n`;
+      let responseText = `🔍 **Retraction Check**\n\n`;
+      responseText += unresolvedNote(unresolved);
+      responseText += `Articles checked: ${result.checked}\n`;
+      responseText += `Retracted, corrected or under concern: ${result.flagged.length}\n`;
+      responseText += `Editorial notices in the list: ${result.notices.length}\n`;
+      responseText += `No issues found: ${result.clean.length}\n`;
+      
+      if (result.flagged.length > 0) {
+        responseText += `\n${"=".repeat(80)}\n`;
+        responseText += `⚠️ **Flagged Articles**\n`;
+        responseText += `${"=".repeat(80)}\n\n`;
+        responseText += result.flagged.map(formatItem).join("\n");
+      } else {
+        responseText += `\n✅ No retracted, corrected or concern-flagged articles found.\n`;
+      }
       
-      // Show improvements
-      if (result.improvements.length > 0) {
-        responseText += `**🎯 Improvements Made:**\n`;
-        result.improvements.forEach((improvement, index) => {
-          responseText += `${index + 1}. ${improvement}\n`;
-        });
-        responseText += `\n`;
+      if (result.notices.length > 0) {
+        responseText += `\n📢 **Editorial Notices** (these records are notices, not research articles)\n\n`;
+        responseText += result.notices.map(formatItem).join("\n");
       }
       
-      // Show MeSH terms used
-      if (result.meshTermsUsed.length > 0) {
-        responseText += `**📚 MeSH Terms Applied:**\n`;
-        result.meshTermsUsed.forEach((term, index) => {
-          responseText += `• ${term}\n`;
-        });
-        responseText += `\n`;
+      if (showClean && result.clean.length > 0) {
+        responseText += `\n✅ **No Issues Found**\n\n`;
+        responseText += result.clean.map(item => `- PMID ${item.pmid}: ${item.title}`).join("\n") + "\n";
       }
       
-      // Show field tags used
-      if (result.fieldTagsUsed.length > 0) {
-        responseText += `**🏷️ Field Tags Used:**\n`;
-        const uniqueFieldTags = [...new Set(result.fieldTagsUsed)];
-        uniqueFieldTags.forEach((tag, index) => {
-          const tagDescription = {
-            '[MeSH Terms]': 'Medical Subject Headings',
-            '[tw]': 'Text Word (searches titles, abstracts, and keywords)',
-            '[ti]': 'Title',
-            '[ab]': 'Abstract',
-            '[au]': 'Author',
-            '[ta]': 'Journal Title',
-            '[pt]': 'Publication Type',
-            '[pdat]': 'Publication Date'
-          };
-          responseText += `• ${tag} - ${tagDescription[tag as keyof typeof tagDescription] || 'Field tag'}\n`;
-        });
-        responseText += `\n`;
+      if (result.notFound.length > 0) {
+        responseText += `\n❓ **Not found in PubMed**: ${result.notFound.join(", ")}\n`;
       }
       
-      // Show estimated results if available
-      if (result.estimatedResults !== undefined) {
-        responseText += `**📊 Estimated Results:**\n`;
-        responseText += `${result.estimatedResults.toLocaleString()} articles found\n\n`;
+      const unchecked = result.items.filter(item => item.status !== "ok" && item.status !== "not_found");
+      if (unchecked.length > 0) {
+        responseText += `\n${itemFailuresNote(unchecked)}`;
       }
       
-      responseText += `${"=".repeat(80)}\n`;
-      responseText += `**💡 Next Steps:**\n`;
-      responseText += `1. Copy the optimized query above\n`;
-      responseText += `2. Use it with the \`search_pubmed\` tool\n`;
-      responseText += `3. Or paste it directly into PubMed's search box\n`;
-      responseText += `4. Further refine by adding date ranges, publication types, etc.\n\n`;
+      if (result.unresolved.length > 0) {
+        responseText += `\n❓ **Unmatched RIS records**:\n${result.unresolved.map(entry => `- ${entry}`).join("\n")}\n`;
+      }
       
-      responseText += `**🔧 Advanced Options:**\n`;
-      responseText += `• Add publication date: \`AND 2020:2023[pdat]\`\n`;
-      responseText += `• Filter by publication type: \`AND "Clinical Trial"[pt]\`\n`;
-      responseText += `• Limit to humans: \`AND "Humans"[MeSH Terms]\`\n`;
-      responseText += `• English language only: \`AND English[la]\`\n`;
+      responseText += `\n💡 Status reflects PubMed's retraction, erratum and expression-of-concern links at the time of checking.\n`;
       
       return {
         content: [{
@@ -584,7 +1421,7 @@ server.registerTool(
       return {
         content: [{
           type: "text",
-          text: `Error optimizing search query: ${errorMessage}`
+          text: `Error checking retractions: ${errorMessage}`
         }],
         isError: true
       };
@@ -592,109 +1429,908 @@ server.registerTool(
   }
 );
 
-// Tool: Find similar articles
+// Tool: Match free-text references to PMIDs
 server.registerTool(
-  "find_similar_articles",
+  "match_citations",
   {
-    title: "Find Similar Articles",
-    description: "Find articles similar to a given PubMed article using NCBI's similarity algorithm. Returns articles ranked by relevance with similarity scores.",
+    title: "Match Citations",
+    description: "Resolve free-text references (e.g., 'Smith J, et al. Lancet 2020;395:1054-62') to PMIDs using NCBI ECitMatch, falling back to fielded author/journal/year/volume/page and title-word searches. Returns the best PMID per reference with a confidence score and alternatives.",
     inputSchema: {
-      pmid: z.string().describe("PubMed ID (PMID) of the reference article"),
-      maxResults: z.number().optional().default(10).describe("Maximum number of similar articles to return (default: 10, max: 50)")
+      references: z.union([
+        z.array(z.string()),
+        z.string()
+      ]).describe("References to match: an array with one reference per item, or a pasted reference list (one per line, numbered, or separated by blank lines)"),
+      minConfidence: z.number().min(0).max(1).optional().default(0.6).describe("Confidence (0-1) needed to accept the best candidate (default: 0.6)"),
+      maxAlternatives: z.number().int().min(0).max(10).optional().default(3).describe("Runner-up candidates listed per reference (default: 3)"),
+      cacheMode: cacheModeSchema,
+      format: formatSchema
     }
   },
-  async ({ pmid, maxResults = 10 }) => {
+  async ({ references, minConfidence = 0.6, maxAlternatives = 3, cacheMode = "default", format = "markdown" }) => {
     try {
-      if (!pmid || pmid.trim().length === 0) {
+      const referenceList = splitReferences(references);
+      
+      if (referenceList.length === 0) {
         return {
           content: [{
             type: "text",
-            text: "No PMID provided for similarity search"
+            text: "No references provided for matching"
           }],
           isError: true
         };
       }
       
-      // Limit maxResults to prevent abuse
-      const limitedMax = Math.min(maxResults, 50);
+      // Limit to prevent abuse and respect API rate limits
+      const limitedReferences = referenceList.slice(0, 100);
       
-      // Get similar articles
-      const similarArticles = await findSimilarArticles(pmid.trim(), limitedMax);
+      if (referenceList.length > 100) {
+        console.warn(`Requested ${referenceList.length} references, limiting to 100 for citation matching`);
+      }
       
-      if (similarArticles.length === 0) {
-        return {
-          content: [{
-            type: "text",
-            text: `No similar articles found for PMID: ${pmid}\n\nNote: This could be due to:\n1. Invalid PMID\n2. Very recent article not yet indexed\n3. Article type not suitable for similarity matching`
-          }]
+      const result = await matchCitations(limitedReferences, { cacheMode, minConfidence, maxAlternatives });
+      
+      if (format === "json") {
+        return jsonResult(result);
+      }
+      
+      const candidateLine = (candidate: CitationCandidate) => {
+        const location = [candidate.year, candidate.volume && `;${candidate.volume}`, candidate.pages && `:${candidate.pages}`].filter(Boolean).join("");
+        return `PMID ${candidate.pmid} (${candidate.score.toFixed(2)}): ${candidate.title} ${candidate.journal}${location ? ` ${location}` : ""}`;
+      };
+      
+      let responseText = `🔎 **Citation Matching**\n\n`;
+      responseText += `Matched ${result.matchedCount} of ${result.matches.length} references (confidence ≥ ${minConfidence})\n\n`;
+      
+      result.matches.forEach((match, index) => {
+        responseText += `**${index + 1}.** ${match.parsed.text}\n`;
+        if (match.status === "matched" && match.best) {
+          responseText += `   ✅ ${candidateLine(match.best)}\n`;
+          responseText += `   Matched on: ${match.best.matchedFields.join(", ") || "—"} (via ${match.best.sources.join(", ")})\n`;
+        } else if (match.status === "low_confidence" && match.best) {
+          responseText += `   ⚠️ Low confidence: ${candidateLine(match.best)}\n`;
+        } else {
+          responseText += `   ❌ No match found\n`;
+        }
+        if (match.alternatives.length > 0) {
+          responseText += `   Alternatives:\n${match.alternatives.map(candidate => `   • ${candidateLine(candidate)}`).join("\n")}\n`;
+        }
+        responseText += "\n";
+      });
+      
+      if (result.pmids.length > 0) {
+        responseText += `${"=".repeat(80)}\n\n`;
+        responseText += `**Matched PMIDs**: ${result.pmids.join(", ")}\n\n`;
+        responseText += `💡 Pass these PMIDs to get_citation_counts, export_ris or check_retractions.\n`;
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error matching citations: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Optimize search query
+server.registerTool(
+  "optimize_search_query",
+  {
+    title: "Optimize Search Query",
+    description: "Transform natural language queries into optimized PubMed search queries using MeSH terms, field tags, and boolean operators for more effective and precise searches.",
+    inputSchema: {
+      query: z.string().describe("Natural language search query to optimize (e.g., 'covid vaccine effectiveness in elderly')"),
+      useMeshLookup: z.boolean().optional().default(true).describe("Resolve terms not in the built-in mapping table against the MeSH vocabulary (default: true)"),
+      cacheMode: cacheModeSchema,
+      format: structuredFormatSchema
+    },
+    outputSchema: queryOptimizationOutput
+  },
+  async ({ query, useMeshLookup = true, cacheMode = "default", format = "markdown" }) => {
+    try {
+      if (!query || query.trim().length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No search query provided for optimization"
+          }],
+          isError: true
+        };
+      }
+      
+      const result = await optimizeSearchQuery(query.trim(), { useMeshLookup, cacheMode });
+      
+      if (format === "json") {
+        return structuredResult(result, format);
+      }
+      
+      // Format the response
+      let responseText = `🔍 **Search Query Optimization**\n\n`;
+      
+      responseText += `**Original Query:**\n\`${result.originalQuery}\`\n\n`;
+      
+      responseText += `**Optimized Query:**\n\`${result.optimizedQuery}\`\n\n`;
+      
+      responseText += `${"=".repeat(80)}\n\n`;
+      
+      // Show improvements
+      if (result.improvements.length > 0) {
+        responseText += `**🎯 Improvements Made:**\n`;
+        result.improvements.forEach((improvement, index) => {
+          responseText += `${index + 1}. ${improvement}\n`;
+        });
+        responseText += `\n`;
+      }
+      
+      // Show MeSH terms used
+      if (result.meshTermsUsed.length > 0) {
+        responseText += `**📚 MeSH Terms Applied:**\n`;
+        result.meshTermsUsed.forEach((term, index) => {
+          responseText += `• ${term}\n`;
+        });
+        responseText += `\n`;
+      }
+      
+      // Show terms resolved through the MeSH vocabulary
+      if (result.resolvedDescriptors.length > 0) {
+        responseText += `**🔎 Resolved via MeSH Lookup:**\n`;
+        result.resolvedDescriptors.forEach(descriptor => {
+          responseText += `• "${descriptor.phrase}" → ${descriptor.name} (${descriptor.ui})\n`;
+        });
+        responseText += `\n`;
+      }
+      
+      // Show field tags used
+      if (result.fieldTagsUsed.length > 0) {
+        responseText += `**🏷️ Field Tags Used:**\n`;
+        const uniqueFieldTags = [...new Set(result.fieldTagsUsed)];
+        uniqueFieldTags.forEach((tag, index) => {
+          const tagDescription = {
+            '[MeSH Terms]': 'Medical Subject Headings',
+            '[tw]': 'Text Word (searches titles, abstracts, and keywords)',
+            '[ti]': 'Title',
+            '[ab]': 'Abstract',
+            '[au]': 'Author',
+            '[ta]': 'Journal Title',
+            '[pt]': 'Publication Type',
+            '[pdat]': 'Publication Date'
+          };
+          responseText += `• ${tag} - ${tagDescription[tag as keyof typeof tagDescription] || 'Field tag'}\n`;
+        });
+        responseText += `\n`;
+      }
+      
+      // Show syntax problems in the generated query
+      if (result.warnings.length > 0) {
+        responseText += `**⚠️ Query Warnings:**\n`;
+        result.warnings.forEach(warning => {
+          responseText += `• ${warning}\n`;
+        });
+        responseText += `\n`;
+      }
+      
+      // Show estimated results if available
+      if (result.estimatedResults !== undefined) {
+        responseText += `**📊 Estimated Results:**\n`;
+        responseText += `${result.estimatedResults.toLocaleString()} articles found\n\n`;
+      }
+      
+      responseText += `${"=".repeat(80)}\n`;
+      responseText += `**💡 Next Steps:**\n`;
+      responseText += `1. Copy the optimized query above\n`;
+      responseText += `2. Use it with the \`search_pubmed\` tool\n`;
+      responseText += `3. Or paste it directly into PubMed's search box\n`;
+      responseText += `4. Further refine by adding date ranges, publication types, etc.\n\n`;
+      
+      responseText += `**🔧 Advanced Options:**\n`;
+      responseText += `• Add publication date: \`AND 2020:2023[pdat]\`\n`;
+      responseText += `• Filter by publication type: \`AND "Clinical Trial"[pt]\`\n`;
+      responseText += `• Limit to humans: \`AND "Humans"[MeSH Terms]\`\n`;
+      responseText += `• English language only: \`AND English[la]\`\n`;
+      
+      return structuredResult(result, format, responseText);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error optimizing search query: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Validate and normalize a PubMed query
+server.registerTool(
+  "validate_query",
+  {
+    title: "Validate Query",
+    description: "Parse a PubMed query and report syntax errors (unbalanced parentheses or quotes, dangling operators), unknown field tags and risky constructs such as leading wildcards, short truncated stems, lowercase operators and OR mixed with AND without parentheses. Returns a normalized and pretty-printed version of valid queries.",
+    inputSchema: {
+      query: z.string().describe("PubMed query to check (e.g., '(\"heart attack\"[tiab] OR \"Myocardial Infarction\"[mh]) AND aspirin')"),
+      showInfo: z.boolean().optional().default(false).describe("Also list informational notes (implicit AND, truncation disabling automatic term mapping)")
+    }
+  },
+  async ({ query, showInfo = false }) => {
+    try {
+      const result = validateQuery(query);
+      const severityIcons = { error: "❌", warning: "⚠️", info: "ℹ️" };
+      const diagnostics = result.diagnostics.filter(diagnostic => showInfo || diagnostic.severity !== "info");
+      const errorCount = result.diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+      const warningCount = result.diagnostics.filter(diagnostic => diagnostic.severity === "warning").length;
+      
+      let responseText = `🧪 **Query Validation**\n\n`;
+      responseText += `Query: \`${query}\`\n`;
+      responseText += `Status: ${result.valid ? "✅ Valid" : "❌ Invalid"} (${errorCount} error${errorCount === 1 ? "" : "s"}, ${warningCount} warning${warningCount === 1 ? "" : "s"})\n`;
+      responseText += `\n${"=".repeat(80)}\n\n`;
+      
+      if (diagnostics.length > 0) {
+        responseText += `**Issues:**\n`;
+        diagnostics.forEach(diagnostic => {
+          const excerpt = query.slice(diagnostic.start, diagnostic.end);
+          responseText += `${severityIcons[diagnostic.severity]} [${diagnostic.code}] ${diagnostic.message}`;
+          responseText += excerpt ? ` — at \`${excerpt}\` (position ${diagnostic.start})\n` : `\n`;
+        });
+        responseText += `\n`;
+      } else {
+        responseText += `No issues found.\n\n`;
+      }
+      
+      if (result.normalized) {
+        responseText += `**Normalized Query:**\n\`${result.normalized}\`\n\n`;
+        responseText += `**Structure:**\n\`\`\`\n${result.pretty}\n\`\`\`\n\n`;
+        responseText += `Terms: ${result.terms.length}`;
+        if (result.fieldsUsed.length > 0) {
+          responseText += ` | Field tags: ${result.fieldsUsed.map(field => `[${field}]`).join(", ")}`;
+        }
+        responseText += `\n\n`;
+      }
+      
+      responseText += `💡 PubMed evaluates AND, OR and NOT left to right; the normalized query makes the grouping explicit\n`;
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error validating query: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Analyze a search strategy block by block
+server.registerTool(
+  "analyze_search_strategy",
+  {
+    title: "Analyze Search Strategy",
+    description: "Split a PubMed query into its concept blocks (the parts joined by top-level AND/NOT) and report the hit count of each block, of each OR'd term within a block, and of the cumulative combinations. Shows PubMed's query translation and any ErrorList/WarningList entries, formatted as a line-numbered search history for systematic review protocols.",
+    inputSchema: {
+      query: z.string().describe("PubMed query to analyze (e.g., '(\"heart attack\"[tiab] OR \"Myocardial Infarction\"[mh]) AND (aspirin[tiab] OR \"Aspirin\"[mh])')"),
+      includeTermCounts: z.boolean().optional().default(true).describe("Also count each OR'd term within a block (default: true, up to 25 terms)"),
+      showTranslations: z.boolean().optional().default(true).describe("Show PubMed's query translation for each line (default: true)"),
+      cacheMode: cacheModeSchema
+    }
+  },
+  async ({ query, includeTermCounts = true, showTranslations = true, cacheMode = "default" }) => {
+    try {
+      if (!query || query.trim().length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No query provided for search strategy analysis"
+          }],
+          isError: true
+        };
+      }
+      
+      const analysis = await analyzeSearchStrategy(expandHistoryReferences(query.trim()), { includeTermCounts, cacheMode });
+      
+      let responseText = `🧭 **Search Strategy Analysis**\n\n`;
+      responseText += `Query: \`${analysis.query}\`\n`;
+      responseText += `Normalized: \`${analysis.normalizedQuery}\`\n`;
+      responseText += `Final result count: **${analysis.finalCount.toLocaleString()}**\n`;
+      responseText += `\n${"=".repeat(80)}\n\n`;
+      
+      // Line-numbered search history table
+      responseText += `| # | Search | Results |\n|---|--------|---------|\n`;
+      analysis.lines.forEach(line => {
+        const search = line.kind === "combination" ? line.description : line.query.replace(/\|/g, "\\|");
+        responseText += `| ${line.line} | ${search} | ${line.count.toLocaleString()} |\n`;
+      });
+      responseText += `\n${"=".repeat(80)}\n\n`;
+      
+      const formattedLines = analysis.lines.map(line => {
+        let text = `**#${line.line} ${line.description}**: ${line.count.toLocaleString()} results\n`;
+        
+        if (line.combines) {
+          const left = analysis.lines[line.combines.left - 1];
+          if (left.count > 0) {
+            const change = ((line.count - left.count) / left.count) * 100;
+            text += `Change from #${left.line}: ${change >= 0 ? "+" : ""}${change.toFixed(1)}%\n`;
+          }
+        }
+        
+        text += `Query: \`${line.query}\`\n`;
+        
+        if (showTranslations && line.queryTranslation) {
+          text += `Translation: ${line.queryTranslation}\n`;
+        }
+        
+        if (line.errorList.length > 0) {
+          text += `❌ PubMed errors: ${line.errorList.join("; ")}\n`;
+        }
+        
+        if (line.warningList.length > 0) {
+          text += `⚠️ PubMed warnings: ${line.warningList.join("; ")}\n`;
+        }
+        
+        if (line.terms && line.terms.length > 0) {
+          text += `Terms:\n`;
+          line.terms.forEach(term => {
+            text += `  - \`${term.query}\`: ${term.count !== undefined ? term.count.toLocaleString() : "not counted"}\n`;
+          });
+        }
+        
+        return text;
+      }).join("\n");
+      
+      responseText += formattedLines;
+      
+      if (analysis.diagnostics.length > 0) {
+        responseText += `\n**⚠️ Query Warnings:**\n`;
+        analysis.diagnostics.forEach(diagnostic => {
+          responseText += `• ${diagnostic.message}\n`;
+        });
+      }
+      
+      responseText += `\n💡 Blocks with very large counts are driving recall; combinations with a sharp drop show where precision comes from\n`;
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error analyzing search strategy: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Look up MeSH descriptors
+server.registerTool(
+  "lookup_mesh",
+  {
+    title: "Look Up MeSH Terms",
+    description: "Resolve free text against the MeSH vocabulary. Returns descriptor UIs, preferred terms, entry terms (synonyms), tree numbers and allowable qualifiers (subheadings). Uses the NCBI MeSH database, or a local MeSH descriptor dump when MESH_DATA_FILE is configured.",
+    inputSchema: {
+      term: z.string().describe("Free text to resolve (e.g., 'heart attack', 'type 2 diabetes')"),
+      maxResults: z.number().optional().default(5).describe("Maximum number of descriptors to return (default: 5, max: 20)"),
+      source: z.enum(["auto", "remote", "local"]).optional().default("auto").describe("Where to look up terms: 'auto' (local dump if configured, otherwise NCBI), 'remote' (NCBI MeSH database) or 'local' (MESH_DATA_FILE dump only)"),
+      cacheMode: cacheModeSchema
+    }
+  },
+  async ({ term, maxResults = 5, source = "auto", cacheMode = "default" }) => {
+    try {
+      if (!term || term.trim().length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No term provided for MeSH lookup"
+          }],
+          isError: true
+        };
+      }
+      
+      const limitedMax = Math.min(Math.max(1, maxResults), 20);
+      const result = await lookupMesh(term.trim(), { maxResults: limitedMax, source, cacheMode });
+      
+      if (result.descriptors.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `No MeSH descriptors found for "${term}" (source: ${result.source})\n\nTry a broader or alternative term, or use the term as a text word ([tw]) in your search.`
+          }]
+        };
+      }
+      
+      let responseText = `📚 **MeSH Lookup**\n\n`;
+      responseText += `Query: "${result.query}"\n`;
+      responseText += `Source: ${result.source === "local" ? "local MeSH dump" : "NCBI MeSH database"}\n`;
+      responseText += `Descriptors found: ${result.descriptors.length}\n`;
+      responseText += `\n${"=".repeat(80)}\n\n`;
+      
+      const formattedResults = result.descriptors.map((descriptor, index) => {
+        let text = `**${index + 1}. ${descriptor.name}** (${descriptor.ui})\n`;
+        text += `Search tag: \`"${descriptor.name}"[MeSH Terms]\`\n`;
+        
+        if (descriptor.treeNumbers.length > 0) {
+          text += `Tree numbers: ${descriptor.treeNumbers.join(", ")}\n`;
+        }
+        
+        if (descriptor.entryTerms.length > 0) {
+          const shownTerms = descriptor.entryTerms.slice(0, 15);
+          text += `Entry terms: ${shownTerms.join("; ")}`;
+          if (descriptor.entryTerms.length > shownTerms.length) {
+            text += ` ... and ${descriptor.entryTerms.length - shownTerms.length} more`;
+          }
+          text += `\n`;
+        }
+        
+        if (descriptor.allowableQualifiers.length > 0) {
+          text += `Allowable qualifiers: ${descriptor.allowableQualifiers.map(q => `${q.name} (${q.abbreviation})`).join(", ")}\n`;
+        }
+        
+        if (descriptor.scopeNote) {
+          text += `\nScope note: ${descriptor.scopeNote}\n`;
+        }
+        
+        return text;
+      }).join("\n" + "=".repeat(80) + "\n\n");
+      
+      responseText += formattedResults;
+      responseText += `\n${"=".repeat(80)}\n`;
+      responseText += `💡 Use optimize_search_query to build a full query, or combine descriptors with [MeSH Terms] in search_pubmed\n`;
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error looking up MeSH terms: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Browse the MeSH tree
+server.registerTool(
+  "browse_mesh_tree",
+  {
+    title: "Browse MeSH Tree",
+    description: "Show where a MeSH descriptor sits in the MeSH hierarchy: broader (parent), sibling and narrower (child) descriptors for each tree number, with PubMed record counts. Also builds query variants with exploded [Mesh], non-exploded [Mesh:NoExp], major topic and subheadings (e.g. /therapy, /adverse effects) to tune recall versus precision.",
+    inputSchema: {
+      term: z.string().describe("Descriptor name, descriptor UI (e.g., 'D003924') or tree number (e.g., 'C18.452.394.750.149')"),
+      treeNumber: z.string().optional().describe("Only show this tree location when the descriptor has several tree numbers"),
+      subheadings: z.array(z.string()).optional().describe("Subheadings to attach, by name or abbreviation (e.g., ['therapy', 'adverse effects'] or ['TH', 'AE'])"),
+      includeCounts: z.boolean().optional().default(true).describe("Include PubMed record counts for the descriptor, related terms and query variants (default: true)"),
+      source: z.enum(["auto", "remote", "local"]).optional().default("auto").describe("Where to read the hierarchy: 'auto' (local dump if configured, otherwise NCBI), 'remote' (NCBI MeSH database) or 'local' (MESH_DATA_FILE dump only)"),
+      cacheMode: cacheModeSchema
+    }
+  },
+  async ({ term, treeNumber, subheadings = [], includeCounts = true, source = "auto", cacheMode = "default" }) => {
+    try {
+      if (!term || term.trim().length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No term provided for MeSH tree browsing"
+          }],
+          isError: true
+        };
+      }
+
+      const result = await browseMeshTree(term, { treeNumber, subheadings, includeCounts, source, cacheMode });
+      const { descriptor } = result;
+      const formatCount = (count?: number) => count !== undefined ? ` — ${count.toLocaleString()} records` : "";
+      const formatNodes = (nodes: MeshTreeNode[]) => nodes
+        .map(node => `  - ${node.name} (${node.treeNumber})${formatCount(node.count)}`)
+        .join("\n");
+
+      let responseText = `🌳 **MeSH Tree: ${descriptor.name}** (${descriptor.ui})\n\n`;
+      responseText += `Source: ${result.source === "local" ? "local MeSH dump" : "NCBI MeSH database"}\n`;
+      responseText += `Tree numbers: ${descriptor.treeNumbers.join(", ") || "none"}\n`;
+      if (result.count !== undefined) {
+        responseText += `PubMed records (exploded): ${result.count.toLocaleString()}\n`;
+      }
+      responseText += `\n${"=".repeat(80)}\n\n`;
+
+      const formattedLocations = result.locations.map(location => {
+        let text = `**Tree location ${location.treeNumber}**\n\n`;
+
+        text += `⬆️ Broader term: `;
+        text += location.parent
+          ? `${location.parent.name} (${location.parent.treeNumber})${formatCount(location.parent.count)}\n`
+          : `none (top of the tree)\n`;
+
+        text += `\n↔️ Sibling terms (${location.siblings.length}):\n`;
+        text += location.siblings.length > 0 ? `${formatNodes(location.siblings)}\n` : `  none\n`;
+
+        text += `\n⬇️ Narrower terms (${location.children.length}):\n`;
+        text += location.children.length > 0
+          ? `${formatNodes(location.children)}\n`
+          : `  none (leaf term: exploding adds no narrower descriptors)\n`;
+
+        return text;
+      }).join("\n" + "=".repeat(80) + "\n\n");
+
+      responseText += formattedLocations || `No tree locations found for this descriptor\n`;
+      responseText += `\n${"=".repeat(80)}\n\n`;
+
+      responseText += `🔎 **Query Variants** (broadest to most precise)\n\n`;
+      result.queries.forEach(variant => {
+        responseText += `- ${variant.label}: \`${variant.query}\`${formatCount(variant.count)}\n`;
+      });
+
+      responseText += `\n💡 Exploded [Mesh] terms maximise recall; [Mesh:NoExp], subheadings and [Majr] narrow results for precision. Pass a variant to search_pubmed as the query.\n`;
+
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error browsing MeSH tree: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Find similar articles
+server.registerTool(
+  "find_similar_articles",
+  {
+    title: "Find Similar Articles",
+    description: "Find articles similar to a given PubMed article using NCBI's similarity algorithm. Returns articles ranked by relevance with similarity scores.",
+    inputSchema: {
+      pmid: z.string().describe("Identifier of the reference article: PMID, PMCID, DOI or PubMed URL"),
+      maxResults: z.number().optional().default(10).describe("Maximum number of similar articles to return (default: 10, max: 50)"),
+      cacheMode: cacheModeSchema,
+      format: structuredFormatSchema
+    },
+    outputSchema: similarArticlesOutput
+  },
+  async ({ pmid, maxResults = 10, cacheMode = "default", format = "markdown" }) => {
+    try {
+      if (!pmid || pmid.trim().length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No PMID provided for similarity search"
+          }],
+          isError: true
+        };
+      }
+      
+      const { pmids: [referencePmid] } = await resolvePmids([pmid.trim()], cacheMode);
+      if (!referencePmid) {
+        return {
+          content: [{
+            type: "text",
+            text: `Could not resolve "${pmid}" to a PMID`
+          }],
+          isError: true
+        };
+      }
+      
+      // Limit maxResults to prevent abuse
+      const limitedMax = Math.min(maxResults, 50);
+      
+      // Get similar articles
+      const similarArticles = await findSimilarArticles(referencePmid, limitedMax, cacheMode);
+      const data = { pmid: referencePmid, similarArticles };
+      
+      if (format === "json") {
+        return structuredResult(data, format);
+      }
+      
+      if (similarArticles.length === 0) {
+        return structuredResult(data, format, `No similar articles found for PMID: ${referencePmid}\n\nNote: This could be due to:\n1. Invalid PMID\n2. Very recent article not yet indexed\n3. Article type not suitable for similarity matching`);
+      }
+      
+      // First, get the original article details for reference
+      const originalArticle = await getArticleDetails([referencePmid], cacheMode);
+      
+      // Format the response
+      let responseText = `🔍 **Similar Articles Analysis**\n\n`;
+      
+      if (originalArticle.length > 0) {
+        responseText += `**Reference Article:**\n`;
+        responseText += `Title: ${originalArticle[0].title}\n`;
+        responseText += `Authors: ${originalArticle[0].authors.slice(0, 3).join(", ")}${originalArticle[0].authors.length > 3 ? ", et al." : ""}\n`;
+        responseText += `PMID: ${referencePmid}\n`;
+        responseText += `\n${"=".repeat(80)}\n\n`;
+      }
+      
+      responseText += `**Found ${similarArticles.length} similar articles:**\n\n`;
+      
+      // Format each similar article
+      const formattedResults = similarArticles.map((article, index) => {
+        const authorsText = article.authors.length > 0 
+          ? article.authors.slice(0, 3).join(", ") + (article.authors.length > 3 ? ", et al." : "")
+          : "Unknown authors";
+        
+        let result = `**${index + 1}. ${article.title}**\n`;
+        result += editorialStatusLine(article);
+        
+        if (article.similarityScore !== undefined && article.similarityScore !== null) {
+          result += `📊 Similarity Score: ${article.similarityScore.toFixed(2)}\n`;
+        }
+        
+        result += `Authors: ${authorsText}\n`;
+        result += `Journal: ${article.journal}\n`;
+        result += `Publication Date: ${article.publicationDate}\n`;
+        result += `PMID: ${article.pmid}\n`;
+        
+        if (article.doi) {
+          result += `DOI: ${article.doi}\n`;
+        }
+        
+        if (article.pmcId) {
+          result += `PMC ID: ${article.pmcId}\n`;
+        }
+        
+        result += `URL: https://pubmed.ncbi.nlm.nih.gov/${article.pmid}/\n`;
+        
+        if (article.abstract) {
+          const truncatedAbstract = article.abstract.length > 300 
+            ? article.abstract.substring(0, 300) + "... (Use get_full_abstract for complete abstract)"
+            : article.abstract;
+          result += `\nAbstract: ${truncatedAbstract}\n`;
+        }
+        
+        return result;
+      }).join("\n" + "=".repeat(80) + "\n\n");
+      
+      responseText += formattedResults;
+      
+      // Extract PMIDs for easy reference
+      const pmids = similarArticles.map(a => a.pmid);
+      
+      responseText += `\n${"=".repeat(80)}\n`;
+      responseText += `**Quick Reference:**\n`;
+      responseText += `PMIDs of similar articles: ${pmids.join(", ")}\n`;
+      responseText += `\n💡 **Tips:**\n`;
+      responseText += `• Use get_full_abstract with PMIDs for complete abstracts\n`;
+      responseText += `• Use search_pubmed to explore specific topics from these articles\n`;
+      responseText += `• Higher similarity scores indicate stronger relevance\n`;
+      
+      return structuredResult(data, format, responseText);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error finding similar articles: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Find articles similar to a set of seed articles
+server.registerTool(
+  "find_similar_to_set",
+  {
+    title: "Find Similar to Set",
+    description: "Find articles similar to a set of known-relevant seed articles. Fetches PubMed's similar-article neighbours for all seeds in one elink call, drops the seeds, fuses the scores (sum, max or reciprocal-rank fusion) and ranks candidates by how many seeds they are close to. Useful for expanding systematic review searches.",
+    inputSchema: {
+      pmids: z.string().describe("Comma-separated list of seed article identifiers: PMIDs, PMCIDs, DOIs or PubMed URLs"),
+      method: z.enum(["sum", "max", "rrf"]).optional().default("rrf")
+        .describe("Score fusion: 'rrf' (reciprocal rank fusion, default), 'sum' or 'max' of per-seed scores normalized to each seed's best neighbour"),
+      sortBy: z.enum(["seed_count", "score"]).optional().default("seed_count")
+        .describe("Rank by number of seeds a candidate is close to, then fused score (default), or by fused score alone"),
+      maxResults: z.number().int().min(1).max(100).optional().default(20).describe("Maximum number of candidates to return (default: 20)"),
+      minSeeds: z.number().int().min(1).optional().default(1).describe("Only return candidates similar to at least this many seeds (default: 1)"),
+      neighborsPerSeed: z.number().int().min(1).max(500).optional().default(100).describe("Top neighbours taken from each seed (default: 100)"),
+      cacheMode: cacheModeSchema,
+      format: formatSchema
+    }
+  },
+  async ({ pmids, method = "rrf", sortBy = "seed_count", maxResults = 20, minSeeds = 1, neighborsPerSeed = 100, cacheMode = "default", format = "markdown" }) => {
+    try {
+      const { pmids: seeds, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
+      
+      if (seeds.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `${unresolvedNote(unresolved)}No valid PMIDs found in input`
+          }],
+          isError: true
+        };
+      }
+      
+      // Limit to prevent abuse and respect API rate limits
+      const limitedSeeds = seeds.slice(0, 100);
+      
+      if (seeds.length > 100) {
+        console.warn(`Requested ${seeds.length} seed PMIDs, limiting to 100 for set similarity`);
+      }
+      
+      const result = await findSimilarToSet(limitedSeeds, { method, sortBy, maxResults, minSeeds, neighborsPerSeed, cacheMode });
+      
+      if (format === "json") {
+        return jsonResult({ ...result, unresolved });
+      }
+      
+      const methodLabels: Record<string, string> = { sum: "sum of normalized scores", max: "maximum normalized score", rrf: "reciprocal rank fusion" };
+      
+      let responseText = `🔍 **Articles Similar to Seed Set**\n\n`;
+      responseText += unresolvedNote(unresolved);
+      responseText += `Seeds (${result.seeds.length}): ${result.seeds.join(", ")}\n`;
+      responseText += `Fusion: ${methodLabels[result.method]}; ranked by ${result.sortBy === "seed_count" ? "number of seeds, then fused score" : "fused score"}\n`;
+      responseText += `Candidates near at least ${minSeeds} seed${minSeeds === 1 ? "" : "s"}: ${result.totalCandidates} (showing ${result.candidates.length})\n`;
+      if (result.seedsWithoutNeighbors.length > 0) {
+        responseText += `⚠️ No similar articles in PubMed for: ${result.seedsWithoutNeighbors.join(", ")}\n`;
+      }
+      responseText += `\n${"=".repeat(80)}\n\n`;
+      
+      if (result.candidates.length === 0) {
+        responseText += `No candidates found. Try lowering minSeeds or raising neighborsPerSeed.\n`;
+      }
+      
+      responseText += result.candidates.map((candidate, index) => {
+        const authorsText = candidate.authors.length > 0
+          ? candidate.authors.slice(0, 3).join(", ") + (candidate.authors.length > 3 ? ", et al." : "")
+          : "Unknown authors";
+        
+        let text = `**${index + 1}. ${candidate.title}**\n`;
+        text += editorialStatusLine(candidate);
+        text += `📊 Near ${candidate.seedCount} of ${result.seeds.length} seeds, fused score ${candidate.fusedScore}\n`;
+        text += `Closest to: ${candidate.seedScores
+          .slice()
+          .sort((a, b) => a.rank - b.rank)
+          .slice(0, 5)
+          .map(similarity => `${similarity.seed} (#${similarity.rank})`)
+          .join(", ")}\n`;
+        text += `Authors: ${authorsText}\n`;
+        text += `Journal: ${candidate.journal}\n`;
+        text += `Publication Date: ${candidate.publicationDate}\n`;
+        text += `PMID: ${candidate.pmid}\n`;
+        if (candidate.doi) {
+          text += `DOI: ${candidate.doi}\n`;
+        }
+        text += `URL: https://pubmed.ncbi.nlm.nih.gov/${candidate.pmid}/\n`;
+        return text;
+      }).join("\n" + "=".repeat(80) + "\n\n");
+      
+      if (result.candidates.length > 0) {
+        responseText += `\n${"=".repeat(80)}\n`;
+        responseText += `**Quick Reference:**\n`;
+        responseText += `PMIDs of candidates: ${result.candidates.map(candidate => candidate.pmid).join(", ")}\n`;
+        responseText += `\n💡 Candidates close to several seeds are the strongest additions to a systematic review search.\n`;
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error finding articles similar to the set: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Convert article identifiers
+server.registerTool(
+  "convert_ids",
+  {
+    title: "Convert Article IDs",
+    description: "Convert between PMIDs, PMCIDs, DOIs and NIH manuscript IDs (MIDs) using the PMC ID Converter API, with a PubMed fallback for articles that are not in PMC. Also accepts PubMed, PMC and doi.org URLs.",
+    inputSchema: {
+      ids: z.union([
+        z.array(z.string()),
+        z.string()
+      ]).describe("Identifiers to convert, as an array or space/comma-separated string (e.g., '36038128, PMC9388327, 10.1056/NEJMoa2034577')"),
+      fallback: z.boolean().optional().default(true).describe("Look up identifiers missing from PMC through PubMed esearch/esummary (default: true)"),
+      cacheMode: cacheModeSchema,
+      format: formatSchema
+    }
+  },
+  async ({ ids, fallback = true, cacheMode = "default", format = "markdown" }) => {
+    try {
+      const inputs = splitIdentifiers(ids);
+      
+      if (inputs.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: "No identifiers provided for conversion"
+          }],
+          isError: true
         };
       }
       
-      // First, get the original article details for reference
-      const originalArticle = await getArticleDetails([pmid]);
-      
-      // Format the response
-      let responseText = `🔍 **Similar Articles Analysis**\n\n`;
+      // Limit to prevent abuse
+      const limitedInputs = inputs.slice(0, 1000);
       
-      if (originalArticle.length > 0) {
-        responseText += `**Reference Article:**\n`;
-        responseText += `Title: ${originalArticle[0].title}\n`;
-        responseText += `Authors: ${originalArticle[0].authors.slice(0, 3).join(", ")}${originalArticle[0].authors.length > 3 ? ", et al." : ""}\n`;
-        responseText += `PMID: ${pmid}\n`;
-        responseText += `\n${"=".repeat(80)}\n\n`;
+      if (inputs.length > 1000) {
+        console.warn(`Requested ${inputs.length} identifiers, limiting to 1000 for ID conversion`);
       }
       
-      responseText += `**Found ${similarArticles.length} similar articles:**\n\n`;
+      const result = await convertIds(limitedInputs, { cacheMode, fallback });
       
-      // Format each similar article
-      const formattedResults = similarArticles.map((article, index) => {
-        const authorsText = article.authors.length > 0 
-          ? article.authors.slice(0, 3).join(", ") + (article.authors.length > 3 ? ", et al." : "")
-          : "Unknown authors";
-        
-        let result = `**${index + 1}. ${article.title}**\n`;
-        
-        if (article.similarityScore !== undefined && article.similarityScore !== null) {
-          result += `📊 Similarity Score: ${article.similarityScore.toFixed(2)}\n`;
-        }
-        
-        result += `Authors: ${authorsText}\n`;
-        result += `Journal: ${article.journal}\n`;
-        result += `Publication Date: ${article.publicationDate}\n`;
-        result += `PMID: ${article.pmid}\n`;
-        
-        if (article.doi) {
-          result += `DOI: ${article.doi}\n`;
-        }
-        
-        if (article.pmcId) {
-          result += `PMC ID: ${article.pmcId}\n`;
-        }
-        
-        result += `URL: https://pubmed.ncbi.nlm.nih.gov/${article.pmid}/\n`;
-        
-        if (article.abstract) {
-          const truncatedAbstract = article.abstract.length > 300 
-            ? article.abstract.substring(0, 300) + "... (Use get_full_abstract for complete abstract)"
-            : article.abstract;
-          result += `\nAbstract: ${truncatedAbstract}\n`;
-        }
-        
-        return result;
-      }).join("\n" + "=".repeat(80) + "\n\n");
+      if (format === "json") {
+        return jsonResult(result);
+      }
       
-      responseText += formattedResults;
+      const cell = (value?: string) => value ? value.replace(/\|/g, "\\|") : "—";
+      const statusLabels: Record<IdConversionRecord["status"], string> = {
+        ok: "✅ ok",
+        invalid: "❌ invalid",
+        not_found: "⚠️ not found",
+        rate_limited: "⏳ rate limited",
+        upstream_error: "❌ lookup failed"
+      };
+      const statusLabel = (record: IdConversionRecord) => statusLabels[record.status];
+      
+      let responseText = `🔗 **ID Conversion**\n\n`;
+      responseText += `Resolved ${result.resolvedCount} of ${result.records.length} identifiers\n\n`;
+      responseText += `| Input | Type | PMID | PMCID | DOI | MID | Source | Status |\n`;
+      responseText += `|---|---|---|---|---|---|---|---|\n`;
+      for (const record of result.records) {
+        responseText += `| ${cell(record.input)} | ${cell(record.type)} | ${cell(record.pmid)} | ${cell(record.pmcid)} | ${cell(record.doi)} | ${cell(record.mid)} | ${cell(record.source)} | ${statusLabel(record)} |\n`;
+      }
       
-      // Extract PMIDs for easy reference
-      const pmids = similarArticles.map(a => a.pmid);
+      const notes = result.records.filter(record => record.error);
+      if (notes.length > 0) {
+        responseText += `\n**Notes:**\n`;
+        responseText += notes.map(record => `• ${record.input}: ${record.error}`).join("\n") + "\n";
+      }
       
-      responseText += `\n${"=".repeat(80)}\n`;
-      responseText += `**Quick Reference:**\n`;
-      responseText += `PMIDs of similar articles: ${pmids.join(", ")}\n`;
-      responseText += `\n💡 **Tips:**\n`;
-      responseText += `• Use get_full_abstract with PMIDs for complete abstracts\n`;
-      responseText += `• Use search_pubmed to explore specific topics from these articles\n`;
-      responseText += `• Higher similarity scores indicate stronger relevance\n`;
+      if (!fallback && result.unresolved.length > 0) {
+        responseText += `\n💡 Articles outside PMC are only found with fallback enabled.\n`;
+      }
+      
+      const retryRecords = result.records.filter(record => record.retryable);
+      if (retryRecords.length > 0) {
+        const wait = Math.max(0, ...retryRecords.map(record => record.retryAfterSeconds || 0));
+        responseText += `\n🔁 Retry${wait > 0 ? ` after ${wait}s` : ""}: ${retryRecords.map(record => record.input).join(", ")}\n`;
+      }
       
       return {
         content: [{
@@ -707,7 +2343,7 @@ server.registerTool(
       return {
         content: [{
           type: "text",
-          text: `Error finding similar articles: ${errorMessage}`
+          text: `Error converting IDs: ${errorMessage}`
         }],
         isError: true
       };
@@ -725,31 +2361,24 @@ server.registerTool(
       pmids: z.union([
         z.array(z.string()),
         z.string()
-      ]).describe("Array of PubMed IDs (PMIDs) to process, or space/comma-separated string (e.g., ['123', '456'] or '123 456 789' or '123,456,789')"),
+      ]).describe("Array of article identifiers (PMIDs, PMCIDs, DOIs or PubMed URLs) to process, or space/comma-separated string (e.g., ['123', '456'] or '123 456 789' or '123,PMC456,10.1000/xyz')"),
       operations: z.array(z.enum(["abstract", "citations", "similar", "ris_export", "full_text"])).describe("Operations to perform on each PMID"),
-      maxConcurrency: z.number().optional().default(3).describe("Maximum concurrent operations (default: 3)")
-    }
+      maxConcurrency: z.number().int().min(1).optional().default(3).describe("Maximum operation chunks processed concurrently (default: 3, max: 5); NCBI rate limits still apply"),
+      cacheMode: cacheModeSchema,
+      format: structuredFormatSchema
+    },
+    outputSchema: batchProcessOutput
   },
-  async ({ pmids, operations, maxConcurrency = 3 }) => {
+  async ({ pmids, operations, maxConcurrency = 3, cacheMode = "default", format = "markdown" }) => {
     try {
-      // Parse PMIDs from different input formats
-      let pmidArray: string[] = [];
-      
-      if (typeof pmids === 'string') {
-        // Handle space or comma-separated string
-        pmidArray = pmids
-          .split(/[\s,]+/)  // Split by spaces or commas
-          .map(pmid => pmid.trim())
-          .filter(pmid => pmid.length > 0);
-      } else if (Array.isArray(pmids)) {
-        pmidArray = pmids.filter(pmid => pmid && pmid.trim().length > 0);
-      }
+      // Parse identifiers from different input formats and resolve them to PMIDs
+      const { pmids: pmidArray, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
       
       if (pmidArray.length === 0) {
         return {
           content: [{
             type: "text",
-            text: "No valid PMIDs provided for batch processing"
+            text: `${unresolvedNote(unresolved)}No valid PMIDs provided for batch processing`
           }],
           isError: true
         };
@@ -774,10 +2403,16 @@ server.registerTool(
       }
       
       // Start batch processing
-      const result = await batchProcess(limitedPmids, operations, limitedConcurrency);
+      const result = await batchProcess(limitedPmids, operations, limitedConcurrency, cacheMode);
+      const data = { ...result, unresolved };
+      
+      if (format === "json") {
+        return structuredResult(data, format);
+      }
       
       // Format the response
       let responseText = `📦 **Batch Processing Results**\n\n`;
+      responseText += unresolvedNote(unresolved);
       responseText += `**Task ID**: ${result.taskId}\n`;
       responseText += `**PMIDs processed**: ${limitedPmids.length}\n`;
       responseText += `**Operations**: ${operations.join(", ")}\n\n`;
@@ -842,11 +2477,15 @@ server.registerTool(
         responseText += `⚠️ **Failed Operations**:\n`;
         const failedOps = result.operations.filter(op => op.status === 'error');
         failedOps.slice(0, 5).forEach((op, index) => {
-          responseText += `${index + 1}. PMID ${op.pmid} (${op.operation}): ${op.error}\n`;
+          responseText += `${index + 1}. PMID ${op.pmid} (${op.operation}): ${op.item?.status ?? "upstream_error"} (${op.error})\n`;
         });
         if (failedOps.length > 5) {
           responseText += `... and ${failedOps.length - 5} more errors\n`;
         }
+        const retryOps = failedOps.filter(op => op.item?.retryable);
+        if (retryOps.length > 0) {
+          responseText += `🔁 Retry: ${[...new Set(retryOps.map(op => op.pmid))].join(", ")} (${[...new Set(retryOps.map(op => op.operation))].join(", ")})\n`;
+        }
         responseText += `\n`;
       }
       
@@ -856,6 +2495,79 @@ server.registerTool(
       responseText += `• Check failed operations and retry with valid PMIDs\n`;
       responseText += `• For large datasets, consider processing in smaller batches\n`;
       
+      return structuredResult(data, format, responseText);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error in batch processing: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Start a background batch job
+server.registerTool(
+  "start_batch_job",
+  {
+    title: "Start Batch Job",
+    description: "Start a background batch job running abstract, citation, similar-article, RIS export and full-text operations over many articles. Returns a job ID immediately; follow progress with get_batch_status, page through outputs with get_batch_results and stop it with cancel_batch_job. Jobs are checkpointed to disk and resume after a server restart.",
+    inputSchema: {
+      pmids: z.union([
+        z.array(z.string()),
+        z.string()
+      ]).describe("Article identifiers (PMIDs, PMCIDs, DOIs or PubMed URLs) as an array or space/comma-separated string"),
+      operations: z.array(z.enum(BATCH_OPERATIONS)).min(1).describe("Operations to perform on each article"),
+      maxConcurrency: z.number().int().min(1).max(10).optional().default(3).describe("Chunks processed at once (default: 3); NCBI rate limits still apply"),
+      wait: z.boolean().optional().default(false).describe("Wait for the job to finish (up to 5 minutes) and send progress notifications instead of returning immediately"),
+      cacheMode: cacheModeSchema,
+      format: formatSchema
+    }
+  },
+  async ({ pmids, operations, maxConcurrency = 3, wait = false, cacheMode = "default", format = "markdown" }, extra) => {
+    try {
+      const { pmids: pmidArray, unresolved } = await resolvePmids(splitIdentifiers(pmids), cacheMode);
+      
+      if (pmidArray.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `${unresolvedNote(unresolved)}No valid PMIDs provided for the batch job`
+          }],
+          isError: true
+        };
+      }
+      
+      // Limit to prevent abuse
+      const limitedPmids = pmidArray.slice(0, 1000);
+      
+      if (pmidArray.length > 1000) {
+        console.warn(`Requested ${pmidArray.length} PMIDs, limiting to 1000 for a batch job`);
+      }
+      
+      let job: BatchJob | undefined = await startBatchJob(limitedPmids, operations, { maxConcurrency, cacheMode });
+      if (wait) {
+        job = (await waitForBatchJob(job.id, 5 * 60 * 1000, extra)) || job;
+      }
+      
+      if (format === "json") {
+        return jsonResult({ job: { ...job, results: undefined }, progress: batchJobProgress(job), unresolved });
+      }
+      
+      let responseText = unresolvedNote(unresolved);
+      responseText += formatBatchJobStatus(job);
+      responseText += `\n💡 **Next steps:**\n`;
+      if (!isBatchJobFinished(job)) {
+        responseText += `• get_batch_status: {jobId: "${job.id}", waitSeconds: 30} to follow progress\n`;
+      }
+      responseText += `• get_batch_results: {jobId: "${job.id}", operation: "${job.operations[0]}"} to page through outputs\n`;
+      if (!isBatchJobFinished(job)) {
+        responseText += `• cancel_batch_job: {jobId: "${job.id}"} to stop the job\n`;
+      }
+      
       return {
         content: [{
           type: "text",
@@ -867,7 +2579,255 @@ server.registerTool(
       return {
         content: [{
           type: "text",
-          text: `Error in batch processing: ${errorMessage}`
+          text: `Error starting batch job: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Batch job status
+server.registerTool(
+  "get_batch_status",
+  {
+    title: "Get Batch Job Status",
+    description: "Report the status and per-operation progress of a batch job, optionally waiting for it to finish while sending progress notifications. Without a job ID, lists known jobs.",
+    inputSchema: {
+      jobId: z.string().optional().describe("Job ID returned by start_batch_job (omit to list jobs)"),
+      waitSeconds: z.number().int().min(0).max(300).optional().default(0).describe("Wait up to this many seconds for the job to finish (default: 0)"),
+      format: formatSchema
+    }
+  },
+  async ({ jobId, waitSeconds = 0, format = "markdown" }, extra) => {
+    try {
+      if (!jobId) {
+        const jobs = await listBatchJobs();
+        
+        if (format === "json") {
+          return jsonResult(jobs.map(job => ({ id: job.id, status: job.status, createdAt: job.createdAt, pmids: job.pmids.length, operations: job.operations, progress: batchJobProgress(job) })));
+        }
+        
+        if (jobs.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "No batch jobs found. Start one with start_batch_job."
+            }]
+          };
+        }
+        
+        let responseText = `📦 **Batch Jobs**\n\n`;
+        responseText += `| Job ID | Status | Created | PMIDs | Operations | Done |\n`;
+        responseText += `|---|---|---|---|---|---|\n`;
+        for (const job of jobs) {
+          const progress = batchJobProgress(job);
+          responseText += `| ${job.id} | ${job.status} | ${job.createdAt} | ${job.pmids.length} | ${job.operations.join(", ")} | ${progress.completed + progress.failed + progress.cancelled}/${progress.total} |\n`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: responseText
+          }]
+        };
+      }
+      
+      let job = await getBatchJob(jobId);
+      if (job && waitSeconds > 0 && !isBatchJobFinished(job)) {
+        job = await waitForBatchJob(jobId, waitSeconds * 1000, extra);
+      }
+      
+      if (!job) {
+        return {
+          content: [{
+            type: "text",
+            text: `Batch job not found: ${jobId}`
+          }],
+          isError: true
+        };
+      }
+      
+      if (format === "json") {
+        const progressByOperation = Object.fromEntries(job.operations.map(operation => [operation, batchJobProgress(job!, operation)]));
+        return jsonResult({ job: { ...job, results: undefined }, progress: batchJobProgress(job), progressByOperation });
+      }
+      
+      let responseText = formatBatchJobStatus(job);
+      const failed = job.tasks.filter(task => task.status === "error");
+      if (failed.length > 0) {
+        responseText += `\n❌ **Failed** (${failed.length}):\n`;
+        responseText += failed.slice(0, 20).map(task => `• ${task.operation} PMID ${task.pmid}: ${task.item?.status ?? "upstream_error"} (${task.error})`).join("\n") + "\n";
+        if (failed.length > 20) {
+          responseText += `... and ${failed.length - 20} more\n`;
+        }
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error getting batch job status: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Cancel a batch job
+server.registerTool(
+  "cancel_batch_job",
+  {
+    title: "Cancel Batch Job",
+    description: "Cancel a queued or running batch job. Chunks already in flight finish; remaining work is dropped. Results collected so far stay available through get_batch_results.",
+    inputSchema: {
+      jobId: z.string().describe("Job ID returned by start_batch_job")
+    }
+  },
+  async ({ jobId }) => {
+    try {
+      const job = await cancelBatchJob(jobId);
+      
+      if (!job) {
+        return {
+          content: [{
+            type: "text",
+            text: `Batch job not found: ${jobId}`
+          }],
+          isError: true
+        };
+      }
+      
+      const message = job.status === "cancelled"
+        ? `🚫 Batch job ${job.id} cancelled.`
+        : isBatchJobFinished(job)
+          ? `Batch job ${job.id} already finished with status "${job.status}".`
+          : `🚫 Cancellation requested for batch job ${job.id}; it stops after the chunks in flight.`;
+      
+      return {
+        content: [{
+          type: "text",
+          text: `${message}\n\n${formatBatchJobStatus(job)}`
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error cancelling batch job: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+);
+
+// Tool: Page through batch job results
+server.registerTool(
+  "get_batch_results",
+  {
+    title: "Get Batch Job Results",
+    description: "Page through the outputs of one operation of a batch job. Results are available while the job is still running.",
+    inputSchema: {
+      jobId: z.string().describe("Job ID returned by start_batch_job"),
+      operation: z.enum(BATCH_OPERATIONS).describe("Operation whose results to return"),
+      offset: z.number().int().min(0).optional().default(0).describe("Number of results to skip (default: 0)"),
+      limit: z.number().int().min(1).max(100).optional().default(20).describe("Results per page (default: 20)"),
+      format: formatSchema
+    }
+  },
+  async ({ jobId, operation, offset = 0, limit = 20, format = "markdown" }) => {
+    try {
+      const page = await getBatchJobResults(jobId, operation as BatchOperationType, offset, limit);
+      
+      if (!page) {
+        return {
+          content: [{
+            type: "text",
+            text: `Batch job not found: ${jobId}`
+          }],
+          isError: true
+        };
+      }
+      
+      if (format === "json") {
+        return jsonResult(page);
+      }
+      
+      let responseText = `📦 **Batch Job ${page.jobId}: ${operation} results**\n\n`;
+      responseText += `Job status: ${page.status}\n`;
+      responseText += page.total > 0
+        ? `Showing ${page.offset + 1}-${page.offset + page.items.length} of ${page.total}\n\n`
+        : `No results yet\n\n`;
+      
+      const formatItem = (item: unknown, index: number): string => {
+        const number = page.offset + index + 1;
+        switch (operation) {
+          case "abstract": {
+            const abstract = item as FullAbstractResult;
+            let text = `**${number}. ${abstract.title}**\n`;
+            text += `PMID: ${abstract.pmid} | ${abstract.journal}, ${abstract.publicationDate}\n`;
+            if (abstract.fullAbstract) {
+              text += `\n${abstract.fullAbstract.length > 500 ? `${abstract.fullAbstract.substring(0, 500)}... (Use get_full_abstract for complete abstract)` : abstract.fullAbstract}\n`;
+            }
+            return text;
+          }
+          case "citations": {
+            const citation = item as CitationCountResult;
+            return `${number}. PMID ${citation.pmid}: ${citation.title} — ${citation.citationCount} citations\n`;
+          }
+          case "similar": {
+            const { pmid, articles } = item as { pmid: string; articles: SimilarArticleResult[] };
+            let text = `**${number}. PMID ${pmid}**: ${articles.length} similar articles\n`;
+            text += articles.map(article => `   • ${article.pmid}: ${article.title}`).join("\n") + "\n";
+            return text;
+          }
+          case "ris_export":
+            return `${item as string}\n`;
+          default: {
+            const article = item as FullTextResult;
+            return `${number}. **${article.title}** (PMID ${article.pmid}, ${article.pmcId}): ${article.body.length} sections, ${article.fullText.length.toLocaleString()} characters\n`;
+          }
+        }
+      };
+      
+      const separator = operation === "abstract" ? `\n${"=".repeat(80)}\n\n` : operation === "ris_export" ? "\n" : "";
+      const formattedItems = page.items.map(formatItem).join(separator);
+      responseText += operation === "ris_export" && page.items.length > 0 ? `\`\`\`\n${formattedItems}\`\`\`\n` : formattedItems;
+      
+      if (operation === "full_text" && page.items.length > 0) {
+        responseText += `\n💡 Use get_full_text with the PMC IDs to read sections of these articles.\n`;
+      }
+      
+      if (page.failed.length > 0) {
+        responseText += `\n${itemFailuresNote(page.failed)}`;
+      }
+      
+      if (page.offset + page.items.length < page.total) {
+        responseText += `\n➡️ Next page: get_batch_results: {jobId: "${page.jobId}", operation: "${operation}", offset: ${page.offset + page.limit}}\n`;
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: responseText
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error getting batch job results: ${errorMessage}`
         }],
         isError: true
       };
@@ -881,19 +2841,25 @@ server.registerResource(
   new ResourceTemplate("pubmed://search/{query}", { list: undefined }),
   {
     title: "PubMed Search Results",
-    description: "Search results from PubMed database in JSON format",
+    description: "Search results from PubMed database in JSON format, as { sort, sortLabel, articles }. Append ?sort=relevance|pub_date|first_author|journal|title to choose the ordering.",
     mimeType: "application/json"
   },
   async (uri, params) => {
     const { query } = params as { query: string };
     try {
-      const decodedQuery = decodeURIComponent(query);
-      const articles = await searchAndFetchArticles(decodedQuery, 10);
+      // The template variable also captures any ?sort=... suffix
+      const decodedQuery = decodeURIComponent(query.split("?")[0]);
+      const sortParam = uri.searchParams.get("sort") || "relevance";
+      if (!Object.hasOwn(SEARCH_SORT_LABELS, sortParam)) {
+        throw new Error(`Invalid sort "${sortParam}". Use one of: ${Object.keys(SEARCH_SORT_LABELS).join(", ")}`);
+      }
+      const sort = sortParam as SearchSort;
+      const articles = await searchAndFetchArticles(decodedQuery, 10, { sort });
       
       return {
         contents: [{
           uri: uri.href,
-          text: JSON.stringify(articles, null, 2),
+          text: JSON.stringify({ sort, sortLabel: SEARCH_SORT_LABELS[sort], articles }, null, 2),
           mimeType: "application/json"
         }]
       };
@@ -949,13 +2915,33 @@ async function main() {
     console.error("PubMed MCP Server v1.0.2 is running...");
     console.error("Available tools:");
     console.error("- search_pubmed: Search PubMed and get article summaries");
+    console.error("- fetch_search_page: Page through large result sets via the history server");
+    console.error("- search_history: List, combine and export the session search history (PRISMA-S)");
     console.error("- get_full_abstract: Get complete abstracts by PMID");
     console.error("- get_full_text: Get full text from PMC by PMC ID");
+    console.error("- get_full_text_outline: List full-text sections with sizes");
     console.error("- export_ris: Export citations in RIS format for reference managers");
+    console.error("- export_citations: Export citations as RIS, BibTeX, CSL-JSON, MEDLINE, EndNote XML or CSV");
+    console.error("- format_bibliography: Format reference lists in Vancouver, AMA, APA, Harvard, NLM or custom styles");
     console.error("- get_citation_counts: Get citation counts for specific PMIDs");
+    console.error("- build_citation_network: Multi-hop citation graphs with co-citation and coupling scores");
+    console.error("- check_retractions: Flag retracted, corrected or concern-flagged articles in a PMID list or RIS file");
+    console.error("- match_citations: Resolve free-text references to PMIDs with confidence scores");
     console.error("- optimize_search_query: Transform natural language to optimized PubMed queries");
+    console.error("- validate_query: Check PubMed query syntax and normalize it");
+    console.error("- analyze_search_strategy: Hit counts per concept block with cumulative combinations");
+    console.error("- lookup_mesh: Resolve free text to MeSH descriptors");
+    console.error("- browse_mesh_tree: Browse broader/narrower MeSH terms and build [Mesh] query variants");
     console.error("- find_similar_articles: Find similar articles using NCBI's similarity algorithm");
+    console.error("- find_similar_to_set: Articles similar to a set of seeds with score fusion");
+    console.error("- convert_ids: Convert between PMIDs, PMCIDs, DOIs and manuscript IDs");
     console.error("- batch_process: Process multiple PMIDs with multiple operations efficiently (NEW)");
+    console.error("- start_batch_job / get_batch_status / cancel_batch_job / get_batch_results: Background batch jobs with progress and resume");
+    
+    const resumed = await resumeBatchJobs();
+    if (resumed.length > 0) {
+      console.error(`Resumed ${resumed.length} unfinished batch job(s): ${resumed.map(job => job.id).join(", ")}`);
+    }
   } catch (error) {
     console.error("Failed to start server:", error);
     process.exit(1);
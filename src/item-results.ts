@@ -0,0 +1,85 @@
+import { OfflineCacheMissError } from './cache.js';
+
+// Per-identifier result envelope shared by functions and tools that take lists
+// of identifiers. Every requested identifier gets one item, so callers can tell
+// what succeeded and retry exactly the items that failed.
+
+export type ItemStatus = 'ok' | 'not_found' | 'no_full_text' | 'rate_limited' | 'upstream_error';
+
+export interface ItemResult<T = undefined> {
+  id: string; // Identifier as requested (PMID, PMCID or the unresolved input)
+  status: ItemStatus;
+  message?: string;
+  retryable: boolean; // Whether the same request may succeed later
+  retryAfterSeconds?: number; // Suggested wait before retrying
+  data?: T; // Present when status is 'ok'
+}
+
+export type ItemStatusCounts = Record<ItemStatus, number>;
+
+export const ITEM_STATUSES: ItemStatus[] = ['ok', 'not_found', 'no_full_text', 'rate_limited', 'upstream_error'];
+
+// NCBI does not pass Retry-After through once the client's own retries are spent
+const RATE_LIMIT_RETRY_SECONDS = 60;
+
+export function okItem<T>(id: string, data: T): ItemResult<T> {
+  return { id, status: 'ok', retryable: false, data };
+}
+
+// A failed item with the retry hint that goes with its status
+export function failedItem<T = undefined>(id: string, status: Exclude<ItemStatus, 'ok'>, message: string): ItemResult<T> {
+  switch (status) {
+    case 'rate_limited':
+      return { id, status, message, retryable: true, retryAfterSeconds: RATE_LIMIT_RETRY_SECONDS };
+    case 'upstream_error':
+      return { id, status, message, retryable: true };
+    default:
+      return { id, status, message, retryable: false };
+  }
+}
+
+// HTTP status embedded in error messages, e.g. "HTTP error! status: 429" or "elink returned 503"
+function httpStatus(message: string): number | undefined {
+  const match = message.match(/(?:status:?|returned)\s+(\d{3})\b/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Map a thrown error to an item status and retry hint
+export function errorItem<T = undefined>(id: string, error: unknown): ItemResult<T> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  // Retrying offline only helps once the record is cached
+  if (error instanceof OfflineCacheMissError || /^(?:.*: )?Offline mode: /.test(message)) {
+    return { id, status: 'upstream_error', message, retryable: false };
+  }
+
+  const status = httpStatus(message);
+  if (status === 429 || /too many requests|rate limit/i.test(message)) {
+    return failedItem(id, 'rate_limited', message);
+  }
+  if (status === 404) {
+    return failedItem(id, 'not_found', message);
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    // Other client errors fail the same way on every retry
+    return { id, status: 'upstream_error', message, retryable: false };
+  }
+  return failedItem(id, 'upstream_error', message);
+}
+
+export function summarizeItems(items: ItemResult<unknown>[]): ItemStatusCounts {
+  const counts = Object.fromEntries(ITEM_STATUSES.map(status => [status, 0])) as ItemStatusCounts;
+  items.forEach(item => { counts[item.status]++; });
+  return counts;
+}
+
+// Identifiers worth requesting again
+export function retryableIds(items: ItemResult<unknown>[]): string[] {
+  return items.filter(item => item.retryable).map(item => item.id);
+}
+
+// The envelope without its payload, for listing alongside the results
+export function withoutData(item: ItemResult<unknown>): ItemResult {
+  const { data, ...envelope } = item;
+  return envelope;
+}
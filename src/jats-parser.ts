@@ -0,0 +1,804 @@
+import { parseString } from 'xml2js';
+
+// Structured parser for PMC full-text XML (efetch db=pmc, JATS/NLM article schema).
+// Keeps the section hierarchy, inline citation anchors, figures, tables (as cell
+// grids), footnotes, supplementary material and the reference list.
+
+export interface FullTextResult {
+  pmid: string;
+  pmcId: string;
+  doi?: string;
+  title: string;
+  journal?: string;
+  articleType?: string; // article-type attribute, e.g. research-article, review-article
+  abstract?: FullTextSection;
+  body: FullTextSection[]; // Top-level body sections, followed by back-matter sections (ack, appendices, notes)
+  figures: FullTextFigure[];
+  tables: FullTextTable[];
+  footnotes: FullTextFootnote[];
+  supplementaryMaterials: SupplementaryMaterial[];
+  references: FullTextReference[];
+  // Flattened view: one entry per section with paragraphs, titled with its full path
+  // (e.g. "Methods > Statistical analysis")
+  fullText: string;
+  sections: {
+    title: string;
+    content: string;
+  }[];
+}
+
+// Normalized IMRaD section types
+export type ImradType = 'introduction' | 'methods' | 'results' | 'discussion' | 'conclusions';
+
+export interface FullTextSection {
+  id: string; // sec id from the XML, or a generated one (e.g. "sec-2.1")
+  label?: string;
+  title: string;
+  level: number; // 1 for top-level sections
+  secType?: string; // sec-type attribute, e.g. "methods"; "acknowledgments"/"appendix" for back matter
+  imradTypes: ImradType[]; // From sec-type or the title; subsections inherit their parent's types
+  paragraphs: FullTextParagraph[];
+  subsections: FullTextSection[];
+}
+
+export interface FullTextParagraph {
+  text: string;
+  anchors: CitationAnchor[];
+}
+
+// An inline <xref> in a paragraph, e.g. a bibliography citation or a figure callout
+export interface CitationAnchor {
+  refType: string; // bibr, fig, table, fn, supplementary-material, ...
+  rids: string[]; // Referenced element ids (FullTextReference.id, FullTextFigure.id, ...)
+  text: string; // Anchor text as printed, e.g. "12" or "Fig. 2"
+  offset: number; // Position of the anchor text in the paragraph text
+}
+
+export interface FullTextFigure {
+  id?: string;
+  label?: string;
+  caption: string;
+  graphicHref?: string; // xlink:href of the figure graphic, as given in the XML
+  sectionId?: string; // Section the figure appears in (or is first cited from)
+}
+
+export interface FullTextTable {
+  id?: string;
+  label?: string;
+  caption: string;
+  rows: string[][]; // Cell grid; spanned cells repeat their text in every covered position
+  headerRows: number; // Leading rows that come from <thead>
+  footnotes: string[];
+  sectionId?: string;
+}
+
+export interface FullTextFootnote {
+  id?: string;
+  label?: string;
+  text: string;
+}
+
+export interface SupplementaryMaterial {
+  id?: string;
+  label?: string;
+  caption: string;
+  href?: string;
+  url?: string; // Absolute link to the file in PMC
+  mimeType?: string;
+}
+
+export interface FullTextReference {
+  id: string;
+  label?: string;
+  citation: string; // Formatted citation text
+  authors: string[];
+  title?: string;
+  source?: string; // Journal or book title
+  year?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  pmid?: string;
+  doi?: string;
+  pmcId?: string;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+interface TextBuilder {
+  text: string;
+  anchors: CitationAnchor[];
+}
+
+// Per-article state shared by the section walkers
+interface ParseContext {
+  pmcId: string;
+  figures: FullTextFigure[];
+  tables: FullTextTable[];
+  footnotes: FullTextFootnote[];
+  supplementaryMaterials: SupplementaryMaterial[];
+  references: FullTextReference[];
+}
+
+const PMC_ARTICLE_URL = 'https://pmc.ncbi.nlm.nih.gov/articles';
+
+// Elements that are extracted on their own and never part of the surrounding paragraph text
+const FLOAT_ELEMENTS = ['fig', 'fig-group', 'table-wrap', 'table-wrap-group', 'supplementary-material'];
+
+// sec-type values and title patterns for each IMRaD type. Combined sections
+// ("Results and Discussion", sec-type "results|discussion") get both types.
+const IMRAD_PATTERNS: { type: ImradType; secTypes: string[]; title: RegExp }[] = [
+  { type: 'introduction', secTypes: ['intro', 'introduction', 'background'], title: /\b(introduction|background)\b/i },
+  {
+    type: 'methods',
+    secTypes: ['methods', 'materials', 'subjects', 'patients', 'participants', 'study-design'],
+    title: /\b(methods?|methodology|materials|experimental procedures|experimental section|study design|patients and|subjects and)\b/i
+  },
+  { type: 'results', secTypes: ['results', 'findings', 'cases'], title: /\b(results?|findings|case (report|presentation)s?)\b/i },
+  { type: 'discussion', secTypes: ['discussion'], title: /\bdiscussion\b/i },
+  { type: 'conclusions', secTypes: ['conclusions', 'conclusion'], title: /\b(conclusions?|concluding remarks)\b/i }
+];
+
+// Reference authors listed before "et al." in composed citations
+const MAX_CITATION_AUTHORS = 6;
+
+// Ordered parse: children keep document order, which JATS mixed content needs
+function parseXML(xml: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const options = {
+      explicitChildren: true,
+      preserveChildrenOrder: true,
+      charsAsChildren: true,
+      includeWhiteChars: true
+    };
+    parseString(xml, options, (err, result) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(result);
+      }
+    });
+  });
+}
+
+function toElement(node: any): XmlElement {
+  return {
+    name: node['#name'],
+    attributes: node.$ || {},
+    children: (node.$$ || []).map((child: any) =>
+      child['#name'] === '__text__' ? String(child._ ?? '') : toElement(child)
+    )
+  };
+}
+
+function elements(node: XmlElement | undefined, ...names: string[]): XmlElement[] {
+  if (!node) return [];
+  return node.children.filter((child): child is XmlElement =>
+    typeof child !== 'string' && (names.length === 0 || names.includes(child.name))
+  );
+}
+
+function element(node: XmlElement | undefined, name: string): XmlElement | undefined {
+  return elements(node, name)[0];
+}
+
+// Depth-first search for descendants, not descending into matches
+function descendants(node: XmlElement | undefined, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of elements(node)) {
+    if (child.name === name) {
+      found.push(child);
+    } else {
+      found.push(...descendants(child, name));
+    }
+  }
+  return found;
+}
+
+function appendText(builder: TextBuilder, value: string): void {
+  let piece = value.replace(/\s+/g, ' ');
+  if ((builder.text === '' || builder.text.endsWith(' ')) && piece.startsWith(' ')) {
+    piece = piece.slice(1);
+  }
+  builder.text += piece;
+}
+
+// Formulas: MathML text content, falling back to the TeX source
+function formulaText(node: XmlElement): string {
+  const math = descendants(node, 'mml:math')[0] || descendants(node, 'math')[0];
+  if (math) return plainText(math);
+  const tex = descendants(node, 'tex-math')[0];
+  if (tex) {
+    const source = plainText(tex);
+    const body = source.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
+    return (body ? body[1] : source).replace(/^\$+|\$+$/g, '').trim();
+  }
+  return plainText(node);
+}
+
+// Render inline content into the builder, recording <xref> anchors. Superscripts and
+// subscripts follow the MEDLINE convention used for abstracts, e.g. CD4(+).
+function appendInline(builder: TextBuilder, node: XmlNode): void {
+  if (typeof node === 'string') {
+    appendText(builder, node);
+    return;
+  }
+  if (FLOAT_ELEMENTS.includes(node.name) || node.name === 'fn') return;
+
+  switch (node.name) {
+    case 'xref': {
+      const start = builder.text.length;
+      node.children.forEach(child => appendInline(builder, child));
+      const raw = builder.text.slice(start);
+      const text = raw.trim();
+      const rids = (node.attributes.rid || '').split(/\s+/).filter(Boolean);
+      if (rids.length > 0) {
+        builder.anchors.push({
+          refType: node.attributes['ref-type'] || 'other',
+          rids,
+          text,
+          offset: start + raw.length - raw.trimStart().length
+        });
+      }
+      return;
+    }
+    case 'sup':
+    case 'sub': {
+      const inner = plainText(node);
+      if (!inner) return;
+      if (/^[®™©]$/.test(inner)) {
+        appendText(builder, inner);
+        return;
+      }
+      appendText(builder, '(');
+      node.children.forEach(child => appendInline(builder, child));
+      builder.text = builder.text.replace(/ $/, '');
+      appendText(builder, ')');
+      return;
+    }
+    case 'inline-formula':
+    case 'disp-formula':
+      appendText(builder, formulaText(node));
+      return;
+    case 'break':
+      appendText(builder, ' ');
+      return;
+    case 'list-item':
+    case 'p':
+    case 'title':
+      node.children.forEach(child => appendInline(builder, child));
+      appendText(builder, ' ');
+      return;
+    default:
+      node.children.forEach(child => appendInline(builder, child));
+  }
+}
+
+function inlineContent(node: XmlElement | undefined): FullTextParagraph {
+  const builder: TextBuilder = { text: '', anchors: [] };
+  if (node) {
+    node.children.forEach(child => appendInline(builder, child));
+  }
+  return { text: builder.text.trim(), anchors: builder.anchors };
+}
+
+function plainText(node: XmlElement | undefined): string {
+  return inlineContent(node).text;
+}
+
+function optionalText(node: XmlElement | undefined): string | undefined {
+  return plainText(node) || undefined;
+}
+
+// Caption title and paragraphs as a single string
+function captionText(node: XmlElement): string {
+  const caption = element(node, 'caption');
+  if (!caption) return '';
+  return elements(caption, 'title', 'p')
+    .map(part => plainText(part))
+    .filter(Boolean)
+    .map(text => /[.!?:]$/.test(text) ? text : `${text}.`)
+    .join(' ');
+}
+
+function supplementaryUrl(href: string | undefined, pmcId: string): string | undefined {
+  if (!href) return undefined;
+  if (/^(https?|ftp):\/\//i.test(href)) return href;
+  return `${PMC_ARTICLE_URL}/${pmcId}/bin/${href}`;
+}
+
+function figureFromNode(node: XmlElement, sectionId?: string): FullTextFigure {
+  const graphic = descendants(node, 'graphic')[0];
+  return {
+    id: node.attributes.id,
+    label: optionalText(element(node, 'label')),
+    caption: captionText(node),
+    graphicHref: graphic?.attributes['xlink:href'],
+    sectionId
+  };
+}
+
+function cellSpan(value: string | undefined): number {
+  const span = parseInt(value || '1', 10);
+  return Number.isFinite(span) && span > 1 ? Math.min(span, 100) : 1;
+}
+
+// Lay out table rows on a grid, repeating spanned cells so every row has the same width
+function tableGrid(tables: XmlElement[]): { rows: string[][]; headerRows: number } {
+  const rowNodes: { row: XmlElement; header: boolean }[] = [];
+  for (const table of tables) {
+    for (const child of elements(table)) {
+      if (child.name === 'tr') {
+        rowNodes.push({ row: child, header: false });
+      } else if (['thead', 'tbody', 'tfoot'].includes(child.name)) {
+        elements(child, 'tr').forEach(row => rowNodes.push({ row, header: child.name === 'thead' }));
+      }
+    }
+  }
+
+  const rows: string[][] = [];
+  let headerRows = 0;
+  const carried: ({ text: string; rows: number } | undefined)[] = [];
+
+  rowNodes.forEach(({ row: rowNode, header }) => {
+    const row: string[] = [];
+    let column = 0;
+    const fillCarried = () => {
+      while ((carried[column]?.rows ?? 0) > 0) {
+        row[column] = carried[column]!.text;
+        carried[column]!.rows--;
+        column++;
+      }
+    };
+
+    for (const cell of elements(rowNode, 'th', 'td')) {
+      fillCarried();
+      const text = plainText(cell);
+      const rowSpan = cellSpan(cell.attributes.rowspan);
+      for (let i = 0; i < cellSpan(cell.attributes.colspan); i++) {
+        row[column] = text;
+        carried[column] = rowSpan > 1 ? { text, rows: rowSpan - 1 } : undefined;
+        column++;
+      }
+    }
+    // Cells spanning down from earlier rows past the last cell of this row
+    for (; column < carried.length; column++) {
+      fillCarried();
+      if (column < carried.length && row[column] === undefined) {
+        row[column] = '';
+      }
+    }
+
+    rows.push(Array.from(row, cell => cell ?? ''));
+    if (header && headerRows === rows.length - 1) {
+      headerRows++;
+    }
+  });
+
+  const width = Math.max(0, ...rows.map(row => row.length));
+  return {
+    rows: rows.map(row => [...row, ...Array(width - row.length).fill('')]),
+    headerRows
+  };
+}
+
+function tableFromNode(node: XmlElement, sectionId?: string): FullTextTable {
+  const { rows, headerRows } = tableGrid(descendants(node, 'table'));
+  const foot = element(node, 'table-wrap-foot');
+  const footnotes = elements(foot)
+    .flatMap(child => child.name === 'fn-group' ? elements(child, 'fn') : [child])
+    .filter(child => child.name !== 'title' && child.name !== 'label')
+    .map(child => {
+      const label = child.name === 'fn' ? plainText(element(child, 'label')) : '';
+      const text = child.name === 'fn'
+        ? elements(child, 'p').map(p => plainText(p)).join(' ')
+        : plainText(child);
+      return label && !text.startsWith(label) ? `${label} ${text}` : text;
+    })
+    .filter(Boolean);
+
+  return {
+    id: node.attributes.id,
+    label: optionalText(element(node, 'label')),
+    caption: captionText(node),
+    rows,
+    headerRows,
+    footnotes,
+    sectionId
+  };
+}
+
+function supplementFromNode(node: XmlElement, pmcId: string): SupplementaryMaterial {
+  const media = descendants(node, 'media')[0];
+  const href = node.attributes['xlink:href'] || media?.attributes['xlink:href'];
+  const mimeType = [media?.attributes.mimetype, media?.attributes['mime-subtype']].filter(Boolean).join('/');
+  return {
+    id: node.attributes.id,
+    label: optionalText(element(node, 'label')),
+    caption: captionText(node),
+    href,
+    url: supplementaryUrl(href, pmcId),
+    mimeType: mimeType || undefined
+  };
+}
+
+function footnoteFromNode(node: XmlElement): FullTextFootnote {
+  return {
+    id: node.attributes.id,
+    label: optionalText(element(node, 'label')),
+    text: elements(node, 'p').map(p => plainText(p)).filter(Boolean).join(' ') || plainText(node)
+  };
+}
+
+function personName(name: XmlElement): string {
+  const surname = plainText(element(name, 'surname'));
+  const givenNames = plainText(element(name, 'given-names'));
+  return [surname, givenNames].filter(Boolean).join(' ');
+}
+
+// Composed citation for structured (element-citation) references
+function composeCitation(reference: Omit<FullTextReference, 'citation'>): string {
+  const authors = reference.authors.length > MAX_CITATION_AUTHORS
+    ? `${reference.authors.slice(0, MAX_CITATION_AUTHORS).join(', ')}, et al`
+    : reference.authors.join(', ');
+  const issue = reference.issue ? `(${reference.issue})` : '';
+  const volume = reference.volume ? `${reference.volume}${issue}` : issue;
+  const locator = [reference.year, volume].filter(Boolean).join(';');
+  const pages = reference.pages ? `${locator}:${reference.pages}` : locator;
+  return [authors, reference.title, reference.source, pages]
+    .filter(Boolean)
+    .map(part => /[.!?]$/.test(part!) ? part : `${part}.`)
+    .join(' ');
+}
+
+function referenceFromNode(node: XmlElement, index: number): FullTextReference {
+  const citation = elements(node).find(child =>
+    ['element-citation', 'mixed-citation', 'nlm-citation', 'citation'].includes(child.name)
+  );
+
+  const ids: Record<string, string> = {};
+  for (const pubId of descendants(citation, 'pub-id')) {
+    const type = (pubId.attributes['pub-id-type'] || '').toLowerCase();
+    const value = plainText(pubId);
+    if (value && !ids[type]) {
+      ids[type] = value;
+    }
+  }
+  for (const link of descendants(citation, 'ext-link')) {
+    const type = (link.attributes['ext-link-type'] || '').toLowerCase();
+    const value = plainText(link);
+    if (type === 'pubmed' && !ids.pmid) ids.pmid = value;
+    if (type === 'doi' && !ids.doi) ids.doi = value.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+  }
+
+  const authorGroups = elements(citation, 'person-group')
+    .filter(group => !group.attributes['person-group-type'] || group.attributes['person-group-type'] === 'author');
+  const authorNodes = authorGroups.length > 0
+    ? authorGroups.flatMap(group => elements(group, 'name', 'string-name', 'collab'))
+    : elements(citation, 'name', 'string-name', 'collab');
+  const authors = authorNodes
+    .map(author => author.name === 'collab' ? plainText(author) : personName(author) || plainText(author))
+    .filter(Boolean);
+
+  const fpage = plainText(element(citation, 'fpage'));
+  const lpage = plainText(element(citation, 'lpage'));
+  const pages = fpage
+    ? (lpage && lpage !== fpage ? `${fpage}-${lpage}` : fpage)
+    : optionalText(element(citation, 'elocation-id'));
+
+  const pmcId = ids.pmcid || ids.pmc;
+  const reference = {
+    id: node.attributes.id || `ref-${index + 1}`,
+    label: optionalText(element(node, 'label')),
+    authors,
+    title: optionalText(element(citation, 'article-title')) || optionalText(element(citation, 'chapter-title')),
+    source: optionalText(element(citation, 'source')),
+    year: optionalText(element(citation, 'year')),
+    volume: optionalText(element(citation, 'volume')),
+    issue: optionalText(element(citation, 'issue')),
+    pages,
+    pmid: ids.pmid && /^\d+$/.test(ids.pmid) ? ids.pmid : undefined,
+    doi: ids.doi,
+    pmcId: pmcId ? `PMC${pmcId.replace(/^PMC/i, '')}` : undefined
+  };
+
+  // Mixed citations carry their own punctuation; structured ones are composed
+  const printed = citation && citation.name !== 'element-citation' ? plainText(citation) : '';
+  return { ...reference, citation: printed || composeCitation(reference) || plainText(node) };
+}
+
+function collectReferences(refList: XmlElement, context: ParseContext): void {
+  for (const child of elements(refList)) {
+    if (child.name === 'ref') {
+      context.references.push(referenceFromNode(child, context.references.length));
+    } else if (child.name === 'ref-list') {
+      collectReferences(child, context);
+    }
+  }
+}
+
+function listParagraphs(list: XmlElement): FullTextParagraph[] {
+  const ordered = list.attributes['list-type'] === 'order';
+  return elements(list, 'list-item').map((item, index) => {
+    const content = inlineContent(item);
+    const marker = ordered ? `${index + 1}. ` : '• ';
+    return {
+      text: `${marker}${content.text}`,
+      anchors: content.anchors.map(anchor => ({ ...anchor, offset: anchor.offset + marker.length }))
+    };
+  }).filter(paragraph => paragraph.text.trim().length > 2);
+}
+
+// Figures, tables and supplementary material, in a section or in floats-group
+function collectFloat(node: XmlElement, context: ParseContext, sectionId?: string): void {
+  switch (node.name) {
+    case 'fig':
+      context.figures.push(figureFromNode(node, sectionId));
+      return;
+    case 'table-wrap':
+      context.tables.push(tableFromNode(node, sectionId));
+      return;
+    case 'supplementary-material':
+      context.supplementaryMaterials.push(supplementFromNode(node, context.pmcId));
+      return;
+    case 'fig-group':
+    case 'table-wrap-group':
+      elements(node).forEach(child => collectFloat(child, context, sectionId));
+  }
+}
+
+// Register floats nested anywhere inside a paragraph-level element
+function collectNestedFloats(node: XmlElement, section: FullTextSection, context: ParseContext): void {
+  for (const child of elements(node)) {
+    if (FLOAT_ELEMENTS.includes(child.name)) {
+      collectFloat(child, context, section.id);
+    } else {
+      collectNestedFloats(child, section, context);
+    }
+  }
+}
+
+// Add one block-level element to a section
+function collectBlock(node: XmlElement, section: FullTextSection, context: ParseContext): void {
+  switch (node.name) {
+    case 'title':
+    case 'label':
+    case 'sec-meta':
+      return;
+    case 'p': {
+      const paragraph = inlineContent(node);
+      if (paragraph.text) {
+        section.paragraphs.push(paragraph);
+      }
+      collectNestedFloats(node, section, context);
+      return;
+    }
+    case 'list':
+      section.paragraphs.push(...listParagraphs(node));
+      collectNestedFloats(node, section, context);
+      return;
+    case 'disp-formula': {
+      const text = formulaText(node);
+      if (text) {
+        section.paragraphs.push({ text, anchors: [] });
+      }
+      return;
+    }
+    case 'sec':
+    case 'app':
+    case 'notes':
+    case 'ack':
+    case 'glossary': {
+      const position = section.subsections.length + 1;
+      const generatedId = section.level === 0 ? `${section.id}-${position}` : `${section.id}.${position}`;
+      section.subsections.push(sectionFromNode(node, section.level + 1, generatedId, context, section.imradTypes));
+      return;
+    }
+    case 'fig':
+    case 'fig-group':
+    case 'table-wrap':
+    case 'table-wrap-group':
+    case 'supplementary-material':
+      collectFloat(node, context, section.id);
+      return;
+    case 'fn-group':
+      elements(node, 'fn').forEach(fn => context.footnotes.push(footnoteFromNode(fn)));
+      return;
+    case 'fn':
+      context.footnotes.push(footnoteFromNode(node));
+      return;
+    case 'ref-list':
+      collectReferences(node, context);
+      return;
+    case 'disp-quote':
+    case 'boxed-text':
+    case 'app-group':
+    case 'alternatives':
+      elements(node).forEach(child => collectBlock(child, section, context));
+      return;
+    default: {
+      const paragraph = inlineContent(node);
+      if (paragraph.text) {
+        section.paragraphs.push(paragraph);
+      }
+    }
+  }
+}
+
+const BACK_SECTION_TYPES: Record<string, string> = {
+  ack: 'acknowledgments',
+  app: 'appendix',
+  glossary: 'glossary'
+};
+
+const DEFAULT_SECTION_TITLES: Record<string, string> = {
+  ack: 'Acknowledgments',
+  glossary: 'Glossary'
+};
+
+function imradTypesOf(secType: string | undefined, title: string): ImradType[] {
+  const secTypes = (secType || '').toLowerCase().split(/[|\s]+/).filter(Boolean);
+  return IMRAD_PATTERNS
+    .filter(pattern => pattern.secTypes.some(type => secTypes.includes(type)) || pattern.title.test(title))
+    .map(pattern => pattern.type);
+}
+
+function sectionFromNode(
+  node: XmlElement,
+  level: number,
+  generatedId: string,
+  context: ParseContext,
+  parentTypes: ImradType[] = []
+): FullTextSection {
+  const title = plainText(element(node, 'title')) || DEFAULT_SECTION_TITLES[node.name] || '';
+  const secType = node.attributes['sec-type'] || node.attributes['notes-type'] || BACK_SECTION_TYPES[node.name];
+  const imradTypes = imradTypesOf(secType, title);
+  const section: FullTextSection = {
+    id: node.attributes.id || generatedId,
+    label: optionalText(element(node, 'label')),
+    title,
+    level,
+    secType,
+    imradTypes: imradTypes.length > 0 ? imradTypes : parentTypes,
+    paragraphs: [],
+    subsections: []
+  };
+  elements(node).forEach(child => collectBlock(child, section, context));
+  return section;
+}
+
+// Top-level sections of <body> or <back>; loose paragraphs before the first
+// section are gathered into an untitled section
+function topLevelSections(node: XmlElement | undefined, prefix: string, context: ParseContext): FullTextSection[] {
+  const container: FullTextSection = { id: prefix, title: '', level: 0, imradTypes: [], paragraphs: [], subsections: [] };
+  elements(node).forEach(child => collectBlock(child, container, context));
+
+  const sections = container.subsections;
+  if (container.paragraphs.length > 0) {
+    sections.unshift({ id: `${prefix}-intro`, title: '', level: 1, imradTypes: [], paragraphs: container.paragraphs, subsections: [] });
+  }
+  // Floats placed between sections are attributed by citation (see assignFloatSections)
+  [...context.figures, ...context.tables].forEach(float => {
+    if (float.sectionId === prefix) float.sectionId = undefined;
+  });
+  return sections;
+}
+
+function abstractFromNode(node: XmlElement | undefined, context: ParseContext): FullTextSection | undefined {
+  if (!node) return undefined;
+  const abstract = sectionFromNode(node, 1, 'abstract', context);
+  abstract.title = abstract.title || 'Abstract';
+  const hasText = (section: FullTextSection): boolean =>
+    section.paragraphs.length > 0 || section.subsections.some(hasText);
+  return hasText(abstract) ? abstract : undefined;
+}
+
+// Flattened sections: every section with paragraphs, titled with its ancestors' titles
+export function flattenSections(sections: FullTextSection[], parents: string[] = []): { title: string; content: string }[] {
+  return sections.flatMap(section => {
+    const path = section.title ? [...parents, section.title] : parents;
+    const own = section.paragraphs.length > 0
+      ? [{ title: path.join(' > ') || 'Content', content: section.paragraphs.map(p => p.text).join('\n\n') }]
+      : [];
+    return [...own, ...flattenSections(section.subsections, path)];
+  });
+}
+
+// Floats outside any section (e.g. in floats-group) go to the section that first cites them
+function assignFloatSections(sections: FullTextSection[], context: ParseContext): void {
+  const firstCitation = new Map<string, string>();
+  const visit = (section: FullTextSection) => {
+    section.paragraphs.forEach(paragraph => paragraph.anchors.forEach(anchor =>
+      anchor.rids.forEach(rid => {
+        if (!firstCitation.has(rid)) firstCitation.set(rid, section.id);
+      })
+    ));
+    section.subsections.forEach(visit);
+  };
+  sections.forEach(visit);
+  [...context.figures, ...context.tables].forEach(float => {
+    if (!float.sectionId && float.id) {
+      float.sectionId = firstCitation.get(float.id);
+    }
+  });
+}
+
+// Parse a PMC efetch response (pmc-articleset with one article) into a structured full text.
+// Returns undefined when the document contains no article.
+export async function parseJatsArticle(xml: string, pmcId: string): Promise<FullTextResult | undefined> {
+  try {
+    const body = xml.replace(/<\?xml[^>]*\?>/, '').replace(/<!DOCTYPE[^>]*>/, '');
+    const parsed = await parseXML(body);
+    const rootNode = parsed && Object.values(parsed)[0];
+    if (!rootNode || typeof rootNode !== 'object') return undefined;
+
+    const root = toElement(rootNode);
+    const article = root.name === 'article' ? root : element(root, 'article');
+    if (!article) return undefined;
+
+    const context: ParseContext = {
+      pmcId,
+      figures: [],
+      tables: [],
+      footnotes: [],
+      supplementaryMaterials: [],
+      references: []
+    };
+
+    const front = element(article, 'front');
+    const articleMeta = element(front, 'article-meta');
+    const ids: Record<string, string> = {};
+    for (const articleId of elements(articleMeta, 'article-id')) {
+      const type = articleId.attributes['pub-id-type'];
+      if (type && !ids[type]) {
+        ids[type] = plainText(articleId);
+      }
+    }
+
+    const abstractNodes = elements(articleMeta, 'abstract');
+    const abstract = abstractFromNode(
+      abstractNodes.find(node => !node.attributes['abstract-type']) || abstractNodes[0],
+      context
+    );
+    const sections = [
+      ...topLevelSections(element(article, 'body'), 'sec', context),
+      ...topLevelSections(element(article, 'back'), 'back', context)
+    ];
+    elements(article, 'floats-group').forEach(group =>
+      elements(group).forEach(child => collectFloat(child, context))
+    );
+    assignFloatSections(sections, context);
+
+    const flatSections = flattenSections(sections);
+    const fallbackSections = flatSections.length > 0 || !abstract ? flatSections : flattenSections([abstract]);
+    const journalTitleGroup = element(element(front, 'journal-meta'), 'journal-title-group');
+
+    return {
+      pmid: ids.pmid || '',
+      pmcId,
+      doi: ids.doi,
+      title: plainText(element(element(articleMeta, 'title-group'), 'article-title')) || 'Unknown title',
+      journal: optionalText(element(journalTitleGroup, 'journal-title'))
+        || optionalText(element(element(front, 'journal-meta'), 'journal-title')),
+      articleType: article.attributes['article-type'],
+      abstract,
+      body: sections,
+      figures: context.figures,
+      tables: context.tables,
+      footnotes: context.footnotes,
+      supplementaryMaterials: context.supplementaryMaterials,
+      references: context.references,
+      fullText: fallbackSections.map(section => `${section.title}\n${section.content}`).join('\n\n'),
+      sections: fallbackSections
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse PMC XML: ${errorMessage}`);
+  }
+}
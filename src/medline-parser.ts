@@ -0,0 +1,544 @@
+import { parseString } from 'xml2js';
+
+// Typed parser for efetch PubmedArticleSet XML (db=pubmed, retmode=xml).
+// Handles journal citations (PubmedArticle) and NCBI Bookshelf records
+// (PubmedBookArticle), flattens inline markup in text elements and normalizes
+// publication dates to ISO 8601.
+
+export type ArticleRecordType = 'article' | 'book';
+
+export type DatePrecision = 'year' | 'month' | 'day';
+
+export interface NormalizedDate {
+  iso: string; // YYYY, YYYY-MM or YYYY-MM-DD, depending on precision
+  precision: DatePrecision;
+  raw: string; // As printed in the record, e.g. "2020 Jan-Feb" or "2019 Spring"
+}
+
+export interface PubMedArticle {
+  pmid: string;
+  recordType: ArticleRecordType;
+  title: string;
+  authors: string[];
+  journal: string; // Book title for Bookshelf records
+  publicationDate: string;
+  pubDate?: NormalizedDate;
+  electronicPubDate?: NormalizedDate;
+  abstract?: string;
+  doi?: string;
+  pmcId?: string;
+  url: string;
+  authorList: ArticleAuthor[];
+  journalAbbreviation?: string;
+  issn?: string; // Print or electronic ISSN from the article record
+  issnLinking?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  languages: string[];
+  publicationTypes: string[];
+  meshHeadings: MeshHeading[];
+  keywords: string[];
+  chemicals: ArticleChemical[];
+  grants: ArticleGrant[];
+  commentsCorrections: CommentCorrection[];
+  editorialStatus: EditorialStatus;
+  editorialNotices: EditorialNotice[];
+  book?: BookDetails;
+}
+
+export interface ArticleAuthor {
+  lastName?: string;
+  foreName?: string;
+  initials?: string;
+  suffix?: string;
+  collectiveName?: string; // Group authors
+  orcid?: string;
+  affiliations: string[];
+}
+
+export interface MeshHeading {
+  descriptor: string;
+  descriptorUi?: string;
+  majorTopic: boolean;
+  qualifiers: {
+    name: string;
+    ui?: string;
+    majorTopic: boolean;
+  }[];
+}
+
+export interface ArticleChemical {
+  name: string;
+  ui?: string;
+  registryNumber?: string;
+}
+
+export interface ArticleGrant {
+  grantId?: string;
+  acronym?: string;
+  agency?: string;
+  country?: string;
+}
+
+// Links to related records, e.g. ErratumIn, RetractionIn, CommentIn
+export interface CommentCorrection {
+  refType: string;
+  source?: string;
+  pmid?: string;
+  note?: string;
+}
+
+// Most serious editorial event recorded for an article. Notices themselves
+// (e.g. "Retraction of Publication" records) get the *_notice statuses.
+export type EditorialStatus =
+  | 'retracted'
+  | 'partially_retracted'
+  | 'expression_of_concern'
+  | 'corrected'
+  | 'retraction_notice'
+  | 'editorial_notice'
+  | 'none';
+
+export type EditorialNoticeKind = 'retraction' | 'partial_retraction' | 'expression_of_concern' | 'erratum';
+
+export interface EditorialNotice {
+  kind: EditorialNoticeKind;
+  refType: string; // CommentsCorrections RefType, e.g. RetractionIn
+  // 'in': the linked record is a notice about this article;
+  // 'of': this record is the notice and the linked record is the article it concerns
+  direction: 'in' | 'of';
+  pmid?: string;
+  source?: string;
+  url?: string;
+}
+
+export interface BookDetails {
+  title: string;
+  publisher?: string;
+  publisherLocation?: string;
+  edition?: string;
+  collectionTitle?: string;
+  isbn: string[];
+  editors: ArticleAuthor[];
+  bookAccession?: string; // NCBI Bookshelf ID, e.g. NBK1116
+  locationLabel?: string; // Chapter or section label within the book
+}
+
+// One PubmedArticle/PubmedBookArticle element, kept as XML so cached records
+// can be re-parsed when the parser changes
+export interface PubmedRecordXml {
+  pmid: string;
+  xml: string;
+}
+
+// Leaf elements whose text may contain inline markup (<i>, <b>, <sup>, <sub>, MathML)
+const MIXED_CONTENT_ELEMENTS = [
+  'ArticleTitle',
+  'VernacularTitle',
+  'BookTitle',
+  'CollectionTitle',
+  'AbstractText',
+  'CopyrightInformation',
+  'Keyword',
+  'Affiliation',
+  'CollectiveName',
+  'LocationLabel',
+  'Title'
+];
+
+const MIXED_CONTENT_PATTERN = new RegExp(
+  `<(${MIXED_CONTENT_ELEMENTS.join('|')})(\\s[^>]*)?(?<!/)>([\\s\\S]*?)</\\1>`,
+  'g'
+);
+
+const RECORD_PATTERN = /<(PubmedArticle|PubmedBookArticle)\b[^>]*>[\s\S]*?<\/\1>/g;
+
+// CommentsCorrections RefTypes that record retractions, corrections and concerns
+const EDITORIAL_REF_TYPES: Record<string, { kind: EditorialNoticeKind; direction: 'in' | 'of' }> = {
+  RetractionIn: { kind: 'retraction', direction: 'in' },
+  RetractionOf: { kind: 'retraction', direction: 'of' },
+  RetractedandRepublishedIn: { kind: 'retraction', direction: 'in' },
+  RetractedandRepublishedFrom: { kind: 'retraction', direction: 'of' },
+  PartialRetractionIn: { kind: 'partial_retraction', direction: 'in' },
+  PartialRetractionOf: { kind: 'partial_retraction', direction: 'of' },
+  ExpressionOfConcernIn: { kind: 'expression_of_concern', direction: 'in' },
+  ExpressionOfConcernFor: { kind: 'expression_of_concern', direction: 'of' },
+  ErratumIn: { kind: 'erratum', direction: 'in' },
+  ErratumFor: { kind: 'erratum', direction: 'of' },
+  CorrectedandRepublishedIn: { kind: 'erratum', direction: 'in' },
+  CorrectedandRepublishedFrom: { kind: 'erratum', direction: 'of' }
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Flatten inline markup to plain text. Superscripts and subscripts follow the
+// MEDLINE convention of parentheses, e.g. CD4<sup>+</sup> -> CD4(+);
+// trademark symbols are kept as is.
+function flattenInlineMarkup(text: string): string {
+  return text
+    .replace(/<(sup|sub)\b[^>]*>([\s\S]*?)<\/\1>/g, (_, __, inner) => /^\s*[®™©]\s*$/.test(inner) ? inner.trim() : `(${inner})`)
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ');
+}
+
+function flattenMixedContent(xml: string): string {
+  return xml.replace(MIXED_CONTENT_PATTERN, (_, name, attributes = '', inner) =>
+    `<${name}${attributes}>${flattenInlineMarkup(inner)}</${name}>`
+  );
+}
+
+function parseXML(xml: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    parseString(xml, { explicitArray: false }, (err, result) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(result);
+      }
+    });
+  });
+}
+
+// xml2js (explicitArray: false) yields a single object or an array for repeated elements
+function asArray<T = any>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text content of an element that may carry attributes ({ _: text, $: attrs })
+function textOf(node: any): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string') return node.trim();
+  return typeof node._ === 'string' ? node._.trim() : '';
+}
+
+function isMajorTopic(node: any): boolean {
+  return node?.$?.MajorTopicYN === 'Y';
+}
+
+// ORCIDs appear as bare IDs or as https://orcid.org/ URLs
+function normalizeOrcid(value: string): string | undefined {
+  const match = value.match(/(\d{4}-?\d{4}-?\d{4}-?\d{3}[\dX])/i);
+  if (!match) return undefined;
+  const digits = match[1].replace(/-/g, '').toUpperCase();
+  return digits.match(/.{4}/g)!.join('-');
+}
+
+// Month names ("Jan", "January") or numbers ("01", "1") to a two-digit month
+function monthNumber(value: string): string | undefined {
+  if (/^\d{1,2}$/.test(value)) {
+    const month = parseInt(value, 10);
+    return month >= 1 && month <= 12 ? String(month).padStart(2, '0') : undefined;
+  }
+  const index = MONTHS.indexOf(value.slice(0, 3).toLowerCase());
+  return index >= 0 ? String(index + 1).padStart(2, '0') : undefined;
+}
+
+function buildDate(year: string, month: string | undefined, day: string | undefined, raw: string): NormalizedDate {
+  const monthPart = month ? monthNumber(month) : undefined;
+  if (!monthPart) {
+    return { iso: year, precision: 'year', raw };
+  }
+  const dayNumber = day ? parseInt(day, 10) : NaN;
+  if (!(dayNumber >= 1 && dayNumber <= 31)) {
+    return { iso: `${year}-${monthPart}`, precision: 'month', raw };
+  }
+  return { iso: `${year}-${monthPart}-${String(dayNumber).padStart(2, '0')}`, precision: 'day', raw };
+}
+
+// Normalize a PubDate/ArticleDate element. Structured Year/Month/Day is preferred;
+// Season and MedlineDate ("1998 Dec-1999 Jan", "2000 Spring") keep the start of the range.
+export function normalizeDate(node: any): NormalizedDate | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+
+  const year = textOf(node.Year);
+  if (/^\d{4}$/.test(year)) {
+    const month = textOf(node.Month);
+    const day = textOf(node.Day);
+    const season = textOf(node.Season);
+    const raw = [year, month, day].filter(Boolean).join(' ') + (season ? ` ${season}` : '');
+    return buildDate(year, month || undefined, day || undefined, raw);
+  }
+
+  const medlineDate = textOf(node.MedlineDate);
+  const match = medlineDate.match(/^(\d{4})(?:\s+([A-Za-z]+)(?:\s+(\d{1,2})(?!\d))?)?/);
+  if (match) {
+    return buildDate(match[1], match[2], match[3], medlineDate);
+  }
+
+  return undefined;
+}
+
+function editorialNotices(commentsCorrections: CommentCorrection[]): EditorialNotice[] {
+  return commentsCorrections.flatMap(item => {
+    const mapping = EDITORIAL_REF_TYPES[item.refType];
+    if (!mapping) return [];
+    return [{
+      ...mapping,
+      refType: item.refType,
+      pmid: item.pmid,
+      source: item.source,
+      url: item.pmid ? `https://pubmed.ncbi.nlm.nih.gov/${item.pmid}/` : undefined
+    }];
+  });
+}
+
+// Derive the editorial status from CommentsCorrections links and publication types.
+// Publication types catch records whose notice has no PMID link yet.
+function editorialStatusOf(notices: EditorialNotice[], publicationTypes: string[]): EditorialStatus {
+  const has = (kind: EditorialNoticeKind, direction: 'in' | 'of') =>
+    notices.some(notice => notice.kind === kind && notice.direction === direction);
+
+  if (has('retraction', 'in') || publicationTypes.includes('Retracted Publication')) return 'retracted';
+  if (has('partial_retraction', 'in')) return 'partially_retracted';
+  if (has('expression_of_concern', 'in')) return 'expression_of_concern';
+  if (has('erratum', 'in')) return 'corrected';
+  if (has('retraction', 'of') || has('partial_retraction', 'of') || publicationTypes.includes('Retraction of Publication')) {
+    return 'retraction_notice';
+  }
+  if (has('erratum', 'of') || has('expression_of_concern', 'of') ||
+    publicationTypes.includes('Published Erratum') || publicationTypes.includes('Expression of Concern')) {
+    return 'editorial_notice';
+  }
+  return 'none';
+}
+
+function authorFromNode(author: any): ArticleAuthor {
+  const orcid = asArray(author.Identifier)
+    .filter((identifier: any) => identifier?.$?.Source === 'ORCID')
+    .map((identifier: any) => normalizeOrcid(textOf(identifier)))
+    .find(Boolean);
+
+  return {
+    lastName: textOf(author.LastName) || undefined,
+    foreName: textOf(author.ForeName) || undefined,
+    initials: textOf(author.Initials) || undefined,
+    suffix: textOf(author.Suffix) || undefined,
+    collectiveName: textOf(author.CollectiveName) || undefined,
+    orcid,
+    affiliations: asArray(author.AffiliationInfo).map((info: any) => textOf(info.Affiliation)).filter(Boolean)
+  };
+}
+
+export function authorDisplayName(author: ArticleAuthor): string {
+  if (author.foreName && author.lastName) {
+    return `${author.foreName} ${author.lastName}`;
+  } else if (author.collectiveName) {
+    return author.collectiveName;
+  }
+  return author.lastName || 'Unknown Author';
+}
+
+function meshHeadingFromNode(heading: any): MeshHeading {
+  return {
+    descriptor: textOf(heading.DescriptorName),
+    descriptorUi: heading.DescriptorName?.$?.UI,
+    majorTopic: isMajorTopic(heading.DescriptorName),
+    qualifiers: asArray(heading.QualifierName).map((qualifier: any) => ({
+      name: textOf(qualifier),
+      ui: qualifier?.$?.UI,
+      majorTopic: isMajorTopic(qualifier)
+    }))
+  };
+}
+
+function abstractFromNode(abstract: any): string {
+  return asArray(abstract?.AbstractText).map((text: any) => {
+    const label = text?.$?.Label;
+    return label ? `${label}: ${textOf(text)}` : textOf(text);
+  }).filter(Boolean).join('\n\n');
+}
+
+// DOI and PMC ID from one or more ArticleIdList elements
+function articleIds(...lists: any[]): { doi: string; pmcId: string; bookAccession?: string } {
+  const ids = { doi: '', pmcId: '', bookAccession: undefined as string | undefined };
+  lists.flatMap(list => asArray(list?.ArticleId)).forEach((id: any) => {
+    const idType = id?.$?.IdType;
+    if (idType === 'doi' && !ids.doi) {
+      ids.doi = textOf(id);
+    } else if (idType === 'pmc' && !ids.pmcId) {
+      ids.pmcId = textOf(id);
+    } else if (idType === 'bookaccession' && !ids.bookAccession) {
+      ids.bookAccession = textOf(id);
+    }
+  });
+  return ids;
+}
+
+function keywordsFromLists(lists: any): string[] {
+  return asArray(lists).flatMap((list: any) => asArray(list.Keyword).map(textOf)).filter(Boolean);
+}
+
+function grantsFromList(grantList: any): ArticleGrant[] {
+  return asArray(grantList?.Grant).map((grant: any) => ({
+    grantId: textOf(grant.GrantID) || undefined,
+    acronym: textOf(grant.Acronym) || undefined,
+    agency: textOf(grant.Agency) || undefined,
+    country: textOf(grant.Country) || undefined
+  }));
+}
+
+// Map a parsed PubmedArticle element to an article record
+function journalArticleFromNode(article: any): PubMedArticle {
+  const medlineCitation = article.MedlineCitation;
+  const pmid = textOf(medlineCitation.PMID);
+  const articleData = medlineCitation.Article || {};
+  const journalData = articleData.Journal || {};
+  const journalIssue = journalData.JournalIssue || {};
+
+  const authorList = asArray(articleData.AuthorList?.Author).map(authorFromNode);
+  const pubDate = normalizeDate(journalIssue.PubDate);
+  const electronicDate = asArray(articleData.ArticleDate).find((date: any) => date?.$?.DateType === 'Electronic');
+  const { doi, pmcId } = articleIds(article.PubmedData?.ArticleIdList);
+
+  // Pages: MedlinePgn, falling back to start/end page
+  const pagination = articleData.Pagination || {};
+  const pages = textOf(pagination.MedlinePgn) ||
+    [textOf(pagination.StartPage), textOf(pagination.EndPage)].filter(Boolean).join('-');
+
+  const publicationTypes = asArray(articleData.PublicationTypeList?.PublicationType).map(textOf).filter(Boolean);
+  const commentsCorrections: CommentCorrection[] = asArray(medlineCitation.CommentsCorrectionsList?.CommentsCorrections)
+    .map((item: any) => ({
+      refType: item?.$?.RefType || 'Unknown',
+      source: textOf(item.RefSource) || undefined,
+      pmid: textOf(item.PMID) || undefined,
+      note: textOf(item.Note) || undefined
+    }));
+  const notices = editorialNotices(commentsCorrections);
+
+  return {
+    pmid,
+    recordType: 'article',
+    title: textOf(articleData.ArticleTitle) || textOf(articleData.VernacularTitle) || 'No title available',
+    authors: authorList.map(authorDisplayName),
+    journal: textOf(journalData.Title) || 'Unknown journal',
+    publicationDate: pubDate?.raw || 'Unknown date',
+    pubDate,
+    electronicPubDate: normalizeDate(electronicDate),
+    abstract: abstractFromNode(articleData.Abstract),
+    doi,
+    pmcId,
+    url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+    authorList,
+    journalAbbreviation: textOf(journalData.ISOAbbreviation) || textOf(medlineCitation.MedlineJournalInfo?.MedlineTA) || undefined,
+    issn: textOf(journalData.ISSN) || undefined,
+    issnLinking: textOf(medlineCitation.MedlineJournalInfo?.ISSNLinking) || undefined,
+    volume: textOf(journalIssue.Volume) || undefined,
+    issue: textOf(journalIssue.Issue) || undefined,
+    pages: pages || undefined,
+    languages: asArray(articleData.Language).map(textOf).filter(Boolean),
+    publicationTypes,
+    meshHeadings: asArray(medlineCitation.MeshHeadingList?.MeshHeading).map(meshHeadingFromNode),
+    keywords: keywordsFromLists(medlineCitation.KeywordList),
+    chemicals: asArray(medlineCitation.ChemicalList?.Chemical).map((chemical: any) => ({
+      name: textOf(chemical.NameOfSubstance),
+      ui: chemical.NameOfSubstance?.$?.UI,
+      registryNumber: textOf(chemical.RegistryNumber) || undefined
+    })),
+    grants: grantsFromList(articleData.GrantList),
+    commentsCorrections,
+    editorialStatus: editorialStatusOf(notices, publicationTypes),
+    editorialNotices: notices
+  };
+}
+
+// AuthorList elements are typed "authors" (the default) or "editors"
+function authorsOfType(lists: any, type: 'authors' | 'editors'): ArticleAuthor[] {
+  return asArray(lists)
+    .filter((list: any) => (list?.$?.Type || 'authors') === type)
+    .flatMap((list: any) => asArray(list.Author).map(authorFromNode));
+}
+
+// Map a parsed PubmedBookArticle element (NCBI Bookshelf chapter or book) to an article record
+function bookArticleFromNode(article: any): PubMedArticle {
+  const bookDocument = article.BookDocument;
+  const pmid = textOf(bookDocument.PMID);
+  const book = bookDocument.Book || {};
+  const bookTitle = textOf(book.BookTitle) || 'Unknown book';
+
+  let authorList = authorsOfType(bookDocument.AuthorList, 'authors');
+  if (authorList.length === 0) {
+    authorList = authorsOfType(book.AuthorList, 'authors');
+  }
+  const editors = [
+    ...authorsOfType(bookDocument.AuthorList, 'editors'),
+    ...authorsOfType(book.AuthorList, 'editors')
+  ];
+
+  const pubDate = normalizeDate(book.PubDate);
+  const publicationTypes = asArray(bookDocument.PublicationType).map(textOf).filter(Boolean);
+  const { doi, pmcId, bookAccession } = articleIds(bookDocument.ArticleIdList, article.PubmedBookData?.ArticleIdList);
+
+  return {
+    pmid,
+    recordType: 'book',
+    title: textOf(bookDocument.ArticleTitle) || bookTitle,
+    authors: authorList.map(authorDisplayName),
+    journal: bookTitle,
+    publicationDate: pubDate?.raw || 'Unknown date',
+    pubDate,
+    abstract: abstractFromNode(bookDocument.Abstract),
+    doi,
+    pmcId,
+    url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+    authorList,
+    volume: textOf(book.Volume) || undefined,
+    languages: asArray(bookDocument.Language).map(textOf).filter(Boolean),
+    publicationTypes,
+    meshHeadings: [],
+    keywords: keywordsFromLists(bookDocument.KeywordList),
+    chemicals: [],
+    grants: grantsFromList(bookDocument.GrantList),
+    commentsCorrections: [],
+    editorialStatus: editorialStatusOf([], publicationTypes),
+    editorialNotices: [],
+    book: {
+      title: bookTitle,
+      publisher: textOf(book.Publisher?.PublisherName) || undefined,
+      publisherLocation: textOf(book.Publisher?.PublisherLocation) || undefined,
+      edition: textOf(book.Edition) || undefined,
+      collectionTitle: textOf(book.CollectionTitle) || undefined,
+      isbn: asArray(book.Isbn).map(textOf).filter(Boolean),
+      editors,
+      bookAccession,
+      locationLabel: textOf(bookDocument.LocationLabel) || undefined
+    }
+  };
+}
+
+// Split an efetch response into per-record XML, keyed by PMID
+export function splitPubmedArticleSet(xml: string): PubmedRecordXml[] {
+  const records: PubmedRecordXml[] = [];
+  for (const match of xml.matchAll(RECORD_PATTERN)) {
+    // The record's own PMID precedes any PMIDs in CommentsCorrections
+    const pmid = match[0].match(/<PMID\b[^>]*>\s*(\d+)\s*<\/PMID>/)?.[1];
+    if (pmid) {
+      records.push({ pmid, xml: match[0] });
+    }
+  }
+  return records;
+}
+
+// Parse a PubmedArticleSet document (or a bare sequence of records) into article records,
+// in document order
+export async function parsePubmedArticleSet(xml: string): Promise<PubMedArticle[]> {
+  try {
+    const body = xml.replace(/<\?xml[^>]*\?>/, '').replace(/<!DOCTYPE[^>]*>/, '');
+    const wrapped = /<PubmedArticleSet\b/.test(body) ? body : `<PubmedArticleSet>${body}</PubmedArticleSet>`;
+    const parsed = await parseXML(flattenMixedContent(wrapped));
+    const set = parsed?.PubmedArticleSet;
+    if (!set || typeof set !== 'object') return [];
+
+    // xml2js groups elements by name, so restore document order from the raw XML
+    const journalArticles = asArray(set.PubmedArticle).map(journalArticleFromNode);
+    const bookArticles = asArray(set.PubmedBookArticle).map(bookArticleFromNode);
+    const order = splitPubmedArticleSet(wrapped).map(record => record.pmid);
+    return [...journalArticles, ...bookArticles]
+      .filter(article => article.pmid)
+      .sort((a, b) => order.indexOf(a.pmid) - order.indexOf(b.pmid));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse PubMed XML: ${errorMessage}`);
+  }
+}
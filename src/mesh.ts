@@ -0,0 +1,844 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { ESEARCH_URL, ESUMMARY_URL, eutilsFetch } from './eutils-client.js';
+import { CacheMode, withCache } from './cache.js';
+
+// MeSH vocabulary lookup: resolves free text to MeSH descriptors using the
+// NCBI MeSH database, or a locally loaded MeSH descriptor dump for offline use.
+
+export interface MeshQualifier {
+  abbreviation: string;
+  name: string;
+}
+
+export interface MeshDescriptor {
+  ui: string; // Descriptor UI, e.g. D003924
+  uid?: string; // Entrez MeSH database UID (remote lookups only)
+  name: string; // Preferred term
+  entryTerms: string[];
+  treeNumbers: string[];
+  allowableQualifiers: MeshQualifier[];
+  scopeNote?: string;
+  treeLinks?: MeshTreeLink[]; // Hierarchy links per tree number (remote lookups only)
+}
+
+// Position of a descriptor in one branch of the MeSH tree, as reported by the MeSH database
+export interface MeshTreeLink {
+  treeNumber: string;
+  parentUid?: string;
+  childUids: string[];
+}
+
+export type MeshSource = 'auto' | 'remote' | 'local';
+
+export interface MeshLookupOptions {
+  maxResults?: number;
+  source?: MeshSource;
+  cacheMode?: CacheMode;
+}
+
+export interface MeshLookupResult {
+  query: string;
+  source: 'remote' | 'local';
+  descriptors: MeshDescriptor[];
+}
+
+// MeSH topical qualifiers (subheadings) by abbreviation
+export const MESH_QUALIFIERS: Record<string, string> = {
+  AB: 'abnormalities',
+  AD: 'administration & dosage',
+  AE: 'adverse effects',
+  AG: 'agonists',
+  AA: 'analogs & derivatives',
+  AN: 'analysis',
+  AH: 'anatomy & histology',
+  AI: 'antagonists & inhibitors',
+  BI: 'biosynthesis',
+  BL: 'blood',
+  BS: 'blood supply',
+  CF: 'cerebrospinal fluid',
+  CS: 'chemical synthesis',
+  CI: 'chemically induced',
+  CH: 'chemistry',
+  CL: 'classification',
+  CO: 'complications',
+  CN: 'congenital',
+  CT: 'contraindications',
+  CY: 'cytology',
+  DF: 'deficiency',
+  DI: 'diagnosis',
+  DG: 'diagnostic imaging',
+  DU: 'diagnostic use',
+  DH: 'diet therapy',
+  DE: 'drug effects',
+  DT: 'drug therapy',
+  EC: 'economics',
+  ED: 'education',
+  EM: 'embryology',
+  EN: 'enzymology',
+  EP: 'epidemiology',
+  ES: 'ethics',
+  EH: 'ethnology',
+  ET: 'etiology',
+  GE: 'genetics',
+  GD: 'growth & development',
+  HI: 'history',
+  IM: 'immunology',
+  IN: 'injuries',
+  IR: 'innervation',
+  IS: 'instrumentation',
+  IP: 'isolation & purification',
+  LJ: 'legislation & jurisprudence',
+  MA: 'manpower',
+  ME: 'metabolism',
+  MT: 'methods',
+  MI: 'microbiology',
+  MO: 'mortality',
+  NU: 'nursing',
+  OG: 'organization & administration',
+  PS: 'parasitology',
+  PY: 'pathogenicity',
+  PA: 'pathology',
+  PK: 'pharmacokinetics',
+  PD: 'pharmacology',
+  PH: 'physiology',
+  PP: 'physiopathology',
+  PO: 'poisoning',
+  PC: 'prevention & control',
+  PX: 'psychology',
+  RE: 'radiation effects',
+  RT: 'radiotherapy',
+  RH: 'rehabilitation',
+  SC: 'secondary',
+  SE: 'secretion',
+  ST: 'standards',
+  SN: 'statistics & numerical data',
+  SD: 'supply & distribution',
+  SU: 'surgery',
+  TU: 'therapeutic use',
+  TH: 'therapy',
+  TO: 'toxicity',
+  TM: 'transmission',
+  TR: 'transplantation',
+  TD: 'trends',
+  UL: 'ultrastructure',
+  UR: 'urine',
+  US: 'utilization',
+  VE: 'veterinary',
+  VI: 'virology'
+};
+
+function qualifiersFromAbbreviations(abbreviations: string[]): MeshQualifier[] {
+  return abbreviations
+    .map(abbreviation => abbreviation.trim().toUpperCase())
+    .filter(Boolean)
+    .map(abbreviation => ({
+      abbreviation,
+      name: MESH_QUALIFIERS[abbreviation] || abbreviation
+    }));
+}
+
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Loose match used to resolve free text: ignores case and a trailing plural "s"
+function termsMatch(a: string, b: string): boolean {
+  const strip = (term: string) => normalizeTerm(term).replace(/s$/, '');
+  return strip(a) === strip(b);
+}
+
+// Local MeSH index built from a descriptor dump
+interface LocalMeshIndex {
+  file: string;
+  descriptors: Map<string, MeshDescriptor>;
+  byTerm: Map<string, string[]>; // normalized term → descriptor UIs
+  byTreeNumber: Map<string, string>; // tree number → descriptor UI
+}
+
+let localIndex: LocalMeshIndex | null = null;
+let localIndexLoading: Promise<LocalMeshIndex> | null = null;
+
+function createLocalIndex(file: string): LocalMeshIndex {
+  return { file, descriptors: new Map(), byTerm: new Map(), byTreeNumber: new Map() };
+}
+
+function addToIndex(index: LocalMeshIndex, descriptor: MeshDescriptor): void {
+  if (!descriptor.ui || !descriptor.name) return;
+  index.descriptors.set(descriptor.ui, descriptor);
+
+  for (const term of [descriptor.name, ...descriptor.entryTerms]) {
+    const key = normalizeTerm(term);
+    const uis = index.byTerm.get(key) || [];
+    if (!uis.includes(descriptor.ui)) {
+      uis.push(descriptor.ui);
+      index.byTerm.set(key, uis);
+    }
+  }
+
+  for (const treeNumber of descriptor.treeNumbers) {
+    index.byTreeNumber.set(treeNumber, descriptor.ui);
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Parse one <DescriptorRecord> element from the MeSH XML dump (descYYYY.xml)
+function parseXmlDescriptorRecord(record: string): MeshDescriptor {
+  const first = (pattern: RegExp) => {
+    const match = record.match(pattern);
+    return match ? decodeXmlEntities(match[1].trim()) : '';
+  };
+  const all = (pattern: RegExp) => [...record.matchAll(pattern)].map(match => decodeXmlEntities(match[1].trim()));
+
+  const ui = first(/<DescriptorUI>([^<]+)<\/DescriptorUI>/);
+  const name = first(/<DescriptorName>\s*<String>([^<]+)<\/String>/);
+  const treeNumbers = all(/<TreeNumber>([^<]+)<\/TreeNumber>/g);
+
+  const qualifierBlock = record.match(/<AllowableQualifiersList>([\s\S]*?)<\/AllowableQualifiersList>/)?.[1] || '';
+  const abbreviations = [...qualifierBlock.matchAll(/<Abbreviation>([^<]+)<\/Abbreviation>/g)].map(match => match[1]);
+
+  const terms = all(/<Term\b[^>]*>[\s\S]*?<String>([^<]+)<\/String>/g);
+  const entryTerms = [...new Set(terms)].filter(term => term !== name);
+
+  const preferredConcept = record.match(/<Concept\s+PreferredConceptYN="Y"[^>]*>([\s\S]*?)<\/Concept>/)?.[1] || '';
+  const scopeNote = preferredConcept.match(/<ScopeNote>([\s\S]*?)<\/ScopeNote>/)?.[1];
+
+  return {
+    ui,
+    name,
+    entryTerms,
+    treeNumbers,
+    allowableQualifiers: qualifiersFromAbbreviations(abbreviations),
+    scopeNote: scopeNote ? decodeXmlEntities(scopeNote.trim()) : undefined
+  };
+}
+
+// Parse one *NEWRECORD block from the MeSH ASCII dump (dYYYY.bin)
+function parseAsciiDescriptorRecord(lines: string[]): MeshDescriptor | null {
+  const descriptor: MeshDescriptor = {
+    ui: '',
+    name: '',
+    entryTerms: [],
+    treeNumbers: [],
+    allowableQualifiers: []
+  };
+  let recordType = '';
+
+  for (const line of lines) {
+    const separator = line.indexOf(' = ');
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim();
+    const value = line.slice(separator + 3).trim();
+
+    switch (field) {
+      case 'RECTYPE':
+        recordType = value;
+        break;
+      case 'MH':
+        descriptor.name = value;
+        break;
+      case 'UI':
+        descriptor.ui = value;
+        break;
+      case 'MN':
+        descriptor.treeNumbers.push(value);
+        break;
+      case 'ENTRY':
+      case 'PRINT ENTRY':
+        descriptor.entryTerms.push(value.split('|')[0].trim());
+        break;
+      case 'AQ':
+        descriptor.allowableQualifiers = qualifiersFromAbbreviations(value.split(/\s+/));
+        break;
+      case 'MS':
+        descriptor.scopeNote = value;
+        break;
+    }
+  }
+
+  if (recordType && recordType !== 'D') return null;
+  descriptor.entryTerms = [...new Set(descriptor.entryTerms)].filter(term => term !== descriptor.name);
+  return descriptor;
+}
+
+// Load a MeSH descriptor dump (XML descYYYY.xml or ASCII dYYYY.bin) for offline lookups.
+// The file is streamed line by line so the full XML document is never held in memory.
+export async function loadMeshDump(file: string): Promise<number> {
+  const index = createLocalIndex(file);
+  const lines = createInterface({ input: createReadStream(file, { encoding: 'utf8' }), crlfDelay: Infinity });
+
+  let format: 'xml' | 'ascii' | null = null;
+  let xmlBuffer: string[] | null = null;
+  let asciiBuffer: string[] | null = null;
+
+  for await (const line of lines) {
+    if (!format) {
+      if (line.includes('<?xml') || line.includes('<DescriptorRecordSet')) {
+        format = 'xml';
+      } else if (line.startsWith('*NEWRECORD')) {
+        format = 'ascii';
+      } else {
+        continue;
+      }
+    }
+
+    if (format === 'xml') {
+      if (line.includes('<DescriptorRecord ') || line.includes('<DescriptorRecord>')) {
+        xmlBuffer = [];
+      }
+      if (xmlBuffer) {
+        xmlBuffer.push(line);
+        if (line.includes('</DescriptorRecord>')) {
+          addToIndex(index, parseXmlDescriptorRecord(xmlBuffer.join('\n')));
+          xmlBuffer = null;
+        }
+      }
+    } else {
+      if (line.startsWith('*NEWRECORD')) {
+        if (asciiBuffer) {
+          const descriptor = parseAsciiDescriptorRecord(asciiBuffer);
+          if (descriptor) addToIndex(index, descriptor);
+        }
+        asciiBuffer = [];
+      } else if (asciiBuffer) {
+        asciiBuffer.push(line);
+      }
+    }
+  }
+
+  if (asciiBuffer) {
+    const descriptor = parseAsciiDescriptorRecord(asciiBuffer);
+    if (descriptor) addToIndex(index, descriptor);
+  }
+
+  if (index.descriptors.size === 0) {
+    throw new Error(`No MeSH descriptors found in ${file} (expected descYYYY.xml or dYYYY.bin)`);
+  }
+
+  localIndex = index;
+  console.error(`Loaded ${index.descriptors.size} MeSH descriptors from ${file}`);
+  return index.descriptors.size;
+}
+
+// Return the local index, loading MESH_DATA_FILE on first use if configured
+async function getLocalIndex(): Promise<LocalMeshIndex | null> {
+  if (localIndex) return localIndex;
+
+  const file = process.env.MESH_DATA_FILE;
+  if (!file) return null;
+
+  if (!localIndexLoading) {
+    localIndexLoading = loadMeshDump(file).then(() => localIndex!);
+    localIndexLoading.catch(() => {
+      localIndexLoading = null;
+    });
+  }
+  return localIndexLoading;
+}
+
+export function isLocalMeshLoaded(): boolean {
+  return localIndex !== null;
+}
+
+// Rank local descriptors: exact preferred term, exact entry term, then word containment
+function searchLocalIndex(index: LocalMeshIndex, query: string, maxResults: number): MeshDescriptor[] {
+  const normalized = normalizeTerm(query);
+  const scored = new Map<string, number>();
+
+  for (const ui of index.byTerm.get(normalized) || []) {
+    const descriptor = index.descriptors.get(ui)!;
+    scored.set(ui, normalizeTerm(descriptor.name) === normalized ? 100 : 90);
+  }
+
+  if (scored.size < maxResults) {
+    const words = normalized.split(' ').filter(word => word.length > 1);
+    for (const [term, uis] of index.byTerm) {
+      if (!words.every(word => term.includes(word))) continue;
+      const score = (term.startsWith(normalized) ? 50 : 10) - term.length / 100;
+      for (const ui of uis) {
+        if ((scored.get(ui) ?? -Infinity) < score) {
+          scored.set(ui, score);
+        }
+      }
+    }
+  }
+
+  return [...scored.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxResults)
+    .map(([ui]) => index.descriptors.get(ui)!);
+}
+
+// Map an esummary (JSON) record from db=mesh to a descriptor
+function descriptorFromSummary(uid: string, record: any): MeshDescriptor {
+  const terms: string[] = Array.isArray(record.ds_meshterms) ? record.ds_meshterms : [];
+  const idxLinks: any[] = Array.isArray(record.ds_idxlinks) ? record.ds_idxlinks : [];
+  const subheadings: string[] = Array.isArray(record.ds_subheading) ? record.ds_subheading : [];
+
+  return {
+    ui: record.ds_meshui || '',
+    uid,
+    name: terms[0] || '',
+    entryTerms: terms.slice(1),
+    treeNumbers: idxLinks.map(link => link.treenum).filter(Boolean),
+    allowableQualifiers: qualifiersFromAbbreviations(subheadings),
+    scopeNote: record.ds_scopenote || undefined,
+    treeLinks: idxLinks
+      .filter(link => link.treenum)
+      .map(link => ({
+        treeNumber: link.treenum,
+        parentUid: link.parent ? String(link.parent) : undefined,
+        childUids: Array.isArray(link.children) ? link.children.map(String) : []
+      }))
+  };
+}
+
+// Fetch MeSH descriptors by Entrez UID from the MeSH database
+export async function getMeshDescriptorsByUid(uids: string[], cacheMode: CacheMode = 'default'): Promise<MeshDescriptor[]> {
+  if (uids.length === 0) return [];
+
+  return withCache('mesh', `uids:${uids.join(',')}`, cacheMode, async () => {
+    const response = await eutilsFetch(ESUMMARY_URL, {
+      db: 'mesh',
+      id: uids.join(','),
+      retmode: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    const result = data.result || {};
+    const resultUids: string[] = result.uids || [];
+
+    return resultUids
+      .map(uid => descriptorFromSummary(uid, result[uid] || {}))
+      // Keep descriptors only (qualifier and supplementary records use other UI prefixes)
+      .filter(descriptor => descriptor.ui.startsWith('D'));
+  });
+}
+
+async function searchRemoteMesh(query: string, maxResults: number, cacheMode: CacheMode): Promise<MeshDescriptor[]> {
+  const uids = await withCache('mesh', `search:${normalizeTerm(query)}:${maxResults}`, cacheMode, async () => {
+    const response = await eutilsFetch(ESEARCH_URL, {
+      db: 'mesh',
+      term: query,
+      retmax: maxResults,
+      retmode: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    return (data.esearchresult?.idlist || []) as string[];
+  });
+
+  return getMeshDescriptorsByUid(uids, cacheMode);
+}
+
+// Look up MeSH descriptors for free text.
+// 'auto' uses the local dump when one is loaded or configured, otherwise the MeSH database.
+export async function lookupMesh(query: string, options: MeshLookupOptions = {}): Promise<MeshLookupResult> {
+  const maxResults = options.maxResults ?? 5;
+  const source = options.source ?? 'auto';
+  const cacheMode = options.cacheMode ?? 'default';
+
+  try {
+    if (source !== 'remote') {
+      const index = await getLocalIndex();
+      if (index) {
+        return { query, source: 'local', descriptors: searchLocalIndex(index, query, maxResults) };
+      }
+      if (source === 'local') {
+        throw new Error('No local MeSH data loaded (set MESH_DATA_FILE to a descYYYY.xml or dYYYY.bin file)');
+      }
+    }
+
+    return { query, source: 'remote', descriptors: await searchRemoteMesh(query, maxResults, cacheMode) };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`MeSH lookup failed: ${errorMessage}`);
+  }
+}
+
+// Resolve a phrase to a single descriptor whose preferred or entry term matches it exactly
+export async function resolveMeshTerm(phrase: string, options: MeshLookupOptions = {}): Promise<MeshDescriptor | undefined> {
+  const result = await lookupMesh(phrase, { maxResults: 5, ...options });
+  return result.descriptors.find(descriptor =>
+    termsMatch(descriptor.name, phrase) || descriptor.entryTerms.some(term => termsMatch(term, phrase))
+  );
+}
+
+// MeSH tree browsing: broader/narrower/sibling descriptors and query variants
+
+export interface MeshTreeNode {
+  ui: string;
+  name: string;
+  treeNumber: string;
+  count?: number; // PubMed records indexed with the descriptor (exploded)
+}
+
+export interface MeshTreeLocation {
+  treeNumber: string;
+  parent?: MeshTreeNode;
+  siblings: MeshTreeNode[];
+  children: MeshTreeNode[];
+}
+
+export interface MeshQueryOptions {
+  explode?: boolean; // default true; false adds :NoExp
+  majorTopic?: boolean; // [Majr] instead of [Mesh]
+  subheadings?: string[]; // Qualifier names or abbreviations, e.g. 'therapy', 'AE'
+}
+
+export interface MeshQueryVariant {
+  label: string;
+  query: string;
+  count?: number;
+}
+
+export interface MeshTreeOptions {
+  source?: MeshSource;
+  cacheMode?: CacheMode;
+  treeNumber?: string; // Restrict to one tree location
+  subheadings?: string[];
+  includeCounts?: boolean; // default true
+}
+
+export interface MeshTreeResult {
+  query: string;
+  source: 'remote' | 'local';
+  descriptor: MeshDescriptor;
+  count?: number;
+  locations: MeshTreeLocation[];
+  queries: MeshQueryVariant[];
+}
+
+const TREE_NUMBER_PATTERN = /^[A-Z]\d{2}(\.\d{3})*$/;
+const DESCRIPTOR_UI_PATTERN = /^D\d{6,9}$/;
+
+// Each count is one esearch request, so large branches only get counts for the first nodes
+const MAX_COUNTED_NODES = 30;
+const UID_BATCH_SIZE = 200;
+
+function parentTreeNumber(treeNumber: string): string | undefined {
+  const separator = treeNumber.lastIndexOf('.');
+  return separator > 0 ? treeNumber.slice(0, separator) : undefined;
+}
+
+// Direct children of a tree number; top-level numbers (e.g. C18) are children of their category letter
+function isDirectChild(candidate: string, parent: string): boolean {
+  if (!parent.includes('.') && parent.length === 1) {
+    return candidate.startsWith(parent) && !candidate.includes('.');
+  }
+  return candidate.startsWith(`${parent}.`) && !candidate.slice(parent.length + 1).includes('.');
+}
+
+function compareTreeNodes(a: MeshTreeNode, b: MeshTreeNode): number {
+  return a.treeNumber.localeCompare(b.treeNumber);
+}
+
+// Resolve subheadings given as names or abbreviations, checking them against
+// the descriptor's allowable qualifiers when those are known
+function resolveQualifiers(values: string[], descriptor?: MeshDescriptor): MeshQualifier[] {
+  const errors: string[] = [];
+  const qualifiers: MeshQualifier[] = [];
+
+  for (const value of values) {
+    const cleaned = value.trim().replace(/^\//, '');
+    if (!cleaned) continue;
+
+    const abbreviation = cleaned.toUpperCase();
+    const normalized = normalizeTerm(cleaned);
+    const qualifier = MESH_QUALIFIERS[abbreviation]
+      ? { abbreviation, name: MESH_QUALIFIERS[abbreviation] }
+      : Object.entries(MESH_QUALIFIERS)
+        .filter(([, name]) => name === normalized || name.replace(/ & /g, ' and ') === normalized)
+        .map(([abbr, name]) => ({ abbreviation: abbr, name }))[0];
+
+    if (!qualifier) {
+      errors.push(`Unknown MeSH subheading "${value}"`);
+      continue;
+    }
+
+    const allowable = descriptor?.allowableQualifiers || [];
+    if (allowable.length > 0 && !allowable.some(q => q.abbreviation === qualifier.abbreviation)) {
+      errors.push(`Subheading "${qualifier.name}" is not allowed for "${descriptor!.name}"`);
+      continue;
+    }
+
+    if (!qualifiers.some(q => q.abbreviation === qualifier.abbreviation)) {
+      qualifiers.push(qualifier);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return qualifiers;
+}
+
+// Build a PubMed MeSH clause, e.g. "Diabetes Mellitus/therapy"[Mesh:NoExp].
+// Several subheadings are ORed together.
+export function buildMeshQuery(descriptor: MeshDescriptor | string, options: MeshQueryOptions = {}): string {
+  const name = typeof descriptor === 'string' ? descriptor : descriptor.name;
+  const tag = `${options.majorTopic ? 'Majr' : 'Mesh'}${options.explode === false ? ':NoExp' : ''}`;
+  const qualifiers = resolveQualifiers(options.subheadings || [], typeof descriptor === 'string' ? undefined : descriptor);
+
+  if (qualifiers.length === 0) {
+    return `"${name}"[${tag}]`;
+  }
+
+  const terms = qualifiers.map(qualifier => `"${name}/${qualifier.name}"[${tag}]`);
+  return terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0];
+}
+
+// Number of PubMed records matching a query (counts only, no IDs)
+async function countPubMedRecords(query: string, cacheMode: CacheMode): Promise<number> {
+  return withCache('search', `count:${query}`, cacheMode, async () => {
+    const response = await eutilsFetch(ESEARCH_URL, {
+      db: 'pubmed',
+      term: query,
+      retmax: 0,
+      retmode: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    return parseInt(data.esearchresult?.count || '0', 10);
+  });
+}
+
+// Counts are best effort: an offline cache miss or upstream error leaves the count empty
+async function tryCount(query: string, cacheMode: CacheMode): Promise<number | undefined> {
+  try {
+    return await countPubMedRecords(query, cacheMode);
+  } catch (error) {
+    console.error(`Count failed for ${query}:`, error);
+    return undefined;
+  }
+}
+
+async function getMeshDescriptorsByUidBatched(uids: string[], cacheMode: CacheMode): Promise<Map<string, MeshDescriptor>> {
+  const unique = [...new Set(uids)];
+  const byUid = new Map<string, MeshDescriptor>();
+
+  for (let i = 0; i < unique.length; i += UID_BATCH_SIZE) {
+    const descriptors = await getMeshDescriptorsByUid(unique.slice(i, i + UID_BATCH_SIZE), cacheMode);
+    descriptors.forEach(descriptor => byUid.set(descriptor.uid!, descriptor));
+  }
+  return byUid;
+}
+
+function treeNode(descriptor: MeshDescriptor, matches: (treeNumber: string) => boolean): MeshTreeNode {
+  return {
+    ui: descriptor.ui,
+    name: descriptor.name,
+    treeNumber: descriptor.treeNumbers.find(matches) || descriptor.treeNumbers[0] || ''
+  };
+}
+
+function selectTreeNumbers(descriptor: MeshDescriptor, treeNumber?: string): string[] {
+  if (!treeNumber) return descriptor.treeNumbers;
+
+  const selected = descriptor.treeNumbers.filter(tn => tn === treeNumber);
+  if (selected.length === 0) {
+    throw new Error(`"${descriptor.name}" has no tree number ${treeNumber} (tree numbers: ${descriptor.treeNumbers.join(', ') || 'none'})`);
+  }
+  return selected;
+}
+
+function findLocalDescriptor(index: LocalMeshIndex, term: string): MeshDescriptor | undefined {
+  const upper = term.toUpperCase();
+  if (TREE_NUMBER_PATTERN.test(upper)) {
+    const ui = index.byTreeNumber.get(upper);
+    return ui ? index.descriptors.get(ui) : undefined;
+  }
+  if (DESCRIPTOR_UI_PATTERN.test(upper)) {
+    return index.descriptors.get(upper);
+  }
+  return searchLocalIndex(index, term, 1)[0];
+}
+
+function browseLocalTree(index: LocalMeshIndex, descriptor: MeshDescriptor, treeNumbers: string[]): MeshTreeLocation[] {
+  const nodesWhere = (predicate: (treeNumber: string) => boolean): MeshTreeNode[] => {
+    const nodes: MeshTreeNode[] = [];
+    for (const [treeNumber, ui] of index.byTreeNumber) {
+      const node = index.descriptors.get(ui);
+      if (node && predicate(treeNumber)) {
+        nodes.push({ ui, name: node.name, treeNumber });
+      }
+    }
+    return nodes.sort(compareTreeNodes);
+  };
+
+  return treeNumbers.map(treeNumber => {
+    const parentNumber = parentTreeNumber(treeNumber) ?? treeNumber[0];
+    const parentUi = index.byTreeNumber.get(parentNumber);
+    const parent = parentUi ? index.descriptors.get(parentUi) : undefined;
+
+    return {
+      treeNumber,
+      parent: parent ? { ui: parent.ui, name: parent.name, treeNumber: parentNumber } : undefined,
+      siblings: nodesWhere(tn => tn !== treeNumber && isDirectChild(tn, parentNumber)),
+      children: nodesWhere(tn => isDirectChild(tn, treeNumber))
+    };
+  });
+}
+
+async function findRemoteDescriptor(term: string, cacheMode: CacheMode): Promise<MeshDescriptor | undefined> {
+  const upper = term.toUpperCase();
+  if (TREE_NUMBER_PATTERN.test(upper) || DESCRIPTOR_UI_PATTERN.test(upper)) {
+    const candidates = await searchRemoteMesh(upper, 20, cacheMode);
+    return candidates.find(descriptor => descriptor.ui === upper || descriptor.treeNumbers.includes(upper));
+  }
+
+  const candidates = await searchRemoteMesh(term, 5, cacheMode);
+  return candidates.find(descriptor =>
+    termsMatch(descriptor.name, term) || descriptor.entryTerms.some(entry => termsMatch(entry, term))
+  ) || candidates[0];
+}
+
+async function browseRemoteTree(
+  descriptor: MeshDescriptor,
+  treeNumbers: string[],
+  cacheMode: CacheMode
+): Promise<MeshTreeLocation[]> {
+  const links = (descriptor.treeLinks || []).filter(link => treeNumbers.includes(link.treeNumber));
+
+  const parents = await getMeshDescriptorsByUidBatched(
+    links.map(link => link.parentUid).filter((uid): uid is string => Boolean(uid)),
+    cacheMode
+  );
+
+  // Siblings are the parent's children in the same branch
+  const siblingUids = new Map<string, string[]>();
+  for (const link of links) {
+    const parentNumber = parentTreeNumber(link.treeNumber);
+    const parent = link.parentUid ? parents.get(link.parentUid) : undefined;
+    const parentLink = parent?.treeLinks?.find(candidate => candidate.treeNumber === parentNumber);
+    siblingUids.set(link.treeNumber, (parentLink?.childUids || []).filter(uid => uid !== descriptor.uid));
+  }
+
+  const related = await getMeshDescriptorsByUidBatched(
+    [...links.flatMap(link => link.childUids), ...[...siblingUids.values()].flat()],
+    cacheMode
+  );
+
+  return links.map(link => {
+    const parentNumber = parentTreeNumber(link.treeNumber);
+    const parent = link.parentUid ? parents.get(link.parentUid) : undefined;
+    const nodesFor = (uids: string[], matches: (treeNumber: string) => boolean) => uids
+      .map(uid => related.get(uid))
+      .filter((node): node is MeshDescriptor => Boolean(node))
+      .map(node => treeNode(node, matches))
+      .sort(compareTreeNodes);
+
+    return {
+      treeNumber: link.treeNumber,
+      parent: parent && parentNumber ? treeNode(parent, tn => tn === parentNumber) : undefined,
+      siblings: parentNumber
+        ? nodesFor(siblingUids.get(link.treeNumber) || [], tn => isDirectChild(tn, parentNumber))
+        : [],
+      children: nodesFor(link.childUids, tn => isDirectChild(tn, link.treeNumber))
+    };
+  });
+}
+
+// Query variants from broadest (exploded) to most precise (no explosion, subheadings, major topic)
+function meshQueryVariants(descriptor: MeshDescriptor, subheadings: string[]): MeshQueryVariant[] {
+  const variants: MeshQueryVariant[] = [
+    { label: 'Exploded (includes all narrower terms)', query: buildMeshQuery(descriptor) },
+    { label: 'Not exploded ([Mesh:NoExp])', query: buildMeshQuery(descriptor, { explode: false }) },
+    { label: 'Major topic, exploded ([Majr])', query: buildMeshQuery(descriptor, { majorTopic: true }) }
+  ];
+
+  if (subheadings.length > 0) {
+    variants.push(
+      { label: 'Exploded with subheadings', query: buildMeshQuery(descriptor, { subheadings }) },
+      { label: 'Not exploded with subheadings', query: buildMeshQuery(descriptor, { explode: false, subheadings }) }
+    );
+  }
+  return variants;
+}
+
+// Browse the MeSH hierarchy around a descriptor given by name, UI (D003924) or tree number (C18.452.394.750)
+export async function browseMeshTree(term: string, options: MeshTreeOptions = {}): Promise<MeshTreeResult> {
+  const source = options.source ?? 'auto';
+  const cacheMode = options.cacheMode ?? 'default';
+  const includeCounts = options.includeCounts ?? true;
+  const query = term.trim();
+
+  try {
+    let descriptor: MeshDescriptor | undefined;
+    let resultSource: 'remote' | 'local' = 'remote';
+    let locations: MeshTreeLocation[] = [];
+
+    // A tree number given as the term selects that location unless one is passed explicitly
+    const requestedTreeNumber = options.treeNumber?.trim().toUpperCase()
+      || (TREE_NUMBER_PATTERN.test(query.toUpperCase()) ? query.toUpperCase() : undefined);
+
+    const index = source !== 'remote' ? await getLocalIndex() : null;
+    if (index) {
+      resultSource = 'local';
+      descriptor = findLocalDescriptor(index, query);
+      if (descriptor) {
+        locations = browseLocalTree(index, descriptor, selectTreeNumbers(descriptor, requestedTreeNumber));
+      }
+    } else if (source === 'local') {
+      throw new Error('No local MeSH data loaded (set MESH_DATA_FILE to a descYYYY.xml or dYYYY.bin file)');
+    } else {
+      descriptor = await findRemoteDescriptor(query, cacheMode);
+      if (descriptor) {
+        locations = await browseRemoteTree(descriptor, selectTreeNumbers(descriptor, requestedTreeNumber), cacheMode);
+      }
+    }
+
+    if (!descriptor) {
+      throw new Error(`No MeSH descriptor found for "${query}"`);
+    }
+
+    const queries = meshQueryVariants(descriptor, options.subheadings || []);
+    let count: number | undefined;
+
+    if (includeCounts) {
+      count = await tryCount(buildMeshQuery(descriptor), cacheMode);
+      for (const variant of queries) {
+        variant.count = variant.query === buildMeshQuery(descriptor) ? count : await tryCount(variant.query, cacheMode);
+      }
+
+      // Parents first, then children, then siblings
+      const nodes = [
+        ...locations.map(location => location.parent).filter((node): node is MeshTreeNode => Boolean(node)),
+        ...locations.flatMap(location => location.children),
+        ...locations.flatMap(location => location.siblings)
+      ];
+      const counted = new Map<string, number | undefined>();
+      for (const node of nodes) {
+        if (!counted.has(node.ui) && counted.size < MAX_COUNTED_NODES) {
+          counted.set(node.ui, await tryCount(buildMeshQuery(node.name), cacheMode));
+        }
+        node.count = counted.get(node.ui);
+      }
+    }
+
+    return { query, source: resultSource, descriptor, count, locations, queries };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`MeSH tree browsing failed: ${errorMessage}`);
+  }
+}
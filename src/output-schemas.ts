@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { ITEM_STATUSES, ItemStatus } from './item-results.js';
+
+// Output schemas (MCP structuredContent) for the tools that return structured
+// results. Records list their main fields and pass further fields through, so
+// parser additions do not break validation.
+
+const editorialStatusSchema = z.enum([
+  'retracted',
+  'partially_retracted',
+  'expression_of_concern',
+  'corrected',
+  'retraction_notice',
+  'editorial_notice',
+  'none'
+]);
+
+const editorialNoticeSchema = z.object({
+  kind: z.string(),
+  refType: z.string(),
+  direction: z.enum(['in', 'of']),
+  pmid: z.string().optional(),
+  source: z.string().optional(),
+  url: z.string().optional()
+}).passthrough();
+
+const normalizedDateSchema = z.object({
+  iso: z.string(),
+  precision: z.string(),
+  raw: z.string()
+}).passthrough();
+
+const articleAuthorSchema = z.object({
+  lastName: z.string().optional(),
+  foreName: z.string().optional(),
+  initials: z.string().optional(),
+  collectiveName: z.string().optional(),
+  orcid: z.string().optional(),
+  affiliations: z.array(z.string())
+}).passthrough();
+
+// Fields shared by article records and similar-article results
+const articleSummaryShape = {
+  pmid: z.string(),
+  title: z.string(),
+  authors: z.array(z.string()),
+  journal: z.string(),
+  publicationDate: z.string(),
+  doi: z.string().optional(),
+  pmcId: z.string().optional(),
+  editorialStatus: editorialStatusSchema,
+  editorialNotices: z.array(editorialNoticeSchema)
+};
+
+const articleRecordShape = {
+  ...articleSummaryShape,
+  recordType: z.enum(['article', 'book']),
+  url: z.string(),
+  pubDate: normalizedDateSchema.optional(),
+  electronicPubDate: normalizedDateSchema.optional(),
+  authorList: z.array(articleAuthorSchema),
+  journalAbbreviation: z.string().optional(),
+  volume: z.string().optional(),
+  issue: z.string().optional(),
+  pages: z.string().optional(),
+  languages: z.array(z.string()),
+  publicationTypes: z.array(z.string()),
+  meshHeadings: z.array(z.object({ descriptor: z.string(), majorTopic: z.boolean() }).passthrough()),
+  keywords: z.array(z.string())
+};
+
+export const articleRecordSchema = z.object({
+  ...articleRecordShape,
+  abstract: z.string().optional()
+}).passthrough();
+
+export const fullAbstractSchema = z.object({
+  ...articleRecordShape,
+  fullAbstract: z.string()
+}).passthrough();
+
+export const itemResultSchema = z.object({
+  id: z.string(),
+  status: z.enum(ITEM_STATUSES as [ItemStatus, ...ItemStatus[]]),
+  message: z.string().optional(),
+  retryable: z.boolean(),
+  retryAfterSeconds: z.number().optional()
+});
+
+// Per-identifier results (see item-results.ts)
+const itemReportShape = {
+  items: z.array(itemResultSchema),
+  summary: z.record(z.string(), z.number()).describe('Number of items per status'),
+  retryIds: z.array(z.string()).describe('Identifiers worth requesting again')
+};
+
+export const searchPubMedOutput = {
+  query: z.string(),
+  expandedQuery: z.string(),
+  searchNumber: z.number().describe('Number in the session search history'),
+  count: z.number().describe('Total hits in PubMed'),
+  sort: z.enum(['relevance', 'pub_date', 'first_author', 'journal', 'title']).optional(),
+  queryTranslation: z.string().optional(),
+  generatedQuery: z.string().optional(),
+  appliedFilters: z.array(z.string()).optional(),
+  webEnv: z.string().optional(),
+  queryKey: z.string().optional(),
+  articles: z.array(articleRecordSchema)
+};
+
+export const fullAbstractOutput = {
+  abstracts: z.array(fullAbstractSchema),
+  ...itemReportShape
+};
+
+export const fullTextOutput = {
+  articles: z.array(z.object({
+    pmid: z.string(),
+    pmcId: z.string(),
+    title: z.string(),
+    doi: z.string().optional(),
+    rendered: z.object({
+      chars: z.number(),
+      estimatedTokens: z.number(),
+      truncated: z.boolean(),
+      omittedSections: z.array(z.string()),
+      matchedSections: z.number()
+    }).optional().describe('Size of the Markdown/plain rendering (markdown, plain and both formats)'),
+    document: z.object({}).passthrough().optional()
+      .describe('Structured document with section tree, figures, tables and references (json and both formats)')
+  })),
+  ...itemReportShape
+};
+
+export const citationCountsOutput = {
+  totalCitations: z.number(),
+  citations: z.array(z.object({
+    pmid: z.string(),
+    title: z.string(),
+    citationCount: z.number(),
+    citingPmids: z.array(z.string()).describe('First 100 citing PMIDs')
+  }).passthrough()),
+  ...itemReportShape
+};
+
+export const similarArticlesOutput = {
+  pmid: z.string().describe('Reference PMID'),
+  similarArticles: z.array(z.object({
+    ...articleSummaryShape,
+    abstract: z.string().optional(),
+    similarityScore: z.number().nullable().optional()
+  }).passthrough())
+};
+
+export const queryOptimizationOutput = {
+  originalQuery: z.string(),
+  optimizedQuery: z.string(),
+  improvements: z.array(z.string()),
+  meshTermsUsed: z.array(z.string()),
+  fieldTagsUsed: z.array(z.string()),
+  resolvedDescriptors: z.array(z.object({ phrase: z.string(), ui: z.string(), name: z.string() })),
+  warnings: z.array(z.string()),
+  estimatedResults: z.number().optional()
+};
+
+export const batchProcessOutput = {
+  taskId: z.string(),
+  operations: z.array(z.object({
+    pmid: z.string(),
+    operation: z.enum(['abstract', 'citations', 'similar', 'ris_export', 'full_text']),
+    status: z.enum(['pending', 'processing', 'completed', 'error', 'cancelled']),
+    error: z.string().optional(),
+    item: itemResultSchema.optional()
+  }).passthrough()),
+  summary: z.object({
+    total: z.number(),
+    completed: z.number(),
+    failed: z.number(),
+    processing: z.number()
+  }),
+  results: z.object({
+    abstracts: z.array(fullAbstractSchema).optional(),
+    citations: z.array(z.object({ pmid: z.string(), citationCount: z.number() }).passthrough()).optional(),
+    similar: z.record(z.string(), z.array(z.object({ pmid: z.string() }).passthrough())).optional(),
+    risExports: z.string().optional(),
+    fullTexts: z.array(z.object({ pmid: z.string(), pmcId: z.string() }).passthrough()).optional()
+  }),
+  unresolved: z.array(z.string()).describe('Inputs that could not be resolved to a PMID')
+};
@@ -1,16 +1,43 @@
 import { parseString } from 'xml2js';
+import { ESEARCH_URL, EFETCH_URL, ESUMMARY_URL, ELINK_URL, LIT_CITATION_URL, eutilsFetch, ncbiFetch } from './eutils-client.js';
+import { CacheMode, OfflineCacheMissError, getCached, setCached, withCache } from './cache.js';
+import { SearchFilters, compileSearchFilters, hasSearchFilters } from './search-filters.js';
+import { resolveMeshTerm } from './mesh.js';
+import { parseQuery } from './query-parser.js';
+import { EditorialNotice, EditorialStatus, PubMedArticle, parsePubmedArticleSet, splitPubmedArticleSet } from './medline-parser.js';
+import { FullTextResult, parseJatsArticle } from './jats-parser.js';
+import { resolvePmcIds } from './id-converter.js';
+import { runWorkerPool } from './worker-pool.js';
+import { ItemResult, errorItem, failedItem, okItem, withoutData } from './item-results.js';
 
-// PubMed E-utilities API base URLs
-const ESEARCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi';
-const EFETCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi';
-const ESUMMARY_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi';
-const ELINK_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/elink.fcgi';
+export type {
+  ArticleAuthor,
+  ArticleChemical,
+  ArticleGrant,
+  ArticleRecordType,
+  BookDetails,
+  CommentCorrection,
+  EditorialNotice,
+  EditorialNoticeKind,
+  EditorialStatus,
+  MeshHeading,
+  NormalizedDate,
+  PubMedArticle
+} from './medline-parser.js';
+export type {
+  CitationAnchor,
+  FullTextFigure,
+  FullTextFootnote,
+  FullTextParagraph,
+  FullTextReference,
+  FullTextResult,
+  FullTextSection,
+  FullTextTable,
+  SupplementaryMaterial
+} from './jats-parser.js';
 
 // Note: Now using E-utilities efetch for PMC full text instead of BioC API
 
-// Literature Citation Exporter API
-const LIT_CITATION_URL = 'https://api.ncbi.nlm.nih.gov/lit/ctxp/v1';
-
 // Types for PubMed API responses
 export interface PubMedSearchResult {
   idList: string[];
@@ -18,50 +45,56 @@ export interface PubMedSearchResult {
   retMax: number;
   retStart: number;
   queryTranslation?: string;
+  errorList?: string[]; // esearch ErrorList entries, e.g. "PhraseNotFound: xyz"
+  warningList?: string[]; // esearch WarningList entries
+  webEnv?: string;
+  queryKey?: string;
+  generatedQuery?: string; // Term sent to esearch when structured filters were applied
+  standaloneQuery?: string; // generatedQuery with any date range inlined, for reuse in other searches
+  appliedFilters?: string[];
+  sort: SearchSort;
 }
 
-export interface PubMedArticle {
-  pmid: string;
-  title: string;
-  authors: string[];
-  journal: string;
-  publicationDate: string;
-  abstract?: string;
-  doi?: string;
-  pmcId?: string;
-  url: string;
+export type SearchSort = 'relevance' | 'pub_date' | 'first_author' | 'journal' | 'title';
+
+export interface SearchOptions {
+  cacheMode?: CacheMode;
+  useHistory?: boolean; // Store results on the history server (returns WebEnv/query_key)
+  filters?: SearchFilters;
+  sort?: SearchSort;
 }
 
-export interface PubMedSummary {
-  pmid: string;
-  title: string;
-  authors: string[];
-  journal: string;
-  publicationDate: string;
-  doi?: string;
-  pmcId?: string;
+export type SearchPageDetail = 'pmids' | 'summary' | 'full';
+
+export interface SearchPageOptions {
+  detail?: SearchPageDetail;
+  cacheMode?: CacheMode;
 }
 
-export interface FullAbstractResult {
+export interface SearchPageResult {
+  webEnv: string;
+  queryKey: string;
+  retStart: number;
+  retMax: number;
+  count?: number;
+  pmids: string[];
+  summaries?: PubMedSummary[];
+  articles?: PubMedArticle[];
+  nextStart?: number;
+}
+
+export interface PubMedSummary {
   pmid: string;
   title: string;
   authors: string[];
   journal: string;
   publicationDate: string;
-  fullAbstract: string;
   doi?: string;
   pmcId?: string;
 }
 
-export interface FullTextResult {
-  pmid: string;
-  pmcId: string;
-  title: string;
-  fullText: string;
-  sections: {
-    title: string;
-    content: string;
-  }[];
+export interface FullAbstractResult extends Omit<PubMedArticle, 'abstract'> {
+  fullAbstract: string;
 }
 
 export interface RISExportResult {
@@ -70,6 +103,7 @@ export interface RISExportResult {
   successCount: number;
   errorCount: number;
   errors: string[];
+  items: ItemResult[]; // One per requested PMID
 }
 
 export interface CitationCountResult {
@@ -86,9 +120,39 @@ export interface QueryOptimizationResult {
   improvements: string[];
   meshTermsUsed: string[];
   fieldTagsUsed: string[];
+  resolvedDescriptors: ResolvedMeshDescriptor[]; // Terms resolved via live MeSH lookup
+  warnings: string[]; // Syntax problems found by the query linter
   estimatedResults?: number;
 }
 
+export interface ResolvedMeshDescriptor {
+  phrase: string;
+  ui: string;
+  name: string;
+}
+
+export interface QueryOptimizationOptions {
+  useMeshLookup?: boolean; // Resolve terms missing from MESH_MAPPINGS against the MeSH vocabulary
+  cacheMode?: CacheMode;
+}
+
+// esearch sort parameter values for each ordering
+const SEARCH_SORT_PARAMS: Record<SearchSort, string> = {
+  relevance: 'relevance',
+  pub_date: 'pub_date',
+  first_author: 'Author',
+  journal: 'JournalName',
+  title: 'title'
+};
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Best Match (relevance)',
+  pub_date: 'Most recent (publication date)',
+  first_author: 'First author',
+  journal: 'Journal',
+  title: 'Title'
+};
+
 // XML parser utility
 function parseXML(xml: string): Promise<any> {
   return new Promise((resolve, reject) => {
@@ -102,58 +166,134 @@ function parseXML(xml: string): Promise<any> {
   });
 }
 
-// Build query URL with parameters
-function buildUrl(baseUrl: string, params: Record<string, string | number>): string {
-  const url = new URL(baseUrl);
-  Object.entries(params).forEach(([key, value]) => {
-    url.searchParams.set(key, value.toString());
-  });
-  return url.toString();
+// Flatten an esearch ErrorList/WarningList element into "Kind: value" messages
+function searchMessages(list: any): string[] {
+  if (!list || typeof list !== 'object') return [];
+  return Object.entries(list).flatMap(([kind, values]) =>
+    (Array.isArray(values) ? values : [values])
+      .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+      .map(value => `${kind}: ${value.trim()}`)
+  );
 }
 
 // Search PubMed articles
 export async function searchPubMed(
   query: string,
   maxResults: number = 20,
-  startIndex: number = 0
+  startIndex: number = 0,
+  options: SearchOptions = {}
 ): Promise<PubMedSearchResult> {
-  const params = {
-    db: 'pubmed',
-    term: query,
-    retmax: maxResults,
-    retstart: startIndex,
-    retmode: 'xml',
-    tool: 'mcp-pubmed-server',
-    email: 'user@example.com' // Replace with actual email
-  };
-
   try {
-    const url = buildUrl(ESEARCH_URL, params);
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    // Reject malformed queries up front rather than letting PubMed return misleading counts
+    if (query.trim()) {
+      const syntaxErrors = parseQuery(query).diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+      if (syntaxErrors.length > 0) {
+        throw new Error(`Invalid query syntax: ${syntaxErrors.map(diagnostic => diagnostic.message).join('; ')}`);
+      }
     }
-    
-    const xmlData = await response.text();
-    const parsed = await parseXML(xmlData);
-    
-    const eSearchResult = parsed.eSearchResult;
-    const idList = eSearchResult.IdList?.Id || [];
-    
-    return {
-      idList: Array.isArray(idList) ? idList : [idList].filter(Boolean),
-      count: parseInt(eSearchResult.Count || '0'),
-      retMax: parseInt(eSearchResult.RetMax || '0'),
-      retStart: parseInt(eSearchResult.RetStart || '0'),
-      queryTranslation: eSearchResult.QueryTranslation
+
+    const compiled = hasSearchFilters(options.filters) ? compileSearchFilters(query, options.filters) : undefined;
+
+    const params: Record<string, string | number> = {
+      db: 'pubmed',
+      term: compiled ? compiled.query : query,
+      retmax: maxResults,
+      retstart: startIndex,
+      retmode: 'xml',
+      ...compiled?.params
     };
+
+    if (options.useHistory) {
+      params.usehistory = 'y';
+    }
+
+    if (options.sort) {
+      params.sort = SEARCH_SORT_PARAMS[options.sort];
+    }
+
+    const runSearch = async (): Promise<PubMedSearchResult> => {
+      const response = await eutilsFetch(ESEARCH_URL, params);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      
+      const xmlData = await response.text();
+      const parsed = await parseXML(xmlData);
+      
+      const eSearchResult = parsed.eSearchResult;
+      const idList = eSearchResult.IdList?.Id || [];
+      
+      const errorList = searchMessages(eSearchResult.ErrorList);
+      if (typeof eSearchResult.ERROR === 'string') {
+        errorList.unshift(eSearchResult.ERROR);
+      }
+      const warningList = searchMessages(eSearchResult.WarningList);
+      
+      return {
+        idList: Array.isArray(idList) ? idList : [idList].filter(Boolean),
+        count: parseInt(eSearchResult.Count || '0'),
+        retMax: parseInt(eSearchResult.RetMax || '0'),
+        retStart: parseInt(eSearchResult.RetStart || '0'),
+        queryTranslation: eSearchResult.QueryTranslation,
+        errorList: errorList.length > 0 ? errorList : undefined,
+        warningList: warningList.length > 0 ? warningList : undefined,
+        webEnv: eSearchResult.WebEnv,
+        queryKey: eSearchResult.QueryKey,
+        generatedQuery: compiled?.query,
+        standaloneQuery: compiled?.standaloneQuery,
+        appliedFilters: compiled?.descriptions,
+        sort: options.sort ?? 'relevance'
+      };
+    };
+
+    // History sessions expire on NCBI's side, so a cached WebEnv could be dead
+    if (options.useHistory) {
+      if (options.cacheMode === 'offline') {
+        throw new Error('Searches with useHistory need network access and are not available in offline mode');
+      }
+      return await runSearch();
+    }
+    return await withCache('search', JSON.stringify(params), options.cacheMode ?? 'default', runSearch);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`PubMed search failed: ${errorMessage}`);
   }
 }
 
+// Map an esummary DocSum element to a summary record
+function summaryFromDocSum(docSum: any): PubMedSummary {
+  const items = Array.isArray(docSum.Item) ? docSum.Item : [docSum.Item];
+  const itemMap: Record<string, any> = {};
+  
+  items.forEach((item: any) => {
+    if (item && item.$.Name) {
+      itemMap[item.$.Name] = item._;
+    }
+  });
+  
+  // Parse authors
+  const authorList = itemMap.AuthorList || '';
+  const authors = authorList.split(',').map((author: string) => author.trim()).filter(Boolean);
+  
+  return {
+    pmid: docSum.Id,
+    title: itemMap.Title || 'No title available',
+    authors: authors,
+    journal: itemMap.Source || 'Unknown journal',
+    publicationDate: itemMap.PubDate || 'Unknown date',
+    doi: itemMap.DOI,
+    pmcId: itemMap.PMCID
+  };
+}
+
+// Extract summaries from a parsed eSummaryResult
+function parseDocSums(parsed: any): PubMedSummary[] {
+  const docSums = parsed.eSummaryResult?.DocSum || [];
+  const summaries = Array.isArray(docSums) ? docSums : [docSums];
+  return summaries.filter(Boolean).map(summaryFromDocSum);
+}
+
 // Get article summaries by PMIDs
 export async function getArticleSummaries(pmids: string[]): Promise<PubMedSummary[]> {
   if (pmids.length === 0) return [];
@@ -161,14 +301,11 @@ export async function getArticleSummaries(pmids: string[]): Promise<PubMedSummar
   const params = {
     db: 'pubmed',
     id: pmids.join(','),
-    retmode: 'xml',
-    tool: 'mcp-pubmed-server',
-    email: 'user@example.com'
+    retmode: 'xml'
   };
 
   try {
-    const url = buildUrl(ESUMMARY_URL, params);
-    const response = await fetch(url);
+    const response = await eutilsFetch(ESUMMARY_URL, params);
     
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -177,491 +314,330 @@ export async function getArticleSummaries(pmids: string[]): Promise<PubMedSummar
     const xmlData = await response.text();
     const parsed = await parseXML(xmlData);
     
-    const docSums = parsed.eSummaryResult?.DocSum || [];
-    const summaries = Array.isArray(docSums) ? docSums : [docSums];
-    
-    return summaries.map((docSum: any) => {
-      const items = Array.isArray(docSum.Item) ? docSum.Item : [docSum.Item];
-      const itemMap: Record<string, any> = {};
-      
-      items.forEach((item: any) => {
-        if (item && item.$.Name) {
-          itemMap[item.$.Name] = item._;
-        }
-      });
-      
-      // Parse authors
-      const authorList = itemMap.AuthorList || '';
-      const authors = authorList.split(',').map((author: string) => author.trim()).filter(Boolean);
-      
-      return {
-        pmid: docSum.Id,
-        title: itemMap.Title || 'No title available',
-        authors: authors,
-        journal: itemMap.Source || 'Unknown journal',
-        publicationDate: itemMap.PubDate || 'Unknown date',
-        doi: itemMap.DOI,
-        pmcId: itemMap.PMCID
-      };
-    });
+    return parseDocSums(parsed);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to get article summaries: ${errorMessage}`);
   }
 }
 
-// Get full article details by PMIDs
-export async function getArticleDetails(pmids: string[]): Promise<PubMedArticle[]> {
-  if (pmids.length === 0) return [];
+// Fetch article records for PMIDs, serving cached records where possible.
+// Records are cached individually (as their efetch XML) so overlapping requests
+// reuse earlier fetches.
+async function fetchArticleRecords(pmids: string[], cacheMode: CacheMode = 'default'): Promise<PubMedArticle[]> {
+  const fragments = new Map<string, string>();
+  const missing: string[] = [];
 
-  const params = {
-    db: 'pubmed',
-    id: pmids.join(','),
-    retmode: 'xml',
-    rettype: 'abstract',
-    tool: 'mcp-pubmed-server',
-    email: 'user@example.com'
-  };
+  for (const pmid of new Set(pmids)) {
+    const cached = await getCached<string>('article', `xml:${pmid}`, cacheMode);
+    if (cached !== undefined) {
+      fragments.set(pmid, cached);
+    } else {
+      missing.push(pmid);
+    }
+  }
 
-  try {
-    const url = buildUrl(EFETCH_URL, params);
-    const response = await fetch(url);
+  if (missing.length > 0) {
+    if (cacheMode === 'offline') {
+      throw new OfflineCacheMissError('article', missing.join(','));
+    }
+
+    const params = {
+      db: 'pubmed',
+      id: missing.join(','),
+      retmode: 'xml',
+      rettype: 'abstract'
+    };
+
+    const response = await eutilsFetch(EFETCH_URL, params);
     
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     
     const xmlData = await response.text();
-    const parsed = await parseXML(xmlData);
-    
-    const pubmedArticles = parsed.PubmedArticleSet?.PubmedArticle || [];
-    const articles = Array.isArray(pubmedArticles) ? pubmedArticles : [pubmedArticles];
-    
-    return articles.map((article: any) => {
-      const medlineCitation = article.MedlineCitation;
-      const pmid = medlineCitation.PMID._ || medlineCitation.PMID;
-      const articleData = medlineCitation.Article;
-      
-      // Extract title
-      const title = articleData.ArticleTitle || 'No title available';
-      
-      // Extract authors
-      const authorList = articleData.AuthorList?.Author || [];
-      const authors = (Array.isArray(authorList) ? authorList : [authorList])
-        .map((author: any) => {
-          if (author.ForeName && author.LastName) {
-            return `${author.ForeName} ${author.LastName}`;
-          } else if (author.CollectiveName) {
-            return author.CollectiveName;
-          }
-          return 'Unknown Author';
-        })
-        .filter(Boolean);
-      
-      // Extract journal info
-      const journal = articleData.Journal?.Title || 'Unknown journal';
-      
-      // Extract publication date
-      const pubDate = articleData.Journal?.JournalIssue?.PubDate;
-      let publicationDate = 'Unknown date';
-      if (pubDate) {
-        const year = pubDate.Year || '';
-        const month = pubDate.Month || '';
-        const day = pubDate.Day || '';
-        publicationDate = [year, month, day].filter(Boolean).join(' ');
-      }
-      
-      // Extract abstract
-      const abstractTexts = articleData.Abstract?.AbstractText || [];
-      let abstract = '';
-      if (Array.isArray(abstractTexts)) {
-        abstract = abstractTexts.map((text: any) => {
-          if (typeof text === 'string') return text;
-          if (text._ && text.$.Label) return `${text.$.Label}: ${text._}`;
-          return text._ || text;
-        }).join('\n\n');
-      } else if (typeof abstractTexts === 'string') {
-        abstract = abstractTexts;
-      } else if (abstractTexts._) {
-        abstract = abstractTexts._;
-      }
-      
-      // Extract DOI and PMC ID
-      const articleIds = article.PubmedData?.ArticleIdList?.ArticleId || [];
-      const ids = Array.isArray(articleIds) ? articleIds : [articleIds];
-      let doi = '';
-      let pmcId = '';
-      
-      ids.forEach((id: any) => {
-        if (id.$.IdType === 'doi') {
-          doi = id._;
-        } else if (id.$.IdType === 'pmc') {
-          pmcId = id._;
-        }
-      });
-      
-      return {
-        pmid,
-        title,
-        authors,
-        journal,
-        publicationDate,
-        abstract,
-        doi,
-        pmcId,
-        url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`
-      };
-    });
+    await cacheArticleXml(xmlData, fragments);
+  }
+
+  // Records come back in the order the PMIDs were requested
+  return parsePubmedArticleSet(
+    [...new Set(pmids)].filter(pmid => fragments.has(pmid)).map(pmid => fragments.get(pmid)).join('\n')
+  );
+}
+
+// Store each record of an efetch response in the article cache
+async function cacheArticleXml(xml: string, fragments?: Map<string, string>): Promise<void> {
+  for (const record of splitPubmedArticleSet(xml)) {
+    fragments?.set(record.pmid, record.xml);
+    await setCached('article', `xml:${record.pmid}`, record.xml);
+  }
+}
+
+// Get full article details by PMIDs
+export async function getArticleDetails(pmids: string[], cacheMode: CacheMode = 'default'): Promise<PubMedArticle[]> {
+  if (pmids.length === 0) return [];
+
+  try {
+    return await fetchArticleRecords(pmids, cacheMode);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to get article details: ${errorMessage}`);
   }
 }
 
+// Article records with one result item per PMID. A request that fails is
+// retried one PMID at a time when the failure may be down to a single PMID
+// (e.g. an offline cache miss or a rejected ID), so one bad PMID does not fail
+// the others.
+export async function getArticleItems(pmids: string[], cacheMode: CacheMode = 'default'): Promise<ItemResult<PubMedArticle>[]> {
+  const uniquePmids = [...new Set(pmids)];
+  if (uniquePmids.length === 0) return [];
+
+  try {
+    const articles = new Map((await fetchArticleRecords(uniquePmids, cacheMode)).map(article => [article.pmid, article]));
+    return uniquePmids.map(pmid => articles.has(pmid)
+      ? okItem(pmid, articles.get(pmid)!)
+      : failedItem<PubMedArticle>(pmid, 'not_found', 'No PubMed record found'));
+  } catch (error) {
+    const failure = errorItem(uniquePmids[0], error);
+    if (uniquePmids.length === 1 || failure.retryable) {
+      return uniquePmids.map(pmid => errorItem<PubMedArticle>(pmid, error));
+    }
+    const items: ItemResult<PubMedArticle>[] = [];
+    for (const pmid of uniquePmids) {
+      items.push(...await getArticleItems([pmid], cacheMode));
+    }
+    return items;
+  }
+}
+
+// Full abstracts with one result item per PMID
+export async function getFullAbstractItems(pmids: string[], cacheMode: CacheMode = 'default'): Promise<ItemResult<FullAbstractResult>[]> {
+  return (await getArticleItems(pmids, cacheMode)).map(({ data, ...envelope }) => {
+    if (!data) return envelope;
+    // Same record as getArticleDetails, with the FULL abstract (without truncation)
+    const { abstract, ...article } = data;
+    return { ...envelope, data: { ...article, fullAbstract: abstract || '' } };
+  });
+}
+
 // Get full abstract for specific PMIDs
-export async function getFullAbstract(pmids: string[]): Promise<FullAbstractResult[]> {
+export async function getFullAbstract(pmids: string[], cacheMode: CacheMode = 'default'): Promise<FullAbstractResult[]> {
   if (pmids.length === 0) return [];
 
-  const params = {
+  try {
+    const articles = await fetchArticleRecords(pmids, cacheMode);
+    
+    // Same record as getArticleDetails, with the FULL abstract (without truncation)
+    return articles.map(({ abstract, ...article }) => ({ ...article, fullAbstract: abstract || '' }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get full abstracts: ${errorMessage}`);
+  }
+}
+
+// Chunk sizes used when paging through history server results
+const HISTORY_ESEARCH_CHUNK = 10000;
+const HISTORY_ESUMMARY_CHUNK = 500;
+const HISTORY_EFETCH_CHUNK = 200;
+
+// NCBI reports expired or unknown WebEnvs as an ERROR element in an HTTP 200 response
+async function historyResponseText(response: Response): Promise<string> {
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  const text = await response.text();
+  const error = text.match(/<ERROR>([\s\S]*?)<\/ERROR>/);
+  if (error) {
+    throw new Error(`History server error: ${error[1].trim() || 'unknown error'} (the WebEnv may have expired; run the search again)`);
+  }
+  return text;
+}
+
+// Fetch one page of a stored search from the history server (WebEnv/query_key).
+// Large pages are retrieved in chunks so thousands of records can be paged through.
+export async function fetchSearchPage(
+  webEnv: string,
+  queryKey: string,
+  retStart: number = 0,
+  retMax: number = 500,
+  options: SearchPageOptions = {}
+): Promise<SearchPageResult> {
+  const detail = options.detail ?? 'summary';
+
+  if (options.cacheMode === 'offline') {
+    throw new Error('History server paging requires network access and is not available in offline mode');
+  }
+
+  const historyParams = {
     db: 'pubmed',
-    id: pmids.join(','),
-    retmode: 'xml',
-    rettype: 'abstract',
-    tool: 'mcp-pubmed-server',
-    email: 'user@example.com'
+    WebEnv: webEnv,
+    query_key: queryKey,
+    retmode: 'xml'
   };
 
-  try {
-    const url = buildUrl(EFETCH_URL, params);
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const xmlData = await response.text();
-    const parsed = await parseXML(xmlData);
-    
-    const pubmedArticles = parsed.PubmedArticleSet?.PubmedArticle || [];
-    const articles = Array.isArray(pubmedArticles) ? pubmedArticles : [pubmedArticles];
-    
-    return articles.map((article: any) => {
-      const medlineCitation = article.MedlineCitation;
-      const pmid = medlineCitation.PMID._ || medlineCitation.PMID;
-      const articleData = medlineCitation.Article;
-      
-      // Extract title
-      const title = articleData.ArticleTitle || 'No title available';
-      
-      // Extract authors
-      const authorList = articleData.AuthorList?.Author || [];
-      const authors = (Array.isArray(authorList) ? authorList : [authorList])
-        .map((author: any) => {
-          if (author.ForeName && author.LastName) {
-            return `${author.ForeName} ${author.LastName}`;
-          } else if (author.CollectiveName) {
-            return author.CollectiveName;
-          }
-          return 'Unknown Author';
-        })
-        .filter(Boolean);
-      
-      // Extract journal info
-      const journal = articleData.Journal?.Title || 'Unknown journal';
-      
-      // Extract publication date
-      const pubDate = articleData.Journal?.JournalIssue?.PubDate;
-      let publicationDate = 'Unknown date';
-      if (pubDate) {
-        const year = pubDate.Year || '';
-        const month = pubDate.Month || '';
-        const day = pubDate.Day || '';
-        publicationDate = [year, month, day].filter(Boolean).join(' ');
+  const result: SearchPageResult = {
+    webEnv,
+    queryKey,
+    retStart,
+    retMax,
+    pmids: []
+  };
+
+  // PMIDs of the stored search, with its total count
+  const searchChunk = async (offset: number, size: number): Promise<{ count: number; ids: string[] }> => {
+    const response = await eutilsFetch(ESEARCH_URL, {
+      ...historyParams,
+      term: `#${queryKey}`,
+      usehistory: 'y',
+      retstart: offset,
+      retmax: size
+    });
+    const eSearchResult = (await parseXML(await historyResponseText(response))).eSearchResult;
+    const idList = eSearchResult?.IdList?.Id || [];
+    return {
+      count: parseInt(eSearchResult?.Count || '0'),
+      ids: Array.isArray(idList) ? idList : [idList].filter(Boolean)
+    };
+  };
+
+  // Page through [retStart, retStart + retMax) in chunks. A chunk that comes back
+  // short before the end of the results is fetched again once, then reported.
+  const fetchChunks = async <T>(chunkLimit: number, fetchChunk: (offset: number, size: number) => Promise<T[]>): Promise<T[]> => {
+    const records: T[] = [];
+    const end = Math.min(retStart + retMax, result.count!);
+    for (let offset = retStart; offset < end; offset += chunkLimit) {
+      const size = Math.min(chunkLimit, end - offset);
+      let chunk = await fetchChunk(offset, size);
+      if (chunk.length < size) {
+        chunk = await fetchChunk(offset, size);
       }
-      
-      // Extract FULL abstract (without truncation)
-      const abstractTexts = articleData.Abstract?.AbstractText || [];
-      let fullAbstract = '';
-      if (Array.isArray(abstractTexts)) {
-        fullAbstract = abstractTexts.map((text: any) => {
-          if (typeof text === 'string') return text;
-          if (text._ && text.$.Label) return `${text.$.Label}: ${text._}`;
-          return text._ || text;
-        }).join('\n\n');
-      } else if (typeof abstractTexts === 'string') {
-        fullAbstract = abstractTexts;
-      } else if (abstractTexts._) {
-        fullAbstract = abstractTexts._;
+      if (chunk.length < size) {
+        throw new Error(`History server returned ${chunk.length} of ${size} records at offset ${offset} (${result.count} in total)`);
       }
-      
-      // Extract DOI and PMC ID
-      const articleIds = article.PubmedData?.ArticleIdList?.ArticleId || [];
-      const ids = Array.isArray(articleIds) ? articleIds : [articleIds];
-      let doi = '';
-      let pmcId = '';
-      
-      ids.forEach((id: any) => {
-        if (id.$.IdType === 'doi') {
-          doi = id._;
-        } else if (id.$.IdType === 'pmc') {
-          pmcId = id._;
-        }
+      records.push(...chunk);
+    }
+    return records;
+  };
+
+  try {
+    // The count tells a short chunk apart from the end of the results
+    result.count = (await searchChunk(0, 0)).count;
+
+    if (detail === 'pmids') {
+      result.pmids = await fetchChunks(HISTORY_ESEARCH_CHUNK, async (offset, size) => (await searchChunk(offset, size)).ids);
+    } else if (detail === 'summary') {
+      result.summaries = await fetchChunks(HISTORY_ESUMMARY_CHUNK, async (offset, size) => {
+        const response = await eutilsFetch(ESUMMARY_URL, {
+          ...historyParams,
+          retstart: offset,
+          retmax: size
+        });
+        return parseDocSums(await parseXML(await historyResponseText(response)));
       });
-      
-      return {
-        pmid,
-        title,
-        authors,
-        journal,
-        publicationDate,
-        fullAbstract,
-        doi,
-        pmcId
-      };
-    });
+      result.pmids = result.summaries.map(summary => summary.pmid);
+    } else {
+      result.articles = await fetchChunks(HISTORY_EFETCH_CHUNK, async (offset, size) => {
+        const response = await eutilsFetch(EFETCH_URL, {
+          ...historyParams,
+          rettype: 'abstract',
+          retstart: offset,
+          retmax: size
+        });
+        const xmlData = await historyResponseText(response);
+        await cacheArticleXml(xmlData);
+        return parsePubmedArticleSet(xmlData);
+      });
+      result.pmids = result.articles.map(article => article.pmid);
+    }
+
+    const returned = result.pmids.length;
+    if (retStart + returned < result.count) {
+      result.nextStart = retStart + returned;
+    }
+
+    return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to get full abstracts: ${errorMessage}`);
+    throw new Error(`Failed to fetch search page: ${errorMessage}`);
   }
 }
 
-// Get full text from PMC for articles with PMC ID using E-utilities
-export async function getFullText(pmcIds: string[]): Promise<FullTextResult[]> {
-  if (pmcIds.length === 0) return [];
-
-  const results: FullTextResult[] = [];
+// Get full text from PMC with one result item per PMC ID, using E-utilities
+export async function getFullTextItems(pmcIds: string[], cacheMode: CacheMode = 'default'): Promise<ItemResult<FullTextResult>[]> {
+  const items: ItemResult<FullTextResult>[] = [];
 
   // Process each PMC ID individually
   for (const pmcId of pmcIds) {
+    // Clean PMC ID (remove PMC prefix if present)
+    const cleanPmcId = pmcId.replace(/^PMC/, '');
+    const id = `PMC${cleanPmcId}`;
+
     try {
-      // Clean PMC ID (remove PMC prefix if present)
-      const cleanPmcId = pmcId.replace(/^PMC/, '');
-      
-      // Use E-utilities efetch API for PMC database
-      const params = {
-        db: 'pmc',
-        id: cleanPmcId,
-        retmode: 'xml',
-        tool: 'mcp-pubmed-server',
-        email: 'user@example.com'
-      };
-      
-      const url = buildUrl(EFETCH_URL, params);
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.warn(`Failed to fetch full text for PMC${cleanPmcId}: ${response.status}`);
-        continue;
-      }
-      
-      const xmlData = await response.text();
-      
-      // Check if we got an error response
-      if (xmlData.includes('Error occurred') || xmlData.includes('esearchresult')) {
-        console.warn(`No full text available for PMC${cleanPmcId}`);
-        continue;
-      }
-      
-      const parsed = await parseXML(xmlData);
-      
-      // Parse NLM XML format
-      const articleSet = parsed['pmc-articleset'];
-      if (!articleSet || !articleSet.article) {
-        console.warn(`No article found in PMC${cleanPmcId}`);
-        continue;
-      }
-      
-      const article = Array.isArray(articleSet.article) ? articleSet.article[0] : articleSet.article;
-      const front = article.front;
-      const body = article.body;
-      
-      // Extract basic metadata
-      const articleMeta = front?.[0]?.['article-meta']?.[0] || front?.['article-meta'];
-      
-      // Extract title
-      let title = 'Unknown title';
-      const titleGroup = articleMeta?.['title-group'];
-      if (titleGroup) {
-        const articleTitle = Array.isArray(titleGroup) ? titleGroup[0]?.['article-title'] : titleGroup['article-title'];
-        if (articleTitle) {
-          title = Array.isArray(articleTitle) ? articleTitle[0] : articleTitle;
-          // Clean up XML content in title
-          if (typeof title === 'object' && (title as any)._) {
-            title = (title as any)._;
-          }
-        }
-      }
-      
-      // Extract PMID
-      let pmid = '';
-      const articleIds = articleMeta?.['article-id'];
-      if (articleIds) {
-        const ids = Array.isArray(articleIds) ? articleIds : [articleIds];
-        const pmidEntry = ids.find((id: any) => id.$?.['pub-id-type'] === 'pmid');
-        if (pmidEntry) {
-          pmid = pmidEntry._ || pmidEntry;
-        }
-      }
-      
-      // Extract sections from body
-      const sections: { title: string; content: string }[] = [];
-      let fullText = '';
-      
-      if (body) {
-        const bodyContent = Array.isArray(body) ? body[0] : body;
+      // Use E-utilities efetch API for PMC database (raw XML is cached)
+      const xmlData = await withCache('fulltext', id, cacheMode, async () => {
+        const params = {
+          db: 'pmc',
+          id: cleanPmcId,
+          retmode: 'xml'
+        };
         
-        // Function to extract text from any element recursively
-        function extractText(element: any): string {
-          if (typeof element === 'string') {
-            return element;
-          }
-          
-          if (typeof element === 'object') {
-            if (element._) {
-              return element._;
-            }
-            
-            let text = '';
-            Object.values(element).forEach((value: any) => {
-              if (Array.isArray(value)) {
-                value.forEach((item: any) => {
-                  text += extractText(item) + ' ';
-                });
-              } else {
-                text += extractText(value) + ' ';
-              }
-            });
-            return text.trim();
-          }
-          
-          return '';
-        }
+        const response = await eutilsFetch(EFETCH_URL, params);
         
-        // Function to process sections
-        function processSections(element: any, sectionTitle = 'Content') {
-          if (element.sec) {
-            const secs = Array.isArray(element.sec) ? element.sec : [element.sec];
-            
-            secs.forEach((section: any) => {
-              // Extract section title
-              let secTitle = sectionTitle;
-              if (section.title) {
-                const titleText = extractText(section.title);
-                if (titleText.trim()) {
-                  secTitle = titleText.trim();
-                }
-              }
-              
-              // Extract section content
-              let secContent = '';
-              
-              // Get paragraphs
-              if (section.p) {
-                const paragraphs = Array.isArray(section.p) ? section.p : [section.p];
-                paragraphs.forEach((para: any) => {
-                  const paraText = extractText(para);
-                  if (paraText.trim()) {
-                    secContent += paraText.trim() + '\n\n';
-                  }
-                });
-              }
-              
-              // Process nested sections
-              if (section.sec) {
-                processSections(section, secTitle);
-              } else if (secContent.trim()) {
-                sections.push({
-                  title: secTitle,
-                  content: secContent.trim()
-                });
-                fullText += `${secTitle}\n${secContent}\n`;
-              }
-            });
-          }
-          
-          // Also check for direct paragraphs
-          if (element.p) {
-            const paragraphs = Array.isArray(element.p) ? element.p : [element.p];
-            let content = '';
-            paragraphs.forEach((para: any) => {
-              const paraText = extractText(para);
-              if (paraText.trim()) {
-                content += paraText.trim() + '\n\n';
-              }
-            });
-            
-            if (content.trim()) {
-              sections.push({
-                title: sectionTitle,
-                content: content.trim()
-              });
-              fullText += `${sectionTitle}\n${content}\n`;
-            }
-          }
+        if (!response.ok) {
+          throw new Error(`Failed to fetch full text for ${id}: HTTP error! status: ${response.status}`);
         }
         
-        // Process the body content
-        processSections(bodyContent);
-      }
-      
-      // If no sections were found, try to extract any available text
-      if (sections.length === 0 && fullText.trim() === '') {
-        // Fallback extraction function for the entire article
-        function fallbackExtractText(element: any): string {
-          if (typeof element === 'string') {
-            return element;
-          }
-          
-          if (typeof element === 'object') {
-            if (element._) {
-              return element._;
-            }
-            
-            let text = '';
-            Object.values(element).forEach((value: any) => {
-              if (Array.isArray(value)) {
-                value.forEach((item: any) => {
-                  text += fallbackExtractText(item) + ' ';
-                });
-              } else if (typeof value === 'object' || typeof value === 'string') {
-                text += fallbackExtractText(value) + ' ';
-              }
-            });
-            return text.trim();
-          }
-          
-          return '';
-        }
+        const text = await response.text();
         
-        const allText = fallbackExtractText(article);
-        if (allText.trim()) {
-          fullText = allText.trim();
-          sections.push({
-            title: 'Full Article Content',
-            content: fullText
-          });
+        // Check if we got an error response
+        if (text.includes('Error occurred') || text.includes('esearchresult')) {
+          throw new NoFullTextError(id);
         }
-      }
+        
+        return text;
+      });
       
-      if (fullText.trim() || sections.length > 0) {
-        results.push({
-          pmid,
-          pmcId: `PMC${cleanPmcId}`,
-          title,
-          fullText: fullText.trim(),
-          sections
-        });
+      const article = await parseJatsArticle(xmlData, id);
+      if (!article) {
+        items.push(failedItem(id, 'no_full_text', `No article found in ${id}`));
+      } else if (article.fullText.trim() || article.sections.length > 0) {
+        items.push(okItem(id, article));
       } else {
-        console.warn(`No extractable content found for PMC${cleanPmcId}`);
+        items.push(failedItem(id, 'no_full_text', `No extractable content found for ${id}`));
       }
-      
     } catch (error) {
-      console.warn(`Error processing PMC${pmcId}: ${error}`);
-      continue;
+      items.push(error instanceof NoFullTextError
+        ? failedItem(id, 'no_full_text', error.message)
+        : errorItem(id, error));
     }
   }
 
-  return results;
+  return items;
+}
+
+// PMC answered, but without an article body (e.g. publisher-restricted full text)
+class NoFullTextError extends Error {
+  constructor(pmcId: string) {
+    super(`No full text available for ${pmcId}`);
+    this.name = 'NoFullTextError';
+  }
+}
+
+// Get full text from PMC for articles with PMC ID, skipping those without full text
+export async function getFullText(pmcIds: string[], cacheMode: CacheMode = 'default'): Promise<FullTextResult[]> {
+  if (pmcIds.length === 0) return [];
+
+  return (await getFullTextItems(pmcIds, cacheMode))
+    .filter(item => item.data)
+    .map(item => item.data!);
+}
+
+// PMIDs of the records in RIS text, from each record's AN or ID field
+export function risRecordPmids(ris: string): string[] {
+  return ris.split(/^ER  -.*$/m)
+    .map(record => record.match(/^(?:AN|ID)  - (?:PMID:?\s*)?(\d+)\s*$/m)?.[1])
+    .filter((pmid): pmid is string => !!pmid);
 }
 
 // Export citations in RIS format using Literature Citation Exporter API
@@ -672,17 +648,18 @@ export async function exportRIS(pmids: string[]): Promise<RISExportResult> {
       risData: '',
       successCount: 0,
       errorCount: 0,
-      errors: []
+      errors: [],
+      items: []
     };
   }
 
   const errors: string[] = [];
+  const items: ItemResult[] = [];
   let allRISData = '';
   let successCount = 0;
   
-  // Process in batches to respect rate limits (3 requests/second)
+  // Process in batches; rate limiting is handled by the shared NCBI client
   const batchSize = 10; // Process 10 PMIDs at a time
-  const delayBetweenRequests = 400; // 400ms delay to stay under 3 req/sec
 
   for (let i = 0; i < pmids.length; i += batchSize) {
     const batch = pmids.slice(i, i + batchSize);
@@ -691,7 +668,7 @@ export async function exportRIS(pmids: string[]): Promise<RISExportResult> {
       // Construct URL for Literature Citation Exporter API
       const url = `${LIT_CITATION_URL}/pubmed/?format=ris&id=${batch.join(',')}`;
       
-      const response = await fetch(url);
+      const response = await ncbiFetch(url);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -706,21 +683,25 @@ export async function exportRIS(pmids: string[]): Promise<RISExportResult> {
           allRISData += '\n';
         }
         
-        // Count successful entries by counting 'TY  -' lines
-        const tyCount = (risData.match(/^TY  -/gm) || []).length;
-        successCount += tyCount;
+        // A PMID counts as exported only if a record carries it in its PMID field
+        const returned = new Set(risRecordPmids(risData));
+        for (const pmid of batch) {
+          if (returned.has(pmid)) {
+            successCount++;
+            items.push({ id: pmid, status: 'ok', retryable: false });
+          } else {
+            items.push(failedItem(pmid, 'not_found', 'No RIS record returned'));
+          }
+        }
       } else {
         errors.push(`No valid RIS data for PMIDs: ${batch.join(', ')}`);
-      }
-      
-      // Rate limiting: wait between requests to respect 3 requests/second limit
-      if (i + batchSize < pmids.length) {
-        await new Promise(resolve => setTimeout(resolve, delayBetweenRequests));
+        batch.forEach(pmid => items.push(failedItem(pmid, 'not_found', 'No RIS record returned')));
       }
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       errors.push(`Failed to fetch RIS for PMIDs ${batch.join(', ')}: ${errorMessage}`);
+      batch.forEach(pmid => items.push(errorItem(pmid, error)));
     }
   }
 
@@ -729,25 +710,27 @@ export async function exportRIS(pmids: string[]): Promise<RISExportResult> {
     risData: allRISData,
     successCount,
     errorCount: pmids.length - successCount,
-    errors
+    errors,
+    items
   };
 }
 
 // Combined search and fetch function
 export async function searchAndFetchArticles(
   query: string,
-  maxResults: number = 10
+  maxResults: number = 10,
+  options: SearchOptions = {}
 ): Promise<PubMedArticle[]> {
   try {
     // First, search for article IDs
-    const searchResult = await searchPubMed(query, maxResults);
+    const searchResult = await searchPubMed(query, maxResults, 0, options);
     
     if (searchResult.idList.length === 0) {
       return [];
     }
     
     // Then fetch full details for the articles
-    const articles = await getArticleDetails(searchResult.idList);
+    const articles = await getArticleDetails(searchResult.idList, options.cacheMode);
     
     return articles;
   } catch (error) {
@@ -756,95 +739,89 @@ export async function searchAndFetchArticles(
   }
 }
 
-// Get citation count for specific PMIDs using elink
-export async function getCitationCounts(pmids: string[]): Promise<CitationCountResult[]> {
-  if (pmids.length === 0) return [];
-  
-  console.error(`getCitationCounts called with ${pmids.length} PMIDs: ${pmids.join(', ')}`);
-  const results: CitationCountResult[] = [];
+// Get citation counts for specific PMIDs using elink, with one result item per PMID
+export async function getCitationCountItems(pmids: string[], cacheMode: CacheMode = 'default'): Promise<ItemResult<CitationCountResult>[]> {
+  const items: ItemResult<CitationCountResult>[] = [];
   
   // Process each PMID individually to get accurate citation data
   for (const pmid of pmids) {
     try {
       // First get article title for display
-      const articleDetails = await getArticleDetails([pmid]);
-      const title = articleDetails.length > 0 ? articleDetails[0].title : 'Unknown title';
-      
-      // Use elink to find articles that cite this PMID
-      const params = {
-        dbfrom: 'pubmed',
-        db: 'pubmed',
-        id: pmid,
-        linkname: 'pubmed_pubmed_citedin',
-        retmode: 'xml',
-        tool: 'mcp-pubmed-server',
-        email: 'user@example.com'
-      };
-      
-      const url = buildUrl(ELINK_URL, params);
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        results.push({
-          pmid,
-          title,
-          citationCount: 0,
-          citingPmids: [],
-          error: `HTTP error! status: ${response.status}`
-        });
+      const articleDetails = await getArticleDetails([pmid], cacheMode);
+      if (articleDetails.length === 0) {
+        items.push(failedItem(pmid, 'not_found', 'No PubMed record found'));
         continue;
       }
+      const title = articleDetails[0].title;
       
-      const xmlData = await response.text();
-      const parsed = await parseXML(xmlData);
-      
-      // Parse elink response
-      const linkSets = parsed.eLinkResult?.LinkSet || [];
-      const linkSetArray = Array.isArray(linkSets) ? linkSets : [linkSets];
-      
-      let citingPmids: string[] = [];
-      
-      // Find the linkset with pubmed_pubmed_citedin
-      for (const linkSet of linkSetArray) {
-        if (linkSet.LinkSetDb) {
-          const linkSetDbs = Array.isArray(linkSet.LinkSetDb) ? linkSet.LinkSetDb : [linkSet.LinkSetDb];
-          
-          for (const linkSetDb of linkSetDbs) {
-            if (linkSetDb.LinkName === 'pubmed_pubmed_citedin') {
-              const links = linkSetDb.Link || [];
-              const linkArray = Array.isArray(links) ? links : [links];
-              
-              citingPmids = linkArray.map((link: any) => link.Id).filter(Boolean);
-              break;
+      // Use elink to find articles that cite this PMID
+      const citingPmids = await withCache('links', `citedin:${pmid}`, cacheMode, async () => {
+        const params = {
+          dbfrom: 'pubmed',
+          db: 'pubmed',
+          id: pmid,
+          linkname: 'pubmed_pubmed_citedin',
+          retmode: 'xml'
+        };
+        
+        const response = await eutilsFetch(ELINK_URL, params);
+        
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        
+        const xmlData = await response.text();
+        const parsed = await parseXML(xmlData);
+        
+        // Parse elink response
+        const linkSets = parsed.eLinkResult?.LinkSet || [];
+        const linkSetArray = Array.isArray(linkSets) ? linkSets : [linkSets];
+        
+        // Find the linkset with pubmed_pubmed_citedin
+        for (const linkSet of linkSetArray) {
+          if (linkSet.LinkSetDb) {
+            const linkSetDbs = Array.isArray(linkSet.LinkSetDb) ? linkSet.LinkSetDb : [linkSet.LinkSetDb];
+            
+            for (const linkSetDb of linkSetDbs) {
+              if (linkSetDb.LinkName === 'pubmed_pubmed_citedin') {
+                const links = linkSetDb.Link || [];
+                const linkArray = Array.isArray(links) ? links : [links];
+                
+                return linkArray.map((link: any) => link.Id).filter(Boolean) as string[];
+              }
             }
           }
         }
-      }
+        
+        return [] as string[];
+      });
       
-      results.push({
+      items.push(okItem(pmid, {
         pmid,
         title,
         citationCount: citingPmids.length,
         citingPmids: citingPmids.slice(0, 100) // Limit to first 100 citing PMIDs for performance
-      });
-      
-      // Rate limiting to be respectful to NCBI servers
-      await new Promise(resolve => setTimeout(resolve, 200)); // 200ms delay
+      }));
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      results.push({
-        pmid,
-        title: 'Unknown title',
-        citationCount: 0,
-        citingPmids: [],
-        error: `Failed to get citation count: ${errorMessage}`
-      });
+      items.push(errorItem(pmid, error));
     }
   }
   
-  return results;
+  return items;
+}
+
+// Get citation count for specific PMIDs using elink; failures are reported in `error`
+export async function getCitationCounts(pmids: string[], cacheMode: CacheMode = 'default'): Promise<CitationCountResult[]> {
+  if (pmids.length === 0) return [];
+  
+  return (await getCitationCountItems(pmids, cacheMode)).map(item => item.data || {
+    pmid: item.id,
+    title: 'Unknown title',
+    citationCount: 0,
+    citingPmids: [],
+    error: `Failed to get citation count: ${item.message}`
+  });
 }
 
 // Common medical term mappings to MeSH terms
@@ -930,108 +907,147 @@ const MESH_MAPPINGS: Record<string, string[]> = {
   'results': ['Treatment Outcome']
 };
 
-// Field tag mappings
-const FIELD_TAGS: Record<string, string> = {
-  'title': '[ti]',
-  'abstract': '[ab]',
-  'author': '[au]',
-  'journal': '[ta]',
-  'text word': '[tw]',
-  'mesh': '[MeSH Terms]',
-  'major': '[MeSH Major Topic]',
-  'publication type': '[pt]',
-  'language': '[la]',
-  'publication date': '[pdat]'
-};
+// Words dropped when splitting a natural language query into concepts
+const QUERY_STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'in', 'on', 'for', 'with', 'to', 'at', 'by',
+  'among', 'from', 'about', 'vs', 'versus'
+]);
 
-// Optimize search query by adding MeSH terms and proper formatting
-export async function optimizeSearchQuery(originalQuery: string): Promise<QueryOptimizationResult> {
+// Optimize search query by adding MeSH terms and proper formatting.
+// Terms in MESH_MAPPINGS are mapped directly; remaining terms are resolved
+// against the MeSH vocabulary (remote database or local dump) when enabled.
+export async function optimizeSearchQuery(
+  originalQuery: string,
+  options: QueryOptimizationOptions = {}
+): Promise<QueryOptimizationResult> {
+  const useMeshLookup = options.useMeshLookup ?? true;
+  const cacheMode = options.cacheMode ?? 'default';
   const improvements: string[] = [];
   const meshTermsUsed: string[] = [];
   const fieldTagsUsed: string[] = [];
+  const resolvedDescriptors: ResolvedMeshDescriptor[] = [];
   
   // Convert to lowercase for processing
   const lowerQuery = originalQuery.toLowerCase();
   
-  // Split query into words and phrases
-  const words = lowerQuery.split(/\s+/);
+  // Split query into words, removing punctuation except hyphens
+  const words = lowerQuery
+    .split(/\s+/)
+    .map(word => word.replace(/[^\w\s-]/g, ''))
+    .filter(Boolean);
   const queryParts: string[] = [];
   
   // Track which terms we've processed to avoid duplicates
   const processedTerms = new Set<string>();
   
-  // Process each word and find MeSH mappings
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i].replace(/[^\w\s-]/g, ''); // Remove punctuation except hyphens
+  const addMeshPart = (phrase: string, meshTerms: string[]) => {
+    const meshQuery = meshTerms.map(term => `"${term}"[MeSH Terms]`).join(' OR ');
+    queryParts.push(meshTerms.length > 1 ? `(${meshQuery})` : meshQuery);
+    meshTermsUsed.push(...meshTerms);
+    fieldTagsUsed.push('[MeSH Terms]');
+    processedTerms.add(phrase);
+  };
+  
+  const addTextWordPart = (word: string) => {
+    // Keep original word with text word tag for broader search
+    queryParts.push(`"${word}"[tw]`);
+    fieldTagsUsed.push('[tw]');
+    processedTerms.add(word);
+  };
+  
+  let meshLookupFailed = false;
+  const lookupDescriptor = async (phrase: string) => {
+    if (!useMeshLookup || meshLookupFailed || /^\d+$/.test(phrase)) return undefined;
+    try {
+      return await resolveMeshTerm(phrase, { cacheMode });
+    } catch (error) {
+      meshLookupFailed = true;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      improvements.push(`MeSH lookup unavailable (${errorMessage}); unmapped terms kept as text words`);
+      return undefined;
+    }
+  };
+  
+  // Consecutive words with no static mapping are resolved together:
+  // first as one phrase, then word by word
+  let unmappedRun: string[] = [];
+  const flushUnmappedRun = async () => {
+    const run = unmappedRun;
+    unmappedRun = [];
+    if (run.length === 0) return;
     
-    // Check for exact matches first
-    if (MESH_MAPPINGS[word] && !processedTerms.has(word)) {
-      const meshTerms = MESH_MAPPINGS[word];
-      const meshQuery = meshTerms.map(term => `"${term}"[MeSH Terms]`).join(' OR ');
-      
-      if (meshTerms.length > 1) {
-        queryParts.push(`(${meshQuery})`);
-      } else {
-        queryParts.push(meshQuery);
+    if (run.length > 1) {
+      const phrase = run.join(' ');
+      const descriptor = processedTerms.has(phrase) ? undefined : await lookupDescriptor(phrase);
+      if (descriptor) {
+        addMeshPart(phrase, [descriptor.name]);
+        resolvedDescriptors.push({ phrase, ui: descriptor.ui, name: descriptor.name });
+        improvements.push(`Resolved "${phrase}" via MeSH lookup: ${descriptor.name} (${descriptor.ui})`);
+        return;
       }
-      
-      meshTermsUsed.push(...meshTerms);
-      fieldTagsUsed.push('[MeSH Terms]');
-      processedTerms.add(word);
-      improvements.push(`Added MeSH terms for "${word}": ${meshTerms.join(', ')}`);
     }
-    // Check for multi-word phrases
-    else if (i < words.length - 1) {
-      const twoWordPhrase = `${word} ${words[i + 1]}`;
-      const threeWordPhrase = i < words.length - 2 ? `${word} ${words[i + 1]} ${words[i + 2]}` : '';
-      
-      if (MESH_MAPPINGS[threeWordPhrase] && !processedTerms.has(threeWordPhrase)) {
-        const meshTerms = MESH_MAPPINGS[threeWordPhrase];
-        const meshQuery = meshTerms.map(term => `"${term}"[MeSH Terms]`).join(' OR ');
-        
-        if (meshTerms.length > 1) {
-          queryParts.push(`(${meshQuery})`);
-        } else {
-          queryParts.push(meshQuery);
-        }
-        
-        meshTermsUsed.push(...meshTerms);
-        fieldTagsUsed.push('[MeSH Terms]');
-        processedTerms.add(threeWordPhrase);
-        improvements.push(`Added MeSH terms for "${threeWordPhrase}": ${meshTerms.join(', ')}`);
-        i += 2; // Skip next two words
+    
+    for (const word of run) {
+      if (processedTerms.has(word)) continue;
+      const descriptor = await lookupDescriptor(word);
+      if (descriptor) {
+        addMeshPart(word, [descriptor.name]);
+        resolvedDescriptors.push({ phrase: word, ui: descriptor.ui, name: descriptor.name });
+        improvements.push(`Resolved "${word}" via MeSH lookup: ${descriptor.name} (${descriptor.ui})`);
+      } else {
+        addTextWordPart(word);
       }
-      else if (MESH_MAPPINGS[twoWordPhrase] && !processedTerms.has(twoWordPhrase)) {
-        const meshTerms = MESH_MAPPINGS[twoWordPhrase];
-        const meshQuery = meshTerms.map(term => `"${term}"[MeSH Terms]`).join(' OR ');
-        
-        if (meshTerms.length > 1) {
-          queryParts.push(`(${meshQuery})`);
-        } else {
-          queryParts.push(meshQuery);
-        }
-        
-        meshTermsUsed.push(...meshTerms);
-        fieldTagsUsed.push('[MeSH Terms]');
-        processedTerms.add(twoWordPhrase);
-        improvements.push(`Added MeSH terms for "${twoWordPhrase}": ${meshTerms.join(', ')}`);
-        i += 1; // Skip next word
+    }
+  };
+  
+  // Process each word and find MeSH mappings, longest phrase first
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    
+    if (QUERY_STOPWORDS.has(word)) {
+      await flushUnmappedRun();
+      continue;
+    }
+    
+    const threeWordPhrase = i < words.length - 2 ? `${word} ${words[i + 1]} ${words[i + 2]}` : '';
+    const twoWordPhrase = i < words.length - 1 ? `${word} ${words[i + 1]}` : '';
+    const phrase = [threeWordPhrase, twoWordPhrase, word].find(candidate => candidate && MESH_MAPPINGS[candidate]);
+    
+    if (!phrase) {
+      if (!processedTerms.has(word)) {
+        unmappedRun.push(word);
       }
-      else if (!processedTerms.has(word)) {
-        // Keep original word with text word tag for broader search
-        queryParts.push(`"${word}"[tw]`);
-        fieldTagsUsed.push('[tw]');
-        processedTerms.add(word);
+      continue;
+    }
+    
+    // A mapped phrase may complete a more specific descriptor with the
+    // preceding words (e.g. "type 2" + "diabetes" → Diabetes Mellitus, Type 2)
+    if (unmappedRun.length > 0) {
+      const combined = [...unmappedRun, phrase].join(' ');
+      const descriptor = await lookupDescriptor(combined);
+      if (descriptor) {
+        unmappedRun = [];
+        addMeshPart(combined, [descriptor.name]);
+        resolvedDescriptors.push({ phrase: combined, ui: descriptor.ui, name: descriptor.name });
+        improvements.push(`Resolved "${combined}" via MeSH lookup: ${descriptor.name} (${descriptor.ui})`);
+        i += phrase.split(' ').length - 1;
+        continue;
       }
     }
-    else if (!processedTerms.has(word)) {
-      // Single word with no MeSH mapping
-      queryParts.push(`"${word}"[tw]`);
-      fieldTagsUsed.push('[tw]');
-      processedTerms.add(word);
+    
+    await flushUnmappedRun();
+    
+    if (!processedTerms.has(phrase)) {
+      const meshTerms = MESH_MAPPINGS[phrase];
+      addMeshPart(phrase, meshTerms);
+      improvements.push(`Added MeSH terms for "${phrase}": ${meshTerms.join(', ')}`);
     }
+    
+    i += phrase.split(' ').length - 1; // Skip words consumed by the phrase
   }
   
+  await flushUnmappedRun();
+  
   // Join query parts with AND
   let optimizedQuery = queryParts.join(' AND ');
   
@@ -1050,16 +1066,21 @@ export async function optimizeSearchQuery(originalQuery: string): Promise<QueryO
   }
   
   // If no improvements were made, provide a basic optimization
-  if (improvements.length === 0) {
+  if (improvements.length === 0 || queryParts.length === 0) {
     optimizedQuery = `"${originalQuery}"[tw]`;
     improvements.push(`Added text word field tag for better search targeting`);
     fieldTagsUsed.push('[tw]');
   }
   
+  // Lint the generated query (e.g. quotes copied from the original text)
+  const warnings = parseQuery(optimizedQuery).diagnostics
+    .filter(diagnostic => diagnostic.severity !== 'info')
+    .map(diagnostic => diagnostic.message);
+  
   // Get estimated results by running a quick search
   let estimatedResults: number | undefined;
   try {
-    const searchResult = await searchPubMed(optimizedQuery, 1);
+    const searchResult = await searchPubMed(optimizedQuery, 1, 0, { cacheMode });
     estimatedResults = searchResult.count;
     improvements.push(`Estimated ${estimatedResults.toLocaleString()} results with optimized query`);
   } catch (error) {
@@ -1072,6 +1093,8 @@ export async function optimizeSearchQuery(originalQuery: string): Promise<QueryO
     improvements,
     meshTermsUsed: [...new Set(meshTermsUsed)], // Remove duplicates
     fieldTagsUsed: [...new Set(fieldTagsUsed)], // Remove duplicates
+    resolvedDescriptors,
+    warnings,
     estimatedResults
   };
 }
@@ -1087,15 +1110,20 @@ export interface SimilarArticleResult {
   similarityScore?: number;
   doi?: string;
   pmcId?: string;
+  editorialStatus: EditorialStatus;
+  editorialNotices: EditorialNotice[];
 }
 
 // Interface for batch processing
+export type BatchOperationType = 'abstract' | 'citations' | 'similar' | 'ris_export' | 'full_text';
+
 export interface BatchOperation {
   pmid: string;
-  operation: 'abstract' | 'citations' | 'similar' | 'ris_export' | 'full_text';
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  operation: BatchOperationType;
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   result?: any;
   error?: string;
+  item?: ItemResult; // Per-PMID result once the operation has run
 }
 
 export interface BatchProcessingResult {
@@ -1119,7 +1147,8 @@ export interface BatchProcessingResult {
 // Find similar articles using PubMed's ELink API
 export async function findSimilarArticles(
   pmid: string,
-  maxResults: number = 10
+  maxResults: number = 10,
+  cacheMode: CacheMode = 'default'
 ): Promise<SimilarArticleResult[]> {
   try {
     // Step 1: Use ELink to get similar articles from PubMed
@@ -1130,13 +1159,10 @@ export async function findSimilarArticles(
       linkname: 'pubmed_pubmed',  // Use the full similar articles linkname
       cmd: 'neighbor',
       retmode: 'xml',
-      retmax: maxResults + 10,  // Request extra to account for filtering
-      tool: 'mcp-pubmed-server',
-      email: 'user@example.com'
+      retmax: maxResults + 10  // Request extra to account for filtering
     };
     
-    const elinkUrl = buildUrl(ELINK_URL, elinkParams);
-    const elinkResponse = await fetch(elinkUrl);
+    const elinkResponse = await eutilsFetch(ELINK_URL, elinkParams);
     
     if (!elinkResponse.ok) {
       throw new Error(`HTTP error! status: ${elinkResponse.status}`);
@@ -1211,7 +1237,7 @@ export async function findSimilarArticles(
     
     // Step 2: Get detailed information for similar articles
     const pmidList = similarPmids.map(item => item.pmid);
-    const articles = await getArticleDetails(pmidList);
+    const articles = await getArticleDetails(pmidList, cacheMode);
     
     // Step 3: Combine article details with similarity scores
     const results: SimilarArticleResult[] = articles.map((article, index) => {
@@ -1225,7 +1251,9 @@ export async function findSimilarArticles(
         abstract: article.abstract,
         similarityScore: similarItem?.score ? parseFloat(similarItem.score) : undefined,
         doi: article.doi,
-        pmcId: article.pmcId
+        pmcId: article.pmcId,
+        editorialStatus: article.editorialStatus,
+        editorialNotices: article.editorialNotices
       };
     });
     
@@ -1244,160 +1272,161 @@ export async function findSimilarArticles(
   }
 }
 
-// Utility function to delay execution
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+// Batch results for one chunk of PMIDs, with one result item per PMID
+export interface BatchChunkResult {
+  results: BatchProcessingResult['results'];
+  items: ItemResult[];
 }
 
-// Batch processing function
+// PMIDs handled per request for each batch operation
+export const BATCH_CHUNK_SIZES: Record<BatchOperationType, number> = {
+  abstract: 20,
+  citations: 10,
+  similar: 1,
+  ris_export: 50,
+  full_text: 10
+};
+
+// Run one batch operation for a chunk of PMIDs, with a result item per PMID
+export async function processBatchChunk(
+  operation: BatchOperationType,
+  pmids: string[],
+  cacheMode: CacheMode = 'default'
+): Promise<BatchChunkResult> {
+  const okData = <T>(items: ItemResult<T>[]) => items.filter(item => item.data).map(item => item.data!);
+
+  try {
+    switch (operation) {
+      case 'abstract': {
+        const items = await getFullAbstractItems(pmids, cacheMode);
+        return { results: { abstracts: okData(items) }, items: items.map(withoutData) };
+      }
+
+      case 'citations': {
+        const items = await getCitationCountItems(pmids, cacheMode);
+        return { results: { citations: okData(items) }, items: items.map(withoutData) };
+      }
+
+      case 'similar': {
+        const similar: { [pmid: string]: SimilarArticleResult[] } = {};
+        const items: ItemResult[] = [];
+        for (const pmid of pmids) {
+          try {
+            similar[pmid] = await findSimilarArticles(pmid, 5, cacheMode); // Limit to 5 for batch
+            items.push({ id: pmid, status: 'ok', retryable: false });
+          } catch (error) {
+            items.push(errorItem(pmid, error));
+          }
+        }
+        return { results: { similar }, items };
+      }
+
+      case 'ris_export': {
+        const risResult = await exportRIS(pmids);
+        return { results: risResult.risData ? { risExports: risResult.risData.trim() } : {}, items: risResult.items };
+      }
+
+      case 'full_text': {
+        // Only articles with a PMC copy have full text
+        // PMIDs may share a PMCID, so items are matched by PMCID rather than position
+        const { pmcIds, pmcIdByInput } = await resolvePmcIds(pmids, cacheMode);
+        const fullTextItems = await getFullTextItems(pmcIds, cacheMode);
+        const items = pmids.map(pmid => {
+          const pmcId = pmcIdByInput.get(pmid);
+          const fullTextItem = pmcId ? fullTextItems.find(item => item.id === pmcId) : undefined;
+          return fullTextItem
+            ? { ...withoutData(fullTextItem), id: pmid }
+            : failedItem(pmid, 'no_full_text', 'No PMC full text available');
+        });
+        return { results: { fullTexts: okData(fullTextItems) }, items };
+      }
+    }
+  } catch (error) {
+    return { results: {}, items: pmids.map(pmid => errorItem(pmid, error)) };
+  }
+}
+
+// Append the results of one chunk to the accumulated batch results
+export function mergeBatchResults(
+  target: BatchProcessingResult['results'],
+  chunk: BatchProcessingResult['results']
+): void {
+  if (chunk.abstracts) {
+    target.abstracts = [...(target.abstracts || []), ...chunk.abstracts];
+  }
+  if (chunk.citations) {
+    target.citations = [...(target.citations || []), ...chunk.citations];
+  }
+  if (chunk.similar) {
+    target.similar = { ...(target.similar || {}), ...chunk.similar };
+  }
+  if (chunk.risExports) {
+    target.risExports = target.risExports ? `${target.risExports}\n\n${chunk.risExports}` : chunk.risExports;
+  }
+  if (chunk.fullTexts) {
+    target.fullTexts = [...(target.fullTexts || []), ...chunk.fullTexts];
+  }
+}
+
+// Record the result item of a batch operation
+export function setBatchOperationItem(op: BatchOperation, item: ItemResult = failedItem(op.pmid, 'upstream_error', 'No result returned')): void {
+  op.item = item;
+  op.status = item.status === 'ok' ? 'completed' : 'error';
+  op.error = item.status === 'ok' ? undefined : item.message;
+}
+
+// Batch processing function. Operations are split into chunks that run in a
+// bounded worker pool; the shared NCBI rate limiter paces the requests.
 export async function batchProcess(
   pmids: string[],
   operations: string[],
-  maxConcurrency: number = 3
+  maxConcurrency: number = 3,
+  cacheMode: CacheMode = 'default'
 ): Promise<BatchProcessingResult> {
   const taskId = `batch_${Date.now()}`;
+  const operationTypes = [...new Set(operations)] as BatchOperationType[];
   const batchOperations: BatchOperation[] = [];
   
   // Initialize operations for each PMID
   for (const pmid of pmids) {
-    for (const operation of operations) {
+    for (const operation of operationTypes) {
       batchOperations.push({
         pmid,
-        operation: operation as any,
+        operation,
         status: 'pending'
       });
     }
   }
   
-  const results: BatchProcessingResult['results'] = {};
-  
-  // Group operations by type for efficiency
-  const operationGroups: { [key: string]: string[] } = {};
-  for (const pmid of pmids) {
-    for (const operation of operations) {
-      if (!operationGroups[operation]) {
-        operationGroups[operation] = [];
-      }
-      operationGroups[operation].push(pmid);
+  // Chunks of every operation share one pool
+  const units: { operation: BatchOperationType; tasks: BatchOperation[] }[] = [];
+  for (const operation of operationTypes) {
+    const tasks = batchOperations.filter(op => op.operation === operation);
+    for (let i = 0; i < tasks.length; i += BATCH_CHUNK_SIZES[operation]) {
+      units.push({ operation, tasks: tasks.slice(i, i + BATCH_CHUNK_SIZES[operation]) });
     }
   }
   
   try {
-    // Process each operation type
-    for (const [operation, pmidList] of Object.entries(operationGroups)) {
-      console.error(`Processing ${operation} for ${pmidList.length} PMIDs...`);
-      
-      // Update status to processing
-      batchOperations
-        .filter(op => op.operation === operation)
-        .forEach(op => op.status = 'processing');
+    // Chunk results are kept by position and merged afterwards, so the output
+    // order does not depend on which chunk finished first
+    const chunkResults: BatchProcessingResult['results'][] = [];
+    
+    await runWorkerPool(units, maxConcurrency, async ({ operation, tasks }, index) => {
+      tasks.forEach(op => op.status = 'processing');
       
       try {
-        switch (operation) {
-          case 'abstract':
-            // Process in chunks to respect rate limits
-            results.abstracts = [];
-            for (let i = 0; i < pmidList.length; i += 20) {
-              const chunk = pmidList.slice(i, i + 20);
-              const abstracts = await getFullAbstract(chunk);
-              results.abstracts.push(...abstracts);
-              if (i + 20 < pmidList.length) {
-                await delay(300); // Rate limiting
-              }
-            }
-            break;
-            
-          case 'citations':
-            results.citations = [];
-            console.error(`Processing citations for ${pmidList.length} PMIDs...`);
-            for (let i = 0; i < pmidList.length; i += 10) {
-              const chunk = pmidList.slice(i, i + 10);
-              console.error(`Processing citation chunk ${i/10 + 1}: PMIDs ${chunk.join(', ')}`);
-              const citations = await getCitationCounts(chunk);
-              console.error(`Got ${citations.length} citation results for chunk`);
-              results.citations.push(...citations);
-              if (i + 10 < pmidList.length) {
-                await delay(400); // Rate limiting
-              }
-            }
-            console.error(`Total citation results: ${results.citations.length}`);
-            break;
-            
-          case 'similar':
-            results.similar = {};
-            for (const pmid of pmidList) {
-              try {
-                const similar = await findSimilarArticles(pmid, 5); // Limit to 5 for batch
-                results.similar[pmid] = similar;
-                await delay(300); // Rate limiting
-              } catch (error) {
-                console.error(`Error finding similar articles for ${pmid}:`, error);
-                results.similar[pmid] = [];
-              }
-            }
-            break;
-            
-          case 'ris_export':
-            // Process in chunks for RIS export
-            const risChunks: string[] = [];
-            for (let i = 0; i < pmidList.length; i += 50) {
-              const chunk = pmidList.slice(i, i + 50);
-              try {
-                const risResult = await exportRIS(chunk);
-                if (risResult.risData) {
-                  risChunks.push(risResult.risData);
-                }
-                if (i + 50 < pmidList.length) {
-                  await delay(500); // Rate limiting
-                }
-              } catch (error) {
-                console.error(`Error exporting RIS for chunk:`, error);
-              }
-            }
-            results.risExports = risChunks.join('\n\n');
-            break;
-            
-          case 'full_text':
-            results.fullTexts = [];
-            // Filter PMIDs that have PMC IDs first
-            const articlesWithPMC = await getArticleDetails(pmidList);
-            const pmcIds = articlesWithPMC
-              .filter(article => article.pmcId)
-              .map(article => article.pmcId!);
-            
-            if (pmcIds.length > 0) {
-              for (let i = 0; i < pmcIds.length; i += 10) {
-                const chunk = pmcIds.slice(i, i + 10);
-                try {
-                  const fullTexts = await getFullText(chunk);
-                  results.fullTexts.push(...fullTexts);
-                  if (i + 10 < pmcIds.length) {
-                    await delay(600); // Rate limiting
-                  }
-                } catch (error) {
-                  console.error(`Error getting full text for chunk:`, error);
-                }
-              }
-            }
-            break;
-        }
-        
-        // Mark operations as completed
-        batchOperations
-          .filter(op => op.operation === operation)
-          .forEach(op => op.status = 'completed');
-          
+        const { results, items } = await processBatchChunk(operation, tasks.map(op => op.pmid), cacheMode);
+        chunkResults[index] = results;
+        tasks.forEach(op => setBatchOperationItem(op, items.find(item => item.id === op.pmid)));
       } catch (error) {
-        console.error(`Error processing ${operation}:`, error);
-        // Mark operations as failed
-        batchOperations
-          .filter(op => op.operation === operation)
-          .forEach(op => {
-            op.status = 'error';
-            op.error = error instanceof Error ? error.message : String(error);
-          });
+        console.error(`Error processing ${operation} for ${tasks.length} PMIDs:`, error);
+        tasks.forEach(op => setBatchOperationItem(op, errorItem(op.pmid, error)));
       }
-    }
+    });
+    
+    const results: BatchProcessingResult['results'] = {};
+    chunkResults.forEach(chunk => { if (chunk) mergeBatchResults(results, chunk); });
     
     // Calculate summary
     const summary = {
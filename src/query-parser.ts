@@ -0,0 +1,510 @@
+// PubMed query parser, validator and formatter.
+// Builds an AST of terms, phrases, field tags, wildcards, proximity searches and
+// Boolean operators, collecting diagnostics instead of failing on the first problem.
+
+export type QueryOperator = 'AND' | 'OR' | 'NOT';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface QueryDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  start: number; // Character offsets into the original query
+  end: number;
+}
+
+export interface QueryTerm {
+  type: 'term';
+  text: string;
+  quoted: boolean;
+  field?: string; // Canonical field tag, e.g. 'tiab', 'mh'
+  rawField?: string; // Tag as written, without brackets
+  noExplode?: boolean; // [mh:noexp]
+  proximity?: number; // "a b"[tiab:~3]
+  wildcard: boolean;
+  rangeEnd?: QueryTerm; // Upper bound of a range, e.g. 2020[dp] : 2023[dp]
+  start: number;
+  end: number;
+}
+
+export interface QueryBoolean {
+  type: 'boolean';
+  operator: QueryOperator;
+  operands: QueryNode[];
+  grouped: boolean; // Written inside parentheses
+  start: number;
+  end: number;
+}
+
+export type QueryNode = QueryTerm | QueryBoolean;
+
+export interface ParsedQuery {
+  query: string;
+  ast: QueryNode | null;
+  diagnostics: QueryDiagnostic[];
+  valid: boolean; // No error-level diagnostics
+}
+
+export type QueryFormatStyle = 'compact' | 'pretty';
+
+export interface QueryValidationResult extends ParsedQuery {
+  normalized?: string;
+  pretty?: string;
+  terms: QueryTerm[];
+  fieldsUsed: string[];
+}
+
+// PubMed search field tags: abbreviations and full names → canonical abbreviation
+const FIELD_TAG_ALIASES: Record<string, string> = {
+  'ad': 'ad', 'affiliation': 'ad',
+  'all': 'all', 'all fields': 'all',
+  'aid': 'aid', 'article identifier': 'aid',
+  'au': 'au', 'author': 'au',
+  'auid': 'auid', 'author - identifier': 'auid',
+  '1au': '1au', 'author - first': '1au',
+  'lastau': 'lastau', 'author - last': 'lastau',
+  'cn': 'cn', 'author - corporate': 'cn',
+  'fau': 'fau', 'author - full': 'fau',
+  'book': 'book',
+  'cois': 'cois', 'conflict of interest statements': 'cois',
+  'dcom': 'dcom', 'date - completion': 'dcom',
+  'crdt': 'crdt', 'date - create': 'crdt',
+  'edat': 'edat', 'date - entry': 'edat', 'date - entrez': 'edat',
+  'mhda': 'mhda', 'date - mesh': 'mhda',
+  'lr': 'lr', 'mdat': 'lr', 'date - modification': 'lr',
+  'dp': 'dp', 'pdat': 'dp', 'date - publication': 'dp', 'publication date': 'dp',
+  'rn': 'rn', 'ec/rn number': 'rn',
+  'ed': 'ed', 'editor': 'ed',
+  'sb': 'sb', 'filter': 'sb', 'subset': 'sb',
+  'gr': 'gr', 'grants and funding': 'gr', 'grant number': 'gr',
+  'isbn': 'isbn',
+  'ir': 'ir', 'investigator': 'ir',
+  'fir': 'fir', 'investigator - full': 'fir',
+  'ip': 'ip', 'issue': 'ip',
+  'ta': 'ta', 'jour': 'ta', 'journal': 'ta',
+  'la': 'la', 'lang': 'la', 'language': 'la',
+  'lid': 'lid', 'location id': 'lid',
+  'majr': 'majr', 'mesh major topic': 'majr',
+  'sh': 'sh', 'mesh subheading': 'sh', 'subheading': 'sh',
+  'mh': 'mh', 'mesh': 'mh', 'mesh terms': 'mh',
+  'jid': 'jid', 'nlm unique id': 'jid',
+  'ot': 'ot', 'other term': 'ot',
+  'pg': 'pg', 'pagination': 'pg',
+  'ps': 'ps', 'personal name as subject': 'ps',
+  'pa': 'pa', 'pharmacological action': 'pa',
+  'pl': 'pl', 'place of publication': 'pl',
+  'pmid': 'pmid', 'uid': 'pmid',
+  'pmc': 'pmc', 'pmcid': 'pmc',
+  'doi': 'doi',
+  'pt': 'pt', 'publication type': 'pt',
+  'pubn': 'pubn', 'publisher': 'pubn',
+  'si': 'si', 'secondary source id': 'si',
+  'nm': 'nm', 'supplementary concept': 'nm',
+  'tw': 'tw', 'text word': 'tw',
+  'ti': 'ti', 'title': 'ti',
+  'tiab': 'tiab', 'title/abstract': 'tiab',
+  'ab': 'ab', 'abstract': 'ab',
+  'tt': 'tt', 'transliterated title': 'tt',
+  'vi': 'vi', 'volume': 'vi'
+};
+
+// Fields that accept the :noexp modifier and the proximity (:~N) modifier
+const NO_EXPLODE_FIELDS = new Set(['mh', 'majr', 'sh']);
+const PROXIMITY_FIELDS = new Set(['ti', 'tiab', 'ad']);
+
+// PubMed requires at least four characters before a truncation wildcard
+const MIN_TRUNCATION_STEM = 4;
+
+const OPERATORS = new Set<string>(['AND', 'OR', 'NOT']);
+
+type TokenType = 'lparen' | 'rparen' | 'operator' | 'word' | 'phrase' | 'tag';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(query: string, diagnostics: QueryDiagnostic[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const close = query.indexOf('"', i + 1);
+      const end = close < 0 ? query.length : close + 1;
+      if (close < 0) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'unbalanced_quotes',
+          message: `Unclosed quotation mark at position ${i}`,
+          start: i,
+          end
+        });
+      }
+      tokens.push({ type: 'phrase', value: query.slice(i + 1, close < 0 ? end : close), start: i, end });
+      i = end;
+    } else if (char === '[') {
+      const close = query.indexOf(']', i + 1);
+      const end = close < 0 ? query.length : close + 1;
+      if (close < 0) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'unterminated_tag',
+          message: `Field tag opened at position ${i} is never closed with "]"`,
+          start: i,
+          end
+        });
+      }
+      tokens.push({ type: 'tag', value: query.slice(i + 1, close < 0 ? end : close), start: i, end });
+      i = end;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s()"\[]/.test(query[end])) {
+        if (query[end] === ']') break;
+        end++;
+      }
+      if (end === i) {
+        // Stray closing bracket
+        diagnostics.push({
+          severity: 'error',
+          code: 'unbalanced_brackets',
+          message: `Unexpected "]" at position ${i}`,
+          start: i,
+          end: i + 1
+        });
+        i++;
+        continue;
+      }
+      const value = query.slice(i, end);
+      tokens.push({ type: OPERATORS.has(value) ? 'operator' : 'word', value, start: i, end });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive-descent parser over the token list. Problems are reported as
+// diagnostics and parsing continues so that every issue is listed at once.
+function parseTokens(tokens: Token[], diagnostics: QueryDiagnostic[]): QueryNode | null {
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const report = (severity: DiagnosticSeverity, code: string, message: string, span: { start: number; end: number }) => {
+    diagnostics.push({ severity, code, message, start: span.start, end: span.end });
+  };
+
+  const combine = (left: QueryNode, operator: QueryOperator, right: QueryNode): QueryNode => {
+    if (left.type === 'boolean' && !left.grouped) {
+      if (left.operator === operator) {
+        left.operands.push(right);
+        left.end = right.end;
+        return left;
+      }
+      // AND ... NOT reads the same either way; OR mixed with anything else is the usual trap
+      if (left.operator === 'OR' || operator === 'OR') {
+        report(
+          'warning',
+          'mixed_operators',
+          `Mixing ${left.operator} and ${operator} without parentheses: PubMed evaluates left to right, so this means (${formatQuery(left)}) ${operator} ...`,
+          { start: left.start, end: right.end }
+        );
+      }
+    }
+
+    return { type: 'boolean', operator, operands: [left, right], grouped: false, start: left.start, end: right.end };
+  };
+
+  const applyFieldTag = (term: QueryTerm, tag: Token) => {
+    term.rawField = tag.value;
+    const [base, ...modifiers] = tag.value.split(':');
+    const field = FIELD_TAG_ALIASES[base.trim().toLowerCase().replace(/\s+/g, ' ')];
+
+    if (!field) {
+      report('warning', 'unknown_field_tag', `Unknown field tag [${tag.value}]; PubMed will ignore it and search all fields`, tag);
+      return;
+    }
+    term.field = field;
+
+    for (const modifier of modifiers.map(value => value.trim().toLowerCase())) {
+      const proximity = modifier.match(/^~(\d+)$/);
+      if (modifier === 'noexp') {
+        if (NO_EXPLODE_FIELDS.has(field)) {
+          term.noExplode = true;
+        } else {
+          report('warning', 'invalid_modifier', `:noexp only applies to MeSH fields ([mh], [majr], [sh]), not [${tag.value}]`, tag);
+        }
+      } else if (proximity) {
+        if (!PROXIMITY_FIELDS.has(field)) {
+          report('error', 'invalid_proximity', `Proximity searching only works with [ti], [tiab] and [ad], not [${tag.value}]`, tag);
+        } else if (!term.quoted || term.text.trim().split(/\s+/).length < 2) {
+          report('error', 'invalid_proximity', `Proximity searching needs a quoted phrase of at least two words, e.g. "a b"[${field}:~3]`, term);
+        } else {
+          term.proximity = parseInt(proximity[1], 10);
+        }
+      } else {
+        report('warning', 'invalid_modifier', `Unknown field tag modifier ":${modifier}" in [${tag.value}]`, tag);
+      }
+    }
+  };
+
+  const lintTerm = (term: QueryTerm) => {
+    if (term.quoted && term.text.trim().length === 0) {
+      report('error', 'empty_phrase', `Empty quoted phrase at position ${term.start}`, term);
+      return;
+    }
+
+    if (!term.quoted) {
+      const lowercaseOperator = term.text.split(/\s+/).find(word => /^(and|or|not)$/i.test(word));
+      if (lowercaseOperator) {
+        report('warning', 'lowercase_operator', `"${lowercaseOperator}" is not uppercase, so PubMed may search it as a word; write ${lowercaseOperator.toUpperCase()} to use it as an operator`, term);
+      }
+    }
+
+    for (const word of term.text.split(/\s+/)) {
+      const star = word.indexOf('*');
+      if (star < 0) continue;
+
+      if (star === 0) {
+        report('warning', 'leading_wildcard', `Leading wildcard in "${word}" is not supported by PubMed`, term);
+      } else if (star < word.length - 1) {
+        report('warning', 'internal_wildcard', `Wildcard inside "${word}" is not supported; PubMed only truncates at the end of a word`, term);
+      } else if (star < MIN_TRUNCATION_STEM) {
+        report('warning', 'short_truncation', `Truncated stem "${word}" is shorter than ${MIN_TRUNCATION_STEM} characters; PubMed ignores the wildcard or matches too many variants`, term);
+      } else {
+        report('info', 'truncation', `Truncation in "${word}" turns off automatic term mapping for this term`, term);
+      }
+    }
+  };
+
+  // A quoted phrase, or a run of bare words, optionally followed by a field tag.
+  // "2020/01/01"[dp] : "2020/12/31"[dp] is read as a single range term.
+  const parseTerm = (): QueryTerm => {
+    const first = tokens[position++];
+    const words = [first.value];
+    let end = first.end;
+
+    if (first.type === 'word') {
+      while (peek()?.type === 'word' && peek()!.value !== ':') {
+        const word = tokens[position++];
+        words.push(word.value);
+        end = word.end;
+      }
+    }
+
+    const term: QueryTerm = {
+      type: 'term',
+      text: words.join(' '),
+      quoted: first.type === 'phrase',
+      wildcard: words.some(word => word.includes('*')),
+      start: first.start,
+      end
+    };
+
+    const tag = peek();
+    if (tag?.type === 'tag') {
+      position++;
+      term.end = tag.end;
+      applyFieldTag(term, tag);
+    }
+
+    const separator = peek();
+    if (separator?.type === 'word' && separator.value === ':') {
+      position++;
+      const next = peek();
+      if (next && (next.type === 'word' || next.type === 'phrase')) {
+        term.rangeEnd = parseTerm();
+        term.end = term.rangeEnd.end;
+      } else {
+        report('error', 'invalid_range', `Range at position ${separator.start} has no end value`, separator);
+      }
+      return term;
+    }
+
+    lintTerm(term);
+    return term;
+  };
+
+  const parseOperand = (depth: number): QueryNode | null => {
+    const token = peek();
+    if (!token || token.type === 'rparen') return null;
+
+    if (token.type === 'operator') {
+      // Operator with no left operand, e.g. "AND cancer" or "a OR AND b"
+      position++;
+      report('error', 'missing_operand', `"${token.value}" at position ${token.start} has nothing on its left`, token);
+      return parseOperand(depth);
+    }
+
+    if (token.type === 'lparen') {
+      position++;
+      const inner = parseExpression(depth + 1);
+      const close = peek();
+
+      if (close?.type === 'rparen') {
+        position++;
+      } else {
+        report('error', 'unbalanced_parentheses', `"(" at position ${token.start} is never closed`, token);
+      }
+
+      const end = close?.type === 'rparen' ? close.end : (inner?.end ?? token.end);
+      if (!inner) {
+        report('error', 'empty_group', `Empty parentheses at position ${token.start}`, { start: token.start, end });
+      }
+
+      const tag = peek();
+      if (tag?.type === 'tag') {
+        position++;
+        report('warning', 'tag_on_group', `Field tag [${tag.value}] cannot be applied to a parenthesized group and is ignored; tag each term instead`, tag);
+      }
+
+      if (inner?.type === 'boolean') {
+        inner.grouped = true;
+        inner.start = token.start;
+        inner.end = end;
+      }
+      return inner;
+    }
+
+    if (token.type === 'tag') {
+      position++;
+      report('warning', 'orphan_tag', `Field tag [${token.value}] at position ${token.start} does not follow a term and is ignored`, token);
+      return parseOperand(depth);
+    }
+
+    return parseTerm();
+  };
+
+  // PubMed evaluates Boolean operators left to right with equal precedence
+  const parseExpression = (depth: number): QueryNode | null => {
+    let left = parseOperand(depth);
+
+    for (;;) {
+      const token = peek();
+      if (!token) break;
+
+      if (token.type === 'rparen') {
+        if (depth > 0) break;
+        position++;
+        report('error', 'unbalanced_parentheses', `Unmatched ")" at position ${token.start}`, token);
+        continue;
+      }
+
+      let operator: QueryOperator = 'AND';
+      if (token.type === 'operator') {
+        operator = token.value as QueryOperator;
+        position++;
+      } else {
+        report('info', 'implicit_and', `No operator before position ${token.start}; PubMed combines these with AND`, token);
+      }
+
+      const right = parseOperand(depth);
+      if (!right) {
+        report('error', 'missing_operand', `"${operator}" at position ${token.start} has nothing on its right`, token);
+        break;
+      }
+      if (!left) {
+        left = right;
+        continue;
+      }
+
+      left = combine(left, operator, right);
+    }
+
+    return left;
+  };
+
+  return parseExpression(0);
+}
+
+// Parse a PubMed query into an AST with diagnostics
+export function parseQuery(query: string): ParsedQuery {
+  const diagnostics: QueryDiagnostic[] = [];
+  const tokens = tokenize(query, diagnostics);
+  const ast = parseTokens(tokens, diagnostics);
+
+  if (!ast && !diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+    diagnostics.push({ severity: 'error', code: 'empty_query', message: 'Query is empty', start: 0, end: query.length });
+  }
+
+  diagnostics.sort((a, b) => a.start - b.start);
+  return {
+    query,
+    ast,
+    diagnostics,
+    valid: !diagnostics.some(diagnostic => diagnostic.severity === 'error')
+  };
+}
+
+function formatTerm(term: QueryTerm): string {
+  const text = term.quoted ? `"${term.text}"` : term.text;
+  const range = term.rangeEnd ? ` : ${formatTerm(term.rangeEnd)}` : '';
+  if (!term.field) {
+    return (term.rawField !== undefined ? `${text}[${term.rawField}]` : text) + range;
+  }
+
+  const modifier = term.proximity !== undefined ? `:~${term.proximity}` : term.noExplode ? ':noexp' : '';
+  return `${text}[${term.field}${modifier}]${range}`;
+}
+
+// Operands other than simple terms are parenthesized when their operator differs from the
+// parent's, and on the right of NOT, so the output does not depend on left-to-right evaluation
+function needsParentheses(parent: QueryBoolean, child: QueryNode, index: number): boolean {
+  return child.type === 'boolean' && (child.operator !== parent.operator || (parent.operator === 'NOT' && index > 0));
+}
+
+function formatCompact(node: QueryNode): string {
+  if (node.type === 'term') return formatTerm(node);
+
+  return node.operands
+    .map((operand, index) => needsParentheses(node, operand, index) ? `(${formatCompact(operand)})` : formatCompact(operand))
+    .join(` ${node.operator} `);
+}
+
+function formatPretty(node: QueryNode, indent: string): string {
+  if (node.type === 'term') return formatTerm(node);
+
+  return node.operands
+    .map((operand, index) => {
+      const text = needsParentheses(node, operand, index)
+        ? `(${formatPretty(operand, `${indent}  `)})`
+        : formatPretty(operand, indent);
+      return index === 0 ? text : `${node.operator} ${text}`;
+    })
+    .join(`\n${indent}`);
+}
+
+// Render an AST back to query syntax with canonical field tags and explicit grouping
+export function formatQuery(node: QueryNode, style: QueryFormatStyle = 'compact'): string {
+  return style === 'pretty' ? formatPretty(node, '') : formatCompact(node);
+}
+
+export function collectTerms(node: QueryNode | null): QueryTerm[] {
+  if (!node) return [];
+  return node.type === 'term' ? [node] : node.operands.flatMap(collectTerms);
+}
+
+// Parse, lint and (when the query is syntactically valid) normalize a query
+export function validateQuery(query: string): QueryValidationResult {
+  const parsed = parseQuery(query);
+  const terms = collectTerms(parsed.ast);
+
+  return {
+    ...parsed,
+    normalized: parsed.valid && parsed.ast ? formatQuery(parsed.ast) : undefined,
+    pretty: parsed.valid && parsed.ast ? formatQuery(parsed.ast, 'pretty') : undefined,
+    terms,
+    fieldsUsed: [...new Set(terms.map(term => term.field).filter((field): field is string => Boolean(field)))]
+  };
+}
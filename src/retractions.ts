@@ -0,0 +1,147 @@
+import { CacheMode } from './cache.js';
+import { EditorialNotice, EditorialStatus, getArticleItems, searchPubMed } from './pubmed-api.js';
+import { ItemResult, errorItem, withoutData } from './item-results.js';
+
+// Retraction and correction checks for reference lists: resolves PMIDs (or RIS
+// records) to PubMed records and reports their editorial status with links to
+// the retraction, erratum and expression-of-concern notices.
+
+export interface RetractionCheckInput {
+  pmids?: string[];
+  ris?: string; // RIS file contents; records are matched by PMID, falling back to DOI
+}
+
+export interface RetractionCheckOptions {
+  cacheMode?: CacheMode;
+}
+
+export interface RetractionCheckItem {
+  pmid: string;
+  title: string;
+  journal: string;
+  publicationDate: string;
+  doi?: string;
+  status: EditorialStatus;
+  notices: EditorialNotice[];
+}
+
+export interface RetractionCheckResult {
+  checked: number;
+  flagged: RetractionCheckItem[]; // Retracted, partially retracted, under concern or corrected
+  notices: RetractionCheckItem[]; // Items that are themselves editorial notices
+  clean: RetractionCheckItem[];
+  notFound: string[]; // PMIDs with no PubMed record
+  unresolved: string[]; // RIS records that could not be matched to a PMID
+  items: ItemResult[]; // One per PMID checked and per RIS DOI whose lookup failed
+}
+
+export interface RisIdentifiers {
+  pmids: string[];
+  dois: string[]; // DOIs of records without a PMID
+  unidentified: string[]; // Titles of records with neither
+}
+
+export const EDITORIAL_STATUS_LABELS: Record<EditorialStatus, string> = {
+  retracted: '🚫 RETRACTED',
+  partially_retracted: '⚠️ PARTIALLY RETRACTED',
+  expression_of_concern: '⚠️ EXPRESSION OF CONCERN',
+  corrected: '📝 Corrected (erratum published)',
+  retraction_notice: '📢 Retraction notice',
+  editorial_notice: '📢 Editorial notice (erratum or expression of concern)',
+  none: 'No retraction or correction found'
+};
+
+const FLAGGED_STATUSES: EditorialStatus[] = ['retracted', 'partially_retracted', 'expression_of_concern', 'corrected'];
+const NOTICE_STATUSES: EditorialStatus[] = ['retraction_notice', 'editorial_notice'];
+
+// RIS fields that carry PubMed IDs: AN (accession number) and ID in PubMed exports
+const RIS_PMID_TAGS = ['AN', 'ID', 'PM'];
+
+function risField(record: string, tag: string): string[] {
+  const pattern = new RegExp(`^${tag}  - (.*)$`, 'gm');
+  return [...record.matchAll(pattern)].map(match => match[1].trim()).filter(Boolean);
+}
+
+// Pull PMIDs (or DOIs when no PMID is present) from each record of an RIS file
+export function extractRisIdentifiers(ris: string): RisIdentifiers {
+  const identifiers: RisIdentifiers = { pmids: [], dois: [], unidentified: [] };
+  const records = ris.split(/^ER  -.*$/m).filter(record => /^TY  - /m.test(record));
+
+  for (const record of records) {
+    const pmid = RIS_PMID_TAGS.flatMap(tag => risField(record, tag))
+      .concat(risField(record, 'UR').map(url => url.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/)?.[1] || ''))
+      .map(value => value.replace(/^PMID:\s*/i, ''))
+      .find(value => /^\d{1,9}$/.test(value));
+    const doi = risField(record, 'DO')[0]?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+
+    if (pmid) {
+      identifiers.pmids.push(pmid);
+    } else if (doi) {
+      identifiers.dois.push(doi);
+    } else {
+      identifiers.unidentified.push(risField(record, 'TI')[0] || risField(record, 'T1')[0] || 'Untitled record');
+    }
+  }
+
+  return identifiers;
+}
+
+// Check PMIDs and/or RIS records for retractions, corrections and expressions of concern
+export async function checkRetractions(
+  input: RetractionCheckInput,
+  options: RetractionCheckOptions = {}
+): Promise<RetractionCheckResult> {
+  const cacheMode = options.cacheMode ?? 'default';
+  const pmids = (input.pmids || []).map(pmid => pmid.trim()).filter(Boolean);
+  const unresolved: string[] = [];
+  const lookupItems: ItemResult[] = [];
+
+  try {
+    if (input.ris) {
+      const identifiers = extractRisIdentifiers(input.ris);
+      pmids.push(...identifiers.pmids);
+      unresolved.push(...identifiers.unidentified.map(title => `No PMID or DOI: ${title}`));
+
+      // A failed lookup only leaves its own record unchecked
+      for (const doi of identifiers.dois) {
+        try {
+          const result = await searchPubMed(`"${doi}"[doi]`, 1, 0, { cacheMode });
+          if (result.idList.length > 0) {
+            pmids.push(result.idList[0]);
+          } else {
+            unresolved.push(`DOI not found in PubMed: ${doi}`);
+          }
+        } catch (error) {
+          lookupItems.push(errorItem(doi, error));
+        }
+      }
+    }
+
+    const uniquePmids = [...new Set(pmids)];
+    const articleItems = await getArticleItems(uniquePmids, cacheMode);
+    const articles = articleItems.filter(item => item.data).map(item => item.data!);
+
+    const items: RetractionCheckItem[] = articles.map(article => ({
+      pmid: article.pmid,
+      title: article.title,
+      journal: article.journal,
+      publicationDate: article.publicationDate,
+      doi: article.doi || undefined,
+      status: article.editorialStatus,
+      notices: article.editorialNotices
+    }));
+
+    return {
+      checked: uniquePmids.length,
+      flagged: items.filter(item => FLAGGED_STATUSES.includes(item.status)),
+      notices: items.filter(item => NOTICE_STATUSES.includes(item.status)),
+      clean: items.filter(item => item.status === 'none'),
+      notFound: articleItems.filter(item => item.status === 'not_found').map(item => item.id),
+      unresolved,
+      items: [...lookupItems, ...articleItems.map(withoutData)]
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Retraction check failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,308 @@
+// Structured search filters compiled into PubMed/E-utilities syntax
+
+// Field tag mappings
+export const FIELD_TAGS: Record<string, string> = {
+  'title': '[ti]',
+  'abstract': '[ab]',
+  'author': '[au]',
+  'journal': '[ta]',
+  'text word': '[tw]',
+  'mesh': '[MeSH Terms]',
+  'major': '[MeSH Major Topic]',
+  'publication type': '[pt]',
+  'language': '[la]',
+  'publication date': '[pdat]',
+  'entrez date': '[edat]',
+  'modification date': '[mdat]',
+  'subset': '[sb]'
+};
+
+export type DateType = 'publication' | 'entrez' | 'modification';
+
+export type AgeGroup =
+  | 'newborn'
+  | 'infant'
+  | 'preschool_child'
+  | 'child'
+  | 'adolescent'
+  | 'young_adult'
+  | 'adult'
+  | 'middle_aged'
+  | 'aged'
+  | 'aged_80_and_over';
+
+export interface SearchFilters {
+  dateFrom?: string; // YYYY, YYYY/MM or YYYY/MM/DD ('-' separators also accepted)
+  dateTo?: string;
+  dateType?: DateType;
+  publicationTypes?: string[];
+  languages?: string[];
+  humansOnly?: boolean;
+  freeFullTextOnly?: boolean;
+  hasAbstract?: boolean;
+  ageGroups?: AgeGroup[];
+}
+
+export interface CompiledSearchFilters {
+  query: string; // Full term sent to esearch
+  standaloneQuery: string; // Equivalent term with the date range inlined instead of passed as parameters
+  params: Record<string, string>; // mindate/maxdate/datetype
+  clauses: string[]; // Filter clauses ANDed onto the base query
+  descriptions: string[]; // Human-readable summary of applied filters
+}
+
+// E-utilities datetype values
+const DATE_TYPE_PARAMS: Record<DateType, string> = {
+  publication: 'pdat',
+  entrez: 'edat',
+  modification: 'mdat'
+};
+
+// Field tags for the same ranges written into the query itself
+const DATE_TYPE_TAGS: Record<DateType, string> = {
+  publication: FIELD_TAGS['publication date'],
+  entrez: FIELD_TAGS['entrez date'],
+  modification: FIELD_TAGS['modification date']
+};
+
+const DATE_TYPE_LABELS: Record<DateType, string> = {
+  publication: 'publication date',
+  entrez: 'Entrez date',
+  modification: 'modification date'
+};
+
+// Age group filters map to MeSH check tags
+export const AGE_GROUP_MESH: Record<AgeGroup, string> = {
+  newborn: 'Infant, Newborn',
+  infant: 'Infant',
+  preschool_child: 'Child, Preschool',
+  child: 'Child',
+  adolescent: 'Adolescent',
+  young_adult: 'Young Adult',
+  adult: 'Adult',
+  middle_aged: 'Middle Aged',
+  aged: 'Aged',
+  aged_80_and_over: 'Aged, 80 and over'
+};
+
+// Canonical publication types, keyed by lowercase name or common alias
+const PUBLICATION_TYPES: Record<string, string> = {
+  'clinical trial': 'Clinical Trial',
+  'clinical trial, phase i': 'Clinical Trial, Phase I',
+  'clinical trial, phase ii': 'Clinical Trial, Phase II',
+  'clinical trial, phase iii': 'Clinical Trial, Phase III',
+  'clinical trial, phase iv': 'Clinical Trial, Phase IV',
+  'controlled clinical trial': 'Controlled Clinical Trial',
+  'randomized controlled trial': 'Randomized Controlled Trial',
+  'rct': 'Randomized Controlled Trial',
+  'pragmatic clinical trial': 'Pragmatic Clinical Trial',
+  'meta-analysis': 'Meta-Analysis',
+  'meta analysis': 'Meta-Analysis',
+  'systematic review': 'Systematic Review',
+  'review': 'Review',
+  'observational study': 'Observational Study',
+  'comparative study': 'Comparative Study',
+  'multicenter study': 'Multicenter Study',
+  'case reports': 'Case Reports',
+  'case report': 'Case Reports',
+  'practice guideline': 'Practice Guideline',
+  'guideline': 'Guideline',
+  'consensus development conference': 'Consensus Development Conference',
+  'validation study': 'Validation Study',
+  'evaluation study': 'Evaluation Study',
+  'editorial': 'Editorial',
+  'letter': 'Letter',
+  'comment': 'Comment',
+  'news': 'News',
+  'journal article': 'Journal Article',
+  'preprint': 'Preprint',
+  'retracted publication': 'Retracted Publication',
+  'retraction of publication': 'Retraction of Publication',
+  'published erratum': 'Published Erratum'
+};
+
+// Common ISO 639-1 codes mapped to PubMed language names
+const LANGUAGE_CODES: Record<string, string> = {
+  'en': 'english',
+  'de': 'german',
+  'fr': 'french',
+  'es': 'spanish',
+  'it': 'italian',
+  'pt': 'portuguese',
+  'ja': 'japanese',
+  'zh': 'chinese',
+  'ru': 'russian',
+  'ko': 'korean',
+  'nl': 'dutch',
+  'pl': 'polish'
+};
+
+// Normalize a date to YYYY, YYYY/MM or YYYY/MM/DD, or return null if invalid
+export function normalizeFilterDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})(?:[\/-](\d{1,2})(?:[\/-](\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  if (month && (parseInt(month) < 1 || parseInt(month) > 12)) return null;
+  if (day && (parseInt(day) < 1 || parseInt(day) > 31)) return null;
+
+  return [year, month?.padStart(2, '0'), day?.padStart(2, '0')].filter(Boolean).join('/');
+}
+
+// Compare normalized dates; missing month/day components sort first
+function compareFilterDates(a: string, b: string): number {
+  const pad = (date: string) => (date + '/00/00').slice(0, 10);
+  return pad(a).localeCompare(pad(b));
+}
+
+function orGroup(terms: string[]): string {
+  return terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0];
+}
+
+// Check parentheses and quotes are balanced in a generated query
+function checkBalanced(query: string): string | null {
+  let depth = 0;
+  let inQuote = false;
+  for (const char of query) {
+    if (char === '"') {
+      inQuote = !inQuote;
+    } else if (!inQuote && char === '(') {
+      depth++;
+    } else if (!inQuote && char === ')') {
+      depth--;
+      if (depth < 0) return 'unbalanced parentheses';
+    }
+  }
+  if (inQuote) return 'unbalanced quotes';
+  if (depth !== 0) return 'unbalanced parentheses';
+  return null;
+}
+
+export function hasSearchFilters(filters: SearchFilters | undefined): boolean {
+  if (!filters) return false;
+  return Boolean(
+    filters.dateFrom ||
+    filters.dateTo ||
+    filters.publicationTypes?.length ||
+    filters.languages?.length ||
+    filters.humansOnly ||
+    filters.freeFullTextOnly ||
+    filters.hasAbstract ||
+    filters.ageGroups?.length
+  );
+}
+
+// Compile structured filters and a base query into an esearch term and parameters.
+// Throws if a filter value is invalid.
+export function compileSearchFilters(baseQuery: string, filters: SearchFilters = {}): CompiledSearchFilters {
+  const errors: string[] = [];
+  const clauses: string[] = [];
+  const descriptions: string[] = [];
+  const params: Record<string, string> = {};
+  let dateClause: string | undefined;
+
+  // Date range → mindate/maxdate/datetype
+  if (filters.dateFrom || filters.dateTo) {
+    const dateType = filters.dateType ?? 'publication';
+    const from = filters.dateFrom ? normalizeFilterDate(filters.dateFrom) : '1800';
+    const to = filters.dateTo ? normalizeFilterDate(filters.dateTo) : '3000';
+
+    if (!from) errors.push(`Invalid dateFrom "${filters.dateFrom}" (expected YYYY, YYYY/MM or YYYY/MM/DD)`);
+    if (!to) errors.push(`Invalid dateTo "${filters.dateTo}" (expected YYYY, YYYY/MM or YYYY/MM/DD)`);
+
+    if (from && to) {
+      if (compareFilterDates(from, to) > 0) {
+        errors.push(`dateFrom (${from}) is after dateTo (${to})`);
+      } else {
+        params.datetype = DATE_TYPE_PARAMS[dateType];
+        params.mindate = from;
+        params.maxdate = to;
+        dateClause = `("${from}"${DATE_TYPE_TAGS[dateType]} : "${to}"${DATE_TYPE_TAGS[dateType]})`;
+        const range = `${filters.dateFrom ? from : 'any'} – ${filters.dateTo ? to : 'present'}`;
+        descriptions.push(`Date range (${DATE_TYPE_LABELS[dateType]}): ${range}`);
+      }
+    }
+  }
+
+  if (filters.publicationTypes?.length) {
+    const types: string[] = [];
+    for (const type of filters.publicationTypes) {
+      const canonical = PUBLICATION_TYPES[type.trim().toLowerCase()];
+      if (canonical) {
+        types.push(canonical);
+      } else {
+        errors.push(`Unknown publication type "${type}"`);
+      }
+    }
+    const unique = [...new Set(types)];
+    if (unique.length > 0) {
+      clauses.push(orGroup(unique.map(type => `"${type}"${FIELD_TAGS['publication type']}`)));
+      descriptions.push(`Publication types: ${unique.join(', ')}`);
+    }
+  }
+
+  if (filters.languages?.length) {
+    const languages: string[] = [];
+    for (const language of filters.languages) {
+      const normalized = language.trim().toLowerCase();
+      const name = LANGUAGE_CODES[normalized] || normalized;
+      if (/^[a-z][a-z ]*$/.test(name)) {
+        languages.push(name);
+      } else {
+        errors.push(`Invalid language "${language}"`);
+      }
+    }
+    const unique = [...new Set(languages)];
+    if (unique.length > 0) {
+      clauses.push(orGroup(unique.map(language => `${language}${FIELD_TAGS['language']}`)));
+      descriptions.push(`Languages: ${unique.join(', ')}`);
+    }
+  }
+
+  if (filters.humansOnly) {
+    clauses.push(`"Humans"${FIELD_TAGS['mesh']}`);
+    descriptions.push('Humans only');
+  }
+
+  if (filters.ageGroups?.length) {
+    const groups = [...new Set(filters.ageGroups)];
+    const unknown = groups.filter(group => !AGE_GROUP_MESH[group]);
+    unknown.forEach(group => errors.push(`Unknown age group "${group}"`));
+    const meshTerms = groups.filter(group => AGE_GROUP_MESH[group]).map(group => AGE_GROUP_MESH[group]);
+    if (meshTerms.length > 0) {
+      clauses.push(orGroup(meshTerms.map(term => `"${term}"${FIELD_TAGS['mesh']}`)));
+      descriptions.push(`Age groups: ${meshTerms.join('; ')}`);
+    }
+  }
+
+  if (filters.freeFullTextOnly) {
+    clauses.push(`"free full text"${FIELD_TAGS['subset']}`);
+    descriptions.push('Free full text only');
+  }
+
+  if (filters.hasAbstract) {
+    clauses.push('hasabstract');
+    descriptions.push('Has abstract');
+  }
+
+  const trimmedQuery = baseQuery.trim();
+  const queryParts = trimmedQuery ? [clauses.length > 0 ? `(${trimmedQuery})` : trimmedQuery, ...clauses] : clauses;
+  const query = queryParts.join(' AND ');
+
+  if (!query) {
+    errors.push('Query is empty and no filters produce search terms');
+  } else {
+    const balanceError = checkBalanced(query);
+    if (balanceError) {
+      errors.push(`Generated query has ${balanceError}: ${query}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid search filters: ${errors.join('; ')}`);
+  }
+
+  const standaloneQuery = dateClause ? [query ? `(${query})` : '', dateClause].filter(Boolean).join(' AND ') : query;
+
+  return { query, standaloneQuery, params, clauses, descriptions };
+}
@@ -0,0 +1,168 @@
+import { PubMedSearchResult, SEARCH_SORT_LABELS, SearchSort } from './pubmed-api.js';
+
+// Session search history: every search run through search_pubmed is numbered
+// (#1, #2, ...) so it can be combined later and exported as a PRISMA-S appendix.
+
+export interface SearchHistoryEntry {
+  number: number;
+  query: string; // As entered, possibly with #n references
+  expandedQuery: string; // #n references replaced by the searches they point to
+  searchTerm: string; // Term sent to esearch (expanded query plus filter clauses)
+  standaloneQuery: string; // searchTerm with date limits inlined; used when referenced as #n
+  queryTranslation?: string;
+  count: number;
+  filters: string[];
+  sort: SearchSort;
+  database: string;
+  source: string; // Tool that ran the search
+  timestamp: string; // ISO 8601
+}
+
+export interface RecordSearchInput {
+  query: string;
+  expandedQuery: string;
+  result: PubMedSearchResult;
+  source: string;
+}
+
+export type SearchHistoryFormat = 'markdown' | 'json';
+
+const DATABASE_NAME = 'MEDLINE/PubMed';
+const INTERFACE_NAME = 'PubMed via NCBI E-utilities (esearch)';
+
+const history: SearchHistoryEntry[] = [];
+
+// References outside quoted phrases, e.g. "#1 AND #3"
+const HISTORY_REFERENCE = /#(\d+)\b/g;
+
+export function recordSearch(input: RecordSearchInput): SearchHistoryEntry {
+  const { result } = input;
+  const searchTerm = result.generatedQuery ?? input.expandedQuery;
+
+  const entry: SearchHistoryEntry = {
+    number: history.length + 1,
+    query: input.query,
+    expandedQuery: input.expandedQuery,
+    searchTerm,
+    standaloneQuery: result.standaloneQuery ?? searchTerm,
+    queryTranslation: result.queryTranslation,
+    count: result.count,
+    filters: result.appliedFilters || [],
+    sort: result.sort,
+    database: DATABASE_NAME,
+    source: input.source,
+    timestamp: new Date().toISOString()
+  };
+
+  history.push(entry);
+  return entry;
+}
+
+export function getSearchHistory(): SearchHistoryEntry[] {
+  return [...history];
+}
+
+export function clearSearchHistory(): void {
+  history.length = 0;
+}
+
+// Replace #n references with the searches they point to, like PubMed Advanced Search.
+// Text inside quoted phrases is left alone.
+export function expandHistoryReferences(query: string): string {
+  return query
+    .split('"')
+    .map((segment, index) => index % 2 === 1 ? segment : segment.replace(HISTORY_REFERENCE, (_, number) => {
+      const entry = history[parseInt(number, 10) - 1];
+      if (!entry) {
+        throw new Error(`Search #${number} is not in the search history (${history.length} searches recorded)`);
+      }
+      return `(${entry.standaloneQuery})`;
+    }))
+    .join('"');
+}
+
+function formatTimestamp(timestamp: string): string {
+  return timestamp.replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function searchDates(entries: SearchHistoryEntry[]): string[] {
+  return [...new Set(entries.map(entry => entry.timestamp.slice(0, 10)))];
+}
+
+// PRISMA-S search appendix (items 1, 8, 9, 13 and 16: database, full strategy,
+// limits, dates of searching and records retrieved)
+function exportMarkdown(entries: SearchHistoryEntry[]): string {
+  const dates = searchDates(entries);
+  const limits = [...new Set(entries.flatMap(entry => entry.filters))];
+  const last = entries[entries.length - 1];
+
+  let markdown = `# Search Strategy Appendix (PRISMA-S)\n\n`;
+  markdown += `**Database:** ${DATABASE_NAME}\n`;
+  markdown += `**Interface:** ${INTERFACE_NAME}\n`;
+  markdown += `**Date(s) searched:** ${dates.join(', ')}\n`;
+  markdown += `**Number of searches:** ${entries.length}\n`;
+  markdown += `**Limits and restrictions:** ${limits.length > 0 ? limits.join('; ') : 'None'}\n`;
+  markdown += `**Records retrieved (final search #${last.number}):** ${last.count.toLocaleString()}\n\n`;
+
+  markdown += `## Search Strategy\n\n`;
+  markdown += `| # | Query | Filters | Sort | Results | Date searched |\n`;
+  markdown += `|---|-------|---------|------|---------|---------------|\n`;
+  entries.forEach(entry => {
+    markdown += `| ${entry.number} | ${escapeTableCell(entry.query)} | ${escapeTableCell(entry.filters.join('; ') || '—')} | ${SEARCH_SORT_LABELS[entry.sort]} | ${entry.count.toLocaleString()} | ${formatTimestamp(entry.timestamp)} |\n`;
+  });
+
+  markdown += `\n## Search Terms as Run\n\n`;
+  entries.forEach(entry => {
+    markdown += `**#${entry.number}**\n`;
+    markdown += `- Search term: \`${entry.standaloneQuery}\`\n`;
+    if (entry.queryTranslation) {
+      markdown += `- PubMed translation: \`${entry.queryTranslation}\`\n`;
+    }
+    markdown += `\n`;
+  });
+
+  markdown += `## Notes\n\n`;
+  markdown += `- Searches referencing earlier lines (e.g. \`#1 AND #3\`) were expanded to the full search terms shown above before being run.\n`;
+  markdown += `- Result counts reflect PubMed on the date of searching and may change as records are added or re-indexed.\n`;
+
+  return markdown;
+}
+
+function exportJson(entries: SearchHistoryEntry[]): string {
+  const last = entries[entries.length - 1];
+
+  return JSON.stringify({
+    standard: 'PRISMA-S',
+    database: DATABASE_NAME,
+    interface: INTERFACE_NAME,
+    exportedAt: new Date().toISOString(),
+    datesSearched: searchDates(entries),
+    limits: [...new Set(entries.flatMap(entry => entry.filters))],
+    finalSearch: last.number,
+    recordsRetrieved: last.count,
+    searches: entries
+  }, null, 2);
+}
+
+// Export the session history (or selected searches) as a PRISMA-S appendix
+export function exportSearchHistory(format: SearchHistoryFormat = 'markdown', numbers?: number[]): string {
+  const entries = numbers && numbers.length > 0
+    ? numbers.map(number => {
+      const entry = history[number - 1];
+      if (!entry) {
+        throw new Error(`Search #${number} is not in the search history (${history.length} searches recorded)`);
+      }
+      return entry;
+    })
+    : history;
+
+  if (entries.length === 0) {
+    throw new Error('No searches recorded in this session');
+  }
+
+  return format === 'json' ? exportJson(entries) : exportMarkdown(entries);
+}
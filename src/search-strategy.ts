@@ -0,0 +1,155 @@
+import { CacheMode } from './cache.js';
+import { searchPubMed } from './pubmed-api.js';
+import { QueryDiagnostic, QueryNode, formatQuery, parseQuery } from './query-parser.js';
+
+// Search strategy diagnostics: splits a query into its concept blocks (the operands
+// of the top-level AND/NOT chain) and reports hit counts per block, per OR'd term
+// and cumulatively, in the shape of a line-numbered search history.
+
+export interface StrategyTermCount {
+  query: string;
+  count?: number; // Undefined when the term was not counted (see MAX_TERM_COUNTS)
+}
+
+export interface StrategyLine {
+  line: number; // Search number (#1, #2, ...)
+  kind: 'block' | 'combination';
+  description: string;
+  query: string;
+  count: number;
+  queryTranslation?: string;
+  errorList: string[];
+  warningList: string[];
+  terms?: StrategyTermCount[]; // Per-term counts for OR blocks
+  combines?: { left: number; operator: 'AND' | 'NOT'; right: number }; // Combination lines only
+}
+
+export interface SearchStrategyAnalysis {
+  query: string;
+  normalizedQuery: string;
+  lines: StrategyLine[];
+  finalCount: number;
+  diagnostics: QueryDiagnostic[]; // Linter warnings for the original query
+}
+
+export interface SearchStrategyOptions {
+  includeTermCounts?: boolean; // default true
+  cacheMode?: CacheMode;
+}
+
+interface ConceptBlock {
+  operator: 'AND' | 'NOT' | null; // How the block joins the blocks before it
+  node: QueryNode;
+}
+
+// Each count is one esearch request; long OR lists only get counts for the first terms
+const MAX_TERM_COUNTS = 25;
+
+// Operands of the top-level AND/NOT chain. PubMed evaluates left to right, so the
+// first operand of a nested AND/NOT is itself part of the chain.
+function conceptBlocks(node: QueryNode): ConceptBlock[] {
+  if (node.type === 'term' || node.operator === 'OR') {
+    return [{ operator: null, node }];
+  }
+
+  const [first, ...rest] = node.operands;
+  return [
+    ...conceptBlocks(first),
+    ...rest.map(operand => ({ operator: node.operator as 'AND' | 'NOT', node: operand }))
+  ];
+}
+
+function wrap(query: string, node: QueryNode): string {
+  return node.type === 'boolean' ? `(${query})` : query;
+}
+
+async function runCount(query: string, cacheMode: CacheMode) {
+  const result = await searchPubMed(query, 0, 0, { cacheMode });
+  return {
+    count: result.count,
+    queryTranslation: result.queryTranslation,
+    errorList: result.errorList || [],
+    warningList: result.warningList || []
+  };
+}
+
+// Break a query into concept blocks and count each block, each term of OR blocks,
+// and each cumulative combination
+export async function analyzeSearchStrategy(
+  query: string,
+  options: SearchStrategyOptions = {}
+): Promise<SearchStrategyAnalysis> {
+  const includeTermCounts = options.includeTermCounts ?? true;
+  const cacheMode = options.cacheMode ?? 'default';
+
+  const parsed = parseQuery(query);
+  if (!parsed.valid || !parsed.ast) {
+    const errors = parsed.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    throw new Error(`Cannot analyze query: ${errors.map(diagnostic => diagnostic.message).join('; ')}`);
+  }
+
+  try {
+    const blocks = conceptBlocks(parsed.ast);
+    const lines: StrategyLine[] = [];
+    let termBudget = includeTermCounts ? MAX_TERM_COUNTS : 0;
+
+    for (const [index, block] of blocks.entries()) {
+      const blockQuery = formatQuery(block.node);
+      const result = await runCount(blockQuery, cacheMode);
+      const line: StrategyLine = {
+        line: lines.length + 1,
+        kind: 'block',
+        description: `Concept block ${index + 1}`,
+        query: blockQuery,
+        ...result
+      };
+
+      if (includeTermCounts && block.node.type === 'boolean' && block.node.operator === 'OR') {
+        line.terms = [];
+        for (const operand of block.node.operands) {
+          const termQuery = formatQuery(operand);
+          if (termBudget > 0) {
+            termBudget--;
+            line.terms.push({ query: termQuery, count: (await runCount(termQuery, cacheMode)).count });
+          } else {
+            line.terms.push({ query: termQuery });
+          }
+        }
+      }
+
+      lines.push(line);
+    }
+
+    // Cumulative combinations: #1 AND #2, then that result AND #3, ...
+    const blockLines = [...lines];
+    let cumulativeQuery = wrap(blockLines[0].query, blocks[0].node);
+    let previousLine = blockLines[0].line;
+
+    for (let i = 1; i < blocks.length; i++) {
+      const operator = blocks[i].operator!;
+      cumulativeQuery = `${i > 1 ? `(${cumulativeQuery})` : cumulativeQuery} ${operator} ${wrap(blockLines[i].query, blocks[i].node)}`;
+      const result = await runCount(cumulativeQuery, cacheMode);
+
+      lines.push({
+        line: lines.length + 1,
+        kind: 'combination',
+        description: `#${previousLine} ${operator} #${blockLines[i].line}`,
+        query: cumulativeQuery,
+        ...result,
+        combines: { left: previousLine, operator, right: blockLines[i].line }
+      });
+      previousLine = lines.length;
+    }
+
+    return {
+      query,
+      normalizedQuery: formatQuery(parsed.ast),
+      lines,
+      finalCount: lines[lines.length - 1].count,
+      diagnostics: parsed.diagnostics.filter(diagnostic => diagnostic.severity === 'warning')
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Search strategy analysis failed: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,203 @@
+import { CacheMode, OfflineCacheMissError, getCached, setCached } from './cache.js';
+import { ELINK_URL, eutilsFetch } from './eutils-client.js';
+import { SimilarArticleResult, getArticleDetails } from './pubmed-api.js';
+
+// Similar-article discovery for a set of seed papers: fetches PubMed's
+// pubmed_pubmed neighbours for every seed, fuses their scores and ranks the
+// candidates by how many seeds they are close to. Used to expand searches for
+// systematic reviews from a handful of known-relevant papers.
+
+export type FusionMethod = 'sum' | 'max' | 'rrf';
+
+export type SetSimilaritySort = 'seed_count' | 'score';
+
+export interface SetSimilarityOptions {
+  method?: FusionMethod; // default: 'rrf'
+  sortBy?: SetSimilaritySort; // default: 'seed_count'
+  maxResults?: number; // default: 20
+  minSeeds?: number; // Only keep candidates near at least this many seeds (default: 1)
+  neighborsPerSeed?: number; // Top neighbours taken from each seed (default: 100)
+  cacheMode?: CacheMode;
+}
+
+export interface SeedSimilarity {
+  seed: string;
+  rank: number; // 1-based position in the seed's neighbour list
+  score: number; // PubMed similarity score
+}
+
+export interface SetSimilarCandidate extends Omit<SimilarArticleResult, 'similarityScore'> {
+  fusedScore: number;
+  seedCount: number;
+  seedScores: SeedSimilarity[];
+}
+
+export interface SetSimilarityResult {
+  seeds: string[];
+  method: FusionMethod;
+  sortBy: SetSimilaritySort;
+  totalCandidates: number; // Candidates passing minSeeds, before maxResults
+  candidates: SetSimilarCandidate[];
+  seedsWithoutNeighbors: string[];
+}
+
+interface Neighbor {
+  pmid: string;
+  score: number;
+}
+
+const DEFAULT_MAX_RESULTS = 20;
+const DEFAULT_NEIGHBORS_PER_SEED = 100;
+
+// Reciprocal rank fusion constant (Cormack et al., 2009)
+const RRF_K = 60;
+
+const ELINK_BATCH_SIZE = 100;
+
+// Fetch scored pubmed_pubmed neighbours for each seed. Seeds are posted as
+// repeated `id` parameters so that one request returns a link set per seed.
+async function fetchNeighbors(pmids: string[], cacheMode: CacheMode): Promise<Map<string, Neighbor[]>> {
+  const neighbors = new Map<string, Neighbor[]>();
+  const missing: string[] = [];
+
+  for (const pmid of pmids) {
+    const cached = await getCached<Neighbor[]>('links', `neighbors:${pmid}`, cacheMode);
+    if (cached) {
+      neighbors.set(pmid, cached);
+    } else {
+      missing.push(pmid);
+    }
+  }
+
+  if (missing.length > 0 && cacheMode === 'offline') {
+    throw new OfflineCacheMissError('links', missing.map(pmid => `neighbors:${pmid}`).join(','));
+  }
+
+  for (let i = 0; i < missing.length; i += ELINK_BATCH_SIZE) {
+    const batch = missing.slice(i, i + ELINK_BATCH_SIZE);
+    const response = await eutilsFetch(
+      ELINK_URL,
+      { dbfrom: 'pubmed', db: 'pubmed', linkname: 'pubmed_pubmed', cmd: 'neighbor_score', retmode: 'json' },
+      { method: 'POST', body: new URLSearchParams(batch.map((pmid): [string, string] => ['id', pmid])) }
+    );
+    if (!response.ok) {
+      throw new Error(`elink returned ${response.status}`);
+    }
+    const data: any = await response.json();
+
+    const found = new Map<string, Neighbor[]>();
+    for (const linkSet of Array.isArray(data?.linksets) ? data.linksets : []) {
+      const pmid = linkSet.ids?.[0] !== undefined ? String(linkSet.ids[0]) : undefined;
+      if (!pmid) continue;
+      const linkSetDbs: any[] = Array.isArray(linkSet.linksetdbs) ? linkSet.linksetdbs : [];
+      const links: any[] = linkSetDbs.find(linkSetDb => linkSetDb.linkname === 'pubmed_pubmed')?.links || [];
+      found.set(pmid, links
+        .map(link => ({ pmid: String(link.id ?? link), score: Number(link.score) || 0 }))
+        .filter(neighbor => neighbor.pmid !== pmid)
+        .sort((a, b) => b.score - a.score));
+    }
+
+    for (const pmid of batch) {
+      const list = found.get(pmid) || [];
+      neighbors.set(pmid, list);
+      await setCached('links', `neighbors:${pmid}`, list);
+    }
+  }
+
+  return neighbors;
+}
+
+// Combine one candidate's per-seed similarities into a single score. Raw
+// PubMed scores are normalized to each seed's best neighbour for 'sum' and
+// 'max' so that seeds with large neighbourhoods do not dominate.
+function fuseScores(similarities: SeedSimilarity[], method: FusionMethod, topScores: Map<string, number>): number {
+  const normalized = similarities.map(similarity => similarity.score / (topScores.get(similarity.seed) || 1));
+  switch (method) {
+    case 'sum':
+      return normalized.reduce((sum, score) => sum + score, 0);
+    case 'max':
+      return Math.max(...normalized);
+    default:
+      return similarities.reduce((sum, similarity) => sum + 1 / (RRF_K + similarity.rank), 0);
+  }
+}
+
+// Find articles similar to a set of seed PMIDs
+export async function findSimilarToSet(
+  seeds: string[],
+  options: SetSimilarityOptions = {}
+): Promise<SetSimilarityResult> {
+  const method = options.method ?? 'rrf';
+  const sortBy = options.sortBy ?? 'seed_count';
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const minSeeds = options.minSeeds ?? 1;
+  const neighborsPerSeed = options.neighborsPerSeed ?? DEFAULT_NEIGHBORS_PER_SEED;
+  const cacheMode = options.cacheMode ?? 'default';
+  const uniqueSeeds = [...new Set(seeds)];
+
+  try {
+    const neighbors = await fetchNeighbors(uniqueSeeds, cacheMode);
+    const seedSet = new Set(uniqueSeeds);
+
+    const similarities = new Map<string, SeedSimilarity[]>();
+    const topScores = new Map<string, number>();
+    for (const seed of uniqueSeeds) {
+      const list = (neighbors.get(seed) || []).filter(neighbor => !seedSet.has(neighbor.pmid)).slice(0, neighborsPerSeed);
+      topScores.set(seed, list[0]?.score || 1);
+      list.forEach((neighbor, index) => {
+        similarities.set(neighbor.pmid, [
+          ...(similarities.get(neighbor.pmid) || []),
+          { seed, rank: index + 1, score: neighbor.score }
+        ]);
+      });
+    }
+
+    const ranked = [...similarities.entries()]
+      .filter(([, seedScores]) => seedScores.length >= minSeeds)
+      .map(([pmid, seedScores]) => ({
+        pmid,
+        seedScores,
+        seedCount: seedScores.length,
+        fusedScore: Math.round(fuseScores(seedScores, method, topScores) * 10000) / 10000
+      }))
+      .sort((a, b) => sortBy === 'score'
+        ? b.fusedScore - a.fusedScore || b.seedCount - a.seedCount
+        : b.seedCount - a.seedCount || b.fusedScore - a.fusedScore);
+
+    const top = ranked.slice(0, maxResults);
+    const articles = new Map((await getArticleDetails(top.map(item => item.pmid), cacheMode)).map(article => [article.pmid, article]));
+
+    const candidates: SetSimilarCandidate[] = top
+      .filter(item => articles.has(item.pmid))
+      .map(item => {
+        const article = articles.get(item.pmid)!;
+        return {
+          pmid: article.pmid,
+          title: article.title,
+          authors: article.authors,
+          journal: article.journal,
+          publicationDate: article.publicationDate,
+          abstract: article.abstract,
+          doi: article.doi,
+          pmcId: article.pmcId,
+          editorialStatus: article.editorialStatus,
+          editorialNotices: article.editorialNotices,
+          fusedScore: item.fusedScore,
+          seedCount: item.seedCount,
+          seedScores: item.seedScores
+        };
+      });
+
+    return {
+      seeds: uniqueSeeds,
+      method,
+      sortBy,
+      totalCandidates: ranked.length,
+      candidates,
+      seedsWithoutNeighbors: uniqueSeeds.filter(seed => (neighbors.get(seed) || []).length === 0)
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to find articles similar to the set: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,21 @@
+// Bounded worker pool: runs `worker` over the items with at most `concurrency`
+// calls in flight. Requests still pass through the shared NCBI rate limiter, so
+// the pool only bounds how many operations wait on it at once.
+export async function runWorkerPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+}
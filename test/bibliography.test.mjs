@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { getCitationStyle, renderBibliography } from '../dist/bibliography.js';
+import { parsePubmedArticleSet } from '../dist/medline-parser.js';
+
+const [parsed] = await parsePubmedArticleSet(
+  readFileSync(new URL('./fixtures/book-articles.xml', import.meta.url), 'utf8')
+);
+
+// The fixture's book title exercises inline markup in the parser; references get a plain one
+const chapter = { ...parsed, journal: 'Fixture Reviews', book: { ...parsed.book, title: 'Fixture Reviews' } };
+
+const withEditors = editors => ({ ...chapter, book: { ...chapter.book, editors: chapter.book.editors.slice(0, editors) } });
+
+const reference = async (style, article = chapter) =>
+  renderBibliography([article], await getCitationStyle(style)).entries[0].reference;
+
+test('APA lists book editors initials first with Ed./Eds.', async () => {
+  assert.equal(
+    await reference('apa'),
+    'Jones, R. (1993). Fixture Syndrome Type 2(*). In M. P. Adam & J. Feldman (Eds.), Fixture Reviews. University of Fixtures. https://pubmed.ncbi.nlm.nih.gov/40404040/'
+  );
+  assert.match(await reference('apa', withEditors(1)), / In M\. P\. Adam \(Ed\.\), /);
+});
+
+test('numeric styles label one or several editors', async () => {
+  assert.match(await reference('vancouver'), / In: Adam MP, Feldman J, editors\. /);
+  assert.match(await reference('vancouver', withEditors(1)), / In: Adam MP, editor\. /);
+  assert.match(await reference('ama', withEditors(1)), / In: Adam MP, ed\. /);
+});
+
+test('editor groups are dropped without editors', async () => {
+  assert.doesNotMatch(await reference('apa', withEditors(0)), /\bIn\b/);
+  assert.doesNotMatch(await reference('harvard', withEditors(0)), /\(eds?\.\)/);
+});
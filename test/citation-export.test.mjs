@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportCitations } from '../dist/citation-export.js';
+
+// Stand-in for the Literature Citation Exporter, which only knows 36038128
+function stubLitCiter(t, body) {
+  t.mock.method(globalThis, 'fetch', async () => new Response(body, { status: 200 }));
+}
+
+test('LitCiter RIS exports report PMIDs without a record as not_found', async t => {
+  // 30105375 appears in the returned record, but not as its PMID
+  stubLitCiter(t, 'TY  - JOUR\nTI  - Known\nVL  - 30105375\nAN  - 36038128\nER  - \n');
+
+  const result = await exportCitations(['36038128', '30105375'], { format: 'ris', source: 'litciter' });
+
+  assert.equal(result.source, 'litciter');
+  assert.equal(result.exportedCount, 1);
+  assert.deepEqual(result.missingPmids, ['30105375']);
+  assert.deepEqual(result.items.map(item => [item.id, item.status]), [['36038128', 'ok'], ['30105375', 'not_found']]);
+});
+
+test('LitCiter MEDLINE and CSL-JSON exports are checked per record', async t => {
+  stubLitCiter(t, 'PMID- 36038128\nTI  - Known\n');
+  const medline = await exportCitations(['36038128', '30105375'], { format: 'medline', source: 'litciter' });
+  assert.deepEqual(medline.missingPmids, ['30105375']);
+
+  t.mock.restoreAll();
+  stubLitCiter(t, JSON.stringify([{ id: 'pmid:36038128', title: 'Known' }]));
+  const csl = await exportCitations(['36038128', '30105375'], { format: 'csl-json', source: 'litciter' });
+  assert.equal(csl.exportedCount, 1);
+  assert.deepEqual(csl.missingPmids, ['30105375']);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { matchCitations, parseReference, splitReferences } from '../dist/citation-matcher.js';
+
+test('parseReference reads Vancouver references with DOI and PMID', () => {
+  const parsed = parseReference('1. Zhou P, Yang XL, Wang XG, et al. A pneumonia outbreak associated with a new coronavirus of probable bat origin. Nature. 2020;579(7798):270-273. doi:10.1038/s41586-020-2012-7. PMID: 32015507');
+
+  assert.deepEqual(parsed.authors.map(author => [author.lastName, author.initials]), [['Zhou', 'P'], ['Yang', 'XL'], ['Wang', 'XG']]);
+  assert.equal(parsed.etAl, true);
+  assert.equal(parsed.title, 'A pneumonia outbreak associated with a new coronavirus of probable bat origin');
+  assert.equal(parsed.journal, 'Nature');
+  assert.deepEqual([parsed.year, parsed.volume, parsed.issue, parsed.firstPage, parsed.lastPage], ['2020', '579', '7798', '270', '273']);
+  assert.equal(parsed.doi, '10.1038/s41586-020-2012-7');
+  assert.equal(parsed.pmid, '32015507');
+});
+
+test('parseReference reads APA references and expands short page ranges', () => {
+  const apa = parseReference('Polack, F. P., Thomas, S. J., & Kitchin, N. (2020). Safety and efficacy of the BNT162b2 mRNA Covid-19 vaccine. New England Journal of Medicine, 383(27), 2603-2615. https://doi.org/10.1056/NEJMoa2034577');
+
+  assert.deepEqual(apa.authors.map(author => author.initials), ['FP', 'SJ', 'N']);
+  assert.equal(apa.title, 'Safety and efficacy of the BNT162b2 mRNA Covid-19 vaccine');
+  assert.equal(apa.journal, 'New England Journal of Medicine');
+  assert.deepEqual([apa.year, apa.volume, apa.issue, apa.firstPage, apa.lastPage], ['2020', '383', '27', '2603', '2615']);
+  assert.equal(apa.doi, '10.1056/NEJMoa2034577');
+
+  const vancouver = parseReference('Smith J. Fixture studies. J Fixtures 1998 Dec;12(4):101-9.');
+  assert.equal(vancouver.journal, 'J Fixtures');
+  assert.deepEqual([vancouver.firstPage, vancouver.lastPage], ['101', '109']);
+});
+
+test('splitReferences joins wrapped numbered references', () => {
+  assert.deepEqual(splitReferences('1. Smith J. First\nwrapped line.\n2. Jones R. Second.\n[3] Third.'), [
+    '1. Smith J. First wrapped line.',
+    '2. Jones R. Second.',
+    '[3] Third.'
+  ]);
+});
+
+test('splitReferences splits unnumbered lists on blank lines, else per line', () => {
+  assert.deepEqual(splitReferences('Smith J. First\nwrapped.\n\nJones R. Second.'), ['Smith J. First wrapped.', 'Jones R. Second.']);
+  assert.deepEqual(splitReferences('Smith J. First.\nJones R. Second.\n'), ['Smith J. First.', 'Jones R. Second.']);
+  assert.deepEqual(splitReferences(['1. A\n2. B', 'C']), ['1. A', '2. B', 'C']);
+});
+
+test('matchCitations falls back to ECitMatch when DOI lookups fail', async t => {
+  const journalXml = readFileSync(new URL('./fixtures/journal-articles.xml', import.meta.url), 'utf8');
+  const calls = [];
+  t.mock.method(globalThis, 'fetch', async url => {
+    const { pathname, searchParams } = new URL(String(url));
+    calls.push(pathname);
+    if (pathname.includes('idconv')) {
+      return new Response('Bad Request', { status: 400 });
+    }
+    if (pathname.endsWith('esearch.fcgi')) {
+      return searchParams.get('term').includes('[doi]')
+        ? new Response('Bad Request', { status: 400 })
+        : new Response('<eSearchResult><Count>0</Count><IdList></IdList></eSearchResult>');
+    }
+    if (pathname.endsWith('ecitmatch.cgi')) {
+      // Only the first line has a match
+      return new Response(searchParams.get('bdata').split('\r').map((line, index) => `${line}${index === 0 ? '10101010' : 'NOT_FOUND'}`).join('\n'));
+    }
+    return new Response(journalXml);
+  });
+
+  const result = await matchCitations([
+    'Smith JA. Expansion of CD4(+) T cells in Mus musculus exposed to CO(2). J Immunol Fixtures. 1998;12(4):101-9. doi:10.1000/lookup-down',
+    'Jones R. Unmatched fixture. Fixture Rev. 1999;2:10. doi:10.1000/other'
+  ], { cacheMode: 'refresh' });
+
+  assert.deepEqual(result.matches.map(match => [match.status, match.best?.sources]), [
+    ['matched', ['ecitmatch']],
+    ['not_found', undefined]
+  ]);
+  assert.equal(calls.filter(path => path.includes('idconv')).length, 1);
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertIds, parseIdentifier, resolvePmcIds, splitIdentifiers } from '../dist/id-converter.js';
+
+test('parseIdentifier recognizes prefixed, bare and URL identifiers', () => {
+  assert.deepEqual(parseIdentifier('36038128'), { input: '36038128', type: 'pmid', value: '36038128' });
+  assert.deepEqual(parseIdentifier('PMID: 36038128'), { input: 'PMID: 36038128', type: 'pmid', value: '36038128' });
+  assert.deepEqual(parseIdentifier('pmc7096066'), { input: 'pmc7096066', type: 'pmcid', value: 'PMC7096066' });
+  assert.equal(parseIdentifier('https://pmc.ncbi.nlm.nih.gov/articles/PMC7096066/').value, 'PMC7096066');
+  assert.equal(parseIdentifier('doi:10.1056/NEJMoa2034577.').value, '10.1056/NEJMoa2034577');
+  assert.equal(parseIdentifier('not an id'), undefined);
+});
+
+test('splitIdentifiers splits on commas, semicolons and whitespace', () => {
+  assert.deepEqual(splitIdentifiers(['PMC1, 2;3', ' 4 ']), ['PMC1', '2', '3', '4']);
+});
+
+test('splitIdentifiers keeps semicolons inside DOIs', () => {
+  const sici = '10.1002/(SICI)1097-0258(19980715)17:13<1495::AID-SIM863>3.0.CO;2-I';
+
+  assert.deepEqual(splitIdentifiers(`${sici}, 36038128`), [sici, '36038128']);
+  assert.deepEqual(splitIdentifiers(`${sici};PMC7096066;`), [sici, 'PMC7096066']);
+  assert.equal(parseIdentifier(splitIdentifiers(sici)[0]).value, sici);
+});
+
+test('resolvePmcIds reads bare numbers as PMC IDs when asked', async () => {
+  // No lookup is needed, so this runs offline
+  const result = await resolvePmcIds(['1234567', 'PMC7654321', 'PMC1234567'], 'offline', 'pmcid');
+
+  assert.deepEqual(result.pmcIds, ['PMC1234567', 'PMC7654321']);
+  assert.deepEqual(result.unresolved, []);
+  assert.deepEqual([...result.pmcIdByInput], [
+    ['1234567', 'PMC1234567'],
+    ['PMC7654321', 'PMC7654321'],
+    ['PMC1234567', 'PMC1234567']
+  ]);
+});
+
+// Stand-in for NCBI with the ID Converter down; `esearch` and `esummary` answer per request
+function stubNcbi(t, { esearch, esummary }) {
+  t.mock.method(globalThis, 'fetch', async url => {
+    const { pathname, searchParams } = new URL(String(url));
+    if (pathname.includes('idconv')) {
+      return new Response('Service Unavailable', { status: 503, headers: { 'retry-after': '0' } });
+    }
+    if (pathname.endsWith('esearch.fcgi')) {
+      return esearch(searchParams.get('term'));
+    }
+    return esummary(searchParams.get('id').split(','));
+  });
+}
+
+test('convertIds reports failed lookups per identifier', async t => {
+  stubNcbi(t, {
+    esearch: term => term.includes('[doi]')
+      ? new Response('Too Many Requests', { status: 429, headers: { 'retry-after': '0' } })
+      : Response.json({ esearchresult: { idlist: ['20202020'] } }),
+    esummary: () => Response.json({
+      result: { 20202020: { articleids: [{ idtype: 'pmc', value: 'PMC2020202' }] }, 30303030: { error: 'cannot get document summary' } }
+    })
+  });
+
+  const { records, unresolved } = await convertIds(['10.1000/limited', 'PMC2020202', '30303030'], { cacheMode: 'refresh' });
+
+  assert.deepEqual(records.map(record => [record.input, record.status, record.retryable]), [
+    ['10.1000/limited', 'rate_limited', true],
+    ['PMC2020202', 'ok', undefined],
+    // Not in the esummary answer, but the ID Converter never got to say either
+    ['30303030', 'upstream_error', true]
+  ]);
+  assert.equal(records[0].retryAfterSeconds, 60);
+  assert.match(records[2].error, /ID Converter returned 503/);
+  assert.equal(records[1].pmid, '20202020');
+  assert.deepEqual(unresolved, ['10.1000/limited', '30303030']);
+});
+
+test('convertIds keeps the PMID found by esearch when esummary fails', async t => {
+  stubNcbi(t, {
+    esearch: () => Response.json({ esearchresult: { idlist: ['40404040'] } }),
+    esummary: () => new Response('Bad Gateway', { status: 502, headers: { 'retry-after': '0' } })
+  });
+
+  const [record] = (await convertIds(['10.1000/summary-down'], { cacheMode: 'refresh' })).records;
+
+  assert.equal(record.status, 'upstream_error');
+  assert.equal(record.pmid, '40404040');
+  assert.equal(record.doi, '10.1000/summary-down');
+  assert.match(record.error, /esummary returned 502/);
+});
@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  normalizeDate,
+  parsePubmedArticleSet,
+  splitPubmedArticleSet
+} from '../dist/medline-parser.js';
+
+// Runs against the compiled output; `npm test` builds first
+
+const fixture = name => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+const journalXml = fixture('journal-articles.xml');
+const bookXml = fixture('book-articles.xml');
+
+test('flattens inline markup in titles, abstracts and affiliations', async () => {
+  const [article] = await parsePubmedArticleSet(journalXml);
+
+  assert.equal(article.title, 'Expansion of CD4(+) T cells in Mus musculus exposed to CO(2).');
+  assert.equal(
+    article.abstract,
+    'BACKGROUND: Levels of Ca(2+) were measured in all samples.\n\nRESULTS: Treatment with Drug® reduced H(2)O loss.'
+  );
+  assert.deepEqual(article.authorList[0].affiliations, ['Department of Fixtures, Example University.']);
+});
+
+test('maps journal article fields', async () => {
+  const [article] = await parsePubmedArticleSet(journalXml);
+
+  assert.equal(article.pmid, '10101010');
+  assert.equal(article.recordType, 'article');
+  assert.equal(article.journal, 'Journal of Immunology Fixtures');
+  assert.equal(article.journalAbbreviation, 'J Immunol Fixtures');
+  assert.equal(article.volume, '12');
+  assert.equal(article.issue, '4');
+  assert.equal(article.pages, '101-9');
+  assert.equal(article.doi, '10.1000/fixture.1998.12');
+  assert.equal(article.pmcId, 'PMC1010101');
+  assert.deepEqual(article.authors, ['Jane A Smith', 'Fixture Study Group']);
+  assert.equal(article.authorList[0].orcid, '0000-0002-1825-009X');
+  assert.equal(article.authorList[1].collectiveName, 'Fixture Study Group');
+  assert.deepEqual(article.meshHeadings, [{
+    descriptor: 'CD4-Positive T-Lymphocytes',
+    descriptorUi: 'D015496',
+    majorTopic: true,
+    qualifiers: [{ name: 'physiology', ui: 'Q000502', majorTopic: false }]
+  }]);
+});
+
+test('normalizes MedlineDate and Season publication dates', async () => {
+  const [retracted, notice] = await parsePubmedArticleSet(journalXml);
+
+  assert.deepEqual(retracted.pubDate, { iso: '1998-12', precision: 'month', raw: '1998 Dec-1999 Jan' });
+  assert.equal(retracted.publicationDate, '1998 Dec-1999 Jan');
+  assert.deepEqual(notice.pubDate, { iso: '2001', precision: 'year', raw: '2001 Spring' });
+  assert.deepEqual(notice.electronicPubDate, { iso: '2001-03-07', precision: 'day', raw: '2001 03 07' });
+  assert.equal(notice.pages, '200-201');
+});
+
+test('normalizeDate handles structured, MedlineDate and invalid dates', () => {
+  assert.deepEqual(normalizeDate({ Year: '2020', Month: 'Feb', Day: '3' }), { iso: '2020-02-03', precision: 'day', raw: '2020 Feb 3' });
+  assert.deepEqual(normalizeDate({ Year: '2020', Month: '13' }), { iso: '2020', precision: 'year', raw: '2020 13' });
+  assert.deepEqual(normalizeDate({ Year: '2019', Season: 'Winter' }), { iso: '2019', precision: 'year', raw: '2019 Winter' });
+  assert.deepEqual(normalizeDate({ MedlineDate: '2000 Spring' }), { iso: '2000', precision: 'year', raw: '2000 Spring' });
+  assert.deepEqual(normalizeDate({ MedlineDate: '2015 Jun 12-18' }), { iso: '2015-06-12', precision: 'day', raw: '2015 Jun 12-18' });
+  assert.deepEqual(normalizeDate({ MedlineDate: '1999-2000' }), { iso: '1999', precision: 'year', raw: '1999-2000' });
+  assert.equal(normalizeDate({ MedlineDate: 'Unknown' }), undefined);
+  assert.equal(normalizeDate(undefined), undefined);
+});
+
+test('reads CommentsCorrections into links and editorial status', async () => {
+  const [retracted, notice] = await parsePubmedArticleSet(journalXml);
+
+  assert.deepEqual(retracted.commentsCorrections, [
+    { refType: 'RetractionIn', source: 'J Immunol Fixtures. 2001;15(2):200', pmid: '20202020', note: undefined },
+    { refType: 'ErratumIn', source: 'J Immunol Fixtures. 1999;13(1):5', pmid: undefined, note: undefined },
+    { refType: 'CommentIn', source: 'Fixture Rev. 1999;2:10', pmid: '30303030', note: undefined }
+  ]);
+  assert.equal(retracted.editorialStatus, 'retracted');
+  assert.deepEqual(retracted.editorialNotices.map(item => [item.kind, item.direction, item.pmid]), [
+    ['retraction', 'in', '20202020'],
+    ['erratum', 'in', undefined]
+  ]);
+  assert.equal(retracted.editorialNotices[0].url, 'https://pubmed.ncbi.nlm.nih.gov/20202020/');
+
+  assert.equal(notice.editorialStatus, 'retraction_notice');
+  assert.deepEqual(notice.editorialNotices.map(item => [item.kind, item.direction, item.pmid]), [
+    ['retraction', 'of', '10101010']
+  ]);
+});
+
+test('parses PubmedBookArticle records with authors and editors', async () => {
+  const [chapter] = await parsePubmedArticleSet(bookXml);
+
+  assert.equal(chapter.pmid, '40404040');
+  assert.equal(chapter.recordType, 'book');
+  assert.equal(chapter.title, 'Fixture Syndrome Type 2(*)');
+  assert.equal(chapter.journal, 'FixtureReviews');
+  assert.deepEqual(chapter.authors, ['Robert Jones']);
+  assert.deepEqual(chapter.pubDate, { iso: '1993', precision: 'year', raw: '1993' });
+  assert.equal(chapter.abstract, 'CLINICAL CHARACTERISTICS: Fixture syndrome is characterized by findings.');
+  assert.deepEqual(chapter.publicationTypes, ['Review']);
+  assert.equal(chapter.editorialStatus, 'none');
+  assert.equal(chapter.book.publisher, 'University of Fixtures');
+  assert.equal(chapter.book.publisherLocation, 'Seattle (WA)');
+  assert.equal(chapter.book.collectionTitle, 'Fixture Reviews Collection');
+  assert.equal(chapter.book.bookAccession, 'NBK1116');
+  assert.equal(chapter.book.locationLabel, 'Chapter 3');
+  assert.deepEqual(chapter.book.editors.map(editor => [editor.lastName, editor.initials]), [
+    ['Adam', 'MP'],
+    ['Feldman', 'J']
+  ]);
+});
+
+test('splitPubmedArticleSet keys records by their own PMID', () => {
+  const records = splitPubmedArticleSet(journalXml + bookXml);
+
+  // The first record links to 20202020 and 30303030 in CommentsCorrections
+  assert.deepEqual(records.map(record => record.pmid), ['10101010', '20202020', '40404040']);
+  assert.match(records[0].xml, /^<PubmedArticle>[\s\S]*<\/PubmedArticle>$/);
+  assert.match(records[2].xml, /^<PubmedBookArticle>[\s\S]*<\/PubmedBookArticle>$/);
+});
+
+test('parses a bare sequence of records in document order', async () => {
+  const [first, second, book] = splitPubmedArticleSet(journalXml + bookXml);
+  const articles = await parsePubmedArticleSet(book.xml + second.xml + first.xml);
+
+  assert.deepEqual(articles.map(article => article.pmid), ['40404040', '20202020', '10101010']);
+});
+
+test('returns no records for an empty set', async () => {
+  assert.deepEqual(await parsePubmedArticleSet('<PubmedArticleSet></PubmedArticleSet>'), []);
+  assert.deepEqual(splitPubmedArticleSet(''), []);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { setCached } from '../dist/cache.js';
+import { fetchSearchPage, processBatchChunk, risRecordPmids } from '../dist/pubmed-api.js';
+
+// Chunks run offline against records seeded into the in-memory cache
+
+test('full_text credits every PMID that shares a PMCID', async () => {
+  await setCached('fulltext', 'PMC1010101', readFileSync(new URL('./fixtures/pmc-article.xml', import.meta.url), 'utf8'));
+  for (const pmid of ['10101010', '10101011']) {
+    await setCached('ids', `pmid:${pmid}`, { pmid, pmcid: 'PMC1010101', source: 'idconv' });
+  }
+  await setCached('ids', 'pmid:20202020', { pmid: '20202020', source: 'esummary' });
+
+  const { results, items } = await processBatchChunk('full_text', ['10101010', '10101011', '20202020'], 'offline');
+
+  assert.deepEqual(items.map(item => [item.id, item.status]), [
+    ['10101010', 'ok'],
+    ['10101011', 'ok'],
+    ['20202020', 'no_full_text']
+  ]);
+  assert.deepEqual(results.fullTexts.map(article => article.pmcId), ['PMC1010101']);
+});
+
+test('risRecordPmids reads the PMID field of each record', () => {
+  const ris = [
+    'TY  - JOUR\nTI  - First\nVL  - 20202020\nSP  - 10101010\nDO  - 10.1000/30303030\nAN  - 36038128\nER  - ',
+    'TY  - JOUR\nTI  - Second\nID  - PMID: 30105375\nER  - ',
+    'TY  - JOUR\nTI  - Without PMID\nPY  - 2020\nER  - '
+  ].join('\n');
+
+  assert.deepEqual(risRecordPmids(ris), ['36038128', '30105375']);
+});
+
+// Stand-in for the history server: a stored search of three PMIDs
+function stubHistoryServer(t, esummary) {
+  const calls = [];
+  t.mock.method(globalThis, 'fetch', async url => {
+    const { pathname, searchParams } = new URL(String(url));
+    calls.push(pathname);
+    if (pathname.endsWith('esearch.fcgi')) {
+      return new Response('<eSearchResult><Count>3</Count><IdList></IdList></eSearchResult>');
+    }
+    return new Response(esummary(searchParams));
+  });
+  return calls;
+}
+
+const docSum = pmid => `<DocSum><Id>${pmid}</Id><Item Name="Title" Type="String">Title ${pmid}</Item></DocSum>`;
+
+test('fetchSearchPage reports an expired WebEnv', async t => {
+  stubHistoryServer(t, () => '<eSummaryResult><ERROR>Unable to obtain query #1</ERROR></eSummaryResult>');
+
+  await assert.rejects(fetchSearchPage('expired', '1', 0, 3), /History server error: Unable to obtain query #1/);
+});
+
+test('fetchSearchPage retries a short chunk, then fails instead of ending early', async t => {
+  const calls = stubHistoryServer(t, () => `<eSummaryResult>${docSum('1')}${docSum('2')}</eSummaryResult>`);
+
+  await assert.rejects(fetchSearchPage('webenv', '1', 0, 3), /returned 2 of 3 records at offset 0/);
+  assert.equal(calls.filter(path => path.endsWith('esummary.fcgi')).length, 2);
+});
+
+test('fetchSearchPage stops at the end of the results', async t => {
+  stubHistoryServer(t, params => `<eSummaryResult>${['1', '2', '3'].slice(Number(params.get('retstart'))).map(docSum).join('')}</eSummaryResult>`);
+
+  const page = await fetchSearchPage('webenv', '1', 1, 5);
+  assert.deepEqual(page.pmids, ['2', '3']);
+  assert.equal(page.count, 3);
+  assert.equal(page.nextStart, undefined);
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatQuery, parseQuery, validateQuery } from '../dist/query-parser.js';
+
+const codes = query => parseQuery(query).diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code]);
+
+test('reads date ranges with and without spaces', () => {
+  const compact = validateQuery('2020:2023[dp]');
+  assert.equal(compact.valid, true);
+  assert.deepEqual(compact.terms.map(term => [term.text, term.field]), [['2020:2023', 'dp']]);
+
+  const spaced = parseQuery('"2020/01/01"[dp] : "2020/12/31"[dp]');
+  assert.equal(spaced.valid, true);
+  assert.equal(spaced.ast.text, '2020/01/01');
+  assert.equal(spaced.ast.rangeEnd.text, '2020/12/31');
+  assert.equal(formatQuery(spaced.ast), '"2020/01/01"[dp] : "2020/12/31"[dp]');
+
+  assert.deepEqual(codes('2020[dp] :'), [['error', 'invalid_range']]);
+});
+
+test('accepts proximity only on quoted phrases in [ti], [tiab] and [ad]', () => {
+  const { ast, valid } = parseQuery('"breast cancer"[tiab:~3]');
+  assert.equal(valid, true);
+  assert.equal(ast.proximity, 3);
+  assert.equal(formatQuery(ast), '"breast cancer"[tiab:~3]');
+
+  assert.deepEqual(codes('"cancer"[tiab:~3]'), [['error', 'invalid_proximity']]);
+  assert.deepEqual(codes('"breast cancer"[mh:~2]'), [['error', 'invalid_proximity']]);
+});
+
+test('formatQuery makes left-to-right grouping of mixed operators explicit', () => {
+  assert.equal(validateQuery('a OR b AND c').normalized, '(a OR b) AND c');
+  assert.equal(validateQuery('a AND b OR c NOT d').normalized, '((a AND b) OR c) NOT d');
+  assert.equal(validateQuery('a NOT (b OR c)').normalized, 'a NOT (b OR c)');
+  assert.equal(validateQuery('(a OR b) AND (c OR d)').normalized, '(a OR b) AND (c OR d)');
+
+  assert.deepEqual(codes('a OR b AND c'), [['warning', 'mixed_operators']]);
+  assert.deepEqual(codes('a AND b NOT c'), []);
+});
+
+test('reports unbalanced quotes, brackets and parentheses as errors', () => {
+  assert.deepEqual(codes('"breast cancer'), [['error', 'unbalanced_quotes']]);
+  assert.deepEqual(codes('cancer[tiab'), [['error', 'unterminated_tag']]);
+  assert.deepEqual(codes('cancer] AND therapy'), [['error', 'unbalanced_brackets']]);
+  assert.deepEqual(codes('(a OR b'), [['error', 'unbalanced_parentheses']]);
+  assert.deepEqual(codes('a) OR b'), [['error', 'unbalanced_parentheses']]);
+
+  const result = validateQuery('"breast cancer');
+  assert.equal(result.valid, false);
+  assert.equal(result.normalized, undefined);
+});
+
+test('warns about unknown field tags and modifiers without failing', () => {
+  const unknown = validateQuery('cancer[xyz]');
+  assert.equal(unknown.valid, true);
+  assert.deepEqual(codes('cancer[xyz]'), [['warning', 'unknown_field_tag']]);
+  assert.equal(unknown.normalized, 'cancer[xyz]');
+  assert.deepEqual(unknown.fieldsUsed, []);
+
+  assert.deepEqual(codes('cancer[tiab:foo]'), [['warning', 'invalid_modifier']]);
+});
+
+test('keeps real PubMed queries valid', () => {
+  const queries = {
+    '"COVID-19"[MeSH Terms] AND ("vaccine*"[tiab] OR vaccination[tiab]) AND 2021:2023[pdat]':
+      '"COVID-19"[mh] AND ("vaccine*"[tiab] OR vaccination[tiab]) AND 2021:2023[dp]',
+    'smith j[au] AND "j immunol"[ta] AND english[la] AND review[pt]':
+      'smith j[au] AND "j immunol"[ta] AND english[la] AND review[pt]',
+    'asthma[majr] AND (child* OR adolescen*) AND "randomized controlled trial"[pt]':
+      'asthma[majr] AND (child* OR adolescen*) AND "randomized controlled trial"[pt]',
+    '"neoplasms"[mh:noexp] AND humans[mh] AND free full text[sb]':
+      '"neoplasms"[mh:noexp] AND humans[mh] AND free full text[sb]'
+  };
+
+  for (const [query, normalized] of Object.entries(queries)) {
+    const result = validateQuery(query);
+    assert.equal(result.valid, true, query);
+    assert.deepEqual(result.diagnostics.filter(diagnostic => diagnostic.severity !== 'info'), [], query);
+    assert.equal(result.normalized, normalized);
+  }
+});
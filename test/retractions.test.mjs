@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { checkRetractions } from '../dist/retractions.js';
+
+const journalXml = readFileSync(new URL('./fixtures/journal-articles.xml', import.meta.url), 'utf8');
+
+test('checkRetractions still checks RIS records after a failed DOI lookup', async t => {
+  t.mock.method(globalThis, 'fetch', async url => {
+    const { pathname, searchParams } = new URL(String(url));
+    if (pathname.endsWith('esearch.fcgi')) {
+      return searchParams.get('term').includes('10.1000/limited')
+        ? new Response('Too Many Requests', { status: 429, headers: { 'retry-after': '0' } })
+        : new Response('<eSearchResult><Count>1</Count><IdList><Id>10101010</Id></IdList></eSearchResult>');
+    }
+    return new Response(journalXml);
+  });
+
+  const ris = [
+    'TY  - JOUR\nTI  - Rate limited\nDO  - 10.1000/limited\nER  - ',
+    'TY  - JOUR\nTI  - Retracted\nDO  - 10.1000/fixture.1998.12\nER  - '
+  ].join('\n');
+  const result = await checkRetractions({ ris }, { cacheMode: 'refresh' });
+
+  assert.deepEqual(result.flagged.map(item => item.pmid), ['10101010']);
+  assert.deepEqual(result.items.map(item => [item.id, item.status, item.retryable]), [
+    ['10.1000/limited', 'rate_limited', true],
+    ['10101010', 'ok', false]
+  ]);
+  assert.deepEqual(result.unresolved, []);
+});